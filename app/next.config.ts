@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native modules used by the render API; they are loaded from node_modules rather than bundled.
+  serverExternalPackages: ["@napi-rs/canvas", "node-web-audio-api"],
 };
 
 export default nextConfig;
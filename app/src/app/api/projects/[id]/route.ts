@@ -0,0 +1,56 @@
+import { ProjectFileError, readProjectFile } from "../../../../core/project";
+import { RequestBodyError, readJsonBody } from "../../../../server/requests";
+import {
+  MAX_SHARED_PROJECT_SIZE,
+  SharedProjectError,
+  readSharedProject,
+  updateSharedProject,
+} from "../../../../server/sharedProjects";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** The shared project file, as the player loads it. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const contents = await readSharedProject((await params).id);
+  if (contents === null) {
+    return Response.json({ error: "No shared project with that id." }, { status: 404 });
+  }
+  return new Response(contents, {
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-cache" },
+  });
+}
+
+/**
+ * Replaces a shared project, keeping its links. The body is a project file;
+ * `Authorization: Bearer <owner key>` must carry the key it was shared with,
+ * and it is limited to MAX_SHARED_PROJECT_SIZE like a new share.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const ownerKey = /^Bearer (.+)$/.exec(request.headers.get("authorization") ?? "")?.[1];
+  if (!ownerKey) {
+    return Response.json({ error: "Updating a share needs its owner key." }, { status: 401 });
+  }
+  let value: unknown;
+  try {
+    value = await readJsonBody(request, MAX_SHARED_PROJECT_SIZE);
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+  try {
+    const links = await updateSharedProject((await params).id, ownerKey, readProjectFile(value));
+    return Response.json(links);
+  } catch (error) {
+    if (error instanceof ProjectFileError) {
+      return Response.json({ error: error.message, path: error.path }, { status: 400 });
+    }
+    if (error instanceof SharedProjectError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+import { ProjectFileError, readProjectFile } from "../../../core/project";
+import { RequestBodyError, readJsonBody } from "../../../server/requests";
+import { MAX_SHARED_PROJECT_SIZE, shareProject } from "../../../server/sharedProjects";
+
+export const runtime = "nodejs";
+
+/**
+ * Shares a project for playback under a new id. The body is a project file
+ * as the editor exports it. Responds with the player and embed links and the
+ * owner key that `PUT /api/projects/<id>` needs to update it. Bodies past
+ * MAX_SHARED_PROJECT_SIZE get a 413.
+ */
+export async function POST(request: Request) {
+  let value: unknown;
+  try {
+    value = await readJsonBody(request, MAX_SHARED_PROJECT_SIZE);
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+  try {
+    const links = await shareProject(readProjectFile(value));
+    return Response.json(links, {
+      status: 201,
+      headers: { Location: `/api/projects/${links.id}` },
+    });
+  } catch (error) {
+    if (error instanceof ProjectFileError) {
+      return Response.json({ error: error.message, path: error.path }, { status: 400 });
+    }
+    throw error;
+  }
+}
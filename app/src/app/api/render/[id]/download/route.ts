@@ -0,0 +1,24 @@
+import { createReadStream } from "node:fs";
+import { Readable } from "node:stream";
+import { MIME_TYPES, getServerRenderJob } from "../../../../../server/renderJobs";
+
+export const runtime = "nodejs";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const job = getServerRenderJob((await params).id);
+  if (!job) return Response.json({ error: "No render job with that id." }, { status: 404 });
+  if (!job.filePath) {
+    return Response.json(
+      { error: job.status === "failed" ? job.error : "The render has not finished yet." },
+      { status: 409 },
+    );
+  }
+  const stream = Readable.toWeb(createReadStream(job.filePath)) as ReadableStream<Uint8Array>;
+  return new Response(stream, {
+    headers: {
+      "Content-Type": MIME_TYPES[job.format],
+      "Content-Disposition": `attachment; filename="${job.fileName}"`,
+      ...(job.size === null ? {} : { "Content-Length": String(job.size) }),
+    },
+  });
+}
@@ -0,0 +1,10 @@
+import { getServerRenderJob, toJobResponse } from "../../../../server/renderJobs";
+
+export const runtime = "nodejs";
+
+/** The job's status and progress; `downloadUrl` is set once the file is ready. */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const job = getServerRenderJob((await params).id);
+  if (!job) return Response.json({ error: "No render job with that id." }, { status: 404 });
+  return Response.json(toJobResponse(job));
+}
@@ -0,0 +1,58 @@
+import type { ExportFormat } from "../../../core/exportFormats";
+import { EXPORT_FORMAT_OPTIONS, createExportSettings } from "../../../core/exportFormats";
+import { ProjectFileError, readProjectFile } from "../../../core/project";
+import {
+  MAX_RENDER_REQUEST_SIZE,
+  ServerRenderError,
+  enqueueServerRender,
+  toJobResponse,
+} from "../../../server/renderJobs";
+import { RequestBodyError, getClientKey, readJsonBody } from "../../../server/requests";
+
+export const runtime = "nodejs";
+
+const FORMATS = EXPORT_FORMAT_OPTIONS.map((option) => option.value);
+
+/**
+ * Queues a headless render. The body is a project file as the editor exports
+ * it; `?format=` picks mp4 (the default), webm, gif or png-sequence. Responds
+ * with the job, whose `statusUrl` can be polled until it is done. Oversized
+ * bodies get a 413, projects past the server's limits a 422 and clients with
+ * too many jobs waiting a 429.
+ */
+export async function POST(request: Request) {
+  const format = new URL(request.url).searchParams.get("format") ?? "mp4";
+  if (!FORMATS.includes(format as ExportFormat)) {
+    return Response.json(
+      { error: `Unknown format "${format}". Expected one of ${FORMATS.join(", ")}.` },
+      { status: 400 },
+    );
+  }
+  let value: unknown;
+  try {
+    value = await readJsonBody(request, MAX_RENDER_REQUEST_SIZE);
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+  try {
+    const project = readProjectFile(value);
+    const job = enqueueServerRender(
+      project,
+      { ...createExportSettings(), format: format as ExportFormat },
+      getClientKey(request),
+    );
+    const body = toJobResponse(job);
+    return Response.json(body, { status: 202, headers: { Location: body.statusUrl } });
+  } catch (error) {
+    if (error instanceof ProjectFileError) {
+      return Response.json({ error: error.message, path: error.path }, { status: 400 });
+    }
+    if (error instanceof ServerRenderError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
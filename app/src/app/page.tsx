@@ -4,180 +4,466 @@ import NextImage from "next/image";
 import type { ChangeEvent } from "react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import clsx from "clsx";
+import AssetLibraryPanel from "../components/AssetLibraryPanel";
+import BackgroundVideoEditor from "../components/BackgroundVideoEditor";
+import type { BumperPart } from "../components/BrandKitPanel";
+import BrandKitPanel from "../components/BrandKitPanel";
+import CaptionDownloads from "../components/CaptionDownloads";
+import DiagnosticsPanel from "../components/DiagnosticsPanel";
+import ExportSettingsPanel from "../components/ExportSettingsPanel";
+import GradientEditor from "../components/GradientEditor";
+import MotionEditor from "../components/MotionEditor";
+import OutputSettingsPanel from "../components/OutputSettingsPanel";
+import ProjectMenu from "../components/ProjectMenu";
+import RenderQueuePanel from "../components/RenderQueuePanel";
+import LayerCanvasOverlay from "../components/LayerCanvasOverlay";
+import LayerPanel from "../components/LayerPanel";
+import MediaBackdropEditor from "../components/MediaBackdropEditor";
+import SoundtrackPanel from "../components/SoundtrackPanel";
+import TimelineEditor from "../components/TimelineEditor";
+import SceneBulkEditor from "../components/SceneBulkEditor";
+import type { SceneImportMode } from "../components/SceneImportDialog";
+import SceneImportDialog from "../components/SceneImportDialog";
+import type { SelectionMode } from "../components/SceneList";
+import SceneList from "../components/SceneList";
+import SceneStyleEditor from "../components/SceneStyleEditor";
+import ShareDialog from "../components/ShareDialog";
+import TemplateGallery from "../components/TemplateGallery";
+import ThemePanel from "../components/ThemePanel";
+import VoiceOverEditor from "../components/VoiceOverEditor";
+import type { LibraryAsset } from "../core/assets";
+import { countAssetUsage, getAssetRef, resolveMediaSrc } from "../core/assets";
+import type { AudioSettings } from "../core/audio";
+import { playAudioMix, renderAudioMix } from "../core/audioMix";
+import { BACKGROUND_TYPE_OPTIONS, createGradient } from "../core/backgrounds";
+import {
+  BRAND_COLORS_LIST_ID,
+  addBumpers,
+  getSlideFonts,
+  mergeFonts,
+  toBumperSlides,
+} from "../core/brandKit";
+import {
+  CAPTION_FILE_TYPES,
+  createSlidesFromCues,
+  describeFrame,
+  parseCaptions,
+} from "../core/captions";
+import { checkTitleContrast, passesContrast } from "../core/contrast";
+import type { Diagnostic, DiagnosticsInput } from "../core/diagnostics";
+import { runDiagnostics } from "../core/diagnostics";
+import type { ExportSettings } from "../core/exportFormats";
+import { createExportSettings, getExportFormatOption } from "../core/exportFormats";
+import { downloadBlob } from "../core/files";
+import type { CustomFont } from "../core/fonts";
+import { registerFonts } from "../core/fonts";
+import { generateId } from "../core/ids";
+import type { Layer, LayerKind } from "../core/layers";
+import { createImageLayer, createLayer, duplicateLayer } from "../core/layers";
+import type { OutputSettings } from "../core/output";
+import { getSafeArea } from "../core/output";
+import { createDrawQueue, playTimeline, renderFrame } from "../core/renderer";
+import type { Project } from "../core/project";
+import {
+  createProject,
+  getProjectFileName,
+  parseProjectFile,
+  serializeProject,
+} from "../core/project";
+import type { AutosaveStatus, ProjectSummary } from "../core/projectStore";
+import {
+  deleteProject,
+  listProjects,
+  loadProject,
+  loadShareOwnership,
+  saveProject,
+  saveShareOwnership,
+} from "../core/projectStore";
+import type { SharedProjectLinks } from "../core/sharing";
+import { publishProject } from "../core/sharing";
+import type { Slide } from "../core/slides";
+import {
+  createSlide,
+  duplicateSlide,
+  getPosterTime,
+  getSlideLabel,
+  moveSlides,
+} from "../core/slides";
+import type { TemplateId } from "../core/templates";
+import { createTemplateProject } from "../core/templates";
+import type { ThemeId, ThemeOverrides } from "../core/themes";
+import { applyThemeLayout, getTheme, positionTextLayers, resolveSlideStyle } from "../core/themes";
+import type { SlideTransition } from "../core/transitions";
+import { buildTimeline, getTimelineDuration, resolveFrame } from "../core/transitions";
+import { createBackgroundVideo, readVideoDuration } from "../core/video";
+import { useAssetLibrary } from "../hooks/useAssetLibrary";
+import { useBrandKit } from "../hooks/useBrandKit";
+import { useHistory } from "../hooks/useHistory";
+import { useRenderQueue } from "../hooks/useRenderQueue";
 
-type Slide = {
-  id: string;
-  title: string;
-  subtitle: string;
-  duration: number;
-  backgroundType: "color" | "image";
-  backgroundValue: string;
-};
-
-const VIDEO_FPS = 30;
-const CANVAS_WIDTH = 1280;
-const CANVAS_HEIGHT = 720;
-
-const generateId = () => {
-  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
-    return crypto.randomUUID();
-  }
-  return Math.random().toString(36).slice(2);
-};
-
-const createDefaultSlides = (): Slide[] => [
-  {
-    id: generateId(),
-    title: "Welcome to Your Story",
-    subtitle: "Craft a narrative with visuals and motion in seconds.",
-    duration: 3,
-    backgroundType: "color",
-    backgroundValue: "#111827",
-  },
-  {
-    id: generateId(),
-    title: "Add Your Highlights",
-    subtitle: "Combine images, captions, and pacing to match your voice.",
-    duration: 3,
-    backgroundType: "color",
-    backgroundValue: "#1f2937",
-  },
-  {
-    id: generateId(),
-    title: "Download and Share",
-    subtitle: "Export your cinematic summary as a shareable video.",
-    duration: 3,
-    backgroundType: "color",
-    backgroundValue: "#312e81",
-  },
-];
+const AUTOSAVE_DELAY = 800;
+
+type ProjectInfo = Pick<Project, "id" | "name" | "createdAt">;
 
 export default function Home() {
-  const [slides, setSlides] = useState<Slide[]>(() => createDefaultSlides());
+  const [initialProject] = useState(() => createProject());
+  const [projectInfo, setProjectInfo] = useState<ProjectInfo>(() => ({
+    id: initialProject.id,
+    name: initialProject.name,
+    createdAt: initialProject.createdAt,
+  }));
+  const {
+    present: slides,
+    set: setSlides,
+    undo,
+    redo,
+    reset: resetSlides,
+    canUndo,
+    canRedo,
+  } = useHistory<Slide[]>(initialProject.slides);
   const [selectedId, setSelectedId] = useState<string>(() => slides[0]?.id ?? "");
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => [selectedId]);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [sceneFocusRequest, setSceneFocusRequest] = useState<{ slideId: string } | null>(null);
+  const [audio, setAudio] = useState<AudioSettings>(initialProject.audio);
+  const [output, setOutput] = useState<OutputSettings>(initialProject.output);
+  const [themeId, setThemeId] = useState<ThemeId>(initialProject.themeId);
+  const [fonts, setFonts] = useState<CustomFont[]>(initialProject.fonts);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [isSceneImportOpen, setIsSceneImportOpen] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [shareLinks, setShareLinks] = useState<SharedProjectLinks | null>(null);
+  const [isRestored, setIsRestored] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<AutosaveStatus>("idle");
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const [projectError, setProjectError] = useState<string | null>(null);
   const [isPreviewing, setIsPreviewing] = useState(false);
-  const [isRendering, setIsRendering] = useState(false);
   const [renderError, setRenderError] = useState<string | null>(null);
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [progress, setProgress] = useState(0);
+  const [diagnosticsReport, setDiagnosticsReport] = useState<{
+    input: DiagnosticsInput;
+    diagnostics: Diagnostic[];
+    /** Generate ran this check and its errors stopped the export. */
+    isBlocked: boolean;
+  } | null>(null);
+  const [isCheckingExport, setIsCheckingExport] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(createExportSettings);
+  const renderQueue = useRenderQueue();
+  const library = useAssetLibrary(initialProject.id);
+  const brand = useBrandKit();
+  const [playhead, setPlayhead] = useState(0);
+  const [queueDraw] = useState(createDrawQueue);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const previewRunningRef = useRef(false);
+  const previewAudioRef = useRef<AudioContext | null>(null);
 
   const selectedSlide = useMemo(
     () => slides.find((slide) => slide.id === selectedId) ?? slides[0] ?? null,
     [slides, selectedId],
   );
 
+  const selectedSlides = useMemo(
+    () => slides.filter((slide) => selectedIds.includes(slide.id)),
+    [slides, selectedIds],
+  );
+
+  const theme = useMemo(() => getTheme(themeId), [themeId]);
+  const timeline = useMemo(
+    () => buildTimeline(slides, theme, brand.kit.logo),
+    [brand.kit.logo, slides, theme],
+  );
+  // Brand fonts are offered alongside the project's own uploads.
+  const availableFonts = useMemo(
+    () => mergeFonts(fonts, brand.kit.fonts),
+    [brand.kit.fonts, fonts],
+  );
+  const safeArea = useMemo(() => getSafeArea(output.width, output.height), [output]);
+  const totalDuration = useMemo(() => getTimelineDuration(timeline), [timeline]);
+  const selectedEntry = useMemo(
+    () => timeline.find((entry) => entry.slide.id === selectedSlide?.id) ?? null,
+    [selectedSlide, timeline],
+  );
+  const titleContrast = useMemo(
+    () => (selectedEntry ? checkTitleContrast(selectedEntry.slide, selectedEntry.style) : null),
+    [selectedEntry],
+  );
+
   const updateSlide = useCallback(
-    (slideId: string, data: Partial<Slide>) => {
-      setSlides((prev) =>
-        prev.map((slide) => (slide.id === slideId ? { ...slide, ...data } : slide)),
+    (
+      slideId: string,
+      data: Partial<Slide>,
+      group: string | null = `slide:${slideId}:${Object.keys(data).join(",")}`,
+    ) => {
+      setSlides(
+        (prev) => prev.map((slide) => (slide.id === slideId ? { ...slide, ...data } : slide)),
+        group,
       );
     },
     [setSlides],
   );
 
-  const addSlide = useCallback(() => {
-    const newSlide: Slide = {
-      id: generateId(),
-      title: "New Scene",
-      subtitle: "Describe your moment here and fine-tune the pacing.",
-      duration: 3,
-      backgroundType: "color",
-      backgroundValue: "#0f172a",
-    };
-    setSlides((prev) => [...prev, newSlide]);
-    setSelectedId(newSlide.id);
-  }, []);
+  const updateTransition = useCallback(
+    (slideId: string, data: Partial<SlideTransition>) => {
+      setSlides(
+        (prev) =>
+          prev.map((slide) =>
+            slide.id === slideId
+              ? { ...slide, transition: { ...slide.transition, ...data } }
+              : slide,
+          ),
+        `transition:${slideId}:${Object.keys(data).join(",")}`,
+      );
+    },
+    [setSlides],
+  );
 
-  const removeSlide = useCallback(
-    (slideId: string) => {
-      setSlides((prev) => {
-        const next = prev.filter((slide) => slide.id !== slideId);
-        if (next.length === 0) {
-          const fallback = createDefaultSlides();
-          setSelectedId(fallback[0].id);
-          return fallback;
-        }
-        if (!next.some((slide) => slide.id === selectedId)) {
-          setSelectedId(next[0].id);
-        }
+  const updateLayers = useCallback(
+    (slideId: string, update: (layers: Layer[]) => Layer[], group: string | null = null) => {
+      setSlides(
+        (prev) =>
+          prev.map((slide) =>
+            slide.id === slideId ? { ...slide, layers: update(slide.layers) } : slide,
+          ),
+        group,
+      );
+    },
+    [setSlides],
+  );
+
+  const updateLayer = useCallback(
+    (slideId: string, layerId: string, data: Partial<Layer>) => {
+      updateLayers(
+        slideId,
+        (layers) =>
+          layers.map((layer) => (layer.id === layerId ? ({ ...layer, ...data } as Layer) : layer)),
+        `layer:${layerId}:${Object.keys(data).join(",")}`,
+      );
+    },
+    [updateLayers],
+  );
+
+  const addLayer = useCallback(
+    (slideId: string, kind: LayerKind) => {
+      const layer = createLayer(kind);
+      updateLayers(slideId, (layers) => [...layers, layer]);
+      setSelectedLayerId(layer.id);
+    },
+    [updateLayers],
+  );
+
+  const copyLayer = useCallback(
+    (slideId: string, layerId: string) => {
+      const source = selectedSlide?.layers.find((layer) => layer.id === layerId);
+      if (!source) return;
+      const copy = duplicateLayer(source);
+      updateLayers(slideId, (layers) => {
+        const index = layers.findIndex((layer) => layer.id === layerId);
+        return [...layers.slice(0, index + 1), copy, ...layers.slice(index + 1)];
+      });
+      setSelectedLayerId(copy.id);
+    },
+    [selectedSlide, updateLayers],
+  );
+
+  const removeLayer = useCallback(
+    (slideId: string, layerId: string) => {
+      updateLayers(slideId, (layers) => layers.filter((layer) => layer.id !== layerId));
+      setSelectedLayerId((current) => (current === layerId ? null : current));
+    },
+    [updateLayers],
+  );
+
+  const moveLayer = useCallback(
+    (slideId: string, layerId: string, offset: number) => {
+      updateLayers(slideId, (layers) => {
+        const index = layers.findIndex((layer) => layer.id === layerId);
+        const target = index + offset;
+        if (index < 0 || target < 0 || target >= layers.length) return layers;
+        const next = [...layers];
+        const [layer] = next.splice(index, 1);
+        next.splice(target, 0, layer);
         return next;
       });
     },
-    [selectedId],
+    [updateLayers],
   );
 
-  const ensureImage = useCallback((src: string): Promise<HTMLImageElement> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.crossOrigin = "anonymous";
-      img.onload = () => resolve(img);
-      img.onerror = reject;
-      img.src = src;
-    });
-  }, []);
+  const updateSlides = useCallback(
+    (slideIds: string[], update: (slide: Slide) => Slide, group: string | null = null) => {
+      setSlides(
+        (prev) => prev.map((slide) => (slideIds.includes(slide.id) ? update(slide) : slide)),
+        group,
+      );
+    },
+    [setSlides],
+  );
 
-  const drawSlide = useCallback(
-    async (ctx: CanvasRenderingContext2D, slide: Slide) => {
-      if (!ctx) return;
-      ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-      if (slide.backgroundType === "color") {
-        ctx.fillStyle = slide.backgroundValue || "#111827";
-        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-      } else if (slide.backgroundType === "image" && slide.backgroundValue) {
-        try {
-          const img = await ensureImage(slide.backgroundValue);
-          const imageRatio = img.width / img.height;
-          const canvasRatio = CANVAS_WIDTH / CANVAS_HEIGHT;
-          let drawWidth = CANVAS_WIDTH;
-          let drawHeight = CANVAS_HEIGHT;
-          if (imageRatio > canvasRatio) {
-            drawHeight = CANVAS_HEIGHT;
-            drawWidth = drawHeight * imageRatio;
-          } else {
-            drawWidth = CANVAS_WIDTH;
-            drawHeight = drawWidth / imageRatio;
-          }
-          const offsetX = (CANVAS_WIDTH - drawWidth) / 2;
-          const offsetY = (CANVAS_HEIGHT - drawHeight) / 2;
-          ctx.drawImage(img, offsetX, offsetY, drawWidth, drawHeight);
-        } catch {
-          ctx.fillStyle = "#111827";
-          ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  const selectSlide = useCallback(
+    (slideId: string, mode: SelectionMode) => {
+      if (mode === "range" && selectedSlide) {
+        const from = slides.findIndex((slide) => slide.id === selectedSlide.id);
+        const to = slides.findIndex((slide) => slide.id === slideId);
+        setSelectedIds(
+          slides.slice(Math.min(from, to), Math.max(from, to) + 1).map((slide) => slide.id),
+        );
+        return;
+      }
+      if (mode === "toggle" && selectedSlide) {
+        const current = selectedIds.includes(selectedSlide.id) ? selectedIds : [selectedSlide.id];
+        if (current.includes(slideId)) {
+          const next = current.filter((id) => id !== slideId);
+          if (!next.length) return;
+          setSelectedIds(next);
+          if (slideId === selectedSlide.id) setSelectedId(next[0]);
+        } else {
+          setSelectedIds([...current, slideId]);
+          setSelectedId(slideId);
         }
-      } else {
-        ctx.fillStyle = "#111827";
-        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        return;
+      }
+      setSelectedIds([slideId]);
+      setSelectedId(slideId);
+    },
+    [selectedIds, selectedSlide, slides],
+  );
+
+  /** Selects scenes that were just added or are left after a delete, and moves focus to them. */
+  const focusSlides = useCallback((slideIds: string[]) => {
+    if (!slideIds.length) return;
+    setSelectedIds(slideIds);
+    setSelectedId(slideIds[0]);
+    setSceneFocusRequest({ slideId: slideIds[0] });
+  }, []);
+
+  /** New scenes take the next colour from the theme palette and its text layout. */
+  const createThemedSlide = useCallback(
+    (index: number, data: Partial<Omit<Slide, "id">> = {}) =>
+      applyThemeLayout(
+        createSlide({ backgroundValue: theme.palette[index % theme.palette.length], ...data }),
+        theme,
+      ),
+    [theme],
+  );
+
+  const addSlide = useCallback(() => {
+    const newSlide = createThemedSlide(slides.length);
+    setSlides((prev) => [...prev, newSlide]);
+    focusSlides([newSlide.id]);
+  }, [createThemedSlide, focusSlides, setSlides, slides.length]);
+
+  /** Replaces the scenes with one per caption; undo brings the old ones back. */
+  const importCaptions = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+      const cues = parseCaptions(await file.text());
+      if (!cues.length) {
+        setProjectError(`Could not import ${file.name}: no captions found.`);
+        return;
+      }
+      setProjectError(null);
+      const imported = createSlidesFromCues(cues, createThemedSlide);
+      setSlides(imported);
+      focusSlides([imported[0].id]);
+    },
+    [createThemedSlide, focusSlides, setSlides],
+  );
+
+  const { storeFile, storeInline } = library;
+  const importScenes = useCallback(
+    async (imported: Slide[], mode: SceneImportMode) => {
+      setIsSceneImportOpen(false);
+      let scenes = imported;
+      try {
+        // Imported pictures arrive as data URLs; the library keeps each one once.
+        ({ slides: scenes } = await storeInline({ slides: imported, audio, fonts }));
+      } catch (error) {
+        setProjectError(error instanceof Error ? error.message : "Unable to store those images.");
+      }
+      setSlides((prev) => (mode === "replace" ? scenes : [...prev, ...scenes]));
+      focusSlides([scenes[0].id]);
+    },
+    [audio, focusSlides, fonts, setSlides, storeInline],
+  );
+
+  const insertSlideAfter = useCallback(
+    (slideId: string) => {
+      const index = slides.findIndex((slide) => slide.id === slideId);
+      const newSlide = createThemedSlide(index + 1);
+      setSlides((prev) => [...prev.slice(0, index + 1), newSlide, ...prev.slice(index + 1)]);
+      focusSlides([newSlide.id]);
+    },
+    [createThemedSlide, focusSlides, setSlides, slides],
+  );
+
+  const updateSlideStyle = useCallback(
+    (slide: Slide, overrides: ThemeOverrides) => {
+      const position = resolveSlideStyle(theme, overrides).position;
+      const data: Partial<Slide> = { themeOverrides: overrides };
+      if (position !== resolveSlideStyle(theme, slide.themeOverrides).position) {
+        data.layers = positionTextLayers(slide.layers, position);
       }
+      updateSlide(slide.id, data);
+    },
+    [theme, updateSlide],
+  );
 
-      const gradient = ctx.createLinearGradient(0, CANVAS_HEIGHT, 0, CANVAS_HEIGHT * 0.4);
-      gradient.addColorStop(0, "rgba(0,0,0,0.70)");
-      gradient.addColorStop(1, "rgba(0,0,0,0)");
-      ctx.fillStyle = gradient;
-      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  const applyLayoutToAll = useCallback(() => {
+    setSlides((prev) => prev.map((slide) => applyThemeLayout(slide, theme)));
+  }, [setSlides, theme]);
 
-      ctx.fillStyle = "#f8fafc";
-      ctx.textAlign = "left";
+  const duplicateSlides = useCallback(
+    (slideIds: string[]) => {
+      const copies = new Map(
+        slides
+          .filter((slide) => slideIds.includes(slide.id))
+          .map((slide) => [slide.id, duplicateSlide(slide)]),
+      );
+      setSlides((prev) =>
+        prev.flatMap((slide) => {
+          const copy = copies.get(slide.id);
+          return copy ? [slide, copy] : [slide];
+        }),
+      );
+      focusSlides([...copies.values()].map((slide) => slide.id));
+    },
+    [focusSlides, setSlides, slides],
+  );
 
-      const titleFontSize = 64;
-      ctx.font = `700 ${titleFontSize}px 'Inter', 'Segoe UI', sans-serif`;
-      wrapText(ctx, slide.title, 80, CANVAS_HEIGHT - 220, CANVAS_WIDTH - 160, titleFontSize + 8);
+  const reorderSlides = useCallback(
+    (slideIds: string[], beforeId: string | null) => {
+      setSlides((prev) => moveSlides(prev, slideIds, beforeId));
+    },
+    [setSlides],
+  );
 
-      ctx.font = `400 32px 'Inter', 'Segoe UI', sans-serif`;
-      ctx.fillStyle = "rgba(248,250,252,0.85)";
-      wrapText(ctx, slide.subtitle, 80, CANVAS_HEIGHT - 80, CANVAS_WIDTH - 160, 44);
+  const removeSlides = useCallback(
+    (slideIds: string[]) => {
+      const remaining = slides.filter((slide) => !slideIds.includes(slide.id));
+      if (!remaining.length) return;
+      setSlides(remaining);
+      if (slideIds.includes(selectedId)) {
+        const index = slides.findIndex((slide) => slide.id === selectedId);
+        const next =
+          slides.slice(index + 1).find((slide) => !slideIds.includes(slide.id)) ??
+          remaining[remaining.length - 1];
+        focusSlides([next.id]);
+      } else {
+        setSelectedIds((prev) => prev.filter((id) => !slideIds.includes(id)));
+        setSceneFocusRequest({ slideId: selectedId });
+      }
     },
-    [ensureImage],
+    [focusSlides, selectedId, setSlides, slides],
   );
 
   const stopPreview = useCallback(() => {
     previewRunningRef.current = false;
+    void previewAudioRef.current?.close();
+    previewAudioRef.current = null;
     setIsPreviewing(false);
-    setProgress(0);
   }, []);
 
-  const previewSlides = useCallback(async () => {
+  const startPreview = useCallback(async () => {
     if (previewRunningRef.current) return;
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -185,116 +471,372 @@ export default function Home() {
     if (!ctx) return;
     previewRunningRef.current = true;
     setIsPreviewing(true);
-    setProgress(0);
-    const totalDurationMs = slides.reduce((acc, slide) => acc + slide.duration * 1000, 0);
-    let elapsed = 0;
-    for (const slide of slides) {
-      const frameCount = Math.max(1, Math.round(slide.duration * VIDEO_FPS));
-      for (let frame = 0; frame < frameCount; frame++) {
-        if (!previewRunningRef.current) {
-          stopPreview();
-          return;
-        }
-        await drawSlide(ctx, slide);
-        await delay(1000 / VIDEO_FPS);
-        elapsed += 1000 / VIDEO_FPS;
-        setProgress(Math.min(100, (elapsed / totalDurationMs) * 100));
-      }
+    // Playing from the very end starts over.
+    const startTime = playhead >= totalDuration - 1.5 / output.fps ? 0 : playhead;
+    const audioContext = new AudioContext();
+    previewAudioRef.current = audioContext;
+    try {
+      const mix = await renderAudioMix(timeline, audio);
+      if (!previewRunningRef.current) return;
+      if (mix) playAudioMix(audioContext, mix, audioContext.destination, startTime);
+    } catch (error) {
+      setRenderError(error instanceof Error ? error.message : "Failed to mix audio.");
     }
+    await playTimeline(
+      ctx,
+      timeline,
+      output.fps,
+      setPlayhead,
+      () => previewRunningRef.current,
+      startTime,
+    );
     stopPreview();
-  }, [drawSlide, slides, stopPreview]);
+  }, [audio, output.fps, playhead, stopPreview, timeline, totalDuration]);
+
+  const seek = useCallback(
+    (time: number) => {
+      stopPreview();
+      setPlayhead(time);
+      const frame = resolveFrame(timeline, time);
+      if (!frame) return;
+      const entry =
+        frame.kind === "scene"
+          ? frame.entry
+          : frame.progress < 0.5
+            ? frame.outgoing
+            : frame.incoming;
+      if (entry.slide.id !== selectedSlide?.id) {
+        setSelectedId(entry.slide.id);
+        setSelectedIds([entry.slide.id]);
+      }
+    },
+    [selectedSlide, stopPreview, timeline],
+  );
+
+  const { open: openLibrary } = library;
+  /** Shows `project` once its asset library is loaded, so the first frame draws its media. */
+  const applyProject = useCallback(
+    async (value: Project) => {
+      let project = value;
+      let libraryError: string | null = null;
+      try {
+        project = await openLibrary(value);
+      } catch (error) {
+        libraryError =
+          error instanceof Error ? error.message : "Unable to load the project's assets.";
+      }
+      stopPreview();
+      setProjectInfo({ id: project.id, name: project.name, createdAt: project.createdAt });
+      resetSlides(project.slides);
+      setAudio(project.audio);
+      setOutput(project.output);
+      setThemeId(project.themeId);
+      setFonts(project.fonts);
+      setSelectedId(project.slides[0]?.id ?? "");
+      setSelectedIds(project.slides[0] ? [project.slides[0].id] : []);
+      setSelectedLayerId(null);
+      setProjectError(libraryError);
+    },
+    [openLibrary, resetSlides, stopPreview],
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [redo, undo]);
 
   useEffect(() => {
+    let cancelled = false;
+    const restore = async () => {
+      try {
+        const projects = await listProjects();
+        const project = projects[0] ? await loadProject(projects[0].id) : null;
+        if (cancelled) return;
+        setRecentProjects(projects);
+        if (project) await applyProject(project);
+      } catch (error) {
+        if (cancelled) return;
+        setProjectError(
+          error instanceof Error ? error.message : "Unable to restore your last project.",
+        );
+      }
+      setIsRestored(true);
+    };
+    void restore();
     return () => {
-      if (videoUrl) URL.revokeObjectURL(videoUrl);
+      cancelled = true;
     };
-  }, [videoUrl]);
+  }, [applyProject]);
 
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas || !selectedSlide || previewRunningRef.current) return;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-    void drawSlide(ctx, selectedSlide);
-  }, [drawSlide, selectedSlide]);
+    if (!isRestored) return;
+    const timeout = window.setTimeout(async () => {
+      setSaveStatus("saving");
+      try {
+        await saveProject({
+          ...projectInfo,
+          updatedAt: Date.now(),
+          slides,
+          audio,
+          output,
+          themeId,
+          fonts,
+        });
+        setSaveStatus("saved");
+        setRecentProjects(await listProjects());
+      } catch {
+        setSaveStatus("error");
+      }
+    }, AUTOSAVE_DELAY);
+    return () => window.clearTimeout(timeout);
+  }, [audio, fonts, isRestored, output, projectInfo, slides, themeId]);
+
+  const openProject = useCallback(
+    async (projectId: string) => {
+      try {
+        const project = await loadProject(projectId);
+        if (!project) throw new Error("That project is no longer saved on this device.");
+        await applyProject(project);
+      } catch (error) {
+        setProjectError(error instanceof Error ? error.message : "Unable to open that project.");
+      }
+    },
+    [applyProject],
+  );
+
+  const removeProject = useCallback(async (projectId: string) => {
+    try {
+      await deleteProject(projectId);
+      setRecentProjects(await listProjects());
+    } catch (error) {
+      setProjectError(error instanceof Error ? error.message : "Unable to delete that project.");
+    }
+  }, []);
+
+  const importProject = useCallback(
+    async (file: File) => {
+      try {
+        const project = parseProjectFile(await file.text());
+        const isSaved = recentProjects.some((item) => item.id === project.id);
+        await applyProject(isSaved ? { ...project, id: generateId() } : project);
+      } catch (error) {
+        setProjectError(
+          `Could not import ${file.name}: ${error instanceof Error ? error.message : "unknown error"}`,
+        );
+      }
+    },
+    [applyProject, recentProjects],
+  );
+
+  const { inline: inlineLibrary } = library;
+  // Files carry their media inline so they open on any device.
+  const getSelfContainedProject = useCallback(
+    (): Promise<Project> =>
+      inlineLibrary({
+        ...projectInfo,
+        updatedAt: Date.now(),
+        slides,
+        audio,
+        output,
+        themeId,
+        fonts: availableFonts,
+      }),
+    [audio, availableFonts, inlineLibrary, output, projectInfo, slides, themeId],
+  );
+
+  const exportProject = useCallback(async () => {
+    try {
+      const project = await getSelfContainedProject();
+      downloadBlob(
+        new Blob([serializeProject(project)], { type: "application/json" }),
+        getProjectFileName(project),
+      );
+    } catch (error) {
+      setProjectError(error instanceof Error ? error.message : "Unable to export the project.");
+    }
+  }, [getSelfContainedProject]);
+
+  const shareProject = useCallback(async () => {
+    setIsSharing(true);
+    setProjectError(null);
+    try {
+      const project = await getSelfContainedProject();
+      // Without local storage every share makes a new link.
+      const saved = await loadShareOwnership(project.id).catch(() => null);
+      const { links, ownership } = await publishProject(project, saved);
+      if (ownership !== saved) await saveShareOwnership(project.id, ownership).catch(() => null);
+      setShareLinks(links);
+    } catch (error) {
+      setProjectError(error instanceof Error ? error.message : "Unable to share the project.");
+    } finally {
+      setIsSharing(false);
+    }
+  }, [getSelfContainedProject]);
+
+  // Selecting a scene moves the playhead into it, unless it is already there.
+  useEffect(() => {
+    if (!selectedEntry || previewRunningRef.current) return;
+    setPlayhead((current) =>
+      current >= selectedEntry.start && current < selectedEntry.end
+        ? current
+        : selectedEntry.start + getPosterTime(selectedEntry.slide),
+    );
+  }, [selectedEntry]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || previewRunningRef.current) return;
+    registerFonts(availableFonts);
+    queueDraw(() => renderFrame(ctx, timeline, playhead));
+    // Resizing the canvas clears it, so output changes redraw too.
+  }, [availableFonts, output, playhead, queueDraw, timeline]);
 
   const handleBackgroundUpload = useCallback(
     async (event: ChangeEvent<HTMLInputElement>, slideId: string) => {
       const file = event.target.files?.[0];
       if (!file) return;
-      const dataUrl = await readFileAsDataUrl(file);
-      updateSlide(slideId, { backgroundType: "image", backgroundValue: dataUrl });
+      const src = await storeFile(file);
+      updateSlide(slideId, { backgroundType: "image", backgroundValue: src }, null);
     },
-    [updateSlide],
+    [storeFile, updateSlide],
   );
 
-  const generateVideo = useCallback(async () => {
-    if (isRendering) return;
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-    if (previewRunningRef.current) {
-      stopPreview();
-      await delay(100);
-    }
-
-    setRenderError(null);
-    setVideoUrl(null);
-    setIsRendering(true);
-    setProgress(0);
+  const assetUsage = useMemo(
+    () => countAssetUsage({ slides, audio, fonts }),
+    [audio, fonts, slides],
+  );
 
-    try {
-      const stream = canvas.captureStream(VIDEO_FPS);
-      if (!stream) throw new Error("Unable to capture canvas stream");
+  const uploadAssets = useCallback(
+    async (files: File[]) => {
+      for (const file of files) await storeFile(file);
+    },
+    [storeFile],
+  );
 
-      const mimeType = getSupportedMimeType();
-      if (!mimeType) {
-        throw new Error("This browser does not support WebM recording.");
+  const applyAssetBackground = useCallback(
+    async (slideId: string, asset: LibraryAsset) => {
+      const src = getAssetRef(asset.id);
+      if (asset.kind !== "video") {
+        updateSlide(slideId, { backgroundType: "image", backgroundValue: src }, null);
+        return;
+      }
+      try {
+        const duration = await readVideoDuration(resolveMediaSrc(src));
+        updateSlide(
+          slideId,
+          {
+            backgroundType: "video",
+            backgroundValue: src,
+            backgroundVideo: createBackgroundVideo(asset.name, duration),
+          },
+          null,
+        );
+      } catch (error) {
+        setProjectError(error instanceof Error ? error.message : "Unable to read that video.");
       }
+    },
+    [updateSlide],
+  );
 
-      const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 6_000_000 });
-      const chunks: BlobPart[] = [];
+  const addAssetLayer = useCallback(
+    (slideId: string, asset: LibraryAsset) => {
+      const layer = createImageLayer({ name: asset.name, src: getAssetRef(asset.id) });
+      updateLayers(slideId, (layers) => [...layers, layer]);
+      setSelectedLayerId(layer.id);
+    },
+    [updateLayers],
+  );
 
-      recorder.ondataavailable = (event) => {
-        if (event.data && event.data.size > 0) {
-          chunks.push(event.data);
-        }
-      };
+  // The brand intro and outro only join the exported video; the editor shows the project's own scenes.
+  const exportTimeline = useMemo(
+    () => buildTimeline(addBumpers(slides, brand.kit), theme, brand.kit.logo),
+    [brand.kit, slides, theme],
+  );
 
-      const recorderStopped = new Promise<void>((resolve, reject) => {
-        recorder.onstop = () => resolve();
-        recorder.onerror = (event) => reject(event.error);
-      });
+  const diagnosticsInput = useMemo(
+    (): DiagnosticsInput => ({
+      timeline: exportTimeline,
+      audio,
+      output,
+      settings: exportSettings,
+      assets: library.assets,
+      logo: brand.kit.logo,
+    }),
+    [audio, brand.kit.logo, exportSettings, exportTimeline, library.assets, output],
+  );
 
-      recorder.start();
+  /** Runs the pre-export check; resolves to false when it found errors. */
+  const checkExport = useCallback(
+    async ({ isExporting = false } = {}) => {
+      setIsCheckingExport(true);
+      try {
+        const diagnostics = await runDiagnostics(diagnosticsInput);
+        const hasErrors = diagnostics.some((item) => item.severity === "error");
+        setDiagnosticsReport({
+          input: diagnosticsInput,
+          diagnostics,
+          isBlocked: isExporting && hasErrors,
+        });
+        return !hasErrors;
+      } catch {
+        // A check that can't run doesn't stop the export; rendering reports its own failures.
+        setDiagnosticsReport(null);
+        return true;
+      } finally {
+        setIsCheckingExport(false);
+      }
+    },
+    [diagnosticsInput],
+  );
 
-      const totalDurationMs = slides.reduce((acc, slide) => acc + slide.duration * 1000, 0);
-      let elapsed = 0;
+  const { enqueue: enqueueRender } = renderQueue;
+  /**
+   * Checks the project, then queues an export of it as it is now unless the
+   * check found errors; editing carries on while it renders.
+   */
+  const generateVideo = useCallback(async () => {
+    if (!(await checkExport({ isExporting: true }))) return;
+    enqueueRender({
+      timeline: exportTimeline,
+      audio,
+      output,
+      settings: exportSettings,
+      fonts: availableFonts,
+    });
+  }, [audio, availableFonts, checkExport, enqueueRender, exportSettings, exportTimeline, output]);
 
-      for (const slide of slides) {
-        const frameCount = Math.max(1, Math.round(slide.duration * VIDEO_FPS));
-        for (let frame = 0; frame < frameCount; frame++) {
-          await drawSlide(ctx, slide);
-          await delay(1000 / VIDEO_FPS);
-          elapsed += 1000 / VIDEO_FPS;
-          setProgress(Math.min(100, (elapsed / totalDurationMs) * 100));
-        }
+  const { update: updateBrandKit } = brand;
+  /** Keeps self-contained copies of the selected scenes, with their fonts, as a brand bumper. */
+  const saveBumper = useCallback(
+    async (part: BumperPart) => {
+      try {
+        const inlined = await inlineLibrary({ slides: selectedSlides, audio, fonts });
+        updateBrandKit({
+          [part]: toBumperSlides(inlined.slides, theme),
+          fonts: mergeFonts(brand.kit.fonts, getSlideFonts(inlined.slides, inlined.fonts)),
+        });
+      } catch (error) {
+        setProjectError(error instanceof Error ? error.message : "Unable to save those scenes.");
       }
+    },
+    [audio, brand.kit.fonts, fonts, inlineLibrary, selectedSlides, theme, updateBrandKit],
+  );
 
-      recorder.stop();
-      await recorderStopped;
-
-      const blob = new Blob(chunks, { type: mimeType });
-      const url = URL.createObjectURL(blob);
-      setVideoUrl(url);
-      setProgress(100);
-    } catch (error) {
-      setRenderError(error instanceof Error ? error.message : "Failed to render video.");
-    } finally {
-      setIsRendering(false);
-    }
-  }, [drawSlide, isRendering, slides, stopPreview]);
+  const latestRender = useMemo(
+    () => [...renderQueue.jobs].reverse().find((job) => job.result),
+    [renderQueue.jobs],
+  );
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100">
@@ -304,91 +846,126 @@ export default function Home() {
             <p className="text-sm uppercase tracking-[0.4rem] text-slate-400">Storyforge</p>
             <h1 className="text-2xl font-semibold">Video Creator Studio</h1>
           </div>
-          <button
-            onClick={generateVideo}
-            disabled={isRendering}
-            className={clsx(
-              "rounded-full px-5 py-3 text-sm font-semibold transition focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-400 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-950",
-              isRendering ? "bg-slate-600 text-slate-300" : "bg-sky-500 text-white hover:bg-sky-400",
-            )}
-          >
-            {isRendering ? "Rendering..." : "Generate Video"}
-          </button>
+          <div className="flex items-start gap-4">
+            <ProjectMenu
+              projectId={projectInfo.id}
+              name={projectInfo.name}
+              saveStatus={saveStatus}
+              recentProjects={recentProjects}
+              error={projectError}
+              onRename={(name) => setProjectInfo((info) => ({ ...info, name }))}
+              onNew={() => void applyProject(createProject())}
+              onBrowseTemplates={() => setIsGalleryOpen(true)}
+              onOpen={openProject}
+              onDelete={removeProject}
+              onImport={importProject}
+              onExport={exportProject}
+              onShare={shareProject}
+              isSharing={isSharing}
+            />
+            <button
+              onClick={() => void generateVideo()}
+              disabled={isCheckingExport}
+              title="Checks the project, then adds an export with the current settings to the render queue"
+              className="rounded-full bg-sky-500 px-5 py-3 text-sm font-semibold text-white transition hover:bg-sky-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-400 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-950 disabled:cursor-wait disabled:opacity-70"
+            >
+              {isCheckingExport ? "Checking…" : "Generate Video"}
+            </button>
+          </div>
         </div>
       </header>
 
       <main className="mx-auto grid min-h-[calc(100vh-140px)] max-w-6xl grid-cols-12 gap-8 px-6 py-10">
         <section className="col-span-12 flex flex-col gap-4 rounded-3xl bg-slate-900/70 p-6 shadow-xl shadow-slate-950/40 md:col-span-4">
           <div className="flex items-center justify-between">
-            <h2 className="text-lg font-semibold text-white">Scenes</h2>
-            <button
-              onClick={addSlide}
-              className="rounded-full bg-slate-800 px-4 py-2 text-xs font-semibold uppercase tracking-wider text-slate-200 transition hover:bg-slate-700"
-            >
-              Add Scene
-            </button>
-          </div>
-          <div className="flex flex-col gap-3 overflow-y-auto pb-3">
-            {slides.map((slide, index) => (
+            <div>
+              <h2 className="text-lg font-semibold text-white">Scenes</h2>
+              <p className="text-xs text-slate-400">Total runtime {totalDuration.toFixed(1)}s</p>
+            </div>
+            <div className="flex items-center gap-2">
               <button
-                key={slide.id}
-                onClick={() => setSelectedId(slide.id)}
-                className={clsx(
-                  "group relative flex items-center justify-between rounded-2xl border border-white/5 px-4 py-4 text-left transition hover:border-sky-500/60 hover:bg-slate-800/40",
-                  selectedSlide?.id === slide.id
-                    ? "border-sky-400/80 bg-slate-800/40"
-                    : "bg-slate-900/40",
-                )}
+                onClick={undo}
+                disabled={!canUndo}
+                title="Undo (Ctrl+Z)"
+                aria-label="Undo"
+                className={historyButtonClassName}
               >
-                <div>
-                  <p className="text-xs uppercase tracking-wide text-slate-400">Scene {index + 1}</p>
-                  <p className="text-sm font-semibold text-slate-100">{slide.title}</p>
-                </div>
-                <div className="flex flex-col items-end gap-2">
-                  <span className="rounded-full bg-slate-800 px-3 py-1 text-[0.65rem] font-semibold uppercase tracking-widest text-slate-300">
-                    {slide.duration.toFixed(1)}s
-                  </span>
-                  <button
-                    onClick={(event) => {
-                      event.stopPropagation();
-                      removeSlide(slide.id);
-                    }}
-                    className="text-xs text-slate-400 hover:text-rose-400"
-                  >
-                    Delete
-                  </button>
-                </div>
+                ↶
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                aria-label="Redo"
+                className={historyButtonClassName}
+              >
+                ↷
+              </button>
+              <button
+                onClick={addSlide}
+                className="rounded-full bg-slate-800 px-4 py-2 text-xs font-semibold uppercase tracking-wider text-slate-200 transition hover:bg-slate-700"
+              >
+                Add Scene
               </button>
-            ))}
+              <button
+                onClick={() => setIsSceneImportOpen(true)}
+                className="rounded-full bg-slate-800 px-4 py-2 text-xs font-semibold uppercase tracking-wider text-slate-200 transition hover:bg-slate-700"
+              >
+                Import Scenes
+              </button>
+              <label
+                title="One scene per cue of an SRT or WebVTT file, or per paragraph of a script"
+                className="cursor-pointer rounded-full bg-slate-800 px-4 py-2 text-xs font-semibold uppercase tracking-wider text-slate-200 transition hover:bg-slate-700"
+              >
+                Import Captions
+                <input
+                  type="file"
+                  accept={CAPTION_FILE_TYPES}
+                  onChange={importCaptions}
+                  className="hidden"
+                />
+              </label>
+            </div>
           </div>
-          {selectedSlide ? (
+          <SceneList
+            slides={slides}
+            activeId={selectedSlide?.id ?? null}
+            selectedIds={selectedIds}
+            aspectRatio={output.width / output.height}
+            theme={theme}
+            onSelect={selectSlide}
+            onMove={reorderSlides}
+            onDuplicate={duplicateSlides}
+            onInsertAfter={insertSlideAfter}
+            onRemove={removeSlides}
+            onTransitionChange={updateTransition}
+            focusRequest={sceneFocusRequest}
+          />
+          {selectedSlides.length > 1 ? (
+            <SceneBulkEditor
+              slides={selectedSlides}
+              onUpdate={(data) =>
+                updateSlides(
+                  selectedIds,
+                  (slide) => ({ ...slide, ...data }),
+                  `bulk:${Object.keys(data).join(",")}`,
+                )
+              }
+              onTransitionUpdate={(data) =>
+                updateSlides(
+                  selectedIds,
+                  (slide) => ({ ...slide, transition: { ...slide.transition, ...data } }),
+                  `bulk-transition:${Object.keys(data).join(",")}`,
+                )
+              }
+              onClearSelection={() => setSelectedIds(selectedSlide ? [selectedSlide.id] : [])}
+            />
+          ) : selectedSlide ? (
             <div className="rounded-2xl bg-slate-900/60 p-5">
               <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
                 Scene Details
               </h3>
               <div className="mt-4 flex flex-col gap-4 text-sm">
-                <label className="flex flex-col gap-2 text-slate-300">
-                  <span>Title</span>
-                  <input
-                    value={selectedSlide.title}
-                    onChange={(event) =>
-                      updateSlide(selectedSlide.id, { title: event.target.value })
-                    }
-                    className="rounded-xl border border-white/10 bg-slate-950 px-3 py-2 text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40"
-                    placeholder="Scene headline"
-                  />
-                </label>
-                <label className="flex flex-col gap-2 text-slate-300">
-                  <span>Subtitle</span>
-                  <textarea
-                    value={selectedSlide.subtitle}
-                    onChange={(event) =>
-                      updateSlide(selectedSlide.id, { subtitle: event.target.value })
-                    }
-                    className="h-24 rounded-xl border border-white/10 bg-slate-950 px-3 py-2 text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40"
-                    placeholder="Add depth or narrative context"
-                  />
-                </label>
                 <label className="flex flex-col gap-2 text-slate-300">
                   <span>Duration (seconds)</span>
                   <input
@@ -404,39 +981,118 @@ export default function Home() {
                     className="rounded-xl border border-white/10 bg-slate-950 px-3 py-2 text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40"
                   />
                 </label>
+                <label className="flex flex-col gap-2 text-slate-300">
+                  <span>Description (alt text)</span>
+                  <textarea
+                    value={selectedSlide.altText}
+                    onChange={(event) =>
+                      updateSlide(selectedSlide.id, { altText: event.target.value })
+                    }
+                    rows={2}
+                    placeholder="What the scene shows, for viewers who can't see it"
+                    className="resize-y rounded-xl border border-white/10 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40"
+                  />
+                </label>
+                <div className="flex flex-col gap-3">
+                  <span className="text-slate-300">Voice-over</span>
+                  <VoiceOverEditor
+                    voiceOver={selectedSlide.voiceOver}
+                    onChange={(voiceOver) => updateSlide(selectedSlide.id, { voiceOver })}
+                    onFitDuration={(duration) =>
+                      updateSlide(selectedSlide.id, { duration: Math.max(0.5, duration) })
+                    }
+                    onStoreFile={storeFile}
+                  />
+                </div>
+                <div className="flex flex-col gap-3">
+                  <span className="text-slate-300">Style</span>
+                  <SceneStyleEditor
+                    theme={theme}
+                    fonts={availableFonts}
+                    overrides={selectedSlide.themeOverrides}
+                    onChange={(overrides) => updateSlideStyle(selectedSlide, overrides)}
+                  />
+                </div>
+                <div className="flex flex-col gap-3">
+                  <span className="text-slate-300">Layers</span>
+                  <LayerPanel
+                    layers={selectedSlide.layers}
+                    selectedLayerId={selectedLayerId}
+                    sceneDuration={selectedSlide.duration}
+                    style={selectedEntry?.style ?? theme}
+                    fonts={availableFonts}
+                    onAddFont={(font) => setFonts((prev) => [...prev, font])}
+                    onStoreFile={storeFile}
+                    onSelect={setSelectedLayerId}
+                    onAdd={(kind) => addLayer(selectedSlide.id, kind)}
+                    onUpdate={(layerId, data) => updateLayer(selectedSlide.id, layerId, data)}
+                    onRemove={(layerId) => removeLayer(selectedSlide.id, layerId)}
+                    onDuplicate={(layerId) => copyLayer(selectedSlide.id, layerId)}
+                    onMove={(layerId, offset) => moveLayer(selectedSlide.id, layerId, offset)}
+                  />
+                </div>
                 <div className="flex flex-col gap-3">
                   <span className="text-slate-300">Backdrop</span>
-                  <div className="flex gap-3">
-                    <button
-                      onClick={() =>
-                        updateSlide(selectedSlide.id, { backgroundType: "color" })
+                  <div className="flex flex-wrap gap-3">
+                    {BACKGROUND_TYPE_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() =>
+                          updateSlide(
+                            selectedSlide.id,
+                            option.value === "gradient" && !selectedSlide.backgroundGradient
+                              ? {
+                                  backgroundType: "gradient",
+                                  backgroundGradient: createGradient([
+                                    theme.palette[0],
+                                    theme.accentColor,
+                                  ]),
+                                }
+                              : { backgroundType: option.value },
+                          )
+                        }
+                        className={clsx(
+                          "rounded-full px-4 py-2 text-xs font-semibold uppercase tracking-widest transition",
+                          selectedSlide.backgroundType === option.value
+                            ? "bg-sky-500 text-white"
+                            : "bg-slate-800 text-slate-300 hover:bg-slate-700",
+                        )}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  {selectedSlide.backgroundType === "video" ? (
+                    <BackgroundVideoEditor
+                      src={selectedSlide.backgroundValue}
+                      video={selectedSlide.backgroundVideo}
+                      onUpload={(src, backgroundVideo) =>
+                        updateSlide(
+                          selectedSlide.id,
+                          { backgroundType: "video", backgroundValue: src, backgroundVideo },
+                          null,
+                        )
                       }
-                      className={clsx(
-                        "rounded-full px-4 py-2 text-xs font-semibold uppercase tracking-widest transition",
-                        selectedSlide.backgroundType === "color"
-                          ? "bg-sky-500 text-white"
-                          : "bg-slate-800 text-slate-300 hover:bg-slate-700",
-                      )}
-                    >
-                      Solid
-                    </button>
-                    <button
-                      onClick={() =>
-                        updateSlide(selectedSlide.id, { backgroundType: "image" })
+                      onStoreFile={storeFile}
+                      onChange={(backgroundVideo) =>
+                        updateSlide(selectedSlide.id, { backgroundVideo })
                       }
-                      className={clsx(
-                        "rounded-full px-4 py-2 text-xs font-semibold uppercase tracking-widest transition",
-                        selectedSlide.backgroundType === "image"
-                          ? "bg-sky-500 text-white"
-                          : "bg-slate-800 text-slate-300 hover:bg-slate-700",
-                      )}
-                    >
-                      Image
-                    </button>
-                  </div>
-                  {selectedSlide.backgroundType === "color" ? (
+                      onFitDuration={(duration) =>
+                        updateSlide(selectedSlide.id, { duration: Math.max(0.5, duration) })
+                      }
+                    />
+                  ) : selectedSlide.backgroundType === "gradient" &&
+                    selectedSlide.backgroundGradient ? (
+                    <GradientEditor
+                      gradient={selectedSlide.backgroundGradient}
+                      onChange={(backgroundGradient) =>
+                        updateSlide(selectedSlide.id, { backgroundGradient })
+                      }
+                    />
+                  ) : selectedSlide.backgroundType === "color" ? (
                     <input
                       type="color"
+                      list={BRAND_COLORS_LIST_ID}
                       value={selectedSlide.backgroundValue}
                       onChange={(event) =>
                         updateSlide(selectedSlide.id, { backgroundValue: event.target.value })
@@ -452,16 +1108,19 @@ export default function Home() {
                         className="text-xs text-slate-300"
                       />
                       {selectedSlide.backgroundValue ? (
-                        <div className="relative h-28 w-full overflow-hidden rounded-xl border border-white/10">
-                          <NextImage
-                            src={selectedSlide.backgroundValue}
-                            alt=""
-                            fill
-                            unoptimized
-                            className="object-cover"
-                            sizes="(max-width: 768px) 100vw, 33vw"
+                        selectedSlide.backgroundMedia.fit === "cover" ? (
+                          <MotionEditor
+                            imageSrc={selectedSlide.backgroundValue}
+                            motion={selectedSlide.motion}
+                            outputWidth={output.width}
+                            outputHeight={output.height}
+                            onChange={(motion) => updateSlide(selectedSlide.id, { motion })}
                           />
-                        </div>
+                        ) : (
+                          <p className="text-xs text-slate-400">
+                            Camera motion is available when the image fit is Cover.
+                          </p>
+                        )
                       ) : (
                         <p className="text-xs text-slate-400">
                           Upload a high-resolution JPEG or PNG image.
@@ -469,6 +1128,23 @@ export default function Home() {
                       )}
                     </div>
                   )}
+                  {(selectedSlide.backgroundType === "image" ||
+                    selectedSlide.backgroundType === "video") &&
+                  selectedSlide.backgroundValue ? (
+                    <MediaBackdropEditor
+                      backdrop={selectedSlide.backgroundMedia}
+                      onChange={(backgroundMedia) =>
+                        updateSlide(selectedSlide.id, { backgroundMedia })
+                      }
+                    />
+                  ) : null}
+                  {titleContrast && !passesContrast(titleContrast) ? (
+                    <p className="rounded-xl border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-200">
+                      The title&apos;s contrast with {titleContrast.backgroundColor} is{" "}
+                      {titleContrast.ratio.toFixed(1)}:1; WCAG AA asks for {titleContrast.required}
+                      :1 at its size. Pick a lighter or darker backdrop or title colour.
+                    </p>
+                  ) : null}
                 </div>
               </div>
             </div>
@@ -476,130 +1152,218 @@ export default function Home() {
         </section>
 
         <section className="col-span-12 flex flex-col gap-6 md:col-span-8">
-          <div className="flex items-center gap-4">
-            <button
-              disabled={isRendering}
-              onClick={() =>
-                previewRunningRef.current ? stopPreview() : previewSlides()
-              }
-              className={clsx(
-                "rounded-full px-5 py-3 text-sm font-semibold transition focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-400 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-950 disabled:cursor-not-allowed disabled:bg-slate-700/60 disabled:text-slate-400",
-                isPreviewing
-                  ? "bg-amber-500 text-white"
-                  : "bg-slate-800 text-slate-200 hover:bg-slate-700",
-              )}
+          <div className="relative overflow-hidden rounded-3xl border border-white/5 bg-slate-900/80 p-6">
+            <div
+              className="relative mx-auto"
+              style={{
+                // Tall outputs are limited by the viewport height instead of the column width.
+                width: `min(100%, ${(70 * output.width) / output.height}vh)`,
+                aspectRatio: `${output.width} / ${output.height}`,
+              }}
             >
-              {isPreviewing ? "Stop Preview" : "Preview Sequence"}
-            </button>
-            <div className="flex-grow rounded-full bg-slate-800/80">
-              <div
-                className="h-2 rounded-full bg-sky-400 transition-all"
-                style={{ width: `${progress}%` }}
+              <canvas
+                ref={canvasRef}
+                width={output.width}
+                height={output.height}
+                role="img"
+                aria-label={`Preview. ${describeFrame(timeline, playhead)}`}
+                className="h-full w-full rounded-2xl border border-white/5 bg-black shadow-inner shadow-black/70"
               />
+              {!isPreviewing ? (
+                <div
+                  className="pointer-events-none absolute rounded-sm border border-dashed border-white/25"
+                  style={{
+                    left: `${(safeArea.x / output.width) * 100}%`,
+                    top: `${(safeArea.y / output.height) * 100}%`,
+                    width: `${(safeArea.width / output.width) * 100}%`,
+                    height: `${(safeArea.height / output.height) * 100}%`,
+                  }}
+                />
+              ) : null}
+              {selectedSlide && !isPreviewing ? (
+                <LayerCanvasOverlay
+                  layers={selectedSlide.layers}
+                  selectedLayerId={selectedLayerId}
+                  canvasWidth={output.width}
+                  canvasHeight={output.height}
+                  onSelect={setSelectedLayerId}
+                  onChange={(layerId, data) => updateLayer(selectedSlide.id, layerId, data)}
+                />
+              ) : null}
             </div>
-          </div>
-          <div className="relative overflow-hidden rounded-3xl border border-white/5 bg-slate-900/80 p-6">
-            <canvas
-              ref={canvasRef}
-              width={CANVAS_WIDTH}
-              height={CANVAS_HEIGHT}
-              className="aspect-video w-full rounded-2xl border border-white/5 bg-black shadow-inner shadow-black/70"
-            />
             {!isPreviewing && (
               <div className="pointer-events-none absolute inset-x-0 bottom-6 flex justify-center">
                 <p className="rounded-full bg-black/50 px-4 py-2 text-xs uppercase tracking-widest text-slate-200">
-                  {selectedSlide ? `Showing Scene: ${selectedSlide.title}` : "Add a scene to begin"}
+                  {selectedSlide
+                    ? `Showing Scene: ${getSlideLabel(selectedSlide)}`
+                    : "Add a scene to begin"}
                 </p>
               </div>
             )}
           </div>
 
+          <TimelineEditor
+            timeline={timeline}
+            playhead={playhead}
+            fps={output.fps}
+            selectedId={selectedSlide?.id ?? null}
+            isPlaying={isPreviewing}
+            onSeek={seek}
+            onTogglePlay={() => (previewRunningRef.current ? stopPreview() : startPreview())}
+            onDurationChange={(slideId, duration) => updateSlide(slideId, { duration })}
+          />
+
+          <ThemePanel themeId={themeId} onChange={setThemeId} onApplyLayout={applyLayoutToAll} />
+
+          <BrandKitPanel
+            kit={brand.kit}
+            saveError={brand.saveError}
+            selectedCount={selectedSlides.length}
+            onUpdate={updateBrandKit}
+            onReplace={brand.replace}
+            onUnlock={brand.unlock}
+            onSaveBumper={(part) => void saveBumper(part)}
+          />
+
+          <OutputSettingsPanel settings={output} onChange={setOutput} />
+
+          <ExportSettingsPanel
+            settings={exportSettings}
+            outputFps={output.fps}
+            onChange={setExportSettings}
+          />
+
+          <SoundtrackPanel settings={audio} onChange={setAudio} onStoreFile={storeFile} />
+
+          <AssetLibraryPanel
+            assets={library.assets}
+            usage={assetUsage}
+            hasScene={Boolean(selectedSlide)}
+            onUpload={uploadAssets}
+            onUseAsBackground={(asset) =>
+              selectedSlide && applyAssetBackground(selectedSlide.id, asset)
+            }
+            onAddLayer={(asset) => selectedSlide && addAssetLayer(selectedSlide.id, asset)}
+            onRemove={(assetIds) => void library.remove(assetIds)}
+          />
+
           {renderError ? (
-            <div className="rounded-2xl border border-rose-500/30 bg-rose-500/10 p-4 text-sm text-rose-200">
+            <div
+              role="alert"
+              className="rounded-2xl border border-rose-500/30 bg-rose-500/10 p-4 text-sm text-rose-200"
+            >
               {renderError}
             </div>
           ) : null}
 
-          {videoUrl ? (
+          <DiagnosticsPanel
+            diagnostics={diagnosticsReport?.diagnostics ?? null}
+            isStale={Boolean(diagnosticsReport && diagnosticsReport.input !== diagnosticsInput)}
+            isChecking={isCheckingExport}
+            isBlocked={Boolean(diagnosticsReport?.isBlocked)}
+            slides={slides}
+            intro={brand.kit.intro}
+            outro={brand.kit.outro}
+            onCheck={() => void checkExport()}
+            onGoToScene={(slideId) => focusSlides([slideId])}
+          />
+
+          <RenderQueuePanel
+            jobs={renderQueue.jobs}
+            onCancel={renderQueue.cancel}
+            onClear={renderQueue.clear}
+          />
+
+          {latestRender?.result ? (
             <div className="rounded-3xl border border-sky-500/40 bg-sky-500/10 p-6 text-sm text-slate-100">
-              <h3 className="text-lg font-semibold text-white">Your video is ready</h3>
+              <h3 className="text-lg font-semibold text-white">Your export is ready</h3>
               <p className="mt-2 text-sm text-slate-300">
-                Download the rendered WebM file and share it anywhere.
+                Download the {getExportFormatOption(latestRender.result.format).label} file and
+                share it anywhere.
               </p>
               <div className="mt-4 flex flex-wrap gap-3">
                 <a
-                  href={videoUrl}
-                  download="storyforge-video.webm"
+                  href={latestRender.result.url}
+                  download={latestRender.result.fileName}
                   className="rounded-full bg-sky-500 px-5 py-2 text-sm font-semibold text-white transition hover:bg-sky-400"
                 >
-                  Download Video
+                  Download {latestRender.result.fileName}
                 </a>
-                <video
-                  controls
-                  src={videoUrl}
-                  className="mt-4 w-full rounded-2xl border border-white/10 bg-black/40"
-                />
+                {latestRender.result.format === "gif" ? (
+                  <NextImage
+                    src={latestRender.result.url}
+                    alt="Rendered GIF preview"
+                    width={latestRender.input.settings.gif.width}
+                    height={Math.round(
+                      (latestRender.input.settings.gif.width * latestRender.input.output.height) /
+                        latestRender.input.output.width,
+                    )}
+                    unoptimized
+                    className="mt-4 h-auto w-full rounded-2xl border border-white/10 bg-black/40"
+                  />
+                ) : latestRender.result.format !== "png-sequence" ? (
+                  <video
+                    controls
+                    src={latestRender.result.url}
+                    className="mt-4 w-full rounded-2xl border border-white/10 bg-black/40"
+                  />
+                ) : null}
               </div>
+              <CaptionDownloads
+                timeline={latestRender.input.timeline}
+                baseName={latestRender.result.fileName.replace(/\.[^.]+$/, "")}
+              />
             </div>
           ) : null}
         </section>
       </main>
+
+      <datalist id={BRAND_COLORS_LIST_ID}>
+        {brand.kit.colors.map((color) => (
+          <option key={color} value={color} />
+        ))}
+      </datalist>
+
+      {isSceneImportOpen ? (
+        <SceneImportDialog
+          theme={theme}
+          aspectRatio={output.width / output.height}
+          sceneCount={slides.length}
+          createScene={createThemedSlide}
+          onImport={importScenes}
+          onClose={() => setIsSceneImportOpen(false)}
+        />
+      ) : null}
+
+      {shareLinks ? (
+        <ShareDialog
+          links={shareLinks}
+          name={projectInfo.name}
+          output={output}
+          onClose={() => setShareLinks(null)}
+        />
+      ) : null}
+
+      {isGalleryOpen ? (
+        <TemplateGallery
+          onSelect={(templateId: TemplateId) => {
+            setIsGalleryOpen(false);
+            void applyProject(createTemplateProject(templateId));
+          }}
+          onClose={() => setIsGalleryOpen(false)}
+        />
+      ) : null}
     </div>
   );
 }
 
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-const getSupportedMimeType = () => {
-  if (typeof MediaRecorder === "undefined") {
-    return null;
-  }
-  const types = [
-    "video/webm;codecs=vp9",
-    "video/webm;codecs=vp8",
-    "video/webm",
-    "video/mp4",
-  ];
-  for (const type of types) {
-    if (MediaRecorder.isTypeSupported(type)) {
-      return type;
-    }
-  }
-  return null;
-};
-
-const readFileAsDataUrl = (file: File) =>
-  new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-
-function wrapText(
-  ctx: CanvasRenderingContext2D,
-  text: string,
-  x: number,
-  y: number,
-  maxWidth: number,
-  lineHeight: number,
-) {
-  const words = text.split(" ");
-  let line = "";
-  let currentY = y;
-
-  for (let n = 0; n < words.length; n++) {
-    const testLine = line + (line ? " " : "") + words[n];
-    const metrics = ctx.measureText(testLine);
-    if (metrics.width > maxWidth && n > 0) {
-      ctx.fillText(line, x, currentY);
-      line = words[n];
-      currentY += lineHeight;
-    } else {
-      line = testLine;
-    }
-  }
-  if (line) {
-    ctx.fillText(line, x, currentY);
-  }
-}
+const historyButtonClassName =
+  "rounded-full bg-slate-800 px-3 py-2 text-xs font-semibold text-slate-200 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40";
+
+/** Text fields keep their native undo instead of the scene history. */
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLInputElement &&
+      !["checkbox", "radio", "range", "file", "color"].includes(target.type)));
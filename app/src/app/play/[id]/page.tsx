@@ -0,0 +1,18 @@
+import type { Metadata } from "next";
+import ProjectPlayer from "../../../components/ProjectPlayer";
+
+type PlayPageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export const metadata: Metadata = {
+  title: "Storyforge Player",
+};
+
+/** Plays a shared project; `?embed=1` drops the page around the video for iframes. */
+export default async function PlayPage({ params, searchParams }: PlayPageProps) {
+  const { id } = await params;
+  const { embed } = await searchParams;
+  return <ProjectPlayer shareId={id} isEmbedded={embed === "1"} />;
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import NextImage from "next/image";
+import type { ChangeEvent } from "react";
+import { useState } from "react";
+import type { AssetKind, LibraryAsset } from "../core/assets";
+import { ASSET_KIND_OPTIONS, getAssetRef, resolveMediaSrc } from "../core/assets";
+import { formatFileSize } from "../core/files";
+import { FONT_FILE_TYPES } from "../core/fonts";
+
+type AssetLibraryPanelProps = {
+  assets: LibraryAsset[];
+  /** Places in the project using each asset, by id. */
+  usage: Map<string, number>;
+  /** Whether a scene is selected for the background and layer actions. */
+  hasScene: boolean;
+  onUpload: (files: File[]) => Promise<void>;
+  onUseAsBackground: (asset: LibraryAsset) => void;
+  onAddLayer: (asset: LibraryAsset) => void;
+  onRemove: (assetIds: string[]) => void;
+};
+
+const KIND_FILTERS: { value: AssetKind | "all"; label: string }[] = [
+  { value: "all", label: "All" },
+  ...ASSET_KIND_OPTIONS,
+];
+
+const actionClassName =
+  "rounded-full bg-slate-800 px-2 py-0.5 text-[0.65rem] font-semibold text-slate-200 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40";
+
+const fieldClassName =
+  "rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+/**
+ * Every file uploaded into the project, stored once and shared by the scenes
+ * that use it. Unused files can be cleared out to free storage.
+ */
+export default function AssetLibraryPanel({
+  assets,
+  usage,
+  hasScene,
+  onUpload,
+  onUseAsBackground,
+  onAddLayer,
+  onRemove,
+}: AssetLibraryPanelProps) {
+  const [filter, setFilter] = useState<AssetKind | "all">("all");
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const visible = filter === "all" ? assets : assets.filter((asset) => asset.kind === filter);
+  const unused = assets.filter((asset) => !usage.get(asset.id));
+  const unusedSize = unused.reduce((total, asset) => total + asset.size, 0);
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!files.length) return;
+    setUploadError(null);
+    try {
+      await onUpload(files);
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : "Unable to add those files.");
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/5 bg-slate-900/70 p-6 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Assets</h2>
+          <p className="text-xs text-slate-400">
+            Uploads are stored once and shared by every scene that uses them.
+          </p>
+        </div>
+        <label className="cursor-pointer rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:bg-slate-700">
+          Upload
+          <input
+            type="file"
+            multiple
+            accept={`image/*,video/*,audio/*,${FONT_FILE_TYPES}`}
+            onChange={handleUpload}
+            className="hidden"
+          />
+        </label>
+      </div>
+      {uploadError ? <p className="mt-2 text-xs text-rose-300">{uploadError}</p> : null}
+      {assets.length ? (
+        <>
+          <div className="mt-4 flex items-center justify-between gap-3">
+            <select
+              value={filter}
+              onChange={(event) => setFilter(event.target.value as AssetKind | "all")}
+              aria-label="Show assets of kind"
+              className={fieldClassName}
+            >
+              {KIND_FILTERS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onRemove(unused.map((asset) => asset.id))}
+              disabled={!unused.length}
+              title="Removing assets can't be undone"
+              className={actionClassName}
+            >
+              Remove unused ({unused.length}
+              {unused.length ? ` · ${formatFileSize(unusedSize)}` : ""})
+            </button>
+          </div>
+          <ul className="mt-3 grid max-h-96 grid-cols-2 gap-2 overflow-y-auto">
+            {visible.map((asset) => {
+              const url = resolveMediaSrc(getAssetRef(asset.id));
+              const count = usage.get(asset.id) ?? 0;
+              return (
+                <li
+                  key={asset.id}
+                  className="flex flex-col gap-1 rounded-2xl border border-white/10 bg-slate-950/60 p-2 text-xs text-slate-300"
+                >
+                  <div className="relative flex aspect-video items-center justify-center overflow-hidden rounded-lg bg-black text-lg text-slate-400">
+                    {asset.kind === "image" ? (
+                      <NextImage
+                        src={url}
+                        alt=""
+                        fill
+                        unoptimized
+                        className="object-contain"
+                        sizes="160px"
+                      />
+                    ) : asset.kind === "video" ? (
+                      <video src={url} muted preload="metadata" className="h-full w-full" />
+                    ) : asset.kind === "audio" ? (
+                      "♪"
+                    ) : (
+                      "Aa"
+                    )}
+                  </div>
+                  <p className="truncate font-semibold text-slate-100" title={asset.name}>
+                    {asset.name}
+                  </p>
+                  <p className="text-[0.65rem] text-slate-500">
+                    {formatFileSize(asset.size)} · {count ? `used ${count}×` : "unused"}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {asset.kind === "image" || asset.kind === "video" ? (
+                      <button
+                        onClick={() => onUseAsBackground(asset)}
+                        disabled={!hasScene}
+                        className={actionClassName}
+                      >
+                        Background
+                      </button>
+                    ) : null}
+                    {asset.kind === "image" ? (
+                      <button
+                        onClick={() => onAddLayer(asset)}
+                        disabled={!hasScene}
+                        className={actionClassName}
+                      >
+                        Layer
+                      </button>
+                    ) : null}
+                    <button
+                      onClick={() => onRemove([asset.id])}
+                      disabled={count > 0}
+                      title={count ? "In use by the project" : "Remove from the library"}
+                      aria-label={`Remove ${asset.name}`}
+                      className={actionClassName}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      ) : (
+        <p className="mt-4 text-xs text-slate-400">
+          Images, clips, audio and fonts you upload appear here.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { resolveMediaSrc } from "../core/assets";
+import type { AudioClip } from "../core/audio";
+import { MAX_CLIP_VOLUME } from "../core/audio";
+
+type AudioClipFieldsProps = {
+  clip: AudioClip;
+  onChange: (data: Partial<AudioClip>) => void;
+};
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+const toSeconds = (value: string) => Math.max(0, Number(value) || 0);
+
+export default function AudioClipFields({ clip, onChange }: AudioClipFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-2 text-xs text-slate-300">
+      <audio controls src={resolveMediaSrc(clip.src)} className="col-span-2 h-8 w-full" />
+      <label className="flex flex-col gap-1">
+        <span>Trim start (s)</span>
+        <input
+          type="number"
+          min={0}
+          max={clip.trimEnd}
+          step={0.1}
+          value={clip.trimStart}
+          onChange={(event) =>
+            onChange({ trimStart: Math.min(clip.trimEnd, toSeconds(event.target.value)) })
+          }
+          className={fieldClassName}
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Trim end (s)</span>
+        <input
+          type="number"
+          min={clip.trimStart}
+          max={clip.sourceDuration}
+          step={0.1}
+          value={clip.trimEnd}
+          onChange={(event) =>
+            onChange({
+              trimEnd: Math.min(
+                clip.sourceDuration,
+                Math.max(clip.trimStart, toSeconds(event.target.value)),
+              ),
+            })
+          }
+          className={fieldClassName}
+        />
+      </label>
+      <label className="col-span-2 flex flex-col gap-1">
+        <span>Volume ({Math.round(clip.volume * 100)}%)</span>
+        <input
+          type="range"
+          min={0}
+          max={MAX_CLIP_VOLUME}
+          step={0.05}
+          value={clip.volume}
+          onChange={(event) => onChange({ volume: Number(event.target.value) })}
+          className="accent-sky-500"
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Fade in (s)</span>
+        <input
+          type="number"
+          min={0}
+          step={0.1}
+          value={clip.fadeIn}
+          onChange={(event) => onChange({ fadeIn: toSeconds(event.target.value) })}
+          className={fieldClassName}
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Fade out (s)</span>
+        <input
+          type="number"
+          min={0}
+          step={0.1}
+          value={clip.fadeOut}
+          onChange={(event) => onChange({ fadeOut: toSeconds(event.target.value) })}
+          className={fieldClassName}
+        />
+      </label>
+    </div>
+  );
+}
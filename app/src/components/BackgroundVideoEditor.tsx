@@ -0,0 +1,158 @@
+'use client';
+
+import type { ChangeEvent } from "react";
+import { useState } from "react";
+import { MAX_CLIP_VOLUME } from "../core/audio";
+import { resolveMediaSrc } from "../core/assets";
+import type { BackgroundVideo, VideoEndBehavior } from "../core/video";
+import {
+  VIDEO_END_OPTIONS,
+  createBackgroundVideo,
+  getVideoClipLength,
+  readVideoDuration,
+} from "../core/video";
+
+type BackgroundVideoEditorProps = {
+  src: string;
+  video: BackgroundVideo | null;
+  onUpload: (src: string, video: BackgroundVideo) => void;
+  /** Adds an uploaded file to the asset library and resolves to its reference. */
+  onStoreFile: (file: File) => Promise<string>;
+  onChange: (video: BackgroundVideo) => void;
+  onFitDuration: (duration: number) => void;
+};
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+const toSeconds = (value: string) => Math.max(0, Number(value) || 0);
+
+export default function BackgroundVideoEditor({
+  src,
+  video,
+  onUpload,
+  onStoreFile,
+  onChange,
+  onFitDuration,
+}: BackgroundVideoEditorProps) {
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setUploadError(null);
+    try {
+      const src = await onStoreFile(file);
+      const duration = await readVideoDuration(resolveMediaSrc(src));
+      onUpload(src, createBackgroundVideo(file.name, duration));
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : "Unable to add that video file.");
+    }
+  };
+
+  const update = (data: Partial<BackgroundVideo>) => video && onChange({ ...video, ...data });
+
+  return (
+    <div className="flex flex-col gap-2">
+      <input
+        type="file"
+        accept="video/*"
+        onChange={handleUpload}
+        className="text-xs text-slate-300"
+      />
+      {uploadError ? <p className="text-xs text-rose-300">{uploadError}</p> : null}
+      {video && src ? (
+        <div className="grid grid-cols-2 gap-2 rounded-xl border border-white/5 bg-slate-950/40 p-3 text-xs text-slate-300">
+          <p className="col-span-2 truncate font-semibold text-slate-100">{video.name}</p>
+          <video
+            src={resolveMediaSrc(src)}
+            muted
+            controls
+            className="col-span-2 w-full rounded-lg bg-black"
+          />
+          <label className="flex flex-col gap-1">
+            <span>Trim start (s)</span>
+            <input
+              type="number"
+              min={0}
+              max={video.trimEnd}
+              step={0.1}
+              value={video.trimStart}
+              onChange={(event) =>
+                update({ trimStart: Math.min(video.trimEnd, toSeconds(event.target.value)) })
+              }
+              className={fieldClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Trim end (s)</span>
+            <input
+              type="number"
+              min={video.trimStart}
+              max={video.sourceDuration}
+              step={0.1}
+              value={video.trimEnd}
+              onChange={(event) =>
+                update({
+                  trimEnd: Math.min(
+                    video.sourceDuration,
+                    Math.max(video.trimStart, toSeconds(event.target.value)),
+                  ),
+                })
+              }
+              className={fieldClassName}
+            />
+          </label>
+          <label className="col-span-2 flex flex-col gap-1">
+            <span>When the clip ends</span>
+            <select
+              value={video.end}
+              onChange={(event) => update({ end: event.target.value as VideoEndBehavior })}
+              className={fieldClassName}
+            >
+              {VIDEO_END_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="col-span-2 flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!video.muted}
+              onChange={(event) => update({ muted: !event.target.checked })}
+              className="accent-sky-500"
+            />
+            Keep the clip&apos;s sound
+          </label>
+          {video.muted ? null : (
+            <label className="col-span-2 flex flex-col gap-1">
+              <span>Volume ({Math.round(video.volume * 100)}%)</span>
+              <input
+                type="range"
+                min={0}
+                max={MAX_CLIP_VOLUME}
+                step={0.05}
+                value={video.volume}
+                onChange={(event) => update({ volume: Number(event.target.value) })}
+                className="accent-sky-500"
+              />
+            </label>
+          )}
+          <button
+            onClick={() => onFitDuration(getVideoClipLength(video))}
+            className="col-span-2 rounded-full bg-slate-800 px-4 py-2 text-xs font-semibold uppercase tracking-wider text-slate-200 transition hover:bg-slate-700"
+          >
+            Fit scene to clip
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400">
+          Upload a short MP4 or WebM clip to play behind this scene.
+        </p>
+      )}
+    </div>
+  );
+}
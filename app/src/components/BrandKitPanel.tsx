@@ -0,0 +1,386 @@
+'use client';
+
+import NextImage from "next/image";
+import type { ChangeEvent } from "react";
+import { useState } from "react";
+import clsx from "clsx";
+import type { BrandKit, BrandLogo, LogoCorner } from "../core/brandKit";
+import {
+  LOGO_CORNER_OPTIONS,
+  createBrandLogo,
+  parseBrandKitFile,
+  serializeBrandKit,
+} from "../core/brandKit";
+import { downloadBlob, readFileAsDataUrl } from "../core/files";
+import { FONT_FILE_TYPES, getFontStack, readFontFile } from "../core/fonts";
+import { getSlideLabel } from "../core/slides";
+
+export type BumperPart = "intro" | "outro";
+
+type BrandKitPanelProps = {
+  kit: BrandKit;
+  saveError: string | null;
+  /** How many scenes are selected in the editor, to offer as a bumper. */
+  selectedCount: number;
+  onUpdate: (changes: Partial<BrandKit>) => void;
+  /** Swaps in a whole kit, e.g. one imported from a file; ignored while the kit is locked. */
+  onReplace: (kit: BrandKit) => void;
+  onUnlock: () => void;
+  /** Keeps copies of the selected scenes as the kit's intro or outro. */
+  onSaveBumper: (part: BumperPart) => void;
+};
+
+const fieldClassName =
+  "rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+const actionClassName =
+  "rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40";
+
+const BUMPERS: { part: BumperPart; label: string; hint: string }[] = [
+  { part: "intro", label: "Intro", hint: "Plays before every export" },
+  { part: "outro", label: "Outro", hint: "Plays after every export, e.g. a call to action" },
+];
+
+const KIT_FILE_NAME = "brand-kit.storyforge-brand.json";
+
+/**
+ * The team's brand kit: a logo burned into every frame, intro and outro
+ * scenes added on export, and colours and fonts offered in the pickers.
+ */
+export default function BrandKitPanel({
+  kit,
+  saveError,
+  selectedCount,
+  onUpdate,
+  onReplace,
+  onUnlock,
+  onSaveBumper,
+}: BrandKitPanelProps) {
+  const [newColor, setNewColor] = useState("#0ea5e9");
+  const [error, setError] = useState<string | null>(null);
+  const [isConfirmingUnlock, setIsConfirmingUnlock] = useState(false);
+
+  const updateLogo = (changes: Partial<BrandLogo>) => {
+    if (kit.logo) onUpdate({ logo: { ...kit.logo, ...changes } });
+  };
+
+  const handleLogoUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const src = await readFileAsDataUrl(file);
+    onUpdate({ logo: kit.logo ? { ...kit.logo, src } : createBrandLogo(src) });
+  };
+
+  const handleFontUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setError(null);
+    try {
+      // Kept as data URLs, like the rest of the kit, so they work in every project.
+      const font = await readFontFile(file, readFileAsDataUrl);
+      onUpdate({ fonts: [...kit.fonts, font] });
+    } catch (fontError) {
+      setError(fontError instanceof Error ? fontError.message : "Unable to add that font.");
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setError(null);
+    try {
+      onReplace(parseBrandKitFile(await file.text()));
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : "Unable to read that kit.");
+    }
+  };
+
+  const addColor = () => {
+    if (!kit.colors.includes(newColor)) onUpdate({ colors: [...kit.colors, newColor] });
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/5 bg-slate-900/70 p-6 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-white">
+          Brand kit
+          {kit.isLocked ? (
+            <span className="ml-2 rounded-full bg-amber-500/20 px-2 py-0.5 align-middle text-xs font-semibold text-amber-200">
+              Locked
+            </span>
+          ) : null}
+        </h2>
+        <div className="flex gap-2">
+          <label
+            aria-disabled={kit.isLocked}
+            title={kit.isLocked ? "Unlock the kit to import another" : undefined}
+            className={clsx(
+              actionClassName,
+              kit.isLocked ? "cursor-not-allowed opacity-40" : "cursor-pointer",
+            )}
+          >
+            Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImport}
+              disabled={kit.isLocked}
+              className="hidden"
+            />
+          </label>
+          <button
+            onClick={() =>
+              downloadBlob(
+                new Blob([serializeBrandKit(kit)], { type: "application/json" }),
+                KIT_FILE_NAME,
+              )
+            }
+            className={actionClassName}
+          >
+            Export
+          </button>
+        </div>
+      </div>
+      <p className="mt-1 text-xs text-slate-400">
+        Shared by every project in this browser. Export it to hand the same kit to your team.
+      </p>
+
+      <fieldset
+        disabled={kit.isLocked}
+        className="mt-4 flex min-w-0 flex-col gap-5 text-slate-300 disabled:opacity-60"
+      >
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+            Logo
+          </span>
+          <div className="flex flex-wrap items-center gap-3">
+            {kit.logo ? (
+              <div className="relative h-10 w-24 rounded border border-white/10 bg-slate-950">
+                <NextImage
+                  src={kit.logo.src}
+                  alt="Brand logo"
+                  fill
+                  unoptimized
+                  className="object-contain p-1"
+                  sizes="96px"
+                />
+              </div>
+            ) : null}
+            <label className={clsx(actionClassName, "cursor-pointer")}>
+              {kit.logo ? "Replace logo" : "Upload logo"}
+              <input type="file" accept="image/*" onChange={handleLogoUpload} className="hidden" />
+            </label>
+            {kit.logo ? (
+              <button onClick={() => onUpdate({ logo: null })} className={actionClassName}>
+                Remove
+              </button>
+            ) : null}
+          </div>
+          {kit.logo ? (
+            <div className="grid grid-cols-2 gap-3 text-xs">
+              <label className="col-span-2 flex flex-col gap-1">
+                <span>Corner</span>
+                <select
+                  value={kit.logo.corner}
+                  onChange={(event) => updateLogo({ corner: event.target.value as LogoCorner })}
+                  className={fieldClassName}
+                >
+                  {LOGO_CORNER_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span>Size ({Math.round(kit.logo.size * 100)}% of height)</span>
+                <input
+                  type="range"
+                  min={0.03}
+                  max={0.3}
+                  step={0.01}
+                  value={kit.logo.size}
+                  onChange={(event) => updateLogo({ size: Number(event.target.value) })}
+                  className="accent-sky-500"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span>Opacity ({Math.round(kit.logo.opacity * 100)}%)</span>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={kit.logo.opacity}
+                  onChange={(event) => updateLogo({ opacity: Number(event.target.value) })}
+                  className="accent-sky-500"
+                />
+              </label>
+              <label className="col-span-2 flex flex-col gap-1">
+                <span>Margin ({Math.round(kit.logo.margin * 100)}% of height)</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={0.15}
+                  step={0.005}
+                  value={kit.logo.margin}
+                  onChange={(event) => updateLogo({ margin: Number(event.target.value) })}
+                  className="accent-sky-500"
+                />
+              </label>
+            </div>
+          ) : null}
+        </div>
+
+        {BUMPERS.map(({ part, label, hint }) => {
+          const scenes = kit[part];
+          return (
+            <div key={part} className="flex flex-col gap-2">
+              <span className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+                {label}
+              </span>
+              <p className="text-xs text-slate-400">
+                {scenes.length
+                  ? `${scenes.map(getSlideLabel).join(", ")} · ${scenes
+                      .reduce((total, scene) => total + scene.duration, 0)
+                      .toFixed(1)}s`
+                  : `None. ${hint}.`}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => onSaveBumper(part)}
+                  disabled={!selectedCount}
+                  className={actionClassName}
+                >
+                  Use selected {selectedCount === 1 ? "scene" : "scenes"}
+                </button>
+                <button
+                  onClick={() => onUpdate({ [part]: [] })}
+                  disabled={!scenes.length}
+                  className={actionClassName}
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+            Colours
+          </span>
+          <ul className="flex flex-wrap gap-2">
+            {kit.colors.map((color) => (
+              <li key={color}>
+                <button
+                  onClick={() => onUpdate({ colors: kit.colors.filter((item) => item !== color) })}
+                  aria-label={`Remove ${color}`}
+                  title={`Remove ${color}`}
+                  className="h-7 w-7 rounded-full border border-white/20 transition hover:scale-110"
+                  style={{ background: color }}
+                />
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={newColor}
+              onChange={(event) => setNewColor(event.target.value)}
+              aria-label="Brand colour"
+              className="h-8 w-12 cursor-pointer rounded border border-white/10 bg-transparent"
+            />
+            <button onClick={addColor} className={actionClassName}>
+              Add colour
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+            Fonts
+          </span>
+          <ul className="flex flex-col gap-1">
+            {kit.fonts.map((font) => (
+              <li key={font.id} className="flex items-center justify-between gap-2">
+                <span className="truncate" style={{ fontFamily: getFontStack(font) }}>
+                  {font.name}
+                </span>
+                <button
+                  onClick={() =>
+                    onUpdate({ fonts: kit.fonts.filter((item) => item.id !== font.id) })
+                  }
+                  aria-label={`Remove ${font.name}`}
+                  className="text-xs text-slate-400 hover:text-slate-200"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+          <label className={clsx(actionClassName, "w-fit cursor-pointer")}>
+            Upload a font (TTF, OTF or WOFF)
+            <input
+              type="file"
+              accept={FONT_FILE_TYPES}
+              onChange={handleFontUpload}
+              className="hidden"
+            />
+          </label>
+        </div>
+
+        {kit.isLocked ? null : (
+          <div className="flex flex-col gap-2 border-t border-white/10 pt-4">
+            <button
+              onClick={() => onUpdate({ isLocked: true })}
+              className="w-fit rounded-full bg-amber-500/20 px-4 py-1.5 text-xs font-semibold text-amber-100 transition hover:bg-amber-500/30"
+            >
+              Lock brand kit
+            </button>
+            <p className="text-xs text-slate-400">
+              A locked kit can&apos;t be edited or replaced by an import until it is unlocked.
+            </p>
+          </div>
+        )}
+      </fieldset>
+
+      {kit.isLocked ? (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          {isConfirmingUnlock ? (
+            <>
+              <span>Unlock the kit so it can be edited and replaced?</span>
+              <button
+                onClick={() => {
+                  setIsConfirmingUnlock(false);
+                  onUnlock();
+                }}
+                className={actionClassName}
+              >
+                Unlock
+              </button>
+              <button onClick={() => setIsConfirmingUnlock(false)} className={actionClassName}>
+                Keep locked
+              </button>
+            </>
+          ) : (
+            <>
+              <span>This kit is locked.</span>
+              <button onClick={() => setIsConfirmingUnlock(true)} className={actionClassName}>
+                Unlock…
+              </button>
+            </>
+          )}
+        </div>
+      ) : null}
+      {error || saveError ? (
+        <p role="alert" className="mt-3 text-xs text-rose-300">
+          {error ?? saveError}
+        </p>
+      ) : null}
+    </div>
+  );
+}
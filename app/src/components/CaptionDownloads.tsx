@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from "react";
+import type { CaptionFormat, CaptionTiming } from "../core/captions";
+import { CAPTION_TIMING_OPTIONS, buildCaptionCues, createCaptionBlob } from "../core/captions";
+import { downloadBlob } from "../core/files";
+import type { TimelineEntry } from "../core/transitions";
+
+type CaptionDownloadsProps = {
+  timeline: TimelineEntry[];
+  /** File name without an extension, shared with the video. */
+  baseName: string;
+};
+
+const fieldClassName =
+  "rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+const FORMATS: { value: CaptionFormat; label: string }[] = [
+  { value: "srt", label: "SRT" },
+  { value: "vtt", label: "WebVTT" },
+];
+
+/**
+ * Caption files built from the scenes' text, to upload alongside the video.
+ * Scene descriptions can be added for an audio-description-friendly track.
+ */
+export default function CaptionDownloads({ timeline, baseName }: CaptionDownloadsProps) {
+  const [timing, setTiming] = useState<CaptionTiming>("scene");
+  const hasDescriptions = timeline.some((entry) => entry.slide.altText.trim());
+  const [includeDescriptions, setIncludeDescriptions] = useState(hasDescriptions);
+  const cues = buildCaptionCues(timeline, timing, includeDescriptions);
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-3 border-t border-white/10 pt-4 text-xs text-slate-300">
+      <span className="font-semibold uppercase tracking-wider text-slate-400">Captions</span>
+      <select
+        value={timing}
+        onChange={(event) => setTiming(event.target.value as CaptionTiming)}
+        aria-label="Caption timing"
+        className={fieldClassName}
+      >
+        {CAPTION_TIMING_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <label
+        title={hasDescriptions ? undefined : "No scene has a description yet"}
+        className="flex items-center gap-2"
+      >
+        <input
+          type="checkbox"
+          checked={includeDescriptions && hasDescriptions}
+          disabled={!hasDescriptions}
+          onChange={(event) => setIncludeDescriptions(event.target.checked)}
+          className="accent-sky-500"
+        />
+        Include scene descriptions
+      </label>
+      {FORMATS.map((format) => (
+        <button
+          key={format.value}
+          onClick={() =>
+            downloadBlob(createCaptionBlob(cues, format.value), `${baseName}.${format.value}`)
+          }
+          disabled={!cues.length}
+          className="rounded-full bg-slate-800 px-4 py-2 font-semibold text-slate-200 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          Download {format.label}
+        </button>
+      ))}
+      {cues.length ? null : <span className="text-slate-500">No scene has any text yet.</span>}
+    </div>
+  );
+}
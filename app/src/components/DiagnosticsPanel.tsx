@@ -0,0 +1,157 @@
+'use client';
+
+import clsx from "clsx";
+import type { Diagnostic } from "../core/diagnostics";
+import type { Slide } from "../core/slides";
+import { getSlideLabel } from "../core/slides";
+
+type DiagnosticsPanelProps = {
+  /** Null until the first check. */
+  diagnostics: Diagnostic[] | null;
+  /** The scenes or settings changed since the last check. */
+  isStale: boolean;
+  isChecking: boolean;
+  /** The last Generate was stopped by errors in this check. */
+  isBlocked: boolean;
+  slides: Slide[];
+  /** The brand kit's bumpers, checked as part of the export. */
+  intro: Slide[];
+  outro: Slide[];
+  onCheck: () => void;
+  onGoToScene: (slideId: string) => void;
+};
+
+const actionClassName =
+  "rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:bg-slate-700 disabled:cursor-wait disabled:opacity-60";
+
+const SEVERITY_LABELS: Record<Diagnostic["severity"], string> = {
+  error: "Error",
+  warning: "Warning",
+};
+
+const countLabel = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+type SceneGroup = {
+  key: string;
+  label: string;
+  /** Set for the project's own scenes, which the editor can jump to. */
+  slideId: string | null;
+  items: Diagnostic[];
+};
+
+/**
+ * Problems found before an export, grouped by scene with links to each of
+ * the project's own; brand bumper scenes are edited in the brand kit.
+ * Errors stop the export; warnings are only listed.
+ */
+export default function DiagnosticsPanel({
+  diagnostics,
+  isStale,
+  isChecking,
+  isBlocked,
+  slides,
+  intro,
+  outro,
+  onCheck,
+  onGoToScene,
+}: DiagnosticsPanelProps) {
+  const errorCount = diagnostics?.filter((item) => item.severity === "error").length ?? 0;
+  const warningCount = (diagnostics?.length ?? 0) - errorCount;
+  const scenes = [
+    ...intro.map((slide, index) => ({ slide, label: `Brand intro ${index + 1}`, isBumper: true })),
+    ...slides.map((slide, index) => ({ slide, label: `Scene ${index + 1}`, isBumper: false })),
+    ...outro.map((slide, index) => ({ slide, label: `Brand outro ${index + 1}`, isBumper: true })),
+  ];
+  const groups: SceneGroup[] = diagnostics
+    ? [
+        ...scenes.flatMap(({ slide, label, isBumper }) => {
+          const items = diagnostics.filter((item) => item.slideId === slide.id);
+          return items.length
+            ? [
+                {
+                  key: slide.id,
+                  label: `${label}: ${getSlideLabel(slide)}`,
+                  slideId: isBumper ? null : slide.id,
+                  items,
+                },
+              ]
+            : [];
+        }),
+        ...(diagnostics.some((item) => item.slideId === null)
+          ? [
+              {
+                key: "export",
+                label: "Whole export",
+                slideId: null,
+                items: diagnostics.filter((item) => !item.slideId),
+              },
+            ]
+          : []),
+      ]
+    : [];
+
+  return (
+    <div className="rounded-3xl border border-white/5 bg-slate-900/70 p-6 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-white">Pre-export check</h2>
+        <button onClick={onCheck} disabled={isChecking} className={actionClassName}>
+          {isChecking ? "Checking…" : diagnostics ? "Check again" : "Check now"}
+        </button>
+      </div>
+      <p role="status" className="mt-1 text-xs text-slate-400">
+        {isChecking
+          ? "Checking scenes, media and export settings…"
+          : !diagnostics
+            ? "Runs before every export. Errors stop the export; warnings don't."
+            : !diagnostics.length
+              ? "No problems found."
+              : `${countLabel(errorCount, "error")}, ${countLabel(warningCount, "warning")}.${
+                  isStale ? " Changes since this check aren't reflected." : ""
+                }`}
+      </p>
+      {isBlocked && errorCount > 0 && !isChecking ? (
+        <p
+          role="alert"
+          className="mt-3 rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-xs text-rose-200"
+        >
+          The export didn&apos;t start. Fix the errors below, then generate again.
+        </p>
+      ) : null}
+      {groups.length ? (
+        <ul className="mt-4 flex flex-col gap-4">
+          {groups.map(({ key, label, slideId, items }) => (
+            <li key={key} className="flex flex-col gap-2">
+              {slideId ? (
+                <button
+                  onClick={() => onGoToScene(slideId)}
+                  className="w-fit truncate text-left text-xs font-semibold text-sky-300 underline-offset-2 hover:underline"
+                >
+                  {label}
+                </button>
+              ) : (
+                <span className="truncate text-xs font-semibold text-slate-300">{label}</span>
+              )}
+              <ul className="flex flex-col gap-1.5">
+                {items.map((item) => (
+                  <li key={item.id} className="flex items-start gap-2 text-xs text-slate-300">
+                    <span
+                      className={clsx(
+                        "shrink-0 rounded-full px-2 py-0.5 text-[0.65rem] font-semibold uppercase tracking-wider",
+                        item.severity === "error"
+                          ? "bg-rose-500/20 text-rose-200"
+                          : "bg-amber-500/20 text-amber-200",
+                      )}
+                    >
+                      {SEVERITY_LABELS[item.severity]}
+                    </span>
+                    <span>{item.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
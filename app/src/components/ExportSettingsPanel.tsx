@@ -0,0 +1,235 @@
+'use client';
+
+import type {
+  ExportFormat,
+  ExportSettings,
+  GifExportSettings,
+  H264Profile,
+  WebmCodec,
+} from "../core/exportFormats";
+import {
+  EXPORT_FORMAT_OPTIONS,
+  GIF_COLOR_OPTIONS,
+  GIF_FPS_OPTIONS,
+  GIF_WIDTH_OPTIONS,
+  H264_PROFILE_OPTIONS,
+  MAX_GIF_DURATION,
+  PNG_FPS_OPTIONS,
+  WEBM_CODEC_OPTIONS,
+} from "../core/exportFormats";
+
+type ExportSettingsPanelProps = {
+  settings: ExportSettings;
+  /** Output frame rate, shown as the PNG sequence default. */
+  outputFps: number;
+  onChange: (settings: ExportSettings) => void;
+};
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+export default function ExportSettingsPanel({
+  settings,
+  outputFps,
+  onChange,
+}: ExportSettingsPanelProps) {
+  const updateGif = (data: Partial<GifExportSettings>) =>
+    onChange({ ...settings, gif: { ...settings.gif, ...data } });
+
+  return (
+    <div className="rounded-3xl border border-white/5 bg-slate-900/70 p-6 text-sm">
+      <h2 className="text-lg font-semibold text-white">Export Format</h2>
+      <div className="mt-4 grid grid-cols-2 gap-3 text-xs text-slate-300 md:grid-cols-4">
+        <label className="col-span-2 flex flex-col gap-1">
+          <span>Format</span>
+          <select
+            value={settings.format}
+            onChange={(event) =>
+              onChange({ ...settings, format: event.target.value as ExportFormat })
+            }
+            className={fieldClassName}
+          >
+            {EXPORT_FORMAT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {settings.format === "mp4" ? (
+          <>
+            <label className="flex flex-col gap-1">
+              <span>H.264 profile</span>
+              <select
+                value={settings.mp4.profile}
+                onChange={(event) =>
+                  onChange({
+                    ...settings,
+                    mp4: { ...settings.mp4, profile: event.target.value as H264Profile },
+                  })
+                }
+                className={fieldClassName}
+              >
+                {H264_PROFILE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-end gap-2 pb-1">
+              <input
+                type="checkbox"
+                checked={settings.mp4.includeAudio}
+                onChange={(event) =>
+                  onChange({
+                    ...settings,
+                    mp4: { ...settings.mp4, includeAudio: event.target.checked },
+                  })
+                }
+                className="accent-sky-500"
+              />
+              Include soundtrack
+            </label>
+          </>
+        ) : null}
+
+        {settings.format === "webm" ? (
+          <>
+            <label className="flex flex-col gap-1">
+              <span>Codec</span>
+              <select
+                value={settings.webm.codec}
+                onChange={(event) =>
+                  onChange({
+                    ...settings,
+                    webm: { ...settings.webm, codec: event.target.value as WebmCodec },
+                  })
+                }
+                className={fieldClassName}
+              >
+                {WEBM_CODEC_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-end gap-2 pb-1">
+              <input
+                type="checkbox"
+                checked={settings.webm.includeAudio}
+                onChange={(event) =>
+                  onChange({
+                    ...settings,
+                    webm: { ...settings.webm, includeAudio: event.target.checked },
+                  })
+                }
+                className="accent-sky-500"
+              />
+              Include soundtrack
+            </label>
+          </>
+        ) : null}
+
+        {settings.format === "gif" ? (
+          <>
+            <label className="flex flex-col gap-1">
+              <span>Width</span>
+              <select
+                value={settings.gif.width}
+                onChange={(event) => updateGif({ width: Number(event.target.value) })}
+                className={fieldClassName}
+              >
+                {GIF_WIDTH_OPTIONS.map((width) => (
+                  <option key={width} value={width}>
+                    {width}px
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>Frame rate</span>
+              <select
+                value={settings.gif.fps}
+                onChange={(event) => updateGif({ fps: Number(event.target.value) })}
+                className={fieldClassName}
+              >
+                {GIF_FPS_OPTIONS.map((fps) => (
+                  <option key={fps} value={fps}>
+                    {fps} fps
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>Colors</span>
+              <select
+                value={settings.gif.colors}
+                onChange={(event) => updateGif({ colors: Number(event.target.value) })}
+                className={fieldClassName}
+              >
+                {GIF_COLOR_OPTIONS.map((colors) => (
+                  <option key={colors} value={colors}>
+                    {colors}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-end gap-2 pb-1">
+              <input
+                type="checkbox"
+                checked={settings.gif.dither}
+                onChange={(event) => updateGif({ dither: event.target.checked })}
+                className="accent-sky-500"
+              />
+              Dither
+            </label>
+            <label className="flex items-end gap-2 pb-1">
+              <input
+                type="checkbox"
+                checked={settings.gif.loop}
+                onChange={(event) => updateGif({ loop: event.target.checked })}
+                className="accent-sky-500"
+              />
+              Loop forever
+            </label>
+          </>
+        ) : null}
+
+        {settings.format === "png-sequence" ? (
+          <label className="flex flex-col gap-1">
+            <span>Frame rate</span>
+            <select
+              value={settings.pngSequence.fps ?? ""}
+              onChange={(event) =>
+                onChange({
+                  ...settings,
+                  pngSequence: { fps: event.target.value ? Number(event.target.value) : null },
+                })
+              }
+              className={fieldClassName}
+            >
+              <option value="">Same as video ({outputFps} fps)</option>
+              {PNG_FPS_OPTIONS.map((fps) => (
+                <option key={fps} value={fps}>
+                  {fps} fps
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+      </div>
+      <p className="mt-3 text-xs text-slate-400">
+        {settings.format === "mp4"
+          ? "H.264 video with AAC audio plays almost everywhere, including phones and messaging apps."
+          : settings.format === "webm"
+            ? "WebM is compact and plays in modern browsers, but some phones and editors cannot open it."
+            : settings.format === "gif"
+              ? `GIFs have no sound and are limited to ${MAX_GIF_DURATION} seconds; lower sizes and frame rates keep files small.`
+              : "Each frame is saved as a numbered PNG at the output size, ready for editing software."}
+      </p>
+    </div>
+  );
+}
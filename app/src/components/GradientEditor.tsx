@@ -0,0 +1,140 @@
+'use client';
+
+import type { BackgroundGradient, GradientKind, GradientStop } from "../core/backgrounds";
+import { BRAND_COLORS_LIST_ID } from "../core/brandKit";
+import {
+  GRADIENT_KIND_OPTIONS,
+  MAX_GRADIENT_SHIFT,
+  MAX_GRADIENT_STOPS,
+  MIN_GRADIENT_STOPS,
+  sortGradientStops,
+  toCssGradient,
+} from "../core/backgrounds";
+
+type GradientEditorProps = {
+  gradient: BackgroundGradient;
+  onChange: (gradient: BackgroundGradient) => void;
+};
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40 disabled:opacity-50";
+
+export default function GradientEditor({ gradient, onChange }: GradientEditorProps) {
+  const update = (data: Partial<BackgroundGradient>) => onChange({ ...gradient, ...data });
+
+  const updateStop = (index: number, data: Partial<GradientStop>) =>
+    update({
+      stops: gradient.stops.map((stop, stopIndex) =>
+        stopIndex === index ? { ...stop, ...data } : stop,
+      ),
+    });
+
+  /** Puts the new stop in the middle of the widest gap, in the colour on its left. */
+  const addStop = () => {
+    const sorted = sortGradientStops(gradient.stops);
+    const gaps = sorted.slice(1).map((stop, index) => stop.position - sorted[index].position);
+    const gapIndex = gaps.indexOf(Math.max(...gaps));
+    const from = sorted[gapIndex];
+    const to = sorted[gapIndex + 1];
+    update({
+      stops: [
+        ...gradient.stops,
+        { color: from.color, position: (from.position + to.position) / 2 },
+      ],
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2 rounded-xl border border-white/5 bg-slate-950/40 p-3 text-xs text-slate-300">
+      <div
+        className="col-span-2 h-10 rounded-lg border border-white/10"
+        style={{ background: toCssGradient(gradient) }}
+      />
+      <label className="flex flex-col gap-1">
+        <span>Type</span>
+        <select
+          value={gradient.kind}
+          onChange={(event) => update({ kind: event.target.value as GradientKind })}
+          className={fieldClassName}
+        >
+          {GRADIENT_KIND_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Angle {gradient.angle}°</span>
+        <input
+          type="range"
+          min={0}
+          max={360}
+          step={5}
+          value={gradient.angle}
+          disabled={gradient.kind === "radial"}
+          onChange={(event) => update({ angle: Number(event.target.value) })}
+          className="accent-sky-500 disabled:opacity-40"
+        />
+      </label>
+      <span className="col-span-2 mt-1">Colour stops</span>
+      {gradient.stops.map((stop, index) => (
+        <div key={index} className="col-span-2 flex items-center gap-2">
+          <input
+            type="color"
+            list={BRAND_COLORS_LIST_ID}
+            value={stop.color}
+            onChange={(event) => updateStop(index, { color: event.target.value })}
+            aria-label={`Stop ${index + 1} colour`}
+            className="h-7 w-10 shrink-0 cursor-pointer rounded-lg border border-white/10 bg-slate-950"
+          />
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={stop.position}
+            onChange={(event) => updateStop(index, { position: Number(event.target.value) })}
+            aria-label={`Stop ${index + 1} position`}
+            className="min-w-0 flex-1 accent-sky-500"
+          />
+          <span className="w-9 text-right tabular-nums">{Math.round(stop.position * 100)}%</span>
+          <button
+            onClick={() =>
+              update({ stops: gradient.stops.filter((_, stopIndex) => stopIndex !== index) })
+            }
+            disabled={gradient.stops.length <= MIN_GRADIENT_STOPS}
+            title="Remove stop"
+            className="text-slate-400 hover:text-slate-100 disabled:cursor-not-allowed disabled:opacity-30"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={addStop}
+        disabled={gradient.stops.length >= MAX_GRADIENT_STOPS}
+        className="col-span-2 rounded-full bg-slate-800 px-3 py-1 text-[0.65rem] font-semibold uppercase tracking-widest text-slate-300 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40"
+      >
+        Add stop
+      </button>
+      <label className="col-span-2 flex flex-col gap-1">
+        <span>
+          Colour drift{" "}
+          {gradient.shift > 0
+            ? `${gradient.shift} ${gradient.shift === 1 ? "cycle" : "cycles"} per scene`
+            : "off"}
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={MAX_GRADIENT_SHIFT}
+          step={0.25}
+          value={gradient.shift}
+          onChange={(event) => update({ shift: Number(event.target.value) })}
+          className="accent-sky-500"
+        />
+      </label>
+    </div>
+  );
+}
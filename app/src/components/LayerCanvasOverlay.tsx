@@ -0,0 +1,217 @@
+'use client';
+
+import type { KeyboardEvent as ReactKeyboardEvent, PointerEvent as ReactPointerEvent } from "react";
+import { useRef } from "react";
+import clsx from "clsx";
+import type { Layer, LayerFrame } from "../core/layers";
+import { MIN_LAYER_SIZE, getLayerLabel } from "../core/layers";
+
+type Handle = "move" | "rotate" | "nw" | "ne" | "sw" | "se";
+
+type DragState = {
+  layerId: string;
+  handle: Handle;
+  pointerX: number;
+  pointerY: number;
+  frame: Pick<LayerFrame, "x" | "y" | "width" | "height" | "rotation">;
+};
+
+type LayerCanvasOverlayProps = {
+  layers: Layer[];
+  selectedLayerId: string | null;
+  canvasWidth: number;
+  canvasHeight: number;
+  onSelect: (layerId: string | null) => void;
+  onChange: (layerId: string, data: Partial<LayerFrame>) => void;
+};
+
+const CORNER_HANDLES: { handle: Handle; x: number; y: number; className: string }[] = [
+  { handle: "nw", x: -1, y: -1, className: "-left-1.5 -top-1.5 cursor-nwse-resize" },
+  { handle: "ne", x: 1, y: -1, className: "-right-1.5 -top-1.5 cursor-nesw-resize" },
+  { handle: "sw", x: -1, y: 1, className: "-bottom-1.5 -left-1.5 cursor-nesw-resize" },
+  { handle: "se", x: 1, y: 1, className: "-bottom-1.5 -right-1.5 cursor-nwse-resize" },
+];
+
+const ROTATION_SNAP = 15;
+
+/** Arrow keys move the focused layer by this many canvas pixels, or the large step with Shift. */
+const NUDGE_STEP = 1;
+const LARGE_NUDGE_STEP = 10;
+
+const NUDGE_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+/**
+ * Transparent editing surface laid over the preview canvas. Works in canvas
+ * pixels so rotated layers resize along their own axes. Layers can be
+ * tabbed to and nudged with the arrow keys.
+ */
+export default function LayerCanvasOverlay({
+  layers,
+  selectedLayerId,
+  canvasWidth,
+  canvasHeight,
+  onSelect,
+  onChange,
+}: LayerCanvasOverlayProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const toCanvasPoint = (clientX: number, clientY: number) => {
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!bounds) return { x: 0, y: 0 };
+    return {
+      x: ((clientX - bounds.left) / bounds.width) * canvasWidth,
+      y: ((clientY - bounds.top) / bounds.height) * canvasHeight,
+    };
+  };
+
+  const startDrag = (event: ReactPointerEvent<HTMLElement>, layer: Layer, handle: Handle) => {
+    event.preventDefault();
+    event.stopPropagation();
+    containerRef.current?.setPointerCapture(event.pointerId);
+    onSelect(layer.id);
+    dragRef.current = {
+      layerId: layer.id,
+      handle,
+      pointerX: event.clientX,
+      pointerY: event.clientY,
+      frame: {
+        x: layer.x,
+        y: layer.y,
+        width: layer.width,
+        height: layer.height,
+        rotation: layer.rotation,
+      },
+    };
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const origin = toCanvasPoint(drag.pointerX, drag.pointerY);
+    const point = toCanvasPoint(event.clientX, event.clientY);
+    const deltaX = point.x - origin.x;
+    const deltaY = point.y - origin.y;
+    const { frame } = drag;
+    const width = frame.width * canvasWidth;
+    const height = frame.height * canvasHeight;
+    const centerX = frame.x * canvasWidth + width / 2;
+    const centerY = frame.y * canvasHeight + height / 2;
+
+    if (drag.handle === "move") {
+      onChange(drag.layerId, {
+        x: frame.x + deltaX / canvasWidth,
+        y: frame.y + deltaY / canvasHeight,
+      });
+      return;
+    }
+
+    if (drag.handle === "rotate") {
+      const angle = (Math.atan2(point.y - centerY, point.x - centerX) * 180) / Math.PI + 90;
+      const rotation = event.shiftKey ? Math.round(angle / ROTATION_SNAP) * ROTATION_SNAP : angle;
+      onChange(drag.layerId, { rotation: ((rotation % 360) + 360) % 360 });
+      return;
+    }
+
+    const corner = CORNER_HANDLES.find((item) => item.handle === drag.handle);
+    if (!corner) return;
+    const radians = (frame.rotation * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const localX = deltaX * cos + deltaY * sin;
+    const localY = -deltaX * sin + deltaY * cos;
+    const nextWidth = Math.max(MIN_LAYER_SIZE * canvasWidth, width + corner.x * localX);
+    const nextHeight = Math.max(MIN_LAYER_SIZE * canvasHeight, height + corner.y * localY);
+    const shiftX = (corner.x * (nextWidth - width)) / 2;
+    const shiftY = (corner.y * (nextHeight - height)) / 2;
+    const nextCenterX = centerX + shiftX * cos - shiftY * sin;
+    const nextCenterY = centerY + shiftX * sin + shiftY * cos;
+    onChange(drag.layerId, {
+      x: (nextCenterX - nextWidth / 2) / canvasWidth,
+      y: (nextCenterY - nextHeight / 2) / canvasHeight,
+      width: nextWidth / canvasWidth,
+      height: nextHeight / canvasHeight,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLDivElement>, layer: Layer) => {
+    const direction = NUDGE_DIRECTIONS[event.key];
+    if (!direction) return;
+    event.preventDefault();
+    const step = event.shiftKey ? LARGE_NUDGE_STEP : NUDGE_STEP;
+    onChange(layer.id, {
+      x: layer.x + (direction[0] * step) / canvasWidth,
+      y: layer.y + (direction[1] * step) / canvasHeight,
+    });
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={() => onSelect(null)}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className="absolute inset-0 touch-none"
+    >
+      {layers.map((layer) => {
+        const isSelected = layer.id === selectedLayerId;
+        return (
+          <div
+            key={layer.id}
+            role="button"
+            tabIndex={0}
+            aria-label={`${getLayerLabel(layer)} layer`}
+            aria-pressed={isSelected}
+            aria-keyshortcuts="ArrowLeft ArrowRight ArrowUp ArrowDown"
+            title="Drag, or press the arrow keys, to move"
+            onPointerDown={(event) => startDrag(event, layer, "move")}
+            onFocus={() => onSelect(layer.id)}
+            onKeyDown={(event) => handleKeyDown(event, layer)}
+            className={clsx(
+              "absolute cursor-move border outline-none focus-visible:ring-2 focus-visible:ring-sky-400",
+              isSelected ? "border-sky-400" : "border-transparent hover:border-sky-400/40",
+            )}
+            style={{
+              left: `${layer.x * 100}%`,
+              top: `${layer.y * 100}%`,
+              width: `${layer.width * 100}%`,
+              height: `${layer.height * 100}%`,
+              transform: `rotate(${layer.rotation}deg)`,
+            }}
+          >
+            {isSelected ? (
+              <>
+                {CORNER_HANDLES.map((corner) => (
+                  <span
+                    key={corner.handle}
+                    onPointerDown={(event) => startDrag(event, layer, corner.handle)}
+                    className={clsx(
+                      "absolute h-3 w-3 rounded-sm border border-sky-200 bg-sky-500",
+                      corner.className,
+                    )}
+                  />
+                ))}
+                <span className="absolute -top-6 left-1/2 h-5 w-px -translate-x-1/2 bg-sky-400" />
+                <span
+                  onPointerDown={(event) => startDrag(event, layer, "rotate")}
+                  className="absolute -top-8 left-1/2 h-3.5 w-3.5 -translate-x-1/2 cursor-grab rounded-full border border-sky-200 bg-sky-500"
+                  title="Rotate (hold Shift to snap)"
+                />
+              </>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
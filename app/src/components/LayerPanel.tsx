@@ -0,0 +1,545 @@
+'use client';
+
+import type { ChangeEvent } from "react";
+import { useState } from "react";
+import clsx from "clsx";
+import { BRAND_COLORS_LIST_ID } from "../core/brandKit";
+import type { CustomFont } from "../core/fonts";
+import { FONT_FILE_TYPES, getFontStack, readFontFile } from "../core/fonts";
+import type { Layer, LayerKind, ShapeLayer, TextAlign } from "../core/layers";
+import { LAYER_KIND_OPTIONS, getLayerLabel } from "../core/layers";
+import type { ThemeStyle } from "../core/themes";
+import { FONT_OPTIONS } from "../core/themes";
+import TextAnimationEditor from "./TextAnimationEditor";
+import TextEffectsEditor from "./TextEffectsEditor";
+
+type LayerPanelProps = {
+  layers: Layer[];
+  selectedLayerId: string | null;
+  sceneDuration: number;
+  /** The scene's resolved theme, shown for text settings that follow it. */
+  style: ThemeStyle;
+  /** Fonts uploaded into the project, offered alongside the built-in ones. */
+  fonts: CustomFont[];
+  onAddFont: (font: CustomFont) => void;
+  /** Adds an uploaded file to the asset library and resolves to its reference. */
+  onStoreFile: (file: File) => Promise<string>;
+  onSelect: (layerId: string) => void;
+  onAdd: (kind: LayerKind) => void;
+  onUpdate: (layerId: string, data: Partial<Layer>) => void;
+  onRemove: (layerId: string) => void;
+  onDuplicate: (layerId: string) => void;
+  onMove: (layerId: string, offset: number) => void;
+};
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+const FONT_WEIGHTS = [300, 400, 500, 600, 700, 800];
+
+const ALIGN_OPTIONS: { value: TextAlign | null; label: string }[] = [
+  { value: null, label: "Theme" },
+  { value: "left", label: "Left" },
+  { value: "center", label: "Center" },
+  { value: "right", label: "Right" },
+];
+
+const toPercent = (value: number) => Math.round(value * 1000) / 10;
+
+const fromPercent = (value: string) => (Number(value) || 0) / 100;
+
+const parseOptionalSeconds = (value: string) =>
+  value === "" ? null : Math.max(0, Number(value) || 0);
+
+export default function LayerPanel({
+  layers,
+  selectedLayerId,
+  sceneDuration,
+  style,
+  fonts,
+  onAddFont,
+  onStoreFile,
+  onSelect,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onDuplicate,
+  onMove,
+}: LayerPanelProps) {
+  const selectedLayer = layers.find((layer) => layer.id === selectedLayerId) ?? null;
+  const orderedLayers = layers.map((layer, index) => ({ layer, index })).reverse();
+  const [fontError, setFontError] = useState<string | null>(null);
+  const fontOptions = [
+    ...FONT_OPTIONS,
+    ...fonts.map((font) => ({ value: getFontStack(font), label: font.name })),
+  ];
+  const themeFontLabel =
+    FONT_OPTIONS.find((font) => font.value === style.fontFamily)?.label ?? "Custom";
+
+  const handleFontUpload = async (event: ChangeEvent<HTMLInputElement>, layerId: string) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setFontError(null);
+    try {
+      const font = await readFontFile(file, onStoreFile);
+      onAddFont(font);
+      onUpdate(layerId, { fontFamily: getFontStack(font) });
+    } catch (error) {
+      setFontError(error instanceof Error ? error.message : "Unable to add that font.");
+    }
+  };
+
+  const handleImageUpload = async (event: ChangeEvent<HTMLInputElement>, layerId: string) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const src = await onStoreFile(file);
+    onUpdate(layerId, { src });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap gap-2">
+        {LAYER_KIND_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => onAdd(option.value)}
+            className="rounded-full bg-slate-800 px-3 py-1 text-[0.65rem] font-semibold uppercase tracking-widest text-slate-300 transition hover:bg-slate-700"
+          >
+            + {option.label}
+          </button>
+        ))}
+      </div>
+
+      <ul className="flex flex-col gap-1">
+        {orderedLayers.map(({ layer, index }) => (
+          <li
+            key={layer.id}
+            className={clsx(
+              "flex items-center gap-2 rounded-xl border px-3 py-2 text-xs",
+              layer.id === selectedLayerId
+                ? "border-sky-400/80 bg-slate-800/40"
+                : "border-white/5 bg-slate-950/40",
+            )}
+          >
+            <button
+              onClick={() => onSelect(layer.id)}
+              className="min-w-0 flex-1 truncate text-left text-slate-200"
+            >
+              <span className="mr-2 text-[0.6rem] uppercase tracking-widest text-slate-500">
+                {layer.kind}
+              </span>
+              {getLayerLabel(layer)}
+            </button>
+            <button
+              onClick={() => onMove(layer.id, 1)}
+              disabled={index === layers.length - 1}
+              className="text-slate-400 hover:text-slate-100 disabled:opacity-30"
+              title="Bring forward"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => onMove(layer.id, -1)}
+              disabled={index === 0}
+              className="text-slate-400 hover:text-slate-100 disabled:opacity-30"
+              title="Send backward"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => onDuplicate(layer.id)}
+              className="text-slate-400 hover:text-slate-100"
+              title="Duplicate layer"
+            >
+              ⧉
+            </button>
+            <button
+              onClick={() => onRemove(layer.id)}
+              className="text-slate-400 hover:text-rose-400"
+              title="Delete layer"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+        {layers.length === 0 ? (
+          <li className="text-xs text-slate-400">This scene has no layers yet.</li>
+        ) : null}
+      </ul>
+
+      {selectedLayer ? (
+        <div className="grid grid-cols-2 gap-2 rounded-xl border border-white/5 bg-slate-950/40 p-3 text-xs text-slate-300">
+          <label className="col-span-2 flex flex-col gap-1">
+            <span>Layer name</span>
+            <input
+              value={selectedLayer.name}
+              onChange={(event) => onUpdate(selectedLayer.id, { name: event.target.value })}
+              className={fieldClassName}
+            />
+          </label>
+
+          {selectedLayer.kind === "text" ? (
+            <>
+              <label className="col-span-2 flex flex-col gap-1">
+                <span>Text</span>
+                <textarea
+                  value={selectedLayer.text}
+                  onChange={(event) => onUpdate(selectedLayer.id, { text: event.target.value })}
+                  className={clsx(fieldClassName, "h-20")}
+                  placeholder="Add depth or narrative context"
+                />
+                <span className="text-[0.65rem] text-slate-500">
+                  Wrap words in **double asterisks** for bold or {"{#f59e0b:like this}"} for colour.
+                </span>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span>Font size</span>
+                <input
+                  type="number"
+                  min={8}
+                  value={selectedLayer.fontSize}
+                  onChange={(event) =>
+                    onUpdate(selectedLayer.id, {
+                      fontSize: Math.max(8, Number(event.target.value) || 8),
+                    })
+                  }
+                  className={fieldClassName}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span>Weight</span>
+                <select
+                  value={selectedLayer.fontWeight}
+                  onChange={(event) =>
+                    onUpdate(selectedLayer.id, { fontWeight: Number(event.target.value) })
+                  }
+                  className={fieldClassName}
+                >
+                  {FONT_WEIGHTS.map((weight) => (
+                    <option key={weight} value={weight}>
+                      {weight}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span>Line height</span>
+                <input
+                  type="number"
+                  min={0.8}
+                  step={0.05}
+                  value={selectedLayer.lineHeight}
+                  onChange={(event) =>
+                    onUpdate(selectedLayer.id, {
+                      lineHeight: Math.max(0.8, Number(event.target.value) || 1),
+                    })
+                  }
+                  className={fieldClassName}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="flex justify-between">
+                  Color
+                  {selectedLayer.color ? (
+                    <button
+                      onClick={() => onUpdate(selectedLayer.id, { color: null })}
+                      className="text-slate-400 hover:text-slate-100"
+                    >
+                      Use theme
+                    </button>
+                  ) : null}
+                </span>
+                <input
+                  type="color"
+                  list={BRAND_COLORS_LIST_ID}
+                  value={selectedLayer.color ?? style.textColor}
+                  onChange={(event) => onUpdate(selectedLayer.id, { color: event.target.value })}
+                  className="h-7 w-full cursor-pointer rounded-lg border border-white/10 bg-slate-950"
+                />
+              </label>
+              <label className="col-span-2 flex flex-col gap-1">
+                <span>Font</span>
+                <select
+                  value={selectedLayer.fontFamily ?? ""}
+                  onChange={(event) =>
+                    onUpdate(selectedLayer.id, { fontFamily: event.target.value || null })
+                  }
+                  className={fieldClassName}
+                >
+                  <option value="">Theme font ({themeFontLabel})</option>
+                  {fontOptions.map((font) => (
+                    <option key={font.value} value={font.value}>
+                      {font.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="col-span-2 flex flex-col gap-1">
+                <span>Upload a font (TTF, OTF or WOFF)</span>
+                <input
+                  type="file"
+                  accept={FONT_FILE_TYPES}
+                  onChange={(event) => handleFontUpload(event, selectedLayer.id)}
+                  className="text-xs text-slate-300"
+                />
+                {fontError ? <span className="text-rose-300">{fontError}</span> : null}
+              </label>
+              <div className="col-span-2 flex gap-2">
+                {ALIGN_OPTIONS.map((option) => (
+                  <button
+                    key={option.label}
+                    onClick={() => onUpdate(selectedLayer.id, { align: option.value })}
+                    className={clsx(
+                      "flex-1 rounded-full px-3 py-1 text-[0.65rem] font-semibold uppercase tracking-widest transition",
+                      selectedLayer.align === option.value
+                        ? "bg-sky-500 text-white"
+                        : "bg-slate-800 text-slate-300 hover:bg-slate-700",
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <div className="col-span-2">
+                <TextEffectsEditor
+                  layer={selectedLayer}
+                  style={style}
+                  onChange={(data) => onUpdate(selectedLayer.id, data)}
+                />
+              </div>
+              <div className="col-span-2">
+                <TextAnimationEditor
+                  label="Animation"
+                  animation={selectedLayer.animation}
+                  onChange={(animation) => onUpdate(selectedLayer.id, { animation })}
+                />
+              </div>
+            </>
+          ) : null}
+
+          {selectedLayer.kind === "image" || selectedLayer.kind === "logo" ? (
+            <>
+              <label className="col-span-2 flex flex-col gap-1">
+                <span>{selectedLayer.kind === "logo" ? "Logo file" : "Image file"}</span>
+                <input
+                  type="file"
+                  accept="image/*"
+                  onChange={(event) => handleImageUpload(event, selectedLayer.id)}
+                  className="text-xs text-slate-300"
+                />
+              </label>
+              {selectedLayer.kind === "image" ? (
+                <label className="col-span-2 flex flex-col gap-1">
+                  <span>Fit</span>
+                  <select
+                    value={selectedLayer.fit}
+                    onChange={(event) =>
+                      onUpdate(selectedLayer.id, { fit: event.target.value as "cover" | "contain" })
+                    }
+                    className={fieldClassName}
+                  >
+                    <option value="cover">Cover</option>
+                    <option value="contain">Contain</option>
+                  </select>
+                </label>
+              ) : null}
+            </>
+          ) : null}
+
+          {selectedLayer.kind === "shape" ? (
+            <>
+              <label className="flex flex-col gap-1">
+                <span>Shape</span>
+                <select
+                  value={selectedLayer.shape}
+                  onChange={(event) =>
+                    onUpdate(selectedLayer.id, { shape: event.target.value as ShapeLayer["shape"] })
+                  }
+                  className={fieldClassName}
+                >
+                  <option value="rectangle">Rectangle</option>
+                  <option value="ellipse">Ellipse</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span>Fill</span>
+                <input
+                  type="color"
+                  list={BRAND_COLORS_LIST_ID}
+                  value={selectedLayer.fill}
+                  onChange={(event) => onUpdate(selectedLayer.id, { fill: event.target.value })}
+                  className="h-7 w-full cursor-pointer rounded-lg border border-white/10 bg-slate-950"
+                />
+              </label>
+              {selectedLayer.shape === "rectangle" ? (
+                <label className="col-span-2 flex flex-col gap-1">
+                  <span>Corner radius</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={selectedLayer.cornerRadius}
+                    onChange={(event) =>
+                      onUpdate(selectedLayer.id, {
+                        cornerRadius: Math.max(0, Number(event.target.value) || 0),
+                      })
+                    }
+                    className={fieldClassName}
+                  />
+                </label>
+              ) : null}
+            </>
+          ) : null}
+
+          {selectedLayer.kind === "watermark" ? (
+            <>
+              <label className="col-span-2 flex flex-col gap-1">
+                <span>Text</span>
+                <input
+                  value={selectedLayer.text}
+                  onChange={(event) => onUpdate(selectedLayer.id, { text: event.target.value })}
+                  className={fieldClassName}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span>Font size</span>
+                <input
+                  type="number"
+                  min={8}
+                  value={selectedLayer.fontSize}
+                  onChange={(event) =>
+                    onUpdate(selectedLayer.id, {
+                      fontSize: Math.max(8, Number(event.target.value) || 8),
+                    })
+                  }
+                  className={fieldClassName}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span>Color</span>
+                <input
+                  type="color"
+                  list={BRAND_COLORS_LIST_ID}
+                  value={selectedLayer.color}
+                  onChange={(event) => onUpdate(selectedLayer.id, { color: event.target.value })}
+                  className="h-7 w-full cursor-pointer rounded-lg border border-white/10 bg-slate-950"
+                />
+              </label>
+            </>
+          ) : null}
+
+          <label className="flex flex-col gap-1">
+            <span>X (%)</span>
+            <input
+              type="number"
+              step={0.5}
+              value={toPercent(selectedLayer.x)}
+              onChange={(event) =>
+                onUpdate(selectedLayer.id, { x: fromPercent(event.target.value) })
+              }
+              className={fieldClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Y (%)</span>
+            <input
+              type="number"
+              step={0.5}
+              value={toPercent(selectedLayer.y)}
+              onChange={(event) =>
+                onUpdate(selectedLayer.id, { y: fromPercent(event.target.value) })
+              }
+              className={fieldClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Width (%)</span>
+            <input
+              type="number"
+              min={1}
+              step={0.5}
+              value={toPercent(selectedLayer.width)}
+              onChange={(event) =>
+                onUpdate(selectedLayer.id, {
+                  width: Math.max(0.01, fromPercent(event.target.value)),
+                })
+              }
+              className={fieldClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Height (%)</span>
+            <input
+              type="number"
+              min={1}
+              step={0.5}
+              value={toPercent(selectedLayer.height)}
+              onChange={(event) =>
+                onUpdate(selectedLayer.id, {
+                  height: Math.max(0.01, fromPercent(event.target.value)),
+                })
+              }
+              className={fieldClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Rotation (°)</span>
+            <input
+              type="number"
+              step={1}
+              value={Math.round(selectedLayer.rotation)}
+              onChange={(event) =>
+                onUpdate(selectedLayer.id, { rotation: Number(event.target.value) || 0 })
+              }
+              className={fieldClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Opacity ({Math.round(selectedLayer.opacity * 100)}%)</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={selectedLayer.opacity}
+              onChange={(event) =>
+                onUpdate(selectedLayer.id, { opacity: Number(event.target.value) })
+              }
+              className="accent-sky-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Starts at (s)</span>
+            <input
+              type="number"
+              min={0}
+              max={sceneDuration}
+              step={0.1}
+              value={selectedLayer.start ?? ""}
+              placeholder="0"
+              onChange={(event) =>
+                onUpdate(selectedLayer.id, { start: parseOptionalSeconds(event.target.value) })
+              }
+              className={fieldClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Ends at (s)</span>
+            <input
+              type="number"
+              min={0}
+              max={sceneDuration}
+              step={0.1}
+              value={selectedLayer.end ?? ""}
+              placeholder={sceneDuration.toFixed(1)}
+              onChange={(event) =>
+                onUpdate(selectedLayer.id, { end: parseOptionalSeconds(event.target.value) })
+              }
+              className={fieldClassName}
+            />
+          </label>
+        </div>
+      ) : null}
+    </div>
+  );
+}
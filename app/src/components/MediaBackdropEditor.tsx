@@ -0,0 +1,106 @@
+'use client';
+
+import type { MediaBackdrop, MediaFit } from "../core/backgrounds";
+import { BRAND_COLORS_LIST_ID } from "../core/brandKit";
+import {
+  MAX_BACKDROP_BLUR,
+  MAX_BACKDROP_BRIGHTNESS,
+  MEDIA_FIT_OPTIONS,
+  createMediaBackdrop,
+} from "../core/backgrounds";
+
+type MediaBackdropEditorProps = {
+  backdrop: MediaBackdrop;
+  onChange: (backdrop: MediaBackdrop) => void;
+};
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+/** Fit, brightness, blur and tint for an image or video background. */
+export default function MediaBackdropEditor({ backdrop, onChange }: MediaBackdropEditorProps) {
+  const update = (data: Partial<MediaBackdrop>) => onChange({ ...backdrop, ...data });
+  const defaults = createMediaBackdrop({ fit: backdrop.fit });
+  const isAdjusted =
+    backdrop.brightness !== defaults.brightness ||
+    backdrop.blur !== defaults.blur ||
+    backdrop.tintOpacity !== defaults.tintOpacity;
+
+  return (
+    <div className="grid grid-cols-2 gap-2 rounded-xl border border-white/5 bg-slate-950/40 p-3 text-xs text-slate-300">
+      <label className="col-span-2 flex flex-col gap-1">
+        <span>Fit</span>
+        <select
+          value={backdrop.fit}
+          onChange={(event) => update({ fit: event.target.value as MediaFit })}
+          className={fieldClassName}
+        >
+          {MEDIA_FIT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Brightness {Math.round(backdrop.brightness * 100)}%</span>
+        <input
+          type="range"
+          min={0}
+          max={MAX_BACKDROP_BRIGHTNESS}
+          step={0.05}
+          value={backdrop.brightness}
+          onChange={(event) => update({ brightness: Number(event.target.value) })}
+          className="accent-sky-500"
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Blur {backdrop.blur}px</span>
+        <input
+          type="range"
+          min={0}
+          max={MAX_BACKDROP_BLUR}
+          step={1}
+          value={backdrop.blur}
+          onChange={(event) => update({ blur: Number(event.target.value) })}
+          className="accent-sky-500"
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Tint</span>
+        <input
+          type="color"
+          list={BRAND_COLORS_LIST_ID}
+          value={backdrop.tintColor}
+          onChange={(event) =>
+            update({
+              tintColor: event.target.value,
+              tintOpacity: backdrop.tintOpacity || 0.3,
+            })
+          }
+          className="h-7 w-full cursor-pointer rounded-lg border border-white/10 bg-slate-950"
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Tint strength {Math.round(backdrop.tintOpacity * 100)}%</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={backdrop.tintOpacity}
+          onChange={(event) => update({ tintOpacity: Number(event.target.value) })}
+          className="accent-sky-500"
+        />
+      </label>
+      {isAdjusted ? (
+        <button
+          onClick={() => onChange(defaults)}
+          className="col-span-2 rounded-full bg-slate-800 px-3 py-1 text-[0.65rem] font-semibold uppercase tracking-widest text-slate-300 transition hover:bg-slate-700"
+        >
+          Reset adjustments
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+'use client';
+
+import NextImage from "next/image";
+import type { PointerEvent as ReactPointerEvent } from "react";
+import { useRef, useState } from "react";
+import clsx from "clsx";
+import { resolveMediaSrc } from "../core/assets";
+import { EASING_OPTIONS, clamp } from "../core/easing";
+import type { EasingName } from "../core/easing";
+import type { CameraFrame, CameraMotion, MotionPreset } from "../core/motion";
+import {
+  MAX_CAMERA_ZOOM,
+  MIN_CAMERA_ZOOM,
+  MOTION_PRESET_OPTIONS,
+  createMotion,
+  getCoverSize,
+  resolveCropRect,
+} from "../core/motion";
+
+type FrameKey = "start" | "end";
+
+type DragState = {
+  key: FrameKey;
+  mode: "move" | "resize";
+  pointerX: number;
+  pointerY: number;
+  frame: CameraFrame;
+};
+
+type MotionEditorProps = {
+  imageSrc: string;
+  motion: CameraMotion;
+  outputWidth: number;
+  outputHeight: number;
+  onChange: (motion: CameraMotion) => void;
+};
+
+const FRAME_STYLES: Record<
+  FrameKey,
+  { label: string; className: string; handleClassName: string }
+> = {
+  start: {
+    label: "Start",
+    className: "border-sky-400 bg-sky-400/10 text-sky-200",
+    handleClassName: "bg-sky-400",
+  },
+  end: {
+    label: "End",
+    className: "border-amber-400 bg-amber-400/10 text-amber-200",
+    handleClassName: "bg-amber-400",
+  },
+};
+
+const fieldClassName =
+  "rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+export default function MotionEditor({
+  imageSrc,
+  motion,
+  outputWidth,
+  outputHeight,
+  onChange,
+}: MotionEditorProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  const getFrameBox = (frame: CameraFrame) => {
+    if (!imageSize) return null;
+    const rect = resolveCropRect(
+      frame,
+      imageSize.width,
+      imageSize.height,
+      outputWidth,
+      outputHeight,
+    );
+    return {
+      left: `${(rect.x / imageSize.width) * 100}%`,
+      top: `${(rect.y / imageSize.height) * 100}%`,
+      width: `${(rect.width / imageSize.width) * 100}%`,
+      height: `${(rect.height / imageSize.height) * 100}%`,
+    };
+  };
+
+  const handlePointerDown = (
+    event: ReactPointerEvent<HTMLElement>,
+    key: FrameKey,
+    mode: DragState["mode"],
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = {
+      key,
+      mode,
+      pointerX: event.clientX,
+      pointerY: event.clientY,
+      frame: motion[key],
+    };
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const container = containerRef.current;
+    if (!drag || !container || !imageSize) return;
+    const bounds = container.getBoundingClientRect();
+    const deltaX = (event.clientX - drag.pointerX) / bounds.width;
+    const deltaY = (event.clientY - drag.pointerY) / bounds.height;
+    const rect = resolveCropRect(
+      drag.frame,
+      imageSize.width,
+      imageSize.height,
+      outputWidth,
+      outputHeight,
+    );
+    const centerX = (rect.x + rect.width / 2) / imageSize.width;
+    const centerY = (rect.y + rect.height / 2) / imageSize.height;
+    let frame: CameraFrame;
+    if (drag.mode === "move") {
+      frame = {
+        ...drag.frame,
+        x: clamp(centerX + deltaX, 0, 1),
+        y: clamp(centerY + deltaY, 0, 1),
+      };
+    } else {
+      const cover = getCoverSize(imageSize.width, imageSize.height, outputWidth, outputHeight);
+      const widthFraction = Math.max(0.01, rect.width / imageSize.width + deltaX * 2);
+      frame = {
+        x: centerX,
+        y: centerY,
+        zoom: clamp(
+          cover.width / imageSize.width / widthFraction,
+          MIN_CAMERA_ZOOM,
+          MAX_CAMERA_ZOOM,
+        ),
+      };
+    }
+    onChange({ ...motion, preset: "custom", [drag.key]: frame });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div
+        ref={containerRef}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="relative w-full touch-none overflow-hidden rounded-xl border border-white/10 bg-black"
+        style={{ aspectRatio: imageSize ? `${imageSize.width} / ${imageSize.height}` : "16 / 9" }}
+      >
+        <NextImage
+          src={resolveMediaSrc(imageSrc)}
+          alt=""
+          fill
+          unoptimized
+          className="object-contain"
+          sizes="(max-width: 768px) 100vw, 33vw"
+          onLoad={(event) =>
+            setImageSize({
+              width: event.currentTarget.naturalWidth,
+              height: event.currentTarget.naturalHeight,
+            })
+          }
+        />
+        {(["start", "end"] as FrameKey[]).map((key) => {
+          const box = getFrameBox(motion[key]);
+          if (!box) return null;
+          const style = FRAME_STYLES[key];
+          return (
+            <div
+              key={key}
+              onPointerDown={(event) => handlePointerDown(event, key, "move")}
+              className={clsx("absolute cursor-move border-2", style.className)}
+              style={box}
+            >
+              <span className="absolute left-1 top-1 text-[0.6rem] font-semibold uppercase tracking-widest">
+                {style.label}
+              </span>
+              <span
+                onPointerDown={(event) => handlePointerDown(event, key, "resize")}
+                className={clsx(
+                  "absolute -bottom-1.5 -right-1.5 h-3 w-3 cursor-nwse-resize rounded-sm",
+                  style.handleClassName,
+                )}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-xs text-slate-300">
+        <label className="flex flex-col gap-1">
+          <span>Camera motion</span>
+          <select
+            value={motion.preset}
+            onChange={(event) => {
+              const preset = event.target.value as MotionPreset;
+              onChange(
+                preset === "custom" ? { ...motion, preset } : createMotion(preset, motion.easing),
+              );
+            }}
+            className={fieldClassName}
+          >
+            {MOTION_PRESET_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Easing</span>
+          <select
+            value={motion.easing}
+            onChange={(event) => onChange({ ...motion, easing: event.target.value as EasingName })}
+            className={fieldClassName}
+          >
+            {EASING_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="text-xs text-slate-400">
+        Drag the Start and End boxes to frame the shot; use the corner handle to zoom.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import type { FocusEvent, KeyboardEvent } from "react";
+import type { OutputPresetId, OutputSettings } from "../core/output";
+import {
+  FPS_OPTIONS,
+  MAX_OUTPUT_SIZE,
+  MIN_OUTPUT_SIZE,
+  OUTPUT_PRESET_OPTIONS,
+  clampBitrate,
+  clampOutputSize,
+  createOutputSettings,
+  getAspectRatioLabel,
+} from "../core/output";
+
+type OutputSettingsPanelProps = {
+  settings: OutputSettings;
+  onChange: (settings: OutputSettings) => void;
+};
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+const commitOnEnter = (event: KeyboardEvent<HTMLInputElement>) => {
+  if (event.key === "Enter") event.currentTarget.blur();
+};
+
+export default function OutputSettingsPanel({ settings, onChange }: OutputSettingsPanelProps) {
+  const override = (data: Partial<OutputSettings>) =>
+    onChange({ ...settings, ...data, preset: "custom" });
+
+  // Sizes are applied when the field loses focus so typing "1080" does not clamp at "1".
+  const commitSize = (key: "width" | "height") => (event: FocusEvent<HTMLInputElement>) => {
+    const value = clampOutputSize(Number(event.target.value));
+    event.target.value = String(value);
+    if (value !== settings[key]) override({ [key]: value });
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/5 bg-slate-900/70 p-6 text-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Output</h2>
+        <p className="text-xs text-slate-400">
+          {settings.width}×{settings.height} ·{" "}
+          {getAspectRatioLabel(settings.width, settings.height)} · {settings.fps} fps
+        </p>
+      </div>
+      <div className="mt-4 grid grid-cols-2 gap-3 text-xs text-slate-300 md:grid-cols-4">
+        <label className="col-span-2 flex flex-col gap-1">
+          <span>Preset</span>
+          <select
+            value={settings.preset}
+            onChange={(event) =>
+              event.target.value !== "custom" &&
+              onChange(createOutputSettings(event.target.value as OutputPresetId))
+            }
+            className={fieldClassName}
+          >
+            {OUTPUT_PRESET_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+            <option value="custom">Custom</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Frame rate</span>
+          <select
+            value={settings.fps}
+            onChange={(event) => override({ fps: Number(event.target.value) })}
+            className={fieldClassName}
+          >
+            {FPS_OPTIONS.map((fps) => (
+              <option key={fps} value={fps}>
+                {fps} fps
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Bitrate (Mbps)</span>
+          <input
+            key={`bitrate-${settings.bitrate}`}
+            type="number"
+            min={0.5}
+            step={0.5}
+            defaultValue={settings.bitrate / 1_000_000}
+            onKeyDown={commitOnEnter}
+            onBlur={(event) => {
+              const bitrate = clampBitrate(Number(event.target.value) * 1_000_000);
+              event.target.value = String(bitrate / 1_000_000);
+              if (bitrate !== settings.bitrate) override({ bitrate });
+            }}
+            className={fieldClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Width (px)</span>
+          <input
+            key={`width-${settings.width}`}
+            type="number"
+            min={MIN_OUTPUT_SIZE}
+            max={MAX_OUTPUT_SIZE}
+            step={2}
+            defaultValue={settings.width}
+            onKeyDown={commitOnEnter}
+            onBlur={commitSize("width")}
+            className={fieldClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Height (px)</span>
+          <input
+            key={`height-${settings.height}`}
+            type="number"
+            min={MIN_OUTPUT_SIZE}
+            max={MAX_OUTPUT_SIZE}
+            step={2}
+            defaultValue={settings.height}
+            onKeyDown={commitOnEnter}
+            onBlur={commitSize("height")}
+            className={fieldClassName}
+          />
+        </label>
+        <div className="col-span-2 flex items-end">
+          <button
+            onClick={() => override({ width: settings.height, height: settings.width })}
+            disabled={settings.width === settings.height}
+            className="rounded-full bg-slate-800 px-4 py-1.5 text-xs font-semibold text-slate-200 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Swap orientation
+          </button>
+        </div>
+      </div>
+      <p className="mt-3 text-xs text-slate-400">
+        Text is kept inside the dashed safe area shown on the preview, so captions stay clear of the
+        edges and of the controls social apps draw over vertical video.
+      </p>
+    </div>
+  );
+}
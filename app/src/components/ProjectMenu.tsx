@@ -0,0 +1,166 @@
+'use client';
+
+import type { ChangeEvent } from "react";
+import { useState } from "react";
+import clsx from "clsx";
+import type { AutosaveStatus, ProjectSummary } from "../core/projectStore";
+
+type ProjectMenuProps = {
+  projectId: string;
+  name: string;
+  saveStatus: AutosaveStatus;
+  recentProjects: ProjectSummary[];
+  error: string | null;
+  onRename: (name: string) => void;
+  onNew: () => void;
+  onBrowseTemplates: () => void;
+  onOpen: (projectId: string) => void;
+  onDelete: (projectId: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onShare: () => void;
+  /** Whether a share is uploading. */
+  isSharing: boolean;
+};
+
+const SAVE_STATUS_LABELS: Record<AutosaveStatus, string> = {
+  idle: "Not saved yet",
+  saving: "Saving…",
+  saved: "Saved locally",
+  error: "Autosave failed",
+};
+
+const menuButtonClassName =
+  "rounded-full bg-slate-800 px-4 py-2 text-xs font-semibold uppercase tracking-wider text-slate-200 transition hover:bg-slate-700";
+
+export default function ProjectMenu({
+  projectId,
+  name,
+  saveStatus,
+  recentProjects,
+  error,
+  onRename,
+  onNew,
+  onBrowseTemplates,
+  onOpen,
+  onDelete,
+  onImport,
+  onExport,
+  onShare,
+  isSharing,
+}: ProjectMenuProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  const handleImport = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="relative flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={name}
+          onChange={(event) => onRename(event.target.value)}
+          aria-label="Project name"
+          className="w-48 rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40"
+        />
+        <span
+          className={clsx("text-xs", saveStatus === "error" ? "text-rose-300" : "text-slate-400")}
+        >
+          {SAVE_STATUS_LABELS[saveStatus]}
+        </span>
+        <button onClick={() => setIsPickerOpen((open) => !open)} className={menuButtonClassName}>
+          Projects
+        </button>
+        <label className={clsx(menuButtonClassName, "cursor-pointer")}>
+          Import
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </label>
+        <button onClick={onExport} className={menuButtonClassName}>
+          Export
+        </button>
+        <button
+          onClick={onShare}
+          disabled={isSharing}
+          title="Publishes the project to a link where it plays in the browser"
+          className={clsx(menuButtonClassName, "disabled:cursor-wait disabled:opacity-60")}
+        >
+          {isSharing ? "Sharing…" : "Share"}
+        </button>
+      </div>
+      {error ? (
+        <p role="alert" className="text-xs text-rose-300">
+          {error}
+        </p>
+      ) : null}
+      {isPickerOpen ? (
+        <div className="absolute right-0 top-full z-20 mt-2 w-80 rounded-2xl border border-white/10 bg-slate-900 p-3 shadow-xl shadow-slate-950/60">
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                setIsPickerOpen(false);
+                onNew();
+              }}
+              className="flex-1 rounded-xl bg-sky-500 px-3 py-2 text-xs font-semibold text-white transition hover:bg-sky-400"
+            >
+              New project
+            </button>
+            <button
+              onClick={() => {
+                setIsPickerOpen(false);
+                onBrowseTemplates();
+              }}
+              className="flex-1 rounded-xl bg-slate-800 px-3 py-2 text-xs font-semibold text-slate-200 transition hover:bg-slate-700"
+            >
+              From a template
+            </button>
+          </div>
+          <p className="mt-3 text-xs uppercase tracking-wider text-slate-400">Recent projects</p>
+          <ul className="mt-2 flex max-h-72 flex-col gap-1 overflow-y-auto">
+            {recentProjects.length ? null : (
+              <li className="text-xs text-slate-500">Nothing saved on this device yet.</li>
+            )}
+            {recentProjects.map((project) => (
+              <li
+                key={project.id}
+                className={clsx(
+                  "flex items-center gap-2 rounded-xl px-3 py-2",
+                  project.id === projectId ? "bg-sky-500/15" : "hover:bg-slate-800",
+                )}
+              >
+                <button
+                  onClick={() => {
+                    setIsPickerOpen(false);
+                    onOpen(project.id);
+                  }}
+                  className="min-w-0 flex-1 text-left"
+                >
+                  <p className="truncate text-sm text-slate-100">{project.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {project.sceneCount} scene{project.sceneCount === 1 ? "" : "s"} ·{" "}
+                    {new Date(project.updatedAt).toLocaleString()}
+                  </p>
+                </button>
+                {project.id === projectId ? null : (
+                  <button
+                    onClick={() => onDelete(project.id)}
+                    className="text-xs text-slate-400 hover:text-rose-400"
+                  >
+                    Delete
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import clsx from "clsx";
+import { playAudioMix, renderAudioMix } from "../core/audioMix";
+import { buildCaptionCues, describeFrame } from "../core/captions";
+import { registerFonts } from "../core/fonts";
+import type { Project } from "../core/project";
+import { readProjectFile } from "../core/project";
+import { createDrawQueue, playTimeline, renderFrame } from "../core/renderer";
+import { fetchSharedProject } from "../core/sharing";
+import { getSlideLabel } from "../core/slides";
+import { getTheme } from "../core/themes";
+import { buildTimeline, getTimelineDuration } from "../core/transitions";
+
+type ProjectPlayerProps = {
+  shareId: string;
+  /** Shows only the video and its controls, filling the frame, for iframes. */
+  isEmbedded: boolean;
+};
+
+const controlClassName =
+  "rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:bg-slate-700 aria-pressed:bg-sky-500 aria-pressed:text-white";
+
+const fieldClassName =
+  "max-w-40 rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+const formatClock = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Plays a shared project live from its scenes with the editor's renderer,
+ * with scene chapters, captions from its text and looping.
+ */
+export default function ProjectPlayer({ shareId, isEmbedded }: ProjectPlayerProps) {
+  const [project, setProject] = useState<Project | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [showCaptions, setShowCaptions] = useState(false);
+  const [isLooping, setIsLooping] = useState(false);
+  const [queueDraw] = useState(createDrawQueue);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const audioRef = useRef<AudioContext | null>(null);
+  const mixRef = useRef<Promise<AudioBuffer | null> | null>(null);
+  const isLoopingRef = useRef(isLooping);
+  // Each playback gets a new session; bumping it stops the one running.
+  const sessionRef = useRef(0);
+
+  useEffect(() => {
+    isLoopingRef.current = isLooping;
+  }, [isLooping]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    fetchSharedProject(shareId)
+      .then((value) => {
+        if (!isCurrent) return;
+        if (value === null) {
+          setLoadError("This video doesn't exist or is no longer shared.");
+          return;
+        }
+        const loaded = readProjectFile(value);
+        registerFonts(loaded.fonts);
+        mixRef.current = null;
+        setProject(loaded);
+      })
+      .catch((error) => {
+        if (isCurrent) {
+          setLoadError(error instanceof Error ? error.message : "Unable to load this video.");
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [shareId]);
+
+  const timeline = useMemo(
+    () => (project ? buildTimeline(project.slides, getTheme(project.themeId)) : []),
+    [project],
+  );
+  const duration = getTimelineDuration(timeline);
+  const fps = project?.output.fps ?? 30;
+  const chapters = useMemo(
+    () =>
+      timeline.map((entry) => ({
+        id: entry.slide.id,
+        start: entry.start,
+        label: getSlideLabel(entry.slide),
+      })),
+    [timeline],
+  );
+  const cues = useMemo(() => buildCaptionCues(timeline, "scene"), [timeline]);
+  const activeCue = cues.find((cue) => time >= cue.start && time < cue.end) ?? null;
+  const chapterIndex = Math.max(
+    0,
+    chapters.findLastIndex((chapter) => chapter.start <= time),
+  );
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || isPlaying) return;
+    queueDraw(() => renderFrame(ctx, timeline, time));
+  }, [isPlaying, queueDraw, time, timeline]);
+
+  const stop = useCallback(() => {
+    sessionRef.current += 1;
+    void audioRef.current?.close();
+    audioRef.current = null;
+    setIsPlaying(false);
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  const play = useCallback(
+    async (from: number) => {
+      const ctx = canvasRef.current?.getContext("2d");
+      if (!ctx || !project) return;
+      stop();
+      const session = sessionRef.current;
+      const isCurrent = () => sessionRef.current === session;
+      setIsPlaying(true);
+      const audioContext = new AudioContext();
+      audioRef.current = audioContext;
+      let mix: AudioBuffer | null = null;
+      try {
+        mixRef.current ??= renderAudioMix(timeline, project.audio);
+        mix = await mixRef.current;
+      } catch {
+        // The video plays silently rather than not at all.
+        mixRef.current = null;
+      }
+      // Playing from the very end starts over.
+      let start = from >= duration - 1.5 / fps ? 0 : from;
+      while (isCurrent()) {
+        const source = mix
+          ? playAudioMix(audioContext, mix, audioContext.destination, start)
+          : null;
+        const finished = await playTimeline(ctx, timeline, fps, setTime, isCurrent, start);
+        if (!finished || !isLoopingRef.current) break;
+        source?.stop();
+        start = 0;
+      }
+      if (isCurrent()) stop();
+    },
+    [duration, fps, project, stop, timeline],
+  );
+
+  const togglePlay = () => {
+    if (isPlaying) stop();
+    else void play(time);
+  };
+
+  const seek = (value: number) => {
+    setTime(value);
+    if (isPlaying) void play(value);
+  };
+
+  const stage = project ? (
+    <div
+      className={clsx(
+        "flex flex-col overflow-hidden bg-black",
+        isEmbedded ? "h-screen" : "rounded-3xl border border-white/10",
+      )}
+    >
+      <div className="relative flex min-h-0 flex-1 items-center justify-center">
+        <canvas
+          ref={canvasRef}
+          width={project.output.width}
+          height={project.output.height}
+          role="img"
+          aria-label={describeFrame(timeline, time)}
+          onClick={togglePlay}
+          className={clsx(
+            "cursor-pointer",
+            isEmbedded ? "h-full w-full object-contain" : "h-auto w-full",
+          )}
+        />
+        {showCaptions && activeCue ? (
+          <p className="pointer-events-none absolute inset-x-0 bottom-4 mx-auto w-fit max-w-[90%] whitespace-pre-line rounded bg-black/75 px-3 py-1 text-center text-sm text-white sm:text-base">
+            {activeCue.text}
+          </p>
+        ) : null}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 bg-slate-950/90 px-4 py-2 text-xs text-slate-300">
+        <button onClick={togglePlay} className={controlClassName}>
+          {isPlaying ? "Pause" : "Play"}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={1 / fps}
+          value={time}
+          onChange={(event) => seek(Number(event.target.value))}
+          aria-label="Seek"
+          className="min-w-24 flex-1 accent-sky-500"
+        />
+        <span className="tabular-nums">
+          {formatClock(time)} / {formatClock(duration)}
+        </span>
+        <select
+          value={chapterIndex}
+          onChange={(event) => seek(chapters[Number(event.target.value)].start)}
+          aria-label="Chapter"
+          className={fieldClassName}
+        >
+          {chapters.map((chapter, index) => (
+            <option key={chapter.id} value={index}>
+              {index + 1}. {chapter.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setShowCaptions((value) => !value)}
+          aria-pressed={showCaptions}
+          disabled={!cues.length}
+          title={cues.length ? "Captions" : "This video has no text to caption"}
+          className={clsx(controlClassName, "disabled:cursor-not-allowed disabled:opacity-40")}
+        >
+          CC
+        </button>
+        <button
+          onClick={() => setIsLooping((value) => !value)}
+          aria-pressed={isLooping}
+          className={controlClassName}
+        >
+          Loop
+        </button>
+      </div>
+    </div>
+  ) : (
+    <div
+      className={clsx(
+        "flex items-center justify-center bg-black text-sm",
+        isEmbedded ? "h-screen" : "aspect-video rounded-3xl border border-white/10",
+        loadError ? "text-rose-300" : "text-slate-400",
+      )}
+    >
+      {loadError ?? "Loading…"}
+    </div>
+  );
+
+  if (isEmbedded) return <div className="bg-black text-slate-100">{stage}</div>;
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <main className="mx-auto flex max-w-5xl flex-col gap-6 px-6 py-10">
+        <div>
+          <p className="text-sm uppercase tracking-[0.4rem] text-slate-400">Storyforge</p>
+          <h1 className="text-2xl font-semibold">{project?.name ?? "Shared video"}</h1>
+        </div>
+        {stage}
+        {chapters.length > 1 ? (
+          <section>
+            <h2 className="text-lg font-semibold text-white">Chapters</h2>
+            <ol className="mt-3 grid gap-2 sm:grid-cols-2">
+              {chapters.map((chapter, index) => (
+                <li key={chapter.id}>
+                  <button
+                    onClick={() => seek(chapter.start)}
+                    aria-current={index === chapterIndex ? "step" : undefined}
+                    className={clsx(
+                      "flex w-full items-center gap-3 rounded-2xl border px-4 py-2 text-left text-sm transition",
+                      index === chapterIndex
+                        ? "border-sky-500/60 bg-sky-500/10 text-white"
+                        : "border-white/10 bg-slate-900/70 text-slate-300 hover:bg-slate-800",
+                    )}
+                  >
+                    <span className="tabular-nums text-xs text-slate-400">
+                      {formatClock(chapter.start)}
+                    </span>
+                    <span className="truncate">{chapter.label}</span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </section>
+        ) : null}
+      </main>
+    </div>
+  );
+}
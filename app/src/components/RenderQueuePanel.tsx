@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import { formatFileSize } from "../core/files";
+import type { RenderJob, RenderJobStatus } from "../core/renderQueue";
+import { getRenderEta, isRenderJobActive } from "../core/renderQueue";
+
+type RenderQueuePanelProps = {
+  jobs: RenderJob[];
+  onCancel: (jobId: string) => void;
+  /** Removes one finished job, or every finished job when called without an id. */
+  onClear: (jobId?: string) => void;
+};
+
+const STATUS_LABELS: Record<RenderJobStatus, string> = {
+  queued: "Queued",
+  rendering: "Rendering",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const STATUS_CLASS_NAMES: Record<RenderJobStatus, string> = {
+  queued: "text-slate-400",
+  rendering: "text-sky-300",
+  done: "text-emerald-300",
+  failed: "text-rose-300",
+  cancelled: "text-slate-500",
+};
+
+const actionClassName =
+  "rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:bg-slate-700";
+
+const formatClock = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+};
+
+/**
+ * What the live region reads out: the running job's progress in quarter
+ * steps, so it isn't repeated every frame, otherwise the last job to finish.
+ */
+const describeQueue = (jobs: RenderJob[]) => {
+  const rendering = jobs.find((job) => job.status === "rendering");
+  if (rendering) {
+    return `Rendering ${rendering.label}: ${Math.floor(rendering.progress * 4) * 25}%`;
+  }
+  const latest = jobs.reduce<RenderJob | null>(
+    (found, job) =>
+      job.finishedAt !== null && (!found || job.finishedAt > (found.finishedAt ?? 0)) ? job : found,
+    null,
+  );
+  if (!latest) return "";
+  if (latest.status === "failed") return `${latest.label} failed: ${latest.error}`;
+  return `${latest.label} ${latest.status === "done" ? "is ready to download" : "was cancelled"}`;
+};
+
+/** Queued, running and finished exports, with progress, time left and downloads. */
+export default function RenderQueuePanel({ jobs, onCancel, onClear }: RenderQueuePanelProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const isRendering = jobs.some((job) => job.status === "rendering");
+
+  // Elapsed time and ETA tick on their own between progress updates.
+  useEffect(() => {
+    if (!isRendering) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [isRendering]);
+
+  const hasFinished = jobs.some((job) => !isRenderJobActive(job));
+
+  // The live region stays mounted while the queue is empty, so the first announcement is read.
+  return (
+    <>
+      <p role="status" className="sr-only">
+        {describeQueue(jobs)}
+      </p>
+      {jobs.length ? (
+        <div className="rounded-3xl border border-white/5 bg-slate-900/70 p-6 text-sm">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-white">Renders</h2>
+              <p className="text-xs text-slate-400">
+                Jobs run one at a time in the background; keep editing meanwhile.
+              </p>
+            </div>
+            {hasFinished ? (
+              <button onClick={() => onClear()} className={actionClassName}>
+                Clear finished
+              </button>
+            ) : null}
+          </div>
+          <ul className="mt-4 space-y-2">
+            {jobs.map((job) => {
+              const end = job.finishedAt ?? now;
+              const elapsed =
+                job.startedAt === null
+                  ? null
+                  : (Math.max(end, job.startedAt) - job.startedAt) / 1000;
+              const eta = getRenderEta(job, now);
+              return (
+                <li
+                  key={job.id}
+                  className="rounded-2xl border border-white/10 bg-slate-950/60 p-3 text-xs text-slate-300"
+                >
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                    <span className="font-semibold text-slate-100">{job.label}</span>
+                    <span className={STATUS_CLASS_NAMES[job.status]}>
+                      {STATUS_LABELS[job.status]}
+                      {job.status === "rendering" ? ` ${Math.round(job.progress * 100)}%` : null}
+                    </span>
+                    <span className="text-slate-500">
+                      {elapsed === null ? null : `${formatClock(elapsed)} elapsed`}
+                      {eta === null ? null : ` · about ${formatClock(eta)} left`}
+                      {job.result
+                        ? ` · ${formatFileSize(job.result.size)}${job.result.runner === "page" ? " · rendered on the page" : ""}`
+                        : null}
+                    </span>
+                    <span className="ml-auto flex gap-2">
+                      {isRenderJobActive(job) ? (
+                        <button onClick={() => onCancel(job.id)} className={actionClassName}>
+                          Cancel
+                        </button>
+                      ) : null}
+                      {job.result ? (
+                        <a
+                          href={job.result.url}
+                          download={job.result.fileName}
+                          className="rounded-full bg-sky-500 px-3 py-1 text-xs font-semibold text-white transition hover:bg-sky-400"
+                        >
+                          Download
+                        </a>
+                      ) : null}
+                      {isRenderJobActive(job) ? null : (
+                        <button
+                          onClick={() => onClear(job.id)}
+                          title="Remove from the list"
+                          aria-label={`Remove ${job.label}`}
+                          className={actionClassName}
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </span>
+                  </div>
+                  {job.status === "rendering" ? (
+                    <div
+                      role="progressbar"
+                      aria-label={`${job.label} progress`}
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                      aria-valuenow={Math.round(job.progress * 100)}
+                      aria-valuetext={
+                        eta === null
+                          ? `${Math.round(job.progress * 100)}%`
+                          : `${Math.round(job.progress * 100)}%, about ${formatClock(eta)} left`
+                      }
+                      className="mt-2 h-1.5 w-full overflow-hidden rounded-full bg-slate-800"
+                    >
+                      <div
+                        className="h-full rounded-full bg-sky-500 transition-[width]"
+                        style={{ width: `${job.progress * 100}%` }}
+                      />
+                    </div>
+                  ) : null}
+                  {job.error ? <p className="mt-2 text-rose-300">{job.error}</p> : null}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { BRAND_COLORS_LIST_ID } from "../core/brandKit";
+import { EASING_OPTIONS } from "../core/easing";
+import type { EasingName } from "../core/easing";
+import type { Slide } from "../core/slides";
+import type { SlideTransition, TransitionType } from "../core/transitions";
+import { MIN_TRANSITION_DURATION, TRANSITION_OPTIONS } from "../core/transitions";
+
+type SceneBulkEditorProps = {
+  slides: Slide[];
+  onUpdate: (data: Partial<Slide>) => void;
+  onTransitionUpdate: (data: Partial<SlideTransition>) => void;
+  onClearSelection: () => void;
+};
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+/** The value every item shares, or null when they differ. */
+const getShared = <T,>(items: T[]) =>
+  items.every((item) => item === items[0]) ? (items[0] ?? null) : null;
+
+export default function SceneBulkEditor({
+  slides,
+  onUpdate,
+  onTransitionUpdate,
+  onClearSelection,
+}: SceneBulkEditorProps) {
+  const duration = getShared(slides.map((slide) => slide.duration));
+  const color = getShared(
+    slides.map((slide) => (slide.backgroundType === "color" ? slide.backgroundValue : null)),
+  );
+  const transitionType = getShared(slides.map((slide) => slide.transition.type));
+  const transitionDuration = getShared(slides.map((slide) => slide.transition.duration));
+  const easing = getShared(slides.map((slide) => slide.transition.easing));
+
+  return (
+    <div className="rounded-2xl bg-slate-900/60 p-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+          {slides.length} Scenes Selected
+        </h3>
+        <button onClick={onClearSelection} className="text-xs text-slate-400 hover:text-slate-100">
+          Clear
+        </button>
+      </div>
+      <div className="mt-4 flex flex-col gap-4 text-xs text-slate-300">
+        <label className="flex flex-col gap-1">
+          <span>Duration (seconds)</span>
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={duration ?? ""}
+            placeholder="Mixed"
+            onChange={(event) => {
+              if (event.target.value === "") return;
+              onUpdate({ duration: Math.max(0.5, Number(event.target.value) || 1) });
+            }}
+            className={fieldClassName}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>Background color{color ? "" : " (mixed)"}</span>
+          <input
+            type="color"
+            list={BRAND_COLORS_LIST_ID}
+            value={color ?? "#0f172a"}
+            onChange={(event) =>
+              onUpdate({ backgroundType: "color", backgroundValue: event.target.value })
+            }
+            className="h-8 w-14 cursor-pointer rounded-lg border border-white/10 bg-slate-950"
+          />
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="col-span-2 flex flex-col gap-1">
+            <span>Transition out</span>
+            <select
+              value={transitionType ?? ""}
+              onChange={(event) =>
+                onTransitionUpdate({ type: event.target.value as TransitionType })
+              }
+              className={fieldClassName}
+            >
+              {transitionType ? null : (
+                <option value="" disabled>
+                  Mixed
+                </option>
+              )}
+              {TRANSITION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Duration (s)</span>
+            <input
+              type="number"
+              min={MIN_TRANSITION_DURATION}
+              step={0.1}
+              value={transitionDuration ?? ""}
+              placeholder="Mixed"
+              onChange={(event) => {
+                if (event.target.value === "") return;
+                onTransitionUpdate({
+                  duration: Math.max(MIN_TRANSITION_DURATION, Number(event.target.value) || 0),
+                });
+              }}
+              className={fieldClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Easing</span>
+            <select
+              value={easing ?? ""}
+              onChange={(event) => onTransitionUpdate({ easing: event.target.value as EasingName })}
+              className={fieldClassName}
+            >
+              {easing ? null : (
+                <option value="" disabled>
+                  Mixed
+                </option>
+              )}
+              {EASING_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p className="text-slate-400">
+          Shift-click selects a range, Ctrl/Cmd-click adds or removes single scenes. Transition
+          lengths are capped to fit each pair of scenes.
+        </p>
+      </div>
+    </div>
+  );
+}
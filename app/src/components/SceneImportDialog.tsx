@@ -0,0 +1,298 @@
+'use client';
+
+import type { ChangeEvent, DragEvent } from "react";
+import { useEffect, useMemo, useState } from "react";
+import clsx from "clsx";
+import { readDroppedFiles } from "../core/files";
+import type { ColumnMapping, ImportSource, SceneField } from "../core/sceneImport";
+import {
+  DEFAULT_IMPORT_DURATION,
+  SCENE_FIELD_OPTIONS,
+  SCENE_FILE_TYPES,
+  createSlidesFromImport,
+  guessColumnMapping,
+  mapImportRows,
+  readImageFiles,
+  readSceneFile,
+} from "../core/sceneImport";
+import type { Slide } from "../core/slides";
+import { MIN_SLIDE_DURATION } from "../core/slides";
+import type { Theme } from "../core/themes";
+import SceneThumbnail from "./SceneThumbnail";
+
+export type SceneImportMode = "append" | "replace";
+
+type SceneImportDialogProps = {
+  theme: Theme;
+  aspectRatio: number;
+  /** Scenes already in the project, which appended scenes follow. */
+  sceneCount: number;
+  createScene: (index: number, data: Partial<Omit<Slide, "id">>) => Slide;
+  onImport: (slides: Slide[], mode: SceneImportMode) => void;
+  onClose: () => void;
+};
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+const pickerClassName =
+  "cursor-pointer rounded-full bg-slate-800 px-4 py-2 text-xs font-semibold text-slate-200 transition hover:bg-slate-700";
+
+const MODE_OPTIONS: { value: SceneImportMode; label: string }[] = [
+  { value: "append", label: "Add after the current scenes" },
+  { value: "replace", label: "Replace all scenes" },
+];
+
+/**
+ * Creates scenes in bulk from a spreadsheet, JSON list, Markdown outline or
+ * folder of images, with a mapping and preview step before anything changes.
+ */
+export default function SceneImportDialog({
+  theme,
+  aspectRatio,
+  sceneCount,
+  createScene,
+  onImport,
+  onClose,
+}: SceneImportDialogProps) {
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [defaultDuration, setDefaultDuration] = useState(DEFAULT_IMPORT_DURATION);
+  const [mode, setMode] = useState<SceneImportMode>("append");
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const scenes = useMemo(
+    () => (source && mapping ? mapImportRows(source, mapping, defaultDuration) : []),
+    [defaultDuration, mapping, source],
+  );
+  const slides = useMemo(
+    () => createSlidesFromImport(scenes, createScene, mode === "append" ? sceneCount : 0),
+    [createScene, mode, sceneCount, scenes],
+  );
+  const warningCount = scenes.filter((scene) => scene.warnings.length).length;
+
+  const loadFiles = async (files: File[], name: string) => {
+    if (!files.length) return;
+    setError(null);
+    setIsReading(true);
+    try {
+      const next =
+        files.length === 1 && !files[0].type.startsWith("image/")
+          ? await readSceneFile(files[0])
+          : await readImageFiles(files, name);
+      setSource(next);
+      setMapping(guessColumnMapping(next));
+    } catch (readError) {
+      setError(readError instanceof Error ? readError.message : "Unable to read those files.");
+    }
+    setIsReading(false);
+  };
+
+  const handleFileInput = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = [...(event.target.files ?? [])];
+    event.target.value = "";
+    const folder = files[0]?.webkitRelativePath.split("/")[0];
+    void loadFiles(files, folder || files[0]?.name || "");
+  };
+
+  const handleDrop = async (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const name = event.dataTransfer.items[0]?.webkitGetAsEntry()?.name ?? "";
+    await loadFiles(await readDroppedFiles(event.dataTransfer), name);
+  };
+
+  const updateMapping = (field: SceneField, column: string) =>
+    setMapping((prev) => prev && { ...prev, [field]: column || null });
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-slate-950/80 p-6 backdrop-blur"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Import scenes"
+        onClick={(event) => event.stopPropagation()}
+        className="flex max-h-full w-full max-w-4xl flex-col gap-5 overflow-hidden rounded-3xl border border-white/10 bg-slate-900 p-6 shadow-2xl shadow-slate-950/60"
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Import scenes</h2>
+            <p className="text-xs text-slate-400">
+              One scene per spreadsheet row, Markdown heading or image.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-100" title="Close">
+            ✕
+          </button>
+        </div>
+
+        <div
+          onDragOver={(event) => {
+            event.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={clsx(
+            "flex flex-col items-center gap-3 rounded-2xl border border-dashed p-5 text-center text-xs text-slate-400 transition",
+            isDragging ? "border-sky-400 bg-sky-500/10" : "border-white/15 bg-slate-950/40",
+          )}
+        >
+          <p>
+            {isReading
+              ? "Reading…"
+              : source
+                ? `${source.name}: ${source.rows.length} rows`
+                : "Drop a CSV, JSON or Markdown file, or a folder of images, here."}
+          </p>
+          <div className="flex flex-wrap justify-center gap-2">
+            <label className={pickerClassName}>
+              Choose file
+              <input
+                type="file"
+                accept={SCENE_FILE_TYPES}
+                onChange={handleFileInput}
+                className="hidden"
+              />
+            </label>
+            <label className={pickerClassName}>
+              Choose images
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={handleFileInput}
+                className="hidden"
+              />
+            </label>
+            <label className={pickerClassName}>
+              Choose folder
+              <input
+                type="file"
+                ref={(input) => {
+                  if (input) input.webkitdirectory = true;
+                }}
+                onChange={handleFileInput}
+                className="hidden"
+              />
+            </label>
+          </div>
+          {error ? <p className="text-rose-300">{error}</p> : null}
+        </div>
+
+        {source && mapping ? (
+          <>
+            <div className="grid gap-3 text-xs text-slate-300 sm:grid-cols-3">
+              {SCENE_FIELD_OPTIONS.map((field) => (
+                <label key={field.value} className="flex flex-col gap-1">
+                  <span>{field.label}</span>
+                  <select
+                    value={mapping[field.value] ?? ""}
+                    onChange={(event) => updateMapping(field.value, event.target.value)}
+                    className={fieldClassName}
+                  >
+                    <option value="">None</option>
+                    {source.columns.map((column) => (
+                      <option key={column} value={column}>
+                        {column}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              <label className="flex flex-col gap-1">
+                <span>Default duration (seconds)</span>
+                <input
+                  type="number"
+                  min={MIN_SLIDE_DURATION}
+                  step={0.5}
+                  value={defaultDuration}
+                  onChange={(event) =>
+                    setDefaultDuration(
+                      Math.max(
+                        MIN_SLIDE_DURATION,
+                        Number(event.target.value) || MIN_SLIDE_DURATION,
+                      ),
+                    )
+                  }
+                  className={fieldClassName}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span>Existing scenes</span>
+                <select
+                  value={mode}
+                  onChange={(event) => setMode(event.target.value as SceneImportMode)}
+                  className={fieldClassName}
+                >
+                  {MODE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <ol className="min-h-0 flex-1 space-y-2 overflow-y-auto pr-1">
+              {slides.map((slide, index) => {
+                const scene = scenes[index];
+                return (
+                  <li
+                    key={slide.id}
+                    className="flex items-center gap-3 rounded-2xl border border-white/10 bg-slate-950/60 p-2 text-xs"
+                  >
+                    <span className="w-6 text-right text-slate-500">{index + 1}</span>
+                    <SceneThumbnail slide={slide} aspectRatio={aspectRatio} theme={theme} />
+                    <span className="min-w-0 flex-1">
+                      <span className="block truncate font-semibold text-slate-100">
+                        {scene.title || "No title"}
+                      </span>
+                      <span className="block truncate text-slate-400">
+                        {scene.subtitle || "No subtitle"}
+                      </span>
+                      {scene.warnings.map((warning) => (
+                        <span key={warning} className="block text-amber-300">
+                          {warning}
+                        </span>
+                      ))}
+                    </span>
+                    <span className="text-slate-400">{scene.duration.toFixed(1)}s</span>
+                  </li>
+                );
+              })}
+            </ol>
+
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-slate-400">
+                {warningCount
+                  ? `${warningCount} rows have values that will be ignored.`
+                  : "Undo brings back your scenes as they were."}
+              </p>
+              <button
+                onClick={() => onImport(slides, mode)}
+                disabled={!slides.length}
+                className="rounded-full bg-sky-500 px-5 py-2 text-sm font-semibold text-white transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Create {slides.length} scenes
+              </button>
+            </div>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
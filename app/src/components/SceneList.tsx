@@ -0,0 +1,354 @@
+'use client';
+
+import type {
+  DragEvent as ReactDragEvent,
+  KeyboardEvent as ReactKeyboardEvent,
+  MouseEvent as ReactMouseEvent,
+} from "react";
+import { useEffect, useId, useRef, useState } from "react";
+import clsx from "clsx";
+import type { Slide } from "../core/slides";
+import { getSlideLabel } from "../core/slides";
+import type { Theme } from "../core/themes";
+import type { SlideTransition } from "../core/transitions";
+import { getMaxTransitionDuration } from "../core/transitions";
+import SceneThumbnail from "./SceneThumbnail";
+import TransitionPicker from "./TransitionPicker";
+
+export type SelectionMode = "replace" | "toggle" | "range";
+
+type SceneListProps = {
+  slides: Slide[];
+  activeId: string | null;
+  selectedIds: string[];
+  /** Output width divided by height, used to shape thumbnails. */
+  aspectRatio: number;
+  theme: Theme;
+  onSelect: (slideId: string, mode: SelectionMode) => void;
+  onMove: (slideIds: string[], beforeId: string | null) => void;
+  onDuplicate: (slideIds: string[]) => void;
+  onInsertAfter: (slideId: string) => void;
+  onRemove: (slideIds: string[]) => void;
+  onTransitionChange: (slideId: string, data: Partial<SlideTransition>) => void;
+  /** Moves keyboard focus to a scene, e.g. one just added or the one left after a delete. */
+  focusRequest: { slideId: string } | null;
+};
+
+type MenuState = { slideId: string; x: number; y: number };
+
+const menuItemClassName =
+  "w-full rounded-lg px-3 py-1.5 text-left text-xs text-slate-200 transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40";
+
+/**
+ * Scene strip with thumbnails. Scenes can be dragged (Alt+↑/↓ from the
+ * keyboard) and a right click, Shift+F10 or the ⋯ button opens per-scene
+ * actions. Actions on a scene that is part of a multi-selection apply to the
+ * whole selection.
+ */
+export default function SceneList({
+  slides,
+  activeId,
+  selectedIds,
+  aspectRatio,
+  theme,
+  onSelect,
+  onMove,
+  onDuplicate,
+  onInsertAfter,
+  onRemove,
+  onTransitionChange,
+  focusRequest,
+}: SceneListProps) {
+  const [dropTarget, setDropTarget] = useState<{ beforeId: string | null } | null>(null);
+  const [menu, setMenu] = useState<MenuState | null>(null);
+  const dragIdsRef = useRef<string[]>([]);
+  const buttonRefs = useRef(new Map<string, HTMLButtonElement>());
+  const focusAfterMoveRef = useRef<string | null>(null);
+  const menuRef = useRef<HTMLDivElement | null>(null);
+  // Where focus goes back to when the menu is dismissed from the keyboard.
+  const menuOpenerRef = useRef<HTMLElement | null>(null);
+  const instructionsId = useId();
+
+  useEffect(() => {
+    const slideId = focusAfterMoveRef.current;
+    focusAfterMoveRef.current = null;
+    if (slideId) buttonRefs.current.get(slideId)?.focus();
+  }, [slides]);
+
+  useEffect(() => {
+    if (focusRequest) buttonRefs.current.get(focusRequest.slideId)?.focus();
+  }, [focusRequest]);
+
+  useEffect(() => {
+    if (!menu) return;
+    menuRef.current?.querySelector<HTMLButtonElement>("button:not(:disabled)")?.focus();
+    const close = () => setMenu(null);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape" || event.key === "Tab") {
+        if (event.key === "Escape") event.preventDefault();
+        close();
+        menuOpenerRef.current?.focus();
+      }
+    };
+    window.addEventListener("pointerdown", close);
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("scroll", close, true);
+    return () => {
+      window.removeEventListener("pointerdown", close);
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("scroll", close, true);
+    };
+  }, [menu]);
+
+  /** The scenes an action on `slideId` should affect, in timeline order. */
+  const getTargetIds = (slideId: string) =>
+    selectedIds.includes(slideId)
+      ? slides.filter((slide) => selectedIds.includes(slide.id)).map((slide) => slide.id)
+      : [slideId];
+
+  const moveBy = (slideId: string, offset: -1 | 1) => {
+    const ids = getTargetIds(slideId);
+    const indices = ids.map((id) => slides.findIndex((slide) => slide.id === id));
+    if (offset < 0) {
+      const before = slides[Math.min(...indices) - 1];
+      if (!before) return;
+      onMove(ids, before.id);
+    } else {
+      const last = Math.max(...indices);
+      if (last >= slides.length - 1) return;
+      onMove(ids, slides[last + 2]?.id ?? null);
+    }
+    focusAfterMoveRef.current = slideId;
+  };
+
+  const openMenu = (event: ReactMouseEvent<HTMLElement>, slideId: string) => {
+    event.preventDefault();
+    menuOpenerRef.current =
+      document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const fromKeyboard = event.clientX === 0 && event.clientY === 0;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    setMenu({
+      slideId,
+      x: fromKeyboard ? bounds.right : event.clientX,
+      y: fromKeyboard ? bounds.bottom : event.clientY,
+    });
+  };
+
+  const handleDragStart = (event: ReactDragEvent<HTMLDivElement>, slideId: string) => {
+    dragIdsRef.current = getTargetIds(slideId);
+    event.dataTransfer.effectAllowed = "move";
+    event.dataTransfer.setData("text/plain", slideId);
+  };
+
+  const handleDragOver = (event: ReactDragEvent<HTMLDivElement>, index: number) => {
+    if (!dragIdsRef.current.length) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const isAfter = event.clientY > bounds.top + bounds.height / 2;
+    const beforeId = isAfter ? (slides[index + 1]?.id ?? null) : slides[index].id;
+    if (dropTarget?.beforeId !== beforeId) setDropTarget({ beforeId });
+  };
+
+  const handleDrop = (event: ReactDragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (dropTarget && dragIdsRef.current.length) onMove(dragIdsRef.current, dropTarget.beforeId);
+    handleDragEnd();
+  };
+
+  const handleDragEnd = () => {
+    dragIdsRef.current = [];
+    setDropTarget(null);
+  };
+
+  const focusScene = (index: number) => {
+    const slide = slides[Math.min(slides.length - 1, Math.max(0, index))];
+    if (slide) buttonRefs.current.get(slide.id)?.focus();
+  };
+
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLButtonElement>, slideId: string) => {
+    const index = slides.findIndex((slide) => slide.id === slideId);
+    if (event.altKey && (event.key === "ArrowUp" || event.key === "ArrowDown")) {
+      event.preventDefault();
+      moveBy(slideId, event.key === "ArrowUp" ? -1 : 1);
+    } else if (event.key === "ArrowUp" || event.key === "ArrowDown") {
+      event.preventDefault();
+      focusScene(index + (event.key === "ArrowUp" ? -1 : 1));
+    } else if (event.key === "Home" || event.key === "End") {
+      event.preventDefault();
+      focusScene(event.key === "Home" ? 0 : slides.length - 1);
+    } else if (event.key === "Delete") {
+      event.preventDefault();
+      const ids = getTargetIds(slideId);
+      if (ids.length < slides.length) onRemove(ids);
+    }
+  };
+
+  const handleMenuKeyDown = (event: ReactKeyboardEvent<HTMLDivElement>) => {
+    const items = Array.from(
+      event.currentTarget.querySelectorAll<HTMLButtonElement>("button:not(:disabled)"),
+    );
+    const current = items.indexOf(document.activeElement as HTMLButtonElement);
+    let next: number | null = null;
+    if (event.key === "ArrowDown") next = (current + 1) % items.length;
+    else if (event.key === "ArrowUp") next = (current - 1 + items.length) % items.length;
+    else if (event.key === "Home") next = 0;
+    else if (event.key === "End") next = items.length - 1;
+    if (next === null) return;
+    event.preventDefault();
+    items[next]?.focus();
+  };
+
+  const runMenuAction = (action: (slideId: string) => void) => {
+    if (!menu) return;
+    action(menu.slideId);
+    setMenu(null);
+  };
+
+  const menuIndex = menu ? slides.findIndex((slide) => slide.id === menu.slideId) : -1;
+  const menuTargets = menu ? getTargetIds(menu.slideId) : [];
+
+  return (
+    <div className="flex flex-col gap-3 overflow-y-auto pb-3">
+      <p id={instructionsId} className="sr-only">
+        Up and down arrows move between scenes, Alt with an arrow reorders, Delete removes, and
+        Shift+F10 opens the scene&apos;s actions. Shift- or Ctrl-click to select several.
+      </p>
+      <ol aria-label="Scenes" className="flex flex-col gap-3">
+        {slides.map((slide, index) => {
+          const isActive = slide.id === activeId;
+          const isSelected = selectedIds.includes(slide.id);
+          return (
+            <li key={slide.id} className="flex flex-col gap-3">
+              {dropTarget?.beforeId === slide.id ? (
+                <div aria-hidden="true" className="h-0.5 rounded-full bg-sky-400" />
+              ) : null}
+              <div
+                draggable
+                onDragStart={(event) => handleDragStart(event, slide.id)}
+                onDragOver={(event) => handleDragOver(event, index)}
+                onDrop={handleDrop}
+                onDragEnd={handleDragEnd}
+                onContextMenu={(event) => openMenu(event, slide.id)}
+                className={clsx(
+                  "group relative flex items-center gap-2 rounded-2xl border px-3 py-3 transition hover:border-sky-500/60 hover:bg-slate-800/40",
+                  isActive
+                    ? "border-sky-400/80 bg-slate-800/40"
+                    : isSelected
+                      ? "border-sky-400/40 bg-slate-800/20"
+                      : "border-white/5 bg-slate-900/40",
+                )}
+              >
+                <button
+                  ref={(node) => {
+                    if (node) buttonRefs.current.set(slide.id, node);
+                    else buttonRefs.current.delete(slide.id);
+                  }}
+                  onClick={(event) =>
+                    onSelect(
+                      slide.id,
+                      event.shiftKey
+                        ? "range"
+                        : event.metaKey || event.ctrlKey
+                          ? "toggle"
+                          : "replace",
+                    )
+                  }
+                  onKeyDown={(event) => handleKeyDown(event, slide.id)}
+                  aria-pressed={isSelected}
+                  aria-current={isActive ? "true" : undefined}
+                  aria-describedby={instructionsId}
+                  title="Drag or press Alt+↑/↓ to reorder"
+                  className="flex min-w-0 flex-1 cursor-grab items-center gap-3 text-left active:cursor-grabbing"
+                >
+                  <SceneThumbnail slide={slide} aspectRatio={aspectRatio} theme={theme} />
+                  <div className="min-w-0">
+                    <p className="text-xs uppercase tracking-wide text-slate-400">
+                      Scene {index + 1}
+                    </p>
+                    <p className="truncate text-sm font-semibold text-slate-100">
+                      {getSlideLabel(slide)}
+                    </p>
+                    <span className="mt-1 inline-block rounded-full bg-slate-800 px-2 py-0.5 text-[0.6rem] font-semibold uppercase tracking-widest text-slate-300">
+                      {slide.duration.toFixed(1)}s
+                    </span>
+                  </div>
+                </button>
+                <button
+                  onClick={(event) => openMenu(event, slide.id)}
+                  onPointerDown={(event) => event.stopPropagation()}
+                  aria-label={`Scene ${index + 1} actions`}
+                  aria-haspopup="menu"
+                  aria-expanded={menu?.slideId === slide.id}
+                  className="rounded-full px-2 py-1 text-sm text-slate-400 hover:bg-slate-800 hover:text-slate-100"
+                >
+                  ⋯
+                </button>
+              </div>
+              {index < slides.length - 1 ? (
+                <TransitionPicker
+                  transition={slide.transition}
+                  maxDuration={getMaxTransitionDuration(slide, slides[index + 1])}
+                  onChange={(data) => onTransitionChange(slide.id, data)}
+                />
+              ) : null}
+            </li>
+          );
+        })}
+      </ol>
+      {dropTarget && dropTarget.beforeId === null ? (
+        <div aria-hidden="true" className="h-0.5 rounded-full bg-sky-400" />
+      ) : null}
+      {menu ? (
+        <div
+          ref={menuRef}
+          role="menu"
+          aria-label={`Scene ${menuIndex + 1} actions`}
+          onKeyDown={handleMenuKeyDown}
+          onPointerDown={(event) => event.stopPropagation()}
+          className="fixed z-30 flex w-48 flex-col gap-0.5 rounded-xl border border-white/10 bg-slate-900 p-1 shadow-xl shadow-slate-950/60"
+          style={{ left: menu.x, top: menu.y }}
+        >
+          <button
+            role="menuitem"
+            onClick={() => runMenuAction(onInsertAfter)}
+            className={menuItemClassName}
+          >
+            Insert scene after
+          </button>
+          <button
+            role="menuitem"
+            onClick={() => runMenuAction(() => onDuplicate(menuTargets))}
+            className={menuItemClassName}
+          >
+            {menuTargets.length > 1 ? `Duplicate ${menuTargets.length} scenes` : "Duplicate"}
+          </button>
+          <button
+            role="menuitem"
+            onClick={() => runMenuAction((slideId) => moveBy(slideId, -1))}
+            disabled={menuIndex <= 0}
+            className={menuItemClassName}
+          >
+            Move up
+          </button>
+          <button
+            role="menuitem"
+            onClick={() => runMenuAction((slideId) => moveBy(slideId, 1))}
+            disabled={menuIndex >= slides.length - 1}
+            className={menuItemClassName}
+          >
+            Move down
+          </button>
+          <button
+            role="menuitem"
+            onClick={() => runMenuAction(() => onRemove(menuTargets))}
+            disabled={menuTargets.length >= slides.length}
+            className={clsx(menuItemClassName, "text-rose-300")}
+          >
+            {menuTargets.length > 1 ? `Delete ${menuTargets.length} scenes` : "Delete"}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
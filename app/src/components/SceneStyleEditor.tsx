@@ -0,0 +1,197 @@
+'use client';
+
+import { BRAND_COLORS_LIST_ID } from "../core/brandKit";
+import type { CustomFont } from "../core/fonts";
+import { getFontStack } from "../core/fonts";
+import type { TextAlign } from "../core/layers";
+import type {
+  OverlayStyle,
+  TextPosition,
+  TextShadow,
+  Theme,
+  ThemeOverrides,
+  ThemeStyle,
+} from "../core/themes";
+import { FONT_OPTIONS, OVERLAY_OPTIONS, POSITION_OPTIONS, resolveSlideStyle } from "../core/themes";
+
+type SceneStyleEditorProps = {
+  theme: Theme;
+  /** Uploaded fonts, offered after the built-in ones. */
+  fonts: CustomFont[];
+  overrides: ThemeOverrides;
+  onChange: (overrides: ThemeOverrides) => void;
+};
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40 disabled:opacity-50";
+
+const ALIGN_OPTIONS: { value: TextAlign; label: string }[] = [
+  { value: "left", label: "Left" },
+  { value: "center", label: "Center" },
+  { value: "right", label: "Right" },
+];
+
+/** Used when a scene turns on a shadow its theme does not have. */
+const SOFT_SHADOW: TextShadow = { color: "rgba(0,0,0,0.5)", blur: 10, offsetY: 3 };
+
+const getLabel = <T extends string>(options: { value: T; label: string }[], value: T) =>
+  options.find((option) => option.value === value)?.label ?? "Custom";
+
+/** Scene-level overrides of the project theme. Empty choices follow the theme. */
+export default function SceneStyleEditor({
+  theme,
+  fonts,
+  overrides,
+  onChange,
+}: SceneStyleEditorProps) {
+  const style = resolveSlideStyle(theme, overrides);
+  const fontOptions = [
+    ...FONT_OPTIONS,
+    ...fonts.map((font) => ({ value: getFontStack(font), label: font.name })),
+  ];
+
+  const set = <K extends keyof ThemeStyle>(key: K, value: ThemeStyle[K] | undefined) => {
+    const next = { ...overrides };
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2 rounded-xl border border-white/5 bg-slate-950/40 p-3 text-xs text-slate-300">
+      <label className="col-span-2 flex flex-col gap-1">
+        <span>Font</span>
+        <select
+          value={overrides.fontFamily ?? ""}
+          onChange={(event) => set("fontFamily", event.target.value || undefined)}
+          className={fieldClassName}
+        >
+          <option value="">Theme ({getLabel(FONT_OPTIONS, theme.fontFamily)})</option>
+          {fontOptions.map((font) => (
+            <option key={font.value} value={font.value}>
+              {font.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Text position</span>
+        <select
+          value={overrides.position ?? ""}
+          onChange={(event) => set("position", (event.target.value as TextPosition) || undefined)}
+          className={fieldClassName}
+        >
+          <option value="">Theme ({getLabel(POSITION_OPTIONS, theme.position)})</option>
+          {POSITION_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Alignment</span>
+        <select
+          value={overrides.align ?? ""}
+          onChange={(event) => set("align", (event.target.value as TextAlign) || undefined)}
+          className={fieldClassName}
+        >
+          <option value="">Theme ({getLabel(ALIGN_OPTIONS, theme.align)})</option>
+          {ALIGN_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="flex justify-between">
+          Text color
+          {overrides.textColor ? (
+            <button
+              onClick={() => set("textColor", undefined)}
+              className="text-slate-400 hover:text-slate-100"
+            >
+              Use theme
+            </button>
+          ) : null}
+        </span>
+        <input
+          type="color"
+          list={BRAND_COLORS_LIST_ID}
+          value={style.textColor}
+          onChange={(event) => set("textColor", event.target.value)}
+          className="h-7 w-full cursor-pointer rounded-lg border border-white/10 bg-slate-950"
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Text shadow</span>
+        <select
+          value={overrides.textShadow === undefined ? "" : overrides.textShadow ? "on" : "off"}
+          onChange={(event) =>
+            set(
+              "textShadow",
+              event.target.value === ""
+                ? undefined
+                : event.target.value === "on"
+                  ? (theme.textShadow ?? SOFT_SHADOW)
+                  : null,
+            )
+          }
+          className={fieldClassName}
+        >
+          <option value="">Theme ({theme.textShadow ? "On" : "Off"})</option>
+          <option value="on">On</option>
+          <option value="off">Off</option>
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Overlay</span>
+        <select
+          value={overrides.overlay ?? ""}
+          onChange={(event) => set("overlay", (event.target.value as OverlayStyle) || undefined)}
+          className={fieldClassName}
+        >
+          <option value="">Theme ({getLabel(OVERLAY_OPTIONS, theme.overlay)})</option>
+          {OVERLAY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Overlay color</span>
+        <input
+          type="color"
+          list={BRAND_COLORS_LIST_ID}
+          value={style.overlayColor}
+          disabled={style.overlay === "none"}
+          onChange={(event) => set("overlayColor", event.target.value)}
+          className="h-7 w-full cursor-pointer rounded-lg border border-white/10 bg-slate-950 disabled:cursor-not-allowed disabled:opacity-40"
+        />
+      </label>
+      <label className="col-span-2 flex flex-col gap-1">
+        <span>Overlay strength {Math.round(style.overlayOpacity * 100)}%</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={style.overlayOpacity}
+          disabled={style.overlay === "none"}
+          onChange={(event) => set("overlayOpacity", Number(event.target.value))}
+          className="accent-sky-500 disabled:opacity-40"
+        />
+      </label>
+      {Object.keys(overrides).length ? (
+        <button
+          onClick={() => onChange({})}
+          className="col-span-2 rounded-full bg-slate-800 px-3 py-1 text-[0.65rem] font-semibold uppercase tracking-widest text-slate-300 transition hover:bg-slate-700"
+        >
+          Reset to {theme.name}
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useMemo, useRef } from "react";
+import { drawSlideThumbnail } from "../core/renderer";
+import type { Slide } from "../core/slides";
+import type { Theme } from "../core/themes";
+import { resolveSlideStyle } from "../core/themes";
+
+type SceneThumbnailProps = {
+  slide: Slide;
+  aspectRatio: number;
+  theme: Theme;
+};
+
+const MAX_THUMBNAIL_WIDTH = 128;
+const MAX_THUMBNAIL_HEIGHT = 72;
+
+/** Redraws shortly after edits settle so typing in a scene stays responsive. */
+const REDRAW_DELAY = 150;
+
+export default function SceneThumbnail({ slide, aspectRatio, theme }: SceneThumbnailProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const style = useMemo(
+    () => resolveSlideStyle(theme, slide.themeOverrides),
+    [slide.themeOverrides, theme],
+  );
+  // Letterboxed into a fixed slot so scene rows line up whatever the output shape.
+  const width = Math.round(Math.min(MAX_THUMBNAIL_WIDTH, MAX_THUMBNAIL_HEIGHT * aspectRatio));
+  const height = Math.round(Math.min(MAX_THUMBNAIL_HEIGHT, MAX_THUMBNAIL_WIDTH / aspectRatio));
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = window.setTimeout(async () => {
+      const scratch = document.createElement("canvas");
+      scratch.width = width;
+      scratch.height = height;
+      const scratchCtx = scratch.getContext("2d");
+      if (!scratchCtx) return;
+      await drawSlideThumbnail(scratchCtx, slide, style);
+      const ctx = canvasRef.current?.getContext("2d");
+      if (cancelled || !ctx) return;
+      ctx.clearRect(0, 0, width, height);
+      ctx.drawImage(scratch, 0, 0);
+    }, REDRAW_DELAY);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [height, slide, style, width]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      aria-hidden="true"
+      className="h-[54px] w-24 shrink-0 rounded-lg border border-white/10 bg-slate-950 object-contain"
+    />
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import type { OutputSettings } from "../core/output";
+import type { SharedProjectLinks } from "../core/sharing";
+import { getEmbedCode } from "../core/sharing";
+
+type ShareDialogProps = {
+  links: SharedProjectLinks;
+  name: string;
+  output: OutputSettings;
+  onClose: () => void;
+};
+
+const fieldClassName =
+  "min-w-0 flex-1 rounded-lg border border-white/10 bg-slate-950 px-3 py-2 font-mono text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+const actionClassName =
+  "rounded-full bg-slate-800 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:bg-slate-700";
+
+/** The player link and iframe snippet for a project that was just shared. */
+export default function ShareDialog({ links, name, output, onClose }: ShareDialogProps) {
+  const [copied, setCopied] = useState<string | null>(null);
+  const [origin] = useState(() => window.location.origin);
+  const playerUrl = `${origin}${links.playerUrl}`;
+  const embedCode = getEmbedCode(`${origin}${links.embedUrl}`, output, name);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const copy = async (label: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(label);
+    } catch {
+      setCopied(null);
+    }
+  };
+
+  const rows = [
+    { label: "Link", value: playerUrl },
+    { label: "Embed", value: embedCode },
+  ];
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-slate-950/80 p-6 backdrop-blur"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Share project"
+        onClick={(event) => event.stopPropagation()}
+        className="w-full max-w-xl rounded-3xl border border-white/10 bg-slate-900 p-6 shadow-2xl shadow-slate-950/60"
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Share project</h2>
+            <p className="text-xs text-slate-400">
+              Anyone with the link can watch it. Share again to publish your latest changes.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-100" title="Close">
+            ✕
+          </button>
+        </div>
+        <div className="mt-5 flex flex-col gap-3">
+          {rows.map((row) => (
+            <div key={row.label} className="flex flex-col gap-1 text-xs text-slate-400">
+              {row.label}
+              <span className="flex items-center gap-2">
+                <input
+                  readOnly
+                  value={row.value}
+                  aria-label={row.label}
+                  onFocus={(event) => event.target.select()}
+                  className={fieldClassName}
+                />
+                <button onClick={() => void copy(row.label, row.value)} className={actionClassName}>
+                  {copied === row.label ? "Copied" : "Copy"}
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+        <a
+          href={links.playerUrl}
+          target="_blank"
+          rel="noreferrer"
+          className="mt-5 inline-block rounded-full bg-sky-500 px-4 py-2 text-xs font-semibold text-white transition hover:bg-sky-400"
+        >
+          Open player
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import type { ChangeEvent } from "react";
+import { useState } from "react";
+import { resolveMediaSrc } from "../core/assets";
+import type { AudioSettings, MusicTrack } from "../core/audio";
+import { createMusicTrack, readAudioDuration } from "../core/audio";
+import AudioClipFields from "./AudioClipFields";
+
+type SoundtrackPanelProps = {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  /** Adds an uploaded file to the asset library and resolves to its reference. */
+  onStoreFile: (file: File) => Promise<string>;
+};
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+export default function SoundtrackPanel({ settings, onChange, onStoreFile }: SoundtrackPanelProps) {
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const updateTrack = (trackId: string, data: Partial<MusicTrack>) => {
+    onChange({
+      ...settings,
+      music: settings.music.map((track) => (track.id === trackId ? { ...track, ...data } : track)),
+    });
+  };
+
+  const handleMusicUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!files.length) return;
+    setUploadError(null);
+    try {
+      const tracks = await Promise.all(
+        files.map(async (file) => {
+          const src = await onStoreFile(file);
+          const duration = await readAudioDuration(resolveMediaSrc(src));
+          return createMusicTrack(file.name, src, duration);
+        }),
+      );
+      onChange({ ...settings, music: [...settings.music, ...tracks] });
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : "Unable to add that audio file.");
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/5 bg-slate-900/70 p-6 text-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Soundtrack</h2>
+        <label className="cursor-pointer rounded-full bg-slate-800 px-4 py-2 text-xs font-semibold uppercase tracking-wider text-slate-200 transition hover:bg-slate-700">
+          Add Music
+          <input
+            type="file"
+            accept="audio/*"
+            multiple
+            onChange={handleMusicUpload}
+            className="hidden"
+          />
+        </label>
+      </div>
+      {uploadError ? <p className="mt-3 text-xs text-rose-300">{uploadError}</p> : null}
+      <div className="mt-4 flex flex-col gap-4">
+        {settings.music.map((track) => (
+          <div
+            key={track.id}
+            className="flex flex-col gap-3 rounded-2xl border border-white/5 bg-slate-950/40 p-4"
+          >
+            <div className="flex items-center justify-between gap-3 text-xs">
+              <p className="truncate font-semibold text-slate-100">{track.name}</p>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-1 text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={track.loop}
+                    onChange={(event) => updateTrack(track.id, { loop: event.target.checked })}
+                    className="accent-sky-500"
+                  />
+                  Loop
+                </label>
+                <button
+                  onClick={() =>
+                    onChange({
+                      ...settings,
+                      music: settings.music.filter((item) => item.id !== track.id),
+                    })
+                  }
+                  className="text-slate-400 hover:text-rose-400"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+            <AudioClipFields clip={track} onChange={(data) => updateTrack(track.id, data)} />
+          </div>
+        ))}
+        {settings.music.length === 0 ? (
+          <p className="text-xs text-slate-400">
+            Add a music bed to play underneath every scene of the video.
+          </p>
+        ) : null}
+        <div className="grid grid-cols-2 gap-3 text-xs text-slate-300">
+          <label className="flex flex-col gap-1">
+            <span>Duck music under narration ({Math.round(settings.duckLevel * 100)}%)</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.duckLevel}
+              onChange={(event) => onChange({ ...settings, duckLevel: Number(event.target.value) })}
+              className="accent-sky-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Duck fade (s)</span>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={settings.duckFade}
+              onChange={(event) =>
+                onChange({ ...settings, duckFade: Math.max(0, Number(event.target.value) || 0) })
+              }
+              className={fieldClassName}
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
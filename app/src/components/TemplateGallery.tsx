@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import { createOutputSettings, getAspectRatioLabel } from "../core/output";
+import type { TemplateId } from "../core/templates";
+import { TEMPLATE_OPTIONS } from "../core/templates";
+import { getTheme } from "../core/themes";
+import SceneThumbnail from "./SceneThumbnail";
+
+type TemplateGalleryProps = {
+  onSelect: (templateId: TemplateId) => void;
+  onClose: () => void;
+};
+
+/** Modal list of starter projects, each previewed by its first scene. */
+export default function TemplateGallery({ onSelect, onClose }: TemplateGalleryProps) {
+  const [previews] = useState(() =>
+    TEMPLATE_OPTIONS.map((template) => {
+      const theme = getTheme(template.themeId);
+      const output = createOutputSettings(template.outputPreset);
+      const slides = template.createSlides(theme);
+      return { template, theme, output, slide: slides[0], sceneCount: slides.length };
+    }),
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-slate-950/80 p-6 backdrop-blur"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Start from a template"
+        onClick={(event) => event.stopPropagation()}
+        className="w-full max-w-3xl rounded-3xl border border-white/10 bg-slate-900 p-6 shadow-2xl shadow-slate-950/60"
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Start from a template</h2>
+            <p className="text-xs text-slate-400">
+              Your current project stays saved under Projects.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-100" title="Close">
+            ✕
+          </button>
+        </div>
+        <ul className="mt-5 grid gap-3 sm:grid-cols-2">
+          {previews.map(({ template, theme, output, slide, sceneCount }) => (
+            <li key={template.id}>
+              <button
+                onClick={() => onSelect(template.id)}
+                className="flex w-full items-center gap-4 rounded-2xl border border-white/10 bg-slate-950/60 p-3 text-left transition hover:border-sky-400/60 hover:bg-slate-800/60"
+              >
+                <SceneThumbnail
+                  slide={slide}
+                  aspectRatio={output.width / output.height}
+                  theme={theme}
+                />
+                <span className="min-w-0">
+                  <span className="block text-sm font-semibold text-slate-100">
+                    {template.name}
+                  </span>
+                  <span className="block text-xs text-slate-400">{template.description}</span>
+                  <span className="mt-1 block text-[0.65rem] uppercase tracking-widest text-slate-500">
+                    {theme.name} · {sceneCount} scenes ·{" "}
+                    {getAspectRatioLabel(output.width, output.height)}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
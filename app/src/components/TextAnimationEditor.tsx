@@ -0,0 +1,108 @@
+'use client';
+
+import { EASING_OPTIONS } from "../core/easing";
+import type { EasingName } from "../core/easing";
+import type { TextAnimation, TextAnimationPhase, TextEffect } from "../core/textAnimation";
+import { TEXT_EFFECT_OPTIONS } from "../core/textAnimation";
+
+type TextAnimationEditorProps = {
+  label: string;
+  animation: TextAnimation;
+  onChange: (animation: TextAnimation) => void;
+};
+
+const PHASES: { key: keyof TextAnimation; label: string; delayLabel: string }[] = [
+  { key: "enter", label: "Entrance", delayLabel: "Delay (s)" },
+  { key: "exit", label: "Exit", delayLabel: "Before end (s)" },
+];
+
+const selectClassName =
+  "rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+export default function TextAnimationEditor({
+  label,
+  animation,
+  onChange,
+}: TextAnimationEditorProps) {
+  const updatePhase = (key: keyof TextAnimation, data: Partial<TextAnimationPhase>) => {
+    onChange({ ...animation, [key]: { ...animation[key], ...data } });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 rounded-xl border border-white/5 bg-slate-950/40 p-3 text-xs text-slate-300">
+      <span className="font-semibold uppercase tracking-wider text-slate-400">{label}</span>
+      {PHASES.map(({ key, label: phaseLabel, delayLabel }) => {
+        const phase = animation[key];
+        return (
+          <div key={key} className="grid grid-cols-2 gap-2">
+            <label className="col-span-2 flex items-center justify-between gap-2">
+              <span>{phaseLabel}</span>
+              <select
+                value={phase.effect}
+                onChange={(event) => updatePhase(key, { effect: event.target.value as TextEffect })}
+                className={selectClassName}
+              >
+                {TEXT_EFFECT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {phase.effect !== "none" ? (
+              <>
+                <label className="flex flex-col gap-1">
+                  <span>{delayLabel}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={phase.delay}
+                    onChange={(event) =>
+                      updatePhase(key, { delay: Math.max(0, Number(event.target.value) || 0) })
+                    }
+                    className={fieldClassName}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span>Duration (s)</span>
+                  <input
+                    type="number"
+                    min={0.1}
+                    step={0.1}
+                    value={phase.duration}
+                    onChange={(event) =>
+                      updatePhase(key, {
+                        duration: Math.max(0.1, Number(event.target.value) || 0.1),
+                      })
+                    }
+                    className={fieldClassName}
+                  />
+                </label>
+                <label className="col-span-2 flex items-center justify-between gap-2">
+                  <span>Easing</span>
+                  <select
+                    value={phase.easing}
+                    onChange={(event) =>
+                      updatePhase(key, { easing: event.target.value as EasingName })
+                    }
+                    className={selectClassName}
+                  >
+                    {EASING_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { BRAND_COLORS_LIST_ID } from "../core/brandKit";
+import type { TextLayer } from "../core/layers";
+import type { TextShadow, ThemeStyle } from "../core/themes";
+
+type TextEffectsEditorProps = {
+  layer: TextLayer;
+  /** The scene's resolved theme, whose shadow the layer follows by default. */
+  style: ThemeStyle;
+  onChange: (data: Partial<TextLayer>) => void;
+};
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+const colorClassName =
+  "h-7 w-full cursor-pointer rounded-lg border border-white/10 bg-slate-950 disabled:cursor-not-allowed disabled:opacity-40";
+
+/** Used when a layer turns on a shadow its theme does not have. */
+const SOFT_SHADOW: TextShadow = { color: "rgba(0,0,0,0.5)", blur: 10, offsetY: 3 };
+
+/** Letter spacing, outline, shadow, highlight box and fitting for a text layer. */
+export default function TextEffectsEditor({ layer, style, onChange }: TextEffectsEditorProps) {
+  return (
+    <div className="grid grid-cols-2 gap-2 rounded-xl border border-white/5 bg-slate-950/40 p-3 text-xs text-slate-300">
+      <span className="col-span-2 font-semibold uppercase tracking-wider text-slate-400">
+        Effects and fitting
+      </span>
+      <label className="flex flex-col gap-1">
+        <span>Letter spacing</span>
+        <input
+          type="number"
+          step={0.5}
+          value={layer.letterSpacing}
+          onChange={(event) => onChange({ letterSpacing: Number(event.target.value) || 0 })}
+          className={fieldClassName}
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Shadow</span>
+        <select
+          value={layer.shadow === null ? "" : layer.shadow === "none" ? "off" : "on"}
+          onChange={(event) =>
+            onChange({
+              shadow:
+                event.target.value === ""
+                  ? null
+                  : event.target.value === "on"
+                    ? (style.textShadow ?? SOFT_SHADOW)
+                    : "none",
+            })
+          }
+          className={fieldClassName}
+        >
+          <option value="">Theme ({style.textShadow ? "On" : "Off"})</option>
+          <option value="on">On</option>
+          <option value="off">Off</option>
+        </select>
+      </label>
+      <div className="flex flex-col gap-1">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={Boolean(layer.outline)}
+            onChange={(event) =>
+              onChange({ outline: event.target.checked ? { color: "#000000", width: 2 } : null })
+            }
+            className="accent-sky-500"
+          />
+          Outline
+        </label>
+        <span className="flex gap-2">
+          <input
+            type="color"
+            list={BRAND_COLORS_LIST_ID}
+            value={layer.outline?.color ?? "#000000"}
+            disabled={!layer.outline}
+            onChange={(event) =>
+              layer.outline &&
+              onChange({ outline: { ...layer.outline, color: event.target.value } })
+            }
+            aria-label="Outline colour"
+            className={colorClassName}
+          />
+          <input
+            type="number"
+            min={0.5}
+            max={20}
+            step={0.5}
+            value={layer.outline?.width ?? 2}
+            disabled={!layer.outline}
+            onChange={(event) =>
+              layer.outline &&
+              onChange({
+                outline: {
+                  ...layer.outline,
+                  width: Math.max(0.5, Number(event.target.value) || 0.5),
+                },
+              })
+            }
+            aria-label="Outline width"
+            className={fieldClassName}
+          />
+        </span>
+      </div>
+      <div className="flex flex-col gap-1">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={Boolean(layer.highlight)}
+            onChange={(event) =>
+              onChange({
+                highlight: event.target.checked ? { color: "#000000", opacity: 0.6 } : null,
+              })
+            }
+            className="accent-sky-500"
+          />
+          Highlight box
+        </label>
+        <span className="flex gap-2">
+          <input
+            type="color"
+            list={BRAND_COLORS_LIST_ID}
+            value={layer.highlight?.color ?? "#000000"}
+            disabled={!layer.highlight}
+            onChange={(event) =>
+              layer.highlight &&
+              onChange({ highlight: { ...layer.highlight, color: event.target.value } })
+            }
+            aria-label="Highlight colour"
+            className={colorClassName}
+          />
+          <input
+            type="range"
+            min={0.1}
+            max={1}
+            step={0.05}
+            value={layer.highlight?.opacity ?? 0.6}
+            disabled={!layer.highlight}
+            onChange={(event) =>
+              layer.highlight &&
+              onChange({ highlight: { ...layer.highlight, opacity: Number(event.target.value) } })
+            }
+            aria-label="Highlight strength"
+            className="w-full accent-sky-500 disabled:opacity-40"
+          />
+        </span>
+      </div>
+      <label className="flex flex-col gap-1">
+        <span>Max lines</span>
+        <input
+          type="number"
+          min={1}
+          placeholder="Fit box"
+          value={layer.maxLines ?? ""}
+          onChange={(event) =>
+            onChange({
+              maxLines:
+                event.target.value === ""
+                  ? null
+                  : Math.max(1, Math.round(Number(event.target.value)) || 1),
+            })
+          }
+          className={fieldClassName}
+        />
+      </label>
+      <label className="flex items-center gap-2 self-end pb-1">
+        <input
+          type="checkbox"
+          checked={layer.autoShrink}
+          onChange={(event) => onChange({ autoShrink: event.target.checked })}
+          className="accent-sky-500"
+        />
+        Shrink to fit
+      </label>
+      <p className="col-span-2 text-slate-500">
+        Text that still does not fit the box ends with an ellipsis.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import clsx from "clsx";
+import type { ThemeId } from "../core/themes";
+import { THEME_OPTIONS } from "../core/themes";
+
+type ThemePanelProps = {
+  themeId: ThemeId;
+  onChange: (themeId: ThemeId) => void;
+  /** Re-lays every scene's title and subtitle with the theme's sizes and position. */
+  onApplyLayout: () => void;
+};
+
+export default function ThemePanel({ themeId, onChange, onApplyLayout }: ThemePanelProps) {
+  return (
+    <div className="rounded-3xl border border-white/5 bg-slate-900/70 p-6 text-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Theme</h2>
+        <button
+          onClick={onApplyLayout}
+          title="Reset title and subtitle size and position in every scene"
+          className="rounded-full bg-slate-800 px-4 py-1.5 text-xs font-semibold text-slate-200 transition hover:bg-slate-700"
+        >
+          Apply layout to all scenes
+        </button>
+      </div>
+      <div className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-5">
+        {THEME_OPTIONS.map((theme) => (
+          <button
+            key={theme.id}
+            onClick={() => onChange(theme.id)}
+            aria-pressed={theme.id === themeId}
+            className={clsx(
+              "flex flex-col overflow-hidden rounded-2xl border text-left transition",
+              theme.id === themeId
+                ? "border-sky-400 ring-1 ring-sky-400/60"
+                : "border-white/10 hover:border-white/30",
+            )}
+          >
+            <span
+              className="flex h-16 items-center px-3 text-lg font-bold"
+              style={{
+                background: theme.palette[0],
+                color: theme.textColor,
+                fontFamily: theme.fontFamily,
+                justifyContent: theme.align === "center" ? "center" : "flex-start",
+              }}
+            >
+              Aa
+            </span>
+            <span className="flex gap-1 px-3 pt-2">
+              {[...theme.palette, theme.accentColor].map((color) => (
+                <span
+                  key={color}
+                  className="h-2.5 w-2.5 rounded-full border border-white/10"
+                  style={{ background: color }}
+                />
+              ))}
+            </span>
+            <span className="px-3 pb-2 pt-1 text-xs font-semibold text-slate-200">
+              {theme.name}
+            </span>
+          </button>
+        ))}
+      </div>
+      <p className="mt-3 text-xs text-slate-400">
+        Fonts, colours and overlays update every scene straight away. Scenes can override them in
+        their Style settings.
+      </p>
+    </div>
+  );
+}
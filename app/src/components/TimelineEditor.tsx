@@ -0,0 +1,238 @@
+'use client';
+
+import type { KeyboardEvent as ReactKeyboardEvent, PointerEvent as ReactPointerEvent } from "react";
+import { useRef, useState } from "react";
+import clsx from "clsx";
+import { MIN_SLIDE_DURATION, getSlideLabel } from "../core/slides";
+import type { TimelineEntry } from "../core/transitions";
+import { getTimelineDuration } from "../core/transitions";
+
+type TimelineEditorProps = {
+  timeline: TimelineEntry[];
+  playhead: number;
+  /** Output frame rate; scrubbing and arrow keys snap to its frames. */
+  fps: number;
+  selectedId: string | null;
+  isPlaying: boolean;
+  onSeek: (time: number) => void;
+  onTogglePlay: () => void;
+  onDurationChange: (slideId: string, duration: number) => void;
+};
+
+type ResizeState = {
+  slideId: string;
+  pointerX: number;
+  duration: number;
+  secondsPerPixel: number;
+};
+
+const DURATION_STEP = 0.1;
+
+const TICK_STEPS = [0.5, 1, 2, 5, 10, 15, 30, 60];
+
+const MAX_TICKS = 12;
+
+const formatTimecode = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(2).padStart(5, "0")}`;
+};
+
+/**
+ * Horizontal scene track. Blocks are sized by duration (transition overlaps
+ * are hatched); dragging a block's right edge retimes it and dragging or
+ * clicking anywhere else moves the playhead.
+ */
+export default function TimelineEditor({
+  timeline,
+  playhead,
+  fps,
+  selectedId,
+  isPlaying,
+  onSeek,
+  onTogglePlay,
+  onDurationChange,
+}: TimelineEditorProps) {
+  const trackRef = useRef<HTMLDivElement | null>(null);
+  const isScrubbingRef = useRef(false);
+  const resizeRef = useRef<ResizeState | null>(null);
+  const [frozenScale, setFrozenScale] = useState<number | null>(null);
+
+  const totalDuration = getTimelineDuration(timeline);
+  // While resizing, keep the scale from shrinking so the handle stays under the pointer.
+  const scale = Math.max(totalDuration, frozenScale ?? 0, MIN_SLIDE_DURATION);
+  const tickStep =
+    TICK_STEPS.find((step) => scale / step <= MAX_TICKS) ?? TICK_STEPS[TICK_STEPS.length - 1];
+  const ticks = Array.from({ length: Math.floor(scale / tickStep) + 1 }, (_, i) => i * tickStep);
+  const toPercent = (time: number) => `${(time / scale) * 100}%`;
+
+  const seekToPointer = (clientX: number) => {
+    const bounds = trackRef.current?.getBoundingClientRect();
+    if (!bounds || !bounds.width) return;
+    const ratio = Math.min(1, Math.max(0, (clientX - bounds.left) / bounds.width));
+    const frame = Math.round(ratio * scale * fps);
+    onSeek(Math.min(totalDuration, frame / fps));
+  };
+
+  const handleTrackPointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    isScrubbingRef.current = true;
+    seekToPointer(event.clientX);
+  };
+
+  const handleTrackPointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (isScrubbingRef.current) seekToPointer(event.clientX);
+  };
+
+  const handleTrackPointerUp = () => {
+    isScrubbingRef.current = false;
+  };
+
+  const handleTrackKeyDown = (event: ReactKeyboardEvent<HTMLDivElement>) => {
+    const step = event.shiftKey ? 1 : 1 / fps;
+    let time: number | null = null;
+    if (event.key === "ArrowLeft") time = playhead - step;
+    else if (event.key === "ArrowRight") time = playhead + step;
+    else if (event.key === "Home") time = 0;
+    else if (event.key === "End") time = totalDuration;
+    else if (event.key === " ") {
+      event.preventDefault();
+      onTogglePlay();
+      return;
+    }
+    if (time === null) return;
+    event.preventDefault();
+    onSeek(Math.min(totalDuration, Math.max(0, time)));
+  };
+
+  const handleResizePointerDown = (
+    event: ReactPointerEvent<HTMLSpanElement>,
+    entry: TimelineEntry,
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const bounds = trackRef.current?.getBoundingClientRect();
+    if (!bounds || !bounds.width) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    resizeRef.current = {
+      slideId: entry.slide.id,
+      pointerX: event.clientX,
+      duration: entry.slide.duration,
+      secondsPerPixel: scale / bounds.width,
+    };
+    setFrozenScale(scale);
+  };
+
+  const handleResizePointerMove = (event: ReactPointerEvent<HTMLSpanElement>) => {
+    const resize = resizeRef.current;
+    if (!resize) return;
+    const delta = (event.clientX - resize.pointerX) * resize.secondsPerPixel;
+    const duration = Math.max(
+      MIN_SLIDE_DURATION,
+      Math.round((resize.duration + delta) / DURATION_STEP) * DURATION_STEP,
+    );
+    onDurationChange(resize.slideId, Number(duration.toFixed(1)));
+  };
+
+  const handleResizePointerUp = () => {
+    resizeRef.current = null;
+    setFrozenScale(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-3xl border border-white/5 bg-slate-900/70 p-4">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onTogglePlay}
+          className={clsx(
+            "rounded-full px-5 py-2 text-sm font-semibold transition focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-400",
+            isPlaying
+              ? "bg-amber-500 text-white"
+              : "bg-slate-800 text-slate-200 hover:bg-slate-700",
+          )}
+        >
+          {isPlaying ? "Pause" : "Play"}
+        </button>
+        <p className="font-mono text-xs text-slate-300">
+          {formatTimecode(playhead)} / {formatTimecode(totalDuration)}
+        </p>
+      </div>
+      <div
+        ref={trackRef}
+        role="slider"
+        tabIndex={0}
+        aria-label="Playhead"
+        aria-valuemin={0}
+        aria-valuemax={Number(totalDuration.toFixed(2))}
+        aria-valuenow={Number(playhead.toFixed(2))}
+        aria-valuetext={formatTimecode(playhead)}
+        onPointerDown={handleTrackPointerDown}
+        onPointerMove={handleTrackPointerMove}
+        onPointerUp={handleTrackPointerUp}
+        onPointerCancel={handleTrackPointerUp}
+        onKeyDown={handleTrackKeyDown}
+        className="relative touch-none select-none rounded-xl outline-none focus-visible:ring-2 focus-visible:ring-sky-400"
+      >
+        <div className="relative h-5 border-b border-white/10">
+          {ticks.map((tick) => (
+            <span
+              key={tick}
+              className="absolute top-0 -translate-x-1/2 text-[0.6rem] text-slate-500"
+              style={{ left: toPercent(tick) }}
+            >
+              {tick % 1 ? tick.toFixed(1) : tick}s
+            </span>
+          ))}
+        </div>
+        <div className="relative mt-2 h-14">
+          {timeline.map((entry) => (
+            <div
+              key={entry.slide.id}
+              className={clsx(
+                "absolute inset-y-0 overflow-hidden rounded-lg border px-2 py-1",
+                entry.slide.id === selectedId
+                  ? "border-sky-400 bg-sky-500/25"
+                  : "border-white/10 bg-slate-800/80",
+              )}
+              style={{
+                left: toPercent(entry.start),
+                width: toPercent(entry.end - entry.start),
+              }}
+            >
+              <p className="truncate text-xs font-semibold text-slate-100">
+                {getSlideLabel(entry.slide)}
+              </p>
+              <p className="text-[0.6rem] text-slate-400">{entry.slide.duration.toFixed(1)}s</p>
+              <span
+                onPointerDown={(event) => handleResizePointerDown(event, entry)}
+                onPointerMove={handleResizePointerMove}
+                onPointerUp={handleResizePointerUp}
+                onPointerCancel={handleResizePointerUp}
+                title="Drag to change the scene duration"
+                className="absolute inset-y-0 right-0 w-2 cursor-ew-resize bg-white/10 hover:bg-sky-400/70"
+              />
+            </div>
+          ))}
+          {timeline.map((entry, index) => {
+            const next = timeline[index + 1];
+            if (!next || entry.overlap <= 0) return null;
+            return (
+              <div
+                key={`${entry.slide.id}-transition`}
+                className="pointer-events-none absolute inset-y-0 rounded-md bg-[repeating-linear-gradient(45deg,rgba(148,163,184,0.25)_0,rgba(148,163,184,0.25)_4px,transparent_4px,transparent_8px)]"
+                style={{ left: toPercent(next.start), width: toPercent(entry.overlap) }}
+              />
+            );
+          })}
+        </div>
+        <div
+          className="pointer-events-none absolute -bottom-1 top-0 w-px bg-amber-400"
+          style={{ left: toPercent(Math.min(playhead, scale)) }}
+        >
+          <span className="absolute -left-1.5 top-0 h-3 w-3 rounded-full bg-amber-400" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from "react";
+import clsx from "clsx";
+import { BRAND_COLORS_LIST_ID } from "../core/brandKit";
+import { EASING_OPTIONS } from "../core/easing";
+import type { EasingName } from "../core/easing";
+import type { SlideTransition, TransitionDirection, TransitionType } from "../core/transitions";
+import {
+  DIRECTION_OPTIONS,
+  MIN_TRANSITION_DURATION,
+  TRANSITION_OPTIONS,
+  transitionUsesDirection,
+} from "../core/transitions";
+
+type TransitionPickerProps = {
+  transition: SlideTransition;
+  maxDuration: number;
+  onChange: (data: Partial<SlideTransition>) => void;
+};
+
+const fieldClassName =
+  "rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+export default function TransitionPicker({
+  transition,
+  maxDuration,
+  onChange,
+}: TransitionPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const label = TRANSITION_OPTIONS.find((option) => option.value === transition.type)?.label;
+  const effectiveDuration = Math.min(transition.duration, maxDuration);
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className={clsx(
+          "flex items-center gap-2 rounded-full border border-dashed px-3 py-1 text-[0.65rem] font-semibold uppercase tracking-widest transition",
+          isOpen
+            ? "border-sky-400/80 text-sky-300"
+            : "border-white/10 text-slate-400 hover:border-sky-500/60 hover:text-slate-200",
+        )}
+      >
+        <span>{label}</span>
+        {transition.type !== "none" ? <span>{effectiveDuration.toFixed(1)}s</span> : null}
+      </button>
+      {isOpen ? (
+        <div className="grid w-full grid-cols-2 gap-2 rounded-xl border border-white/5 bg-slate-900/60 p-3 text-xs text-slate-300">
+          <label className="col-span-2 flex flex-col gap-1">
+            <span>Transition</span>
+            <select
+              value={transition.type}
+              onChange={(event) => onChange({ type: event.target.value as TransitionType })}
+              className={fieldClassName}
+            >
+              {TRANSITION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {transition.type !== "none" ? (
+            <>
+              <label className="flex flex-col gap-1">
+                <span>Duration (s)</span>
+                <input
+                  type="number"
+                  min={MIN_TRANSITION_DURATION}
+                  max={maxDuration}
+                  step={0.1}
+                  value={transition.duration}
+                  onChange={(event) =>
+                    onChange({
+                      duration: Math.min(
+                        maxDuration,
+                        Math.max(MIN_TRANSITION_DURATION, Number(event.target.value) || 0),
+                      ),
+                    })
+                  }
+                  className={fieldClassName}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span>Easing</span>
+                <select
+                  value={transition.easing}
+                  onChange={(event) => onChange({ easing: event.target.value as EasingName })}
+                  className={fieldClassName}
+                >
+                  {EASING_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {transitionUsesDirection(transition.type) ? (
+                <label className="col-span-2 flex flex-col gap-1">
+                  <span>Direction</span>
+                  <select
+                    value={transition.direction}
+                    onChange={(event) =>
+                      onChange({ direction: event.target.value as TransitionDirection })
+                    }
+                    className={fieldClassName}
+                  >
+                    {DIRECTION_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+              {transition.type === "dip" ? (
+                <label className="col-span-2 flex items-center justify-between gap-2">
+                  <span>Dip color</span>
+                  <input
+                    type="color"
+                    list={BRAND_COLORS_LIST_ID}
+                    value={transition.color}
+                    onChange={(event) => onChange({ color: event.target.value })}
+                    className="h-8 w-14 cursor-pointer rounded-lg border border-white/10 bg-slate-950"
+                  />
+                </label>
+              ) : null}
+            </>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
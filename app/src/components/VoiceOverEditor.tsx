@@ -0,0 +1,89 @@
+'use client';
+
+import type { ChangeEvent } from "react";
+import { useState } from "react";
+import { resolveMediaSrc } from "../core/assets";
+import type { VoiceOver } from "../core/audio";
+import { createVoiceOver, getVoiceOverFitDuration, readAudioDuration } from "../core/audio";
+import AudioClipFields from "./AudioClipFields";
+
+type VoiceOverEditorProps = {
+  voiceOver: VoiceOver | null;
+  onChange: (voiceOver: VoiceOver | null) => void;
+  onFitDuration: (duration: number) => void;
+  /** Adds an uploaded file to the asset library and resolves to its reference. */
+  onStoreFile: (file: File) => Promise<string>;
+};
+
+const fieldClassName =
+  "w-full rounded-lg border border-white/10 bg-slate-950 px-2 py-1 text-xs text-slate-100 outline-none focus:border-sky-500/60 focus:ring-1 focus:ring-sky-500/40";
+
+export default function VoiceOverEditor({
+  voiceOver,
+  onChange,
+  onFitDuration,
+  onStoreFile,
+}: VoiceOverEditorProps) {
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setUploadError(null);
+    try {
+      const src = await onStoreFile(file);
+      const duration = await readAudioDuration(resolveMediaSrc(src));
+      onChange(createVoiceOver(file.name, src, duration));
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : "Unable to add that audio file.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <input
+        type="file"
+        accept="audio/*"
+        onChange={handleUpload}
+        className="text-xs text-slate-300"
+      />
+      {uploadError ? <p className="text-xs text-rose-300">{uploadError}</p> : null}
+      {voiceOver ? (
+        <div className="flex flex-col gap-3 rounded-xl border border-white/5 bg-slate-950/40 p-3">
+          <div className="flex items-center justify-between gap-3 text-xs">
+            <p className="truncate font-semibold text-slate-100">{voiceOver.name}</p>
+            <button onClick={() => onChange(null)} className="text-slate-400 hover:text-rose-400">
+              Remove
+            </button>
+          </div>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            <span>Starts after (s)</span>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={voiceOver.delay}
+              onChange={(event) =>
+                onChange({ ...voiceOver, delay: Math.max(0, Number(event.target.value) || 0) })
+              }
+              className={fieldClassName}
+            />
+          </label>
+          <AudioClipFields
+            clip={voiceOver}
+            onChange={(data) => onChange({ ...voiceOver, ...data })}
+          />
+          <button
+            onClick={() => onFitDuration(getVoiceOverFitDuration(voiceOver))}
+            className="rounded-full bg-slate-800 px-4 py-2 text-xs font-semibold uppercase tracking-wider text-slate-200 transition hover:bg-slate-700"
+          >
+            Fit scene to voice-over
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400">Upload narration to play during this scene.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { readFileAsDataUrl } from "./files";
+import { FONT_FILE_TYPES } from "./fonts";
+import { generateId } from "./ids";
+import type { ProjectMedia } from "./project";
+import { mapSources } from "./project";
+
+export type AssetKind = "image" | "video" | "audio" | "font";
+
+export const ASSET_KIND_OPTIONS: { value: AssetKind; label: string }[] = [
+  { value: "image", label: "Image" },
+  { value: "video", label: "Video" },
+  { value: "audio", label: "Audio" },
+  { value: "font", label: "Font" },
+];
+
+/** An uploaded file kept once in the project's library and referenced from scenes by id. */
+export type LibraryAsset = {
+  /** Content hash, so uploading the same file again reuses it. */
+  id: string;
+  projectId: string;
+  name: string;
+  kind: AssetKind;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+  blob: Blob;
+};
+
+/**
+ * Scenes, soundtracks and fonts point at library assets with `library:<id>`.
+ * Exported project files embed the files instead, so they stay self-contained.
+ */
+const LIBRARY_PREFIX = "library:";
+
+export const getAssetRef = (assetId: string) => `${LIBRARY_PREFIX}${assetId}`;
+
+export const getRefAssetId = (src: string) =>
+  src.startsWith(LIBRARY_PREFIX) ? src.slice(LIBRARY_PREFIX.length) : null;
+
+/**
+ * Object URLs of the assets loaded so far, by id. They are kept for the
+ * session so renders queued from a previous project still resolve.
+ */
+const assetUrls = new Map<string, string>();
+
+/** The URL to load `src` from: library references become object URLs, anything else is kept. */
+export const resolveMediaSrc = (src: string) => {
+  const assetId = getRefAssetId(src);
+  return assetId === null ? src : (assetUrls.get(assetId) ?? src);
+};
+
+export const registerAssets = (assets: LibraryAsset[]) => {
+  for (const asset of assets) {
+    if (!assetUrls.has(asset.id)) assetUrls.set(asset.id, URL.createObjectURL(asset.blob));
+  }
+};
+
+export const releaseAsset = (assetId: string) => {
+  const url = assetUrls.get(assetId);
+  if (!url) return;
+  URL.revokeObjectURL(url);
+  assetUrls.delete(assetId);
+};
+
+/** Every registered URL, for a render worker, which has a registry of its own. */
+export const getAssetUrls = () => Object.fromEntries(assetUrls);
+
+export const registerAssetUrls = (urls: Record<string, string>) => {
+  for (const [assetId, url] of Object.entries(urls)) assetUrls.set(assetId, url);
+};
+
+/** Null for files the library can't hold. */
+export const getAssetKind = (mimeType: string, name = ""): AssetKind | null => {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("audio/")) return "audio";
+  if (mimeType.startsWith("font/")) return "font";
+  const extension = /\.[^.]+$/.exec(name.toLowerCase())?.[0] ?? "";
+  return FONT_FILE_TYPES.split(",").includes(extension) ? "font" : null;
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/** SHA-256 of the contents; pages served without HTTPS lack it and get a random id instead. */
+const hashBlob = async (blob: Blob) => {
+  if (typeof crypto === "undefined" || !crypto.subtle) return generateId();
+  return toHex(await crypto.subtle.digest("SHA-256", await blob.arrayBuffer())).slice(0, 32);
+};
+
+export const createLibraryAsset = async (
+  projectId: string,
+  blob: Blob,
+  name: string,
+  kind = getAssetKind(blob.type, name),
+): Promise<LibraryAsset> => {
+  if (!kind) throw new Error(`${name} is not an image, video, audio or font file.`);
+  return {
+    id: await hashBlob(blob),
+    projectId,
+    name,
+    kind,
+    mimeType: blob.type || "application/octet-stream",
+    size: blob.size,
+    createdAt: Date.now(),
+    blob,
+  };
+};
+
+const getMediaSources = (media: ProjectMedia) => {
+  const sources: string[] = [];
+  mapSources(media, (src) => {
+    sources.push(src);
+    return src;
+  });
+  return sources;
+};
+
+/** How many places in the project use each library asset. */
+export const countAssetUsage = (media: ProjectMedia) => {
+  const counts = new Map<string, number>();
+  for (const src of getMediaSources(media)) {
+    const assetId = getRefAssetId(src);
+    if (assetId !== null) counts.set(assetId, (counts.get(assetId) ?? 0) + 1);
+  }
+  return counts;
+};
+
+/** Rewrites each distinct source that `match` accepts with the result of `convert`. */
+const convertSources = async (
+  media: ProjectMedia,
+  match: (src: string) => boolean,
+  convert: (src: string) => Promise<string>,
+) => {
+  const sources = [...new Set(getMediaSources(media).filter(match))];
+  if (!sources.length) return media;
+  const converted = new Map(
+    await Promise.all(sources.map(async (src) => [src, await convert(src)] as const)),
+  );
+  return mapSources(media, (src) => converted.get(src) ?? src);
+};
+
+/** Names to file inline media under, taken from whatever uses it. */
+const getInlineNames = ({ slides, audio, fonts }: ProjectMedia) => {
+  const names = new Map<string, { name: string; kind?: AssetKind }>();
+  for (const slide of slides) {
+    if (slide.backgroundType === "video" && slide.backgroundVideo) {
+      names.set(slide.backgroundValue, { name: slide.backgroundVideo.name, kind: "video" });
+    }
+    for (const layer of slide.layers) {
+      if ("src" in layer) names.set(layer.src, { name: layer.name });
+    }
+    if (slide.voiceOver) names.set(slide.voiceOver.src, { name: slide.voiceOver.name });
+  }
+  for (const track of audio.music) names.set(track.src, { name: track.name });
+  // Font files often carry no usable MIME type, so their kind comes from where they are used.
+  for (const font of fonts) names.set(font.src, { name: font.name, kind: "font" });
+  return names;
+};
+
+/**
+ * Moves media held inline as data URLs (imported project files, older saves,
+ * imported scenes) into the library. Returns the rewritten media and the new
+ * assets; files the library can't hold stay inline.
+ */
+export const storeInlineMedia = async (
+  projectId: string,
+  media: ProjectMedia,
+  save: (asset: LibraryAsset) => Promise<void>,
+) => {
+  const names = getInlineNames(media);
+  const assets: LibraryAsset[] = [];
+  const stored = await convertSources(
+    media,
+    (src) => src.startsWith("data:"),
+    async (src) => {
+      const blob = await (await fetch(src)).blob();
+      const known = names.get(src);
+      const kind = known?.kind ?? getAssetKind(blob.type);
+      if (!kind) return src;
+      const label = ASSET_KIND_OPTIONS.find((option) => option.value === kind)?.label ?? "";
+      const asset = await createLibraryAsset(projectId, blob, known?.name ?? label, kind);
+      await save(asset);
+      assets.push(asset);
+      return getAssetRef(asset.id);
+    },
+  );
+  return { media: stored, assets };
+};
+
+/** Swaps library references for data URLs so the project can be written to a file. */
+export const inlineLibraryMedia = (media: ProjectMedia, assets: LibraryAsset[]) => {
+  const blobs = new Map(assets.map((asset) => [getAssetRef(asset.id), asset.blob]));
+  return convertSources(
+    media,
+    (src) => blobs.has(src),
+    (src) => readFileAsDataUrl(blobs.get(src) as Blob),
+  );
+};
@@ -0,0 +1,90 @@
+import { generateId } from "./ids";
+
+/**
+ * An uploaded audio file plus how much of it to play. Trim points are in
+ * seconds of the source file; fades are applied inside the trimmed range.
+ */
+export type AudioClip = {
+  id: string;
+  name: string;
+  src: string;
+  sourceDuration: number;
+  trimStart: number;
+  trimEnd: number;
+  volume: number;
+  fadeIn: number;
+  fadeOut: number;
+};
+
+/** Music bed that starts with the video and runs until the video ends. */
+export type MusicTrack = AudioClip & {
+  loop: boolean;
+};
+
+/** Narration for a single scene, starting `delay` seconds into the scene. */
+export type VoiceOver = AudioClip & {
+  delay: number;
+};
+
+export type AudioSettings = {
+  music: MusicTrack[];
+  /** Music gain multiplier while a voice-over is playing (1 disables ducking). */
+  duckLevel: number;
+  /** Seconds taken to duck the music down before narration and back up after it. */
+  duckFade: number;
+};
+
+export const MAX_CLIP_VOLUME = 2;
+
+/** Silence kept after a voice-over when fitting a scene to it. */
+export const VOICE_OVER_TAIL = 0.5;
+
+export const createAudioSettings = (): AudioSettings => ({
+  music: [],
+  duckLevel: 0.3,
+  duckFade: 0.4,
+});
+
+const createClip = (name: string, src: string, sourceDuration: number): AudioClip => ({
+  id: generateId(),
+  name,
+  src,
+  sourceDuration,
+  trimStart: 0,
+  trimEnd: sourceDuration,
+  volume: 1,
+  fadeIn: 0,
+  fadeOut: 0,
+});
+
+export const createMusicTrack = (
+  name: string,
+  src: string,
+  sourceDuration: number,
+): MusicTrack => ({
+  ...createClip(name, src, sourceDuration),
+  volume: 0.6,
+  fadeIn: 1,
+  fadeOut: 2,
+  loop: true,
+});
+
+export const createVoiceOver = (name: string, src: string, sourceDuration: number): VoiceOver => ({
+  ...createClip(name, src, sourceDuration),
+  delay: 0.3,
+});
+
+export const getClipLength = (clip: AudioClip) => Math.max(0, clip.trimEnd - clip.trimStart);
+
+/** Scene duration that fits the voice-over from its delay through a short tail. */
+export const getVoiceOverFitDuration = (voiceOver: VoiceOver) =>
+  Math.round((voiceOver.delay + getClipLength(voiceOver) + VOICE_OVER_TAIL) * 10) / 10;
+
+export const readAudioDuration = (src: string) =>
+  new Promise<number>((resolve, reject) => {
+    const audio = new Audio();
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () => resolve(Number.isFinite(audio.duration) ? audio.duration : 0);
+    audio.onerror = () => reject(new Error("Unable to read this audio file."));
+    audio.src = src;
+  });
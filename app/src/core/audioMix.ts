@@ -0,0 +1,226 @@
+import { resolveMediaSrc } from "./assets";
+import type { AudioClip, AudioSettings, MusicTrack, VoiceOver } from "./audio";
+import { getClipLength } from "./audio";
+import type { TimelineEntry } from "./transitions";
+import { getTimelineDuration } from "./transitions";
+import type { BackgroundVideo } from "./video";
+import { getVideoClipLength } from "./video";
+
+export const MIX_SAMPLE_RATE = 48_000;
+
+const bufferCache = new Map<string, Promise<AudioBuffer>>();
+
+const decodeClip = (context: BaseAudioContext, src: string) => {
+  const url = resolveMediaSrc(src);
+  let cached = bufferCache.get(url);
+  if (!cached) {
+    cached = fetch(url)
+      .then((response) => response.arrayBuffer())
+      .then((data) => context.decodeAudioData(data));
+    cached.catch(() => bufferCache.delete(url));
+    bufferCache.set(url, cached);
+  }
+  return cached;
+};
+
+/** Decodes `src` as mixing will, so a broken file shows up before an export fails on it. */
+export const decodeAudioClip = async (src: string) => {
+  await decodeClip(new OfflineAudioContext(2, 1, MIX_SAMPLE_RATE), src);
+};
+
+type Interval = { start: number; end: number };
+
+/** Merges intervals that are closer than `gap` seconds apart. */
+const mergeIntervals = (intervals: Interval[], gap: number) => {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start - gap <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+};
+
+/** Applies fade-in/out to a clip gain that plays from `start` for `length` seconds. */
+const applyClipEnvelope = (gain: AudioParam, clip: AudioClip, start: number, length: number) => {
+  const fadeIn = Math.min(clip.fadeIn, length / 2);
+  const fadeOut = Math.min(clip.fadeOut, length / 2);
+  gain.setValueAtTime(fadeIn > 0 ? 0 : clip.volume, start);
+  if (fadeIn > 0) gain.linearRampToValueAtTime(clip.volume, start + fadeIn);
+  if (fadeOut > 0) {
+    gain.setValueAtTime(clip.volume, start + length - fadeOut);
+    gain.linearRampToValueAtTime(0, start + length);
+  }
+};
+
+const scheduleMusic = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  track: MusicTrack,
+  buffer: AudioBuffer,
+  totalDuration: number,
+) => {
+  const clipLength = getClipLength(track);
+  if (clipLength <= 0) return;
+  const length = track.loop ? totalDuration : Math.min(clipLength, totalDuration);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  if (track.loop) {
+    source.loop = true;
+    source.loopStart = track.trimStart;
+    source.loopEnd = track.trimEnd;
+  }
+  const gain = context.createGain();
+  applyClipEnvelope(gain.gain, track, 0, length);
+  source.connect(gain).connect(destination);
+  source.start(0, track.trimStart, track.loop ? undefined : length);
+  source.stop(length);
+};
+
+const scheduleVoiceOver = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  voiceOver: VoiceOver,
+  buffer: AudioBuffer,
+  start: number,
+) => {
+  const length = getClipLength(voiceOver);
+  if (length <= 0) return;
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  const gain = context.createGain();
+  applyClipEnvelope(gain.gain, voiceOver, start, length);
+  source.connect(gain).connect(destination);
+  source.start(start, voiceOver.trimStart, length);
+};
+
+/** A background clip's own sound, looping or stopping with the picture for `length` seconds. */
+const scheduleVideoAudio = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  video: BackgroundVideo,
+  buffer: AudioBuffer,
+  start: number,
+  length: number,
+) => {
+  const clipLength = getVideoClipLength(video);
+  if (clipLength <= 0 || length <= 0) return;
+  const loop = video.end === "loop";
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  if (loop) {
+    source.loop = true;
+    source.loopStart = video.trimStart;
+    source.loopEnd = video.trimEnd;
+  }
+  const gain = context.createGain();
+  gain.gain.value = video.volume;
+  source.connect(gain).connect(destination);
+  source.start(start, video.trimStart, loop ? undefined : Math.min(clipLength, length));
+  source.stop(start + length);
+};
+
+const scheduleDucking = (
+  gain: AudioParam,
+  narration: Interval[],
+  settings: AudioSettings,
+  totalDuration: number,
+) => {
+  gain.setValueAtTime(1, 0);
+  if (settings.duckLevel >= 1) return;
+  const fade = Math.max(0.01, settings.duckFade);
+  for (const interval of mergeIntervals(narration, fade * 2)) {
+    const duckStart = Math.max(0, interval.start - fade);
+    gain.setValueAtTime(1, duckStart);
+    gain.linearRampToValueAtTime(settings.duckLevel, interval.start);
+    gain.setValueAtTime(settings.duckLevel, interval.end);
+    gain.linearRampToValueAtTime(1, Math.min(totalDuration, interval.end + fade));
+  }
+};
+
+/**
+ * Renders music beds, per-scene voice-overs and the sound of unmuted video
+ * backgrounds into a single buffer covering the whole timeline, so preview
+ * playback and export share one mix.
+ * Returns null when the project has no audio.
+ */
+export const renderAudioMix = async (
+  timeline: TimelineEntry[],
+  settings: AudioSettings,
+): Promise<AudioBuffer | null> => {
+  const totalDuration = getTimelineDuration(timeline);
+  const voiceOvers = timeline.flatMap((entry) =>
+    entry.slide.voiceOver ? [{ voiceOver: entry.slide.voiceOver, start: entry.start }] : [],
+  );
+  const videoClips = timeline.flatMap((entry) => {
+    const { slide } = entry;
+    return slide.backgroundType === "video" && slide.backgroundVideo && !slide.backgroundVideo.muted
+      ? [{ src: slide.backgroundValue, video: slide.backgroundVideo, entry }]
+      : [];
+  });
+  if (totalDuration <= 0 || (!settings.music.length && !voiceOvers.length && !videoClips.length)) {
+    return null;
+  }
+  if (typeof OfflineAudioContext === "undefined") {
+    throw new Error("This browser does not support audio mixing.");
+  }
+
+  const context = new OfflineAudioContext(
+    2,
+    Math.ceil(totalDuration * MIX_SAMPLE_RATE),
+    MIX_SAMPLE_RATE,
+  );
+  const musicBus = context.createGain();
+  musicBus.connect(context.destination);
+
+  const narration: Interval[] = [];
+  await Promise.all([
+    ...settings.music.map(async (track) => {
+      const buffer = await decodeClip(context, track.src);
+      scheduleMusic(context, musicBus, track, buffer, totalDuration);
+    }),
+    ...voiceOvers.map(async ({ voiceOver, start }) => {
+      const buffer = await decodeClip(context, voiceOver.src);
+      const clipStart = start + voiceOver.delay;
+      narration.push({ start: clipStart, end: clipStart + getClipLength(voiceOver) });
+      scheduleVoiceOver(context, context.destination, voiceOver, buffer, clipStart);
+    }),
+    ...videoClips.map(async ({ src, video, entry }) => {
+      // Clips without a sound track fail to decode and simply add nothing.
+      const buffer = await decodeClip(context, src).catch(() => null);
+      if (!buffer) return;
+      scheduleVideoAudio(
+        context,
+        context.destination,
+        video,
+        buffer,
+        entry.start,
+        entry.end - entry.start,
+      );
+    }),
+  ]);
+  scheduleDucking(musicBus.gain, narration, settings, totalDuration);
+
+  return context.startRendering();
+};
+
+/**
+ * Plays a rendered mix from `offset` seconds. The returned source can be
+ * stopped to end playback early.
+ */
+export const playAudioMix = (
+  context: AudioContext,
+  buffer: AudioBuffer,
+  destination: AudioNode = context.destination,
+  offset = 0,
+) => {
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(destination);
+  source.start(0, offset);
+  return source;
+};
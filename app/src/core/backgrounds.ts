@@ -0,0 +1,161 @@
+import { clamp } from "./easing";
+
+export type BackgroundType = "color" | "gradient" | "image" | "video";
+
+export type GradientKind = "linear" | "radial";
+
+export type GradientStop = {
+  color: string;
+  /** 0 at the start of the gradient, 1 at the end. */
+  position: number;
+};
+
+export type BackgroundGradient = {
+  kind: GradientKind;
+  /** Direction of a linear gradient in degrees, CSS style: 0 points up, 90 points right. */
+  angle: number;
+  stops: GradientStop[];
+  /** Times the colours cycle along the gradient and back over the scene; 0 keeps them still. */
+  shift: number;
+};
+
+/** How an image or video background is scaled into the frame. */
+export type MediaFit = "cover" | "contain" | "fill" | "tile";
+
+/** Fit and colour adjustments shared by image and video backgrounds. */
+export type MediaBackdrop = {
+  fit: MediaFit;
+  /** 1 leaves the picture unchanged; 0 is black. */
+  brightness: number;
+  /** Blur radius in pixels at the 720p reference size. */
+  blur: number;
+  tintColor: string;
+  /** 0 turns the tint off. */
+  tintOpacity: number;
+};
+
+export const BACKGROUND_TYPE_OPTIONS: { value: BackgroundType; label: string }[] = [
+  { value: "color", label: "Solid" },
+  { value: "gradient", label: "Gradient" },
+  { value: "image", label: "Image" },
+  { value: "video", label: "Video" },
+];
+
+export const GRADIENT_KIND_OPTIONS: { value: GradientKind; label: string }[] = [
+  { value: "linear", label: "Linear" },
+  { value: "radial", label: "Radial" },
+];
+
+export const MEDIA_FIT_OPTIONS: { value: MediaFit; label: string }[] = [
+  { value: "cover", label: "Cover" },
+  { value: "contain", label: "Contain, blurred fill" },
+  { value: "fill", label: "Stretch to fill" },
+  { value: "tile", label: "Tile" },
+];
+
+export const MIN_GRADIENT_STOPS = 2;
+export const MAX_GRADIENT_STOPS = 6;
+export const MAX_GRADIENT_SHIFT = 4;
+export const MAX_BACKDROP_BLUR = 40;
+export const MAX_BACKDROP_BRIGHTNESS = 2;
+
+export const createGradient = (colors: string[] = ["#0f172a", "#312e81"]): BackgroundGradient => ({
+  kind: "linear",
+  angle: 135,
+  stops: colors.map((color, index) => ({
+    color,
+    position: colors.length > 1 ? index / (colors.length - 1) : 0,
+  })),
+  shift: 0,
+});
+
+export const createMediaBackdrop = (data: Partial<MediaBackdrop> = {}): MediaBackdrop => ({
+  fit: "cover",
+  brightness: 1,
+  blur: 0,
+  tintColor: "#000000",
+  tintOpacity: 0,
+  ...data,
+});
+
+/** Splits a `#rgb` or `#rrggbb` colour into its red, green and blue channels. */
+export const parseHexColor = (hex: string): [number, number, number] => {
+  const digits = hex.replace("#", "");
+  const full = digits.length === 3 ? [...digits].map((digit) => digit + digit).join("") : digits;
+  const value = Number.parseInt(full, 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const mixColors = (from: string, to: string, amount: number) => {
+  const start = parseHexColor(from);
+  const end = parseHexColor(to);
+  const channels = start.map((channel, index) =>
+    Math.round(channel + (end[index] - channel) * amount),
+  );
+  return `rgb(${channels.join(", ")})`;
+};
+
+export const sortGradientStops = (stops: GradientStop[]) =>
+  [...stops].sort((a, b) => a.position - b.position);
+
+/** Colour of the gradient at `position`, blending between the stops either side. */
+const sampleGradient = (stops: GradientStop[], position: number) => {
+  const after = stops.findIndex((stop) => stop.position >= position);
+  if (after === -1) return stops[stops.length - 1].color;
+  if (after === 0) return stops[0].color;
+  const from = stops[after - 1];
+  const to = stops[after];
+  const span = to.position - from.position;
+  return mixColors(from.color, to.color, span > 0 ? (position - from.position) / span : 0);
+};
+
+/**
+ * Stops to paint `progress` of the way through a scene. A shifting gradient
+ * scrolls along the stops followed by their mirror image, so the colours wrap
+ * round without a hard seam.
+ */
+export const getGradientStops = (gradient: BackgroundGradient, progress: number) => {
+  const stops = sortGradientStops(gradient.stops);
+  const offset = (((gradient.shift * progress * 2) % 2) + 2) % 2;
+  if (offset === 0 || stops.length < 2) return stops;
+  const loop = [
+    ...stops,
+    ...[...stops].reverse().map((stop) => ({ ...stop, position: 2 - stop.position })),
+  ];
+  const sampleLoop = (position: number) => {
+    const wrapped = position % 2;
+    return wrapped <= 1 ? sampleGradient(stops, wrapped) : sampleGradient(stops, 2 - wrapped);
+  };
+  const inside = loop
+    .map((stop) => ({ ...stop, position: (stop.position - offset + 2) % 2 }))
+    .filter((stop) => stop.position > 0 && stop.position < 1);
+  return sortGradientStops([
+    { color: sampleLoop(offset), position: 0 },
+    ...inside,
+    { color: sampleLoop(offset + 1), position: 1 },
+  ]);
+};
+
+/** Start and end points of a linear gradient at `angle` that spans the whole frame. */
+export const getLinearGradientLine = (angle: number, width: number, height: number) => {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  return {
+    x0: width / 2 - dx * halfLength,
+    y0: height / 2 - dy * halfLength,
+    x1: width / 2 + dx * halfLength,
+    y1: height / 2 + dy * halfLength,
+  };
+};
+
+/** CSS equivalent of a gradient at rest, for swatches and previews. */
+export const toCssGradient = (gradient: BackgroundGradient) => {
+  const stops = sortGradientStops(gradient.stops)
+    .map((stop) => `${stop.color} ${Math.round(clamp(stop.position, 0, 1) * 100)}%`)
+    .join(", ");
+  return gradient.kind === "radial"
+    ? `radial-gradient(circle, ${stops})`
+    : `linear-gradient(${gradient.angle}deg, ${stops})`;
+};
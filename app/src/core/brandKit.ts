@@ -0,0 +1,215 @@
+import type { CustomFont } from "./fonts";
+import { getFontStack } from "./fonts";
+import { generateId } from "./ids";
+import { ProjectFileError, readFont, readSlide } from "./project";
+import type { Slide } from "./slides";
+import type { Theme } from "./themes";
+import { resolveSlideStyle } from "./themes";
+
+export const BRAND_KIT_FORMAT = "storyforge-brand-kit";
+export const BRAND_KIT_VERSION = 1;
+
+/** The id of the `<datalist>` colour inputs use to offer brand colours as swatches. */
+export const BRAND_COLORS_LIST_ID = "brand-colors";
+
+export type LogoCorner = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+export type BrandLogo = {
+  /** Data URL, so the logo works in every project. */
+  src: string;
+  corner: LogoCorner;
+  /** 0–1. */
+  opacity: number;
+  /** Distance from the frame's edges, as a fraction of its height. */
+  margin: number;
+  /** Logo height as a fraction of the frame's height. */
+  size: number;
+};
+
+/**
+ * The team's logo, bumper scenes, colours and fonts, shared by every project
+ * in this browser. Media is kept as data URLs because asset libraries belong
+ * to a single project.
+ */
+export type BrandKit = {
+  logo: BrandLogo | null;
+  /** Scenes played before the project's own on export. */
+  intro: Slide[];
+  /** Scenes played after the project's own on export, e.g. a call to action. */
+  outro: Slide[];
+  colors: string[];
+  fonts: CustomFont[];
+  /** Locked kits can't be edited or replaced until they are unlocked. */
+  isLocked: boolean;
+};
+
+export type BrandKitFile = BrandKit & {
+  format: typeof BRAND_KIT_FORMAT;
+  version: number;
+};
+
+export const LOGO_CORNER_OPTIONS: { value: LogoCorner; label: string }[] = [
+  { value: "top-left", label: "Top Left" },
+  { value: "top-right", label: "Top Right" },
+  { value: "bottom-left", label: "Bottom Left" },
+  { value: "bottom-right", label: "Bottom Right" },
+];
+
+/** Logos may not grow past this share of the frame's width, however tall they are set. */
+const MAX_LOGO_WIDTH = 0.4;
+
+export const createBrandKit = (): BrandKit => ({
+  logo: null,
+  intro: [],
+  outro: [],
+  colors: [],
+  fonts: [],
+  isLocked: false,
+});
+
+export const createBrandLogo = (src: string): BrandLogo => ({
+  src,
+  corner: "top-right",
+  opacity: 0.85,
+  margin: 0.04,
+  size: 0.1,
+});
+
+/** Where the logo sits in a frame, keeping the picture's aspect ratio. */
+export const getLogoBox = (
+  logo: BrandLogo,
+  frameWidth: number,
+  frameHeight: number,
+  imageWidth: number,
+  imageHeight: number,
+) => {
+  const aspect = imageWidth > 0 && imageHeight > 0 ? imageWidth / imageHeight : 1;
+  let height = frameHeight * logo.size;
+  let width = height * aspect;
+  if (width > frameWidth * MAX_LOGO_WIDTH) {
+    width = frameWidth * MAX_LOGO_WIDTH;
+    height = width / aspect;
+  }
+  const margin = frameHeight * logo.margin;
+  return {
+    x: logo.corner.endsWith("left") ? margin : frameWidth - margin - width,
+    y: logo.corner.startsWith("top") ? margin : frameHeight - margin - height,
+    width,
+    height,
+  };
+};
+
+/**
+ * Copies of `slides` to keep as bumpers: new ids, and every theme setting
+ * written out so they look the same whichever theme a project uses.
+ */
+export const toBumperSlides = (slides: Slide[], theme: Theme): Slide[] =>
+  slides.map((slide) => ({
+    ...slide,
+    id: generateId(),
+    themeOverrides: resolveSlideStyle(theme, slide.themeOverrides),
+  }));
+
+/** The scenes an export plays: the kit's intro, the project's scenes, then its outro. */
+export const addBumpers = (slides: Slide[], kit: BrandKit) => [
+  ...kit.intro,
+  ...slides,
+  ...kit.outro,
+];
+
+/** `fonts` followed by those in `added` it doesn't already have. */
+export const mergeFonts = (fonts: CustomFont[], added: CustomFont[]) => {
+  const known = new Set(fonts.map((font) => font.id));
+  return [...fonts, ...added.filter((font) => !known.has(font.id))];
+};
+
+/** The uploaded fonts `slides` are set in, so bumpers carry the fonts they need. */
+export const getSlideFonts = (slides: Slide[], fonts: CustomFont[]) => {
+  const stacks = new Set(
+    slides.flatMap((slide) => [
+      slide.themeOverrides.fontFamily,
+      ...slide.layers.map((layer) => (layer.kind === "text" ? layer.fontFamily : null)),
+    ]),
+  );
+  return fonts.filter((font) => stacks.has(getFontStack(font)));
+};
+
+export const toBrandKitFile = (kit: BrandKit): BrandKitFile => ({
+  format: BRAND_KIT_FORMAT,
+  version: BRAND_KIT_VERSION,
+  ...kit,
+});
+
+export const serializeBrandKit = (kit: BrandKit) => JSON.stringify(toBrandKitFile(kit), null, 2);
+
+const LOGO_CORNERS = LOGO_CORNER_OPTIONS.map((option) => option.value);
+
+const readFraction = (value: unknown, path: string) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ProjectFileError("Expected a number", path);
+  }
+  return Math.min(1, Math.max(0, value));
+};
+
+const readLogo = (value: unknown): BrandLogo | null => {
+  if (value == null) return null;
+  if (typeof value !== "object") throw new ProjectFileError("Expected an object", "logo");
+  const logo = value as Record<string, unknown>;
+  if (typeof logo.src !== "string" || !logo.src.startsWith("data:")) {
+    throw new ProjectFileError("The logo must be embedded as a data URL", "logo.src");
+  }
+  if (!LOGO_CORNERS.includes(logo.corner as LogoCorner)) {
+    throw new ProjectFileError(`Expected one of ${LOGO_CORNERS.join(", ")}`, "logo.corner");
+  }
+  return {
+    src: logo.src,
+    corner: logo.corner as LogoCorner,
+    opacity: readFraction(logo.opacity, "logo.opacity"),
+    margin: readFraction(logo.margin, "logo.margin"),
+    size: readFraction(logo.size, "logo.size"),
+  };
+};
+
+const readList = <T>(value: unknown, path: string, read: (item: unknown, path: string) => T) => {
+  if (!Array.isArray(value)) throw new ProjectFileError("Expected a list", path);
+  return value.map((item, index) => read(item, `${path}[${index}]`));
+};
+
+const readColor = (value: unknown, path: string) => {
+  if (typeof value !== "string" || !/^#[0-9a-f]{6}$/i.test(value)) {
+    throw new ProjectFileError("Expected a #rrggbb colour", path);
+  }
+  return value.toLowerCase();
+};
+
+/** Validates a decoded kit file. Throws ProjectFileError describing the first problem found. */
+export const readBrandKitFile = (value: unknown): BrandKit => {
+  const file = (value ?? {}) as Record<string, unknown>;
+  if (file.format !== BRAND_KIT_FORMAT) {
+    throw new ProjectFileError("This file is not a Storyforge brand kit.");
+  }
+  if (typeof file.version !== "number") throw new ProjectFileError("Expected a number", "version");
+  if (file.version > BRAND_KIT_VERSION) {
+    throw new ProjectFileError(
+      `This brand kit was saved by a newer version of Storyforge (format ${file.version}).`,
+    );
+  }
+  return {
+    logo: readLogo(file.logo),
+    intro: readList(file.intro, "intro", readSlide),
+    outro: readList(file.outro, "outro", readSlide),
+    colors: readList(file.colors, "colors", readColor),
+    fonts: readList(file.fonts, "fonts", readFont),
+    isLocked: file.isLocked === true,
+  };
+};
+
+export const parseBrandKitFile = (text: string) => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("This file is not valid JSON.");
+  }
+  return readBrandKitFile(value);
+};
@@ -0,0 +1,273 @@
+import { getLayerWindow } from "./layers";
+import type { Slide } from "./slides";
+import {
+  MIN_SLIDE_DURATION,
+  createSlide,
+  createSubtitleLayer,
+  createTitleLayer,
+  getSlideLabel,
+} from "./slides";
+import { toPlainText } from "./textLayout";
+import type { TimelineEntry } from "./transitions";
+
+/** One caption: `text` is shown from `start` to `end` seconds into the video. */
+export type CaptionCue = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+/** Whether captions follow whole scenes or each text layer's own window. */
+export type CaptionTiming = "scene" | "layer";
+
+export type CaptionFormat = "srt" | "vtt";
+
+export const CAPTION_TIMING_OPTIONS: { value: CaptionTiming; label: string }[] = [
+  { value: "scene", label: "One caption per scene" },
+  { value: "layer", label: "One caption per text layer" },
+];
+
+export const CAPTION_FILE_TYPES = ".srt,.vtt,.txt,text/plain,text/vtt";
+
+const CAPTION_MIME_TYPES: Record<CaptionFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+};
+
+/** Reading pace used to time plain scripts, which carry no timestamps. */
+const WORDS_PER_SECOND = 2.5;
+const CJK_CHARACTERS_PER_SECOND = 6;
+const MIN_SCRIPT_CUE = 2;
+
+const CJK_CHARACTER = /[\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF]/g;
+
+/**
+ * Builds the caption cues for a timeline, skipping scenes and layers with no
+ * text. With `includeDescriptions`, each scene's alt text is added in square
+ * brackets when the scene starts, as audio-description tracks mark it.
+ */
+export const buildCaptionCues = (
+  timeline: TimelineEntry[],
+  timing: CaptionTiming,
+  includeDescriptions = false,
+) => {
+  const cues: CaptionCue[] = [];
+  for (const entry of timeline) {
+    const textLayers = entry.slide.layers.flatMap((layer) =>
+      layer.kind === "text" && toPlainText(layer.text).trim() ? [layer] : [],
+    );
+    const altText = includeDescriptions ? entry.slide.altText.trim() : "";
+    const description = altText ? `[${altText}]` : null;
+    // The next caption takes over as soon as the transition into its scene begins.
+    const sceneEnd = entry.end - entry.overlap;
+    if (timing === "scene") {
+      const lines = textLayers.map((layer) => toPlainText(layer.text).trim());
+      if (description) lines.unshift(description);
+      if (!lines.length) continue;
+      cues.push({ start: entry.start, end: sceneEnd, text: lines.join("\n") });
+      continue;
+    }
+    const layerCues: CaptionCue[] = [];
+    for (const layer of textLayers) {
+      const window = getLayerWindow(layer, entry.slide.duration);
+      if (window.end <= window.start) continue;
+      layerCues.push({
+        start: entry.start + window.start,
+        end: entry.start + window.end,
+        text: toPlainText(layer.text).trim(),
+      });
+    }
+    layerCues.sort((a, b) => a.start - b.start);
+    const first = layerCues[0];
+    if (description && first && first.start <= entry.start) {
+      first.text = `${description}\n${first.text}`;
+    } else if (description) {
+      // Shown on its own until the scene's first text appears.
+      cues.push({ start: entry.start, end: first?.start ?? sceneEnd, text: description });
+    }
+    cues.push(...layerCues);
+  }
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+/** A text alternative for the frame at `time`: the scene's alt text, or its label. */
+export const describeFrame = (timeline: TimelineEntry[], time: number) => {
+  const index = Math.max(
+    0,
+    timeline.findLastIndex((entry) => entry.start <= time),
+  );
+  const entry = timeline[index];
+  if (!entry) return "No scenes";
+  const description = entry.slide.altText.trim() || getSlideLabel(entry.slide);
+  return `Scene ${index + 1} of ${timeline.length}: ${description}`;
+};
+
+const formatTimestamp = (seconds: number, separator: "," | ".") => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor(totalMs / 60_000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+/** Cue text can't contain blank lines: they end the cue in both formats. */
+const toCueText = (text: string) => text.replace(/\n\s*\n/g, "\n");
+
+export const formatCaptions = (cues: CaptionCue[], format: CaptionFormat) => {
+  const separator = format === "srt" ? "," : ".";
+  const blocks = cues.map((cue, index) => {
+    const times = `${formatTimestamp(cue.start, separator)} --> ${formatTimestamp(cue.end, separator)}`;
+    const text = toCueText(cue.text);
+    return format === "srt" ? `${index + 1}\n${times}\n${text}` : `${times}\n${text}`;
+  });
+  const body = blocks.join("\n\n");
+  return format === "vtt" ? `WEBVTT\n\n${body}\n` : `${body}\n`;
+};
+
+export const createCaptionBlob = (cues: CaptionCue[], format: CaptionFormat) =>
+  new Blob([formatCaptions(cues, format)], { type: `${CAPTION_MIME_TYPES[format]};charset=utf-8` });
+
+/** Reads `01:02:03,456`, `01:02:03.456` or `02:03.456` as seconds. */
+const parseTimestamp = (value: string) => {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/.exec(value.trim());
+  if (!match) return null;
+  const [, hours = "0", minutes, seconds, fraction = "0"] = match;
+  return (
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(fraction.padEnd(3, "0")) / 1000
+  );
+};
+
+/** Keeps bold cue tags as bold markup and drops every other tag. */
+const cleanCueText = (lines: string[]) =>
+  lines
+    .join("\n")
+    .replace(/<\/?b>/gi, "**")
+    .replace(/<[^>]+>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .trim();
+
+/** Parses SRT or WebVTT cues; returns an empty list if the text has no timed cues. */
+const parseTimedCaptions = (source: string) => {
+  const cues: CaptionCue[] = [];
+  for (const block of source.split(/\n\s*\n/)) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) continue;
+    const [from, rest = ""] = lines[timingIndex].split("-->");
+    // WebVTT puts cue settings after the end time.
+    const start = parseTimestamp(from);
+    const end = parseTimestamp(rest.trim().split(/\s+/)[0] ?? "");
+    const text = cleanCueText(lines.slice(timingIndex + 1));
+    if (start === null || end === null || end <= start || !text) continue;
+    cues.push({ start, end, text });
+  }
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+const estimateReadingTime = (text: string) => {
+  const cjkCharacters = text.match(CJK_CHARACTER)?.length ?? 0;
+  const words = text.replace(CJK_CHARACTER, " ").split(/\s+/).filter(Boolean).length;
+  return Math.max(
+    MIN_SCRIPT_CUE,
+    words / WORDS_PER_SECOND + cjkCharacters / CJK_CHARACTERS_PER_SECOND,
+  );
+};
+
+/**
+ * Times a plain script: one cue per paragraph, or per line when the script
+ * has no blank lines, each lasting as long as it takes to read.
+ */
+const parseScript = (source: string) => {
+  const trimmed = source.trim();
+  if (!trimmed) return [];
+  const parts = /\n\s*\n/.test(trimmed) ? trimmed.split(/\n\s*\n/) : trimmed.split("\n");
+  const cues: CaptionCue[] = [];
+  let time = 0;
+  for (const part of parts) {
+    const text = part.trim();
+    if (!text) continue;
+    const duration = estimateReadingTime(text);
+    cues.push({ start: time, end: time + duration, text });
+    time += duration;
+  }
+  return cues;
+};
+
+/** Reads an SRT or WebVTT file, or falls back to treating the text as a plain script. */
+export const parseCaptions = (source: string) => {
+  const text = source.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  return text.includes("-->") ? parseTimedCaptions(text) : parseScript(text);
+};
+
+/** Cues sharing a start time, as when two people speak at once, joined into one. */
+const mergeSimultaneousCues = (cues: CaptionCue[]) =>
+  cues.reduce<CaptionCue[]>((merged, cue) => {
+    const last = merged.at(-1);
+    if (last?.start === cue.start) {
+      merged[merged.length - 1] = {
+        start: last.start,
+        end: Math.max(last.end, cue.end),
+        text: `${last.text}\n${cue.text}`,
+      };
+    } else {
+      merged.push(cue);
+    }
+    return merged;
+  }, []);
+
+/**
+ * Turns cues into scenes with hard cuts, so each scene starts on its cue.
+ * The first line becomes the title and the rest the subtitle; a first line
+ * in square brackets, as exported with scene descriptions, becomes the alt
+ * text. A pause before the next cue stays on screen with the current one; a
+ * pause before the first cue becomes an empty opening scene. Cues that start
+ * together share a scene, and a scene stretched to the minimum length is made
+ * up for by the next, so later scenes still start on their cues.
+ */
+export const createSlidesFromCues = (
+  cues: CaptionCue[],
+  createScene: (index: number, data: Partial<Omit<Slide, "id">>) => Slide = (_, data) =>
+    createSlide(data),
+): Slide[] => {
+  const slides: Slide[] = [];
+  const merged = mergeSimultaneousCues(cues);
+  let time = 0;
+  const hardCut = (slide: Slide): Slide => ({
+    ...slide,
+    transition: { ...slide.transition, type: "none" },
+  });
+  if (merged.length && merged[0].start >= MIN_SLIDE_DURATION) {
+    time = merged[0].start;
+    slides.push(hardCut(createScene(0, { duration: time, layers: [] })));
+  }
+  merged.forEach((cue, index) => {
+    const next = merged[index + 1];
+    const end = next ? next.start : cue.end;
+    const duration = Math.max(MIN_SLIDE_DURATION, end - time);
+    time += duration;
+    const lines = cue.text.split("\n");
+    const description = lines[0].trim().match(/^\[(.*)\]$/);
+    if (description) lines.shift();
+    const [title = "", ...rest] = lines;
+    const subtitle = rest.join("\n").trim();
+    slides.push(
+      hardCut(
+        createScene(slides.length, {
+          duration,
+          layers: subtitle
+            ? [createTitleLayer(title.trim()), createSubtitleLayer(subtitle)]
+            : [createTitleLayer(title.trim())],
+          altText: description ? description[1].trim() : "",
+        }),
+      ),
+    );
+  });
+  return slides;
+};
@@ -0,0 +1,96 @@
+import { parseHexColor } from "./backgrounds";
+import type { Slide } from "./slides";
+import { toPlainText } from "./textLayout";
+import type { ThemeStyle } from "./themes";
+
+/** WCAG 2 level AA minimum contrast for normal text. */
+export const MIN_TEXT_CONTRAST = 4.5;
+/** The AA minimum for large text: 18pt, or 14pt bold. */
+export const MIN_LARGE_TEXT_CONTRAST = 3;
+
+/** 18pt and 14pt in CSS pixels, applied to font sizes at the 720p reference size. */
+const LARGE_TEXT_SIZE = 24;
+const LARGE_BOLD_TEXT_SIZE = 18.66;
+const BOLD_WEIGHT = 700;
+
+export type ContrastCheck = {
+  ratio: number;
+  /** The ratio WCAG AA asks for at the title's size. */
+  required: number;
+  textColor: string;
+  /** The backdrop colour the title contrasts least with. */
+  backgroundColor: string;
+};
+
+const toLinear = (channel: number) => {
+  const value = channel / 255;
+  return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+};
+
+/** Relative luminance of a hex colour, as WCAG 2 defines it. */
+export const getRelativeLuminance = (hex: string) => {
+  const [red, green, blue] = parseHexColor(hex).map(toLinear);
+  return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+};
+
+/** Contrast between two hex colours, from 1 (none) to 21 (black on white). */
+export const getContrastRatio = (first: string, second: string) => {
+  const [lighter, darker] = [getRelativeLuminance(first), getRelativeLuminance(second)].sort(
+    (a, b) => b - a,
+  );
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+const blendColors = (base: string, over: string, amount: number) => {
+  const from = parseHexColor(base);
+  const to = parseHexColor(over);
+  return `#${from
+    .map((channel, index) =>
+      Math.round(channel + (to[index] - channel) * amount)
+        .toString(16)
+        .padStart(2, "0"),
+    )
+    .join("")}`;
+};
+
+/**
+ * How readable the scene's title is over its solid or gradient backdrop,
+ * against the stop it contrasts least with. A dim overlay is blended in;
+ * gradient overlays and vignettes vary across the frame, so they are left
+ * out. Null when there is no title text or the backdrop is an image or video.
+ */
+export const checkTitleContrast = (slide: Slide, style: ThemeStyle): ContrastCheck | null => {
+  const textLayers = slide.layers.flatMap((layer) =>
+    layer.kind === "text" && toPlainText(layer.text).trim() ? [layer] : [],
+  );
+  const title = textLayers.find((layer) => layer.role === "title") ?? textLayers[0];
+  if (!title) return null;
+  const backdrops =
+    slide.backgroundType === "color"
+      ? [slide.backgroundValue]
+      : slide.backgroundType === "gradient" && slide.backgroundGradient
+        ? slide.backgroundGradient.stops.map((stop) => stop.color)
+        : [];
+  if (!backdrops.length) return null;
+  const textColor = title.color ?? style.textColor;
+  const isLarge =
+    title.fontSize >= LARGE_TEXT_SIZE ||
+    (title.fontSize >= LARGE_BOLD_TEXT_SIZE && title.fontWeight >= BOLD_WEIGHT);
+  let worst: { ratio: number; backgroundColor: string } | null = null;
+  for (const color of backdrops) {
+    const visible =
+      style.overlay === "dim"
+        ? blendColors(color, style.overlayColor, style.overlayOpacity)
+        : color;
+    const ratio = getContrastRatio(textColor, visible);
+    if (!worst || ratio < worst.ratio) worst = { ratio, backgroundColor: color };
+  }
+  if (!worst) return null;
+  return {
+    ...worst,
+    required: isLarge ? MIN_LARGE_TEXT_CONTRAST : MIN_TEXT_CONTRAST,
+    textColor,
+  };
+};
+
+export const passesContrast = (check: ContrastCheck) => check.ratio >= check.required;
@@ -0,0 +1,312 @@
+import type { AssetKind, LibraryAsset } from "./assets";
+import { getRefAssetId } from "./assets";
+import type { AudioSettings } from "./audio";
+import { decodeAudioClip } from "./audioMix";
+import type { BrandLogo } from "./brandKit";
+import { checkTitleContrast, passesContrast } from "./contrast";
+import type { ExportSettings } from "./exportFormats";
+import { MAX_GIF_DURATION, getExportFormatOption } from "./exportFormats";
+import { formatFileSize } from "./files";
+import type { TextLayer } from "./layers";
+import { getLayerLabel, getLayerWindow } from "./layers";
+import type { OutputSettings } from "./output";
+import type { DrawingContext } from "./renderer";
+import { createDrawingContext, ensureImage, measureTextLayer } from "./renderer";
+import type { Slide } from "./slides";
+import { toPlainText } from "./textLayout";
+import type { TimelineEntry } from "./transitions";
+import { getTimelineDuration } from "./transitions";
+import { drawVideoFrame } from "./video";
+import { probeExportMethod } from "./videoExport";
+
+/** Errors stop an export; warnings are listed but the export can go ahead. */
+export type DiagnosticSeverity = "error" | "warning";
+
+export type Diagnostic = {
+  id: string;
+  severity: DiagnosticSeverity;
+  /** The scene the problem is in, or null when it concerns the whole export. */
+  slideId: string | null;
+  message: string;
+};
+
+export type DiagnosticsInput = {
+  /** What will be exported: the project's scenes between the brand intro and outro. */
+  timeline: TimelineEntry[];
+  audio: AudioSettings;
+  output: OutputSettings;
+  settings: ExportSettings;
+  /** The project's asset library, for file sizes. */
+  assets: LibraryAsset[];
+  logo: BrandLogo | null;
+};
+
+/** Comfortable reading speed for on-screen text; slower than most people read a page. */
+export const MAX_WORDS_PER_SECOND = 3;
+
+/** Files past these sizes slow down previews and exports and bloat project files. */
+export const ASSET_SIZE_LIMITS: Record<AssetKind, number> = {
+  image: 10 * 1024 * 1024,
+  video: 250 * 1024 * 1024,
+  audio: 50 * 1024 * 1024,
+  font: 5 * 1024 * 1024,
+};
+
+type Problem = Omit<Diagnostic, "id" | "slideId">;
+
+type MediaFile = {
+  src: string;
+  kind: AssetKind;
+  label: string;
+  /** What the renderer does when the file won't load. */
+  fallback: string;
+};
+
+const MAX_LABEL_LENGTH = 40;
+
+const quote = (text: string) =>
+  `“${text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text}”`;
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/** Whether the export will carry sound, so the codec check asks for an audio encoder. */
+const hasSoundtrack = (
+  timeline: TimelineEntry[],
+  audio: AudioSettings,
+  settings: ExportSettings,
+) => {
+  const includeAudio =
+    settings.format === "mp4"
+      ? settings.mp4.includeAudio
+      : settings.format === "webm"
+        ? settings.webm.includeAudio
+        : false;
+  return (
+    includeAudio &&
+    (audio.music.length > 0 ||
+      timeline.some(
+        ({ slide }) =>
+          slide.voiceOver ||
+          (slide.backgroundType === "video" &&
+            slide.backgroundVideo &&
+            !slide.backgroundVideo.muted),
+      ))
+  );
+};
+
+/** Size of a library file or inline data URL, or null for remote files. */
+const getFileSize = (src: string, assets: Map<string, LibraryAsset>) => {
+  const assetId = getRefAssetId(src);
+  if (assetId !== null) return assets.get(assetId)?.size ?? null;
+  if (!src.startsWith("data:")) return null;
+  const comma = src.indexOf(",");
+  return Math.floor(((src.length - comma - 1) * 3) / 4);
+};
+
+/** The files a scene draws or plays, with what they are and what to call them. */
+const getMediaFiles = (slide: Slide) => {
+  const files: MediaFile[] = [];
+  if (
+    (slide.backgroundType === "image" || slide.backgroundType === "video") &&
+    slide.backgroundValue
+  ) {
+    files.push({
+      src: slide.backgroundValue,
+      kind: slide.backgroundType,
+      label: `The background ${slide.backgroundType}`,
+      fallback: "a blank backdrop would be drawn instead",
+    });
+  }
+  for (const layer of slide.layers) {
+    if ((layer.kind === "image" || layer.kind === "logo") && layer.src) {
+      files.push({
+        src: layer.src,
+        kind: "image",
+        label: `The ${quote(layer.name)} layer's picture`,
+        fallback: "it would be left out",
+      });
+    }
+  }
+  if (slide.voiceOver) {
+    files.push({
+      src: slide.voiceOver.src,
+      kind: "audio",
+      label: "The voice-over",
+      fallback: "the export would fail",
+    });
+  }
+  return files;
+};
+
+const checkFiles = async (files: MediaFile[]) => {
+  const problems: Problem[] = [];
+  for (const file of files) {
+    try {
+      if (file.kind === "video") await drawVideoFrame(file.src, 0, () => undefined);
+      else if (file.kind === "audio") await decodeAudioClip(file.src);
+      else await ensureImage(file.src);
+    } catch {
+      problems.push({
+        severity: "error",
+        message: `${file.label} can't be loaded; ${file.fallback}.`,
+      });
+    }
+  }
+  return problems;
+};
+
+/** Sound files are only loaded when the export carries sound. */
+const checkMedia = async (slide: Slide, withAudio: boolean) => {
+  const problems: Problem[] = [];
+  if (
+    (slide.backgroundType === "image" || slide.backgroundType === "video") &&
+    !slide.backgroundValue
+  ) {
+    problems.push({
+      severity: "error",
+      message: `The ${slide.backgroundType} background has no file; it would be drawn as a blank backdrop.`,
+    });
+  }
+  for (const layer of slide.layers) {
+    if ((layer.kind === "image" || layer.kind === "logo") && !layer.src) {
+      problems.push({
+        severity: "warning",
+        message: `The ${quote(layer.name)} layer has no picture and won't be drawn.`,
+      });
+    }
+  }
+  const files = getMediaFiles(slide).filter((file) => withAudio || file.kind !== "audio");
+  return [...problems, ...(await checkFiles(files))];
+};
+
+/** `ctx` is sized like the output, so text is measured as it will be drawn. */
+const checkText = async (entry: TimelineEntry, ctx: DrawingContext | null) => {
+  const problems: Problem[] = [];
+  const textLayers = entry.slide.layers.filter(
+    (layer): layer is TextLayer => layer.kind === "text" && Boolean(toPlainText(layer.text).trim()),
+  );
+  for (const layer of textLayers) {
+    const label = quote(getLayerLabel(layer));
+    if (ctx) {
+      const fit = await measureTextLayer(ctx, layer, entry.style);
+      if (fit.layout.isTruncated) {
+        problems.push({
+          severity: "warning",
+          message: `${label} doesn't fit its box and is cut off. Enlarge the box, shorten the text or turn on auto-shrink.`,
+        });
+      }
+      if (fit.isMovedIntoSafeArea) {
+        problems.push({
+          severity: "warning",
+          message: `${label} reaches outside the safe area and is moved inside it when drawn.`,
+        });
+      }
+    }
+    const window = getLayerWindow(layer, entry.slide.duration);
+    const shown = window.end - window.start;
+    const needed = countWords(toPlainText(layer.text)) / MAX_WORDS_PER_SECOND;
+    if (shown < needed) {
+      problems.push({
+        severity: "warning",
+        message: `${label} is on screen for ${shown.toFixed(1)}s but takes about ${needed.toFixed(1)}s to read.`,
+      });
+    }
+  }
+  const contrast = checkTitleContrast(entry.slide, entry.style);
+  if (contrast && !passesContrast(contrast)) {
+    problems.push({
+      severity: "warning",
+      message: `The title's contrast with ${contrast.backgroundColor} is ${contrast.ratio.toFixed(1)}:1; WCAG AA asks for ${contrast.required}:1 at its size.`,
+    });
+  }
+  return problems;
+};
+
+const checkSizes = (files: MediaFile[], assets: Map<string, LibraryAsset>) =>
+  files.flatMap((file): Problem[] => {
+    const size = getFileSize(file.src, assets);
+    const limit = ASSET_SIZE_LIMITS[file.kind];
+    if (size === null || size <= limit) return [];
+    return [
+      {
+        severity: "warning",
+        message: `${file.label} is ${formatFileSize(size)}, over the ${formatFileSize(limit)} suggested for ${file.kind} files; it may slow down the export.`,
+      },
+    ];
+  });
+
+/**
+ * Checks what is about to be exported and lists the problems found, scene by
+ * scene in timeline order, then those that concern the whole export.
+ */
+export const runDiagnostics = async ({
+  timeline,
+  audio,
+  output,
+  settings,
+  assets,
+  logo,
+}: DiagnosticsInput): Promise<Diagnostic[]> => {
+  const diagnostics: Diagnostic[] = [];
+  const add = (slideId: string | null, problems: Problem[]) => {
+    for (const problem of problems) {
+      diagnostics.push({ ...problem, id: `${slideId ?? "export"}:${diagnostics.length}`, slideId });
+    }
+  };
+  const library = new Map(assets.map((asset) => [asset.id, asset]));
+  const exportDuration = getTimelineDuration(timeline);
+  const ctx = createDrawingContext(output.width, output.height);
+  const withAudio = hasSoundtrack(timeline, audio, settings);
+
+  for (const entry of timeline) {
+    add(entry.slide.id, [
+      ...(await checkMedia(entry.slide, withAudio)),
+      ...(await checkText(entry, ctx)),
+      ...checkSizes(getMediaFiles(entry.slide), library),
+    ]);
+  }
+
+  const music = audio.music.map((track): MediaFile => ({
+    src: track.src,
+    kind: "audio",
+    label: `The soundtrack ${quote(track.name)}`,
+    fallback: "the export would fail",
+  }));
+  add(null, [...(withAudio ? await checkFiles(music) : []), ...checkSizes(music, library)]);
+  if (logo) {
+    try {
+      await ensureImage(logo.src);
+    } catch {
+      add(null, [
+        { severity: "warning", message: "The brand logo can't be loaded and would be left out." },
+      ]);
+    }
+  }
+
+  const formatLabel = getExportFormatOption(settings.format).label;
+  if (settings.format === "gif" && exportDuration > MAX_GIF_DURATION) {
+    add(null, [
+      {
+        severity: "error",
+        message: `The video runs ${exportDuration.toFixed(1)}s; GIFs are limited to ${MAX_GIF_DURATION} seconds. Trim it or pick a video format.`,
+      },
+    ]);
+  }
+  const method = await probeExportMethod(output, settings, withAudio);
+  if (!method) {
+    add(null, [
+      {
+        severity: "error",
+        message: `This browser can't encode ${formatLabel} at ${output.width}×${output.height}. Pick another format or a smaller size.`,
+      },
+    ]);
+  } else if (method === "realtime") {
+    add(null, [
+      {
+        severity: "warning",
+        message: `This browser can't encode ${formatLabel} frame by frame, so it will be recorded in real time: the export takes as long as the video (${exportDuration.toFixed(1)}s) and this tab should stay in front.`,
+      },
+    ]);
+  }
+  return diagnostics;
+};
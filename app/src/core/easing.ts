@@ -0,0 +1,27 @@
+export type EasingName = "linear" | "ease-in" | "ease-out" | "ease-in-out";
+
+export const EASING_OPTIONS: { value: EasingName; label: string }[] = [
+  { value: "linear", label: "Linear" },
+  { value: "ease-in", label: "Ease In" },
+  { value: "ease-out", label: "Ease Out" },
+  { value: "ease-in-out", label: "Ease In-Out" },
+];
+
+export const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+export const applyEasing = (easing: EasingName, value: number) => {
+  const t = clamp(value, 0, 1);
+  switch (easing) {
+    case "ease-in":
+      return t * t * t;
+    case "ease-out":
+      return 1 - Math.pow(1 - t, 3);
+    case "ease-in-out":
+      return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+    default:
+      return t;
+  }
+};
+
+export const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
@@ -0,0 +1,86 @@
+export type ExportFormat = "webm" | "mp4" | "gif" | "png-sequence";
+
+export type WebmCodec = "vp9" | "vp8";
+
+export type H264Profile = "baseline" | "main" | "high";
+
+export type WebmExportSettings = {
+  codec: WebmCodec;
+  includeAudio: boolean;
+};
+
+export type Mp4ExportSettings = {
+  profile: H264Profile;
+  includeAudio: boolean;
+};
+
+/** GIFs are rendered smaller and slower than the video to keep files shareable. */
+export type GifExportSettings = {
+  width: number;
+  fps: number;
+  /** Palette size, a power of two up to 256. */
+  colors: number;
+  dither: boolean;
+  loop: boolean;
+};
+
+export type PngSequenceExportSettings = {
+  /** Frames per second of video time, or null to use the output frame rate. */
+  fps: number | null;
+};
+
+/** Settings for every format are kept so switching back and forth keeps choices. */
+export type ExportSettings = {
+  format: ExportFormat;
+  webm: WebmExportSettings;
+  mp4: Mp4ExportSettings;
+  gif: GifExportSettings;
+  pngSequence: PngSequenceExportSettings;
+};
+
+export const EXPORT_FORMAT_OPTIONS: {
+  value: ExportFormat;
+  label: string;
+  extension: string;
+}[] = [
+  { value: "mp4", label: "MP4 (H.264)", extension: "mp4" },
+  { value: "webm", label: "WebM (VP9/VP8)", extension: "webm" },
+  { value: "gif", label: "Animated GIF", extension: "gif" },
+  { value: "png-sequence", label: "PNG sequence (.zip)", extension: "zip" },
+];
+
+export const WEBM_CODEC_OPTIONS: { value: WebmCodec; label: string }[] = [
+  { value: "vp9", label: "VP9 (smaller files)" },
+  { value: "vp8", label: "VP8 (widest support)" },
+];
+
+export const H264_PROFILE_OPTIONS: { value: H264Profile; label: string }[] = [
+  { value: "baseline", label: "Baseline (most compatible)" },
+  { value: "main", label: "Main" },
+  { value: "high", label: "High (best quality)" },
+];
+
+export const GIF_WIDTH_OPTIONS = [320, 480, 640, 800];
+
+export const GIF_FPS_OPTIONS = [8, 10, 12, 15, 20, 25];
+
+export const GIF_COLOR_OPTIONS = [32, 64, 128, 256];
+
+export const PNG_FPS_OPTIONS = [1, 5, 10, 12, 15, 24, 25, 30, 50, 60];
+
+/** Longer timelines make GIFs too large to be useful; pick a video format instead. */
+export const MAX_GIF_DURATION = 30;
+
+export const createExportSettings = (): ExportSettings => ({
+  format: "mp4",
+  webm: { codec: "vp9", includeAudio: true },
+  mp4: { profile: "main", includeAudio: true },
+  gif: { width: 480, fps: 12, colors: 256, dither: true, loop: true },
+  pngSequence: { fps: null },
+});
+
+export const getExportFormatOption = (format: ExportFormat) =>
+  EXPORT_FORMAT_OPTIONS.find((option) => option.value === format) ?? EXPORT_FORMAT_OPTIONS[0];
+
+export const getExportFileName = (format: ExportFormat, name = "storyforge-video") =>
+  `${name}.${getExportFormatOption(format).extension}`;
@@ -0,0 +1,60 @@
+export const readFileAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const readDirectoryEntries = (directory: FileSystemDirectoryEntry) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    // Browsers hand entries over in batches until an empty one.
+    const readBatch = () =>
+      reader.readEntries((batch) => {
+        if (!batch.length) {
+          resolve(entries);
+          return;
+        }
+        entries.push(...batch);
+        readBatch();
+      }, reject);
+    readBatch();
+  });
+
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject),
+    );
+    return [file];
+  }
+  if (!entry.isDirectory) return [];
+  const entries = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+  const files = await Promise.all(entries.map(readEntryFiles));
+  return files.flat();
+};
+
+/** Files dropped onto the page, including everything inside dropped folders. */
+export const readDroppedFiles = async (dataTransfer: DataTransfer) => {
+  const entries = [...dataTransfer.items].flatMap((item) => {
+    const entry = item.kind === "file" ? item.webkitGetAsEntry() : null;
+    return entry ? [entry] : [];
+  });
+  if (!entries.length) return [...dataTransfer.files];
+  const files = await Promise.all(entries.map(readEntryFiles));
+  return files.flat();
+};
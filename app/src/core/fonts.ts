@@ -0,0 +1,68 @@
+import { resolveMediaSrc } from "./assets";
+import { generateId } from "./ids";
+
+/** A font file uploaded into the project, available to text layers under `family`. */
+export type CustomFont = {
+  id: string;
+  /** Shown in font pickers; taken from the file name. */
+  name: string;
+  family: string;
+  /** The font file, usually a library reference. */
+  src: string;
+};
+
+export const FONT_FILE_TYPES = ".ttf,.otf,.woff,.woff2";
+
+/** CSS font stack a text layer stores to use `font`. */
+export const getFontStack = (font: CustomFont) => `'${font.family}', sans-serif`;
+
+const registeredFonts = new Map<string, FontFace>();
+
+/** The page's fonts, or a render worker's own set, which starts without the project's fonts. */
+const getFontSet = (): FontFaceSet | null => {
+  if (typeof document !== "undefined") return document.fonts;
+  const scope = globalThis as { fonts?: FontFaceSet };
+  return scope.fonts ?? null;
+};
+
+/**
+ * Adds the project's fonts to the document so canvas text can use them.
+ * Faces are registered straight away and load the first time they are drawn.
+ */
+export const registerFonts = (fonts: CustomFont[]) => {
+  const fontSet = getFontSet();
+  if (!fontSet) return;
+  for (const font of fonts) {
+    if (registeredFonts.has(font.id)) continue;
+    const face = new FontFace(font.family, `url(${resolveMediaSrc(font.src)})`);
+    registeredFonts.set(font.id, face);
+    fontSet.add(face);
+  }
+};
+
+/** Waits until every face `font` (a canvas font string) needs has loaded. */
+export const loadFont = async (font: string) => {
+  const fontSet = getFontSet();
+  if (!fontSet) return;
+  try {
+    await fontSet.load(font);
+  } catch {
+    // The text is drawn in a fallback font instead.
+  }
+};
+
+/** Checks that `file` is a font this browser can read, then stores it with `storeFile`. */
+export const readFontFile = async (
+  file: File,
+  storeFile: (file: File) => Promise<string>,
+): Promise<CustomFont> => {
+  const id = generateId();
+  const family = `Custom ${id}`;
+  try {
+    await new FontFace(family, await file.arrayBuffer()).load();
+  } catch {
+    throw new Error(`${file.name} is not a font file this browser can read.`);
+  }
+  const src = await storeFile(file);
+  return { id, name: file.name.replace(/\.[^.]+$/, ""), family, src };
+};
@@ -0,0 +1,303 @@
+/**
+ * Animated GIF encoding: a median-cut palette shared by every frame, optional
+ * Floyd–Steinberg dithering, and frame differencing that only stores the
+ * pixels that changed since the previous frame.
+ */
+
+export type GifPalette = {
+  /** Packed RGB triples; the last entry is reserved for transparency. */
+  colors: Uint8Array;
+  size: number;
+  transparentIndex: number;
+};
+
+type ColorBox = { pixels: Uint8Array; count: number };
+
+/** Pixels sampled per frame when building the palette. */
+const PALETTE_SAMPLE_LIMIT = 40_000;
+
+const getChannelRange = (pixels: Uint8Array, count: number, channel: number) => {
+  let min = 255;
+  let max = 0;
+  for (let index = 0; index < count; index++) {
+    const value = pixels[index * 3 + channel];
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return max - min;
+};
+
+const splitBox = (box: ColorBox): [ColorBox, ColorBox] => {
+  const ranges = [0, 1, 2].map((channel) => getChannelRange(box.pixels, box.count, channel));
+  const channel = ranges.indexOf(Math.max(...ranges));
+  const order = Array.from({ length: box.count }, (_, index) => index).sort(
+    (a, b) => box.pixels[a * 3 + channel] - box.pixels[b * 3 + channel],
+  );
+  const sorted = new Uint8Array(box.count * 3);
+  order.forEach((from, to) => sorted.set(box.pixels.subarray(from * 3, from * 3 + 3), to * 3));
+  const middle = Math.floor(box.count / 2);
+  return [
+    { pixels: sorted.subarray(0, middle * 3), count: middle },
+    { pixels: sorted.subarray(middle * 3), count: box.count - middle },
+  ];
+};
+
+/**
+ * Samples RGBA frames and builds a palette of `size` entries (a power of
+ * two) with median cut. One entry is kept free for unchanged pixels.
+ */
+export const buildGifPalette = (frames: Uint8ClampedArray[], size: number): GifPalette => {
+  const samples: number[] = [];
+  for (const frame of frames) {
+    const pixelCount = frame.length / 4;
+    const step = Math.max(1, Math.floor(pixelCount / PALETTE_SAMPLE_LIMIT));
+    for (let index = 0; index < pixelCount; index += step) {
+      samples.push(frame[index * 4], frame[index * 4 + 1], frame[index * 4 + 2]);
+    }
+  }
+  let boxes: ColorBox[] = [{ pixels: Uint8Array.from(samples), count: samples.length / 3 }];
+  while (boxes.length < size - 1) {
+    const largest = boxes.reduce((best, box) => (box.count > best.count ? box : best), boxes[0]);
+    if (largest.count < 2) break;
+    boxes = [...boxes.filter((box) => box !== largest), ...splitBox(largest)];
+  }
+  const colors = new Uint8Array(size * 3);
+  boxes.forEach((box, index) => {
+    for (let channel = 0; channel < 3; channel++) {
+      let total = 0;
+      for (let pixel = 0; pixel < box.count; pixel++) total += box.pixels[pixel * 3 + channel];
+      colors[index * 3 + channel] = box.count ? Math.round(total / box.count) : 0;
+    }
+  });
+  return { colors, size, transparentIndex: size - 1 };
+};
+
+/** Nearest-colour lookup cached on 5-bit channels, which is plenty for GIF. */
+const createColorMatcher = (palette: GifPalette) => {
+  const cache = new Int16Array(32 * 32 * 32).fill(-1);
+  const { colors, transparentIndex } = palette;
+  return (r: number, g: number, b: number) => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    if (cache[key] >= 0) return cache[key];
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let index = 0; index < transparentIndex; index++) {
+      const dr = colors[index * 3] - r;
+      const dg = colors[index * 3 + 1] - g;
+      const db = colors[index * 3 + 2] - b;
+      const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = index;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+};
+
+/** Maps an RGBA frame to palette indices, spreading the rounding error when `dither` is set. */
+const mapFrame = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: GifPalette,
+  match: (r: number, g: number, b: number) => number,
+  dither: boolean,
+) => {
+  const indices = new Uint8Array(width * height);
+  const errors = dither ? new Float32Array(width * height * 3) : null;
+  const clamp = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const r = clamp(rgba[pixel * 4] + (errors ? errors[pixel * 3] : 0));
+      const g = clamp(rgba[pixel * 4 + 1] + (errors ? errors[pixel * 3 + 1] : 0));
+      const b = clamp(rgba[pixel * 4 + 2] + (errors ? errors[pixel * 3 + 2] : 0));
+      const index = match(r, g, b);
+      indices[pixel] = index;
+      if (!errors) continue;
+      const spread = (dx: number, dy: number, weight: number) => {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny >= height) return;
+        const target = (ny * width + nx) * 3;
+        errors[target] += (r - palette.colors[index * 3]) * weight;
+        errors[target + 1] += (g - palette.colors[index * 3 + 1]) * weight;
+        errors[target + 2] += (b - palette.colors[index * 3 + 2]) * weight;
+      };
+      spread(1, 0, 7 / 16);
+      spread(-1, 1, 3 / 16);
+      spread(0, 1, 5 / 16);
+      spread(1, 1, 1 / 16);
+    }
+  }
+  return indices;
+};
+
+/** GIF-flavoured LZW with variable code width, packed into 255-byte sub-blocks. */
+const encodeLzw = (indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+
+  const write = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let index = 1; index < indices.length; index++) {
+    const value = indices[index];
+    const key = (prefix << 8) | value;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    write(prefix);
+    if (nextCode < 4096) {
+      dictionary.set(key, nextCode);
+      if (nextCode === 1 << codeSize) codeSize++;
+      nextCode++;
+    } else {
+      write(clearCode);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = value;
+  }
+  write(prefix);
+  write(endCode);
+  if (bitCount > 0) output.push(bitBuffer & 0xff);
+
+  const blocks: number[] = [];
+  for (let offset = 0; offset < output.length; offset += 255) {
+    const block = output.slice(offset, offset + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return Uint8Array.from(blocks);
+};
+
+const word = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+export type GifOptions = {
+  width: number;
+  height: number;
+  palette: GifPalette;
+  dither: boolean;
+  /** Repeat forever, or play once. */
+  loop: boolean;
+};
+
+export const createGifEncoder = ({ width, height, palette, dither, loop }: GifOptions) => {
+  const match = createColorMatcher(palette);
+  const colorBits = Math.max(1, Math.ceil(Math.log2(palette.size)));
+  const parts: Uint8Array<ArrayBuffer>[] = [
+    Uint8Array.from([
+      ...new TextEncoder().encode("GIF89a"),
+      ...word(width),
+      ...word(height),
+      0x80 | ((colorBits - 1) << 4) | (colorBits - 1),
+      palette.transparentIndex,
+      0,
+    ]),
+    Uint8Array.from(palette.colors),
+  ];
+  if (loop) {
+    parts.push(
+      Uint8Array.from([
+        0x21,
+        0xff,
+        0x0b,
+        ...new TextEncoder().encode("NETSCAPE2.0"),
+        0x03,
+        0x01,
+        ...word(0),
+        0,
+      ]),
+    );
+  }
+  let previous: Uint8Array | null = null;
+
+  /** Adds an RGBA frame shown for `delay` hundredths of a second. */
+  const addFrame = (rgba: Uint8ClampedArray, delay: number) => {
+    const indices = mapFrame(rgba, width, height, palette, match, dither);
+    let left = 0;
+    let top = 0;
+    let right = width - 1;
+    let bottom = height - 1;
+    let frameIndices = indices;
+    if (previous) {
+      // Only the rectangle that changed is stored; unchanged pixels inside it become transparent.
+      left = width;
+      top = height;
+      right = -1;
+      bottom = -1;
+      for (let pixel = 0; pixel < indices.length; pixel++) {
+        if (indices[pixel] === previous[pixel]) continue;
+        const x = pixel % width;
+        const y = (pixel - x) / width;
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+      }
+      if (right < 0) {
+        left = 0;
+        top = 0;
+        right = 0;
+        bottom = 0;
+      }
+      const cropWidth = right - left + 1;
+      frameIndices = new Uint8Array(cropWidth * (bottom - top + 1));
+      for (let y = top; y <= bottom; y++) {
+        for (let x = left; x <= right; x++) {
+          const pixel = y * width + x;
+          frameIndices[(y - top) * cropWidth + (x - left)] =
+            indices[pixel] === previous[pixel] ? palette.transparentIndex : indices[pixel];
+        }
+      }
+    }
+    previous = indices;
+    parts.push(
+      Uint8Array.from([
+        0x21,
+        0xf9,
+        0x04,
+        // Keep the previous frame underneath and mark the transparent index.
+        (1 << 2) | 0x01,
+        ...word(delay),
+        palette.transparentIndex,
+        0,
+        0x2c,
+        ...word(left),
+        ...word(top),
+        ...word(right - left + 1),
+        ...word(bottom - top + 1),
+        0,
+        Math.max(2, colorBits),
+      ]),
+      encodeLzw(frameIndices, Math.max(2, colorBits)),
+    );
+  };
+
+  const finish = () => new Blob([...parts, Uint8Array.of(0x3b)], { type: "image/gif" });
+
+  return { addFrame, finish };
+};
+
+export type GifEncoder = ReturnType<typeof createGifEncoder>;
@@ -0,0 +1,66 @@
+export const MAX_HISTORY = 100;
+
+/** Edits in the same group closer together than this become a single undo step. */
+export const COALESCE_WINDOW = 1000;
+
+export type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  group: string | null;
+  updatedAt: number;
+};
+
+export const createHistory = <T>(present: T): History<T> => ({
+  past: [],
+  present,
+  future: [],
+  group: null,
+  updatedAt: 0,
+});
+
+/**
+ * Records `next` as the new present. Passing a `group` (for example
+ * "slide:<id>:duration") merges bursts of edits such as typing into one entry.
+ */
+export const pushHistory = <T>(
+  history: History<T>,
+  next: T,
+  group: string | null = null,
+  now = Date.now(),
+): History<T> => {
+  if (Object.is(next, history.present)) return history;
+  const coalesce =
+    group !== null && group === history.group && now - history.updatedAt < COALESCE_WINDOW;
+  return {
+    past: coalesce ? history.past : [...history.past, history.present].slice(-MAX_HISTORY),
+    present: next,
+    future: [],
+    group,
+    updatedAt: now,
+  };
+};
+
+export const undoHistory = <T>(history: History<T>): History<T> => {
+  const previous = history.past[history.past.length - 1];
+  if (previous === undefined) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future],
+    group: null,
+    updatedAt: 0,
+  };
+};
+
+export const redoHistory = <T>(history: History<T>): History<T> => {
+  const [next, ...future] = history.future;
+  if (next === undefined) return history;
+  return {
+    past: [...history.past, history.present],
+    present: next,
+    future,
+    group: null,
+    updatedAt: 0,
+  };
+};
@@ -0,0 +1,102 @@
+import type { GifExportSettings } from "./exportFormats";
+import { MAX_GIF_DURATION } from "./exportFormats";
+import { buildGifPalette, createGifEncoder } from "./gif";
+import type { OutputSettings } from "./output";
+import type { DrawingCanvas, DrawingContext } from "./renderer";
+import {
+  canvasToBlob,
+  createDrawingContext,
+  delay,
+  getDrawingContext,
+  renderFrame,
+} from "./renderer";
+import type { TimelineEntry } from "./transitions";
+import { getTimelineDuration } from "./transitions";
+import { createZipWriter } from "./zip";
+
+/** Frames rendered up front to choose the GIF palette. */
+const PALETTE_SAMPLE_FRAMES = 8;
+
+const PALETTE_PROGRESS = 0.1;
+
+const readFrame = async (ctx: DrawingContext, timeline: TimelineEntry[], time: number) => {
+  await renderFrame(ctx, timeline, time);
+  return ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height).data;
+};
+
+/** Renders the timeline at the GIF's own size and frame rate, with one palette for every frame. */
+export const exportGif = async (
+  timeline: TimelineEntry[],
+  settings: GifExportSettings,
+  output: OutputSettings,
+  onProgress: (ratio: number) => void,
+  signal?: AbortSignal,
+) => {
+  const duration = getTimelineDuration(timeline);
+  if (duration > MAX_GIF_DURATION) {
+    throw new Error(
+      `GIF export is meant for short loops of up to ${MAX_GIF_DURATION} seconds. Trim the video or pick a video format.`,
+    );
+  }
+  const width = Math.min(settings.width, output.width);
+  const height = Math.max(1, Math.round((width * output.height) / output.width));
+  const ctx = createDrawingContext(width, height, { willReadFrequently: true });
+  if (!ctx) throw new Error("Unable to draw GIF frames.");
+
+  const frameCount = Math.max(1, Math.round(duration * settings.fps));
+  const sampleCount = Math.min(frameCount, PALETTE_SAMPLE_FRAMES);
+  const samples: Uint8ClampedArray[] = [];
+  for (let index = 0; index < sampleCount; index++) {
+    signal?.throwIfAborted();
+    const frame = Math.floor((index * frameCount) / sampleCount);
+    samples.push(await readFrame(ctx, timeline, frame / settings.fps));
+    onProgress(((index + 1) / sampleCount) * PALETTE_PROGRESS);
+  }
+  const encoder = createGifEncoder({
+    width,
+    height,
+    palette: buildGifPalette(samples, settings.colors),
+    dither: settings.dither,
+    loop: settings.loop,
+  });
+
+  for (let index = 0; index < frameCount; index++) {
+    signal?.throwIfAborted();
+    const pixels = await readFrame(ctx, timeline, index / settings.fps);
+    // GIF delays are whole hundredths of a second; rounding the running total avoids drift.
+    const frameDelay =
+      Math.round(((index + 1) * 100) / settings.fps) - Math.round((index * 100) / settings.fps);
+    encoder.addFrame(pixels, frameDelay);
+    onProgress(PALETTE_PROGRESS + ((index + 1) / frameCount) * (1 - PALETTE_PROGRESS));
+    // Quantising is CPU-bound, so give the page a chance to repaint the progress bar.
+    await delay(0);
+  }
+  return encoder.finish();
+};
+
+/** Renders every frame to PNG at the output size and bundles them into a ZIP archive. */
+export const exportPngSequence = async (
+  canvas: DrawingCanvas,
+  timeline: TimelineEntry[],
+  fps: number,
+  onProgress: (ratio: number) => void,
+  signal?: AbortSignal,
+) => {
+  const ctx = getDrawingContext(canvas);
+  if (!ctx) throw new Error("Unable to draw video frames.");
+  const frameCount = Math.max(1, Math.round(getTimelineDuration(timeline) * fps));
+  const digits = Math.max(4, String(frameCount).length);
+  const zip = createZipWriter();
+  for (let index = 0; index < frameCount; index++) {
+    signal?.throwIfAborted();
+    await renderFrame(ctx, timeline, index / fps);
+    const blob = await canvasToBlob(canvas, "image/png");
+    if (!blob) throw new Error("Unable to encode a PNG frame.");
+    zip.addFile(
+      `frame-${String(index + 1).padStart(digits, "0")}.png`,
+      new Uint8Array(await blob.arrayBuffer()),
+    );
+    onProgress((index + 1) / frameCount);
+  }
+  return zip.finish();
+};
@@ -0,0 +1,225 @@
+import { generateId } from "./ids";
+import type { TextAnimation } from "./textAnimation";
+import { createTextAnimationPhase, getEntranceEnd } from "./textAnimation";
+import { toPlainText } from "./textLayout";
+import type { TextShadow } from "./themes";
+
+export type LayerKind = "text" | "image" | "shape" | "logo" | "watermark";
+
+export type TextAlign = "left" | "center" | "right";
+
+/** Title and subtitle layers are the ones a theme lays out. */
+export type TextRole = "title" | "subtitle";
+
+/**
+ * Placement shared by every layer. Position and size are fractions of the
+ * canvas so layouts survive resolution changes; `rotation` is in degrees
+ * around the layer centre. `start`/`end` limit the layer to part of its scene.
+ */
+export type LayerFrame = {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  opacity: number;
+  start: number | null;
+  end: number | null;
+};
+
+/** Stroke around each letter; `width` is in pixels at the 720p reference size. */
+export type TextOutline = {
+  color: string;
+  width: number;
+};
+
+/** Box painted behind each line of text, like a caption background. */
+export type TextHighlight = {
+  color: string;
+  opacity: number;
+};
+
+/**
+ * Font, colour, alignment and shadow follow the scene's theme style while
+ * they are null. `text` may hold `**bold**` and `{#hex:coloured}` spans.
+ */
+export type TextLayer = LayerFrame & {
+  kind: "text";
+  role: TextRole | null;
+  text: string;
+  fontSize: number;
+  fontWeight: number;
+  fontFamily: string | null;
+  color: string | null;
+  align: TextAlign | null;
+  lineHeight: number;
+  /** Extra space between letters in pixels at the 720p reference size. */
+  letterSpacing: number;
+  outline: TextOutline | null;
+  /** "none" turns off a shadow the theme would add. */
+  shadow: TextShadow | "none" | null;
+  highlight: TextHighlight | null;
+  /** Lines allowed before the text is shrunk or cut short; null fits the layer's height. */
+  maxLines: number | null;
+  /** Shrinks the font, down to half size, before cutting text short with an ellipsis. */
+  autoShrink: boolean;
+  animation: TextAnimation;
+};
+
+export type ImageLayer = LayerFrame & {
+  kind: "image";
+  src: string;
+  fit: "cover" | "contain";
+};
+
+export type ShapeLayer = LayerFrame & {
+  kind: "shape";
+  shape: "rectangle" | "ellipse";
+  fill: string;
+  cornerRadius: number;
+};
+
+export type LogoLayer = LayerFrame & {
+  kind: "logo";
+  src: string;
+};
+
+export type WatermarkLayer = LayerFrame & {
+  kind: "watermark";
+  text: string;
+  fontSize: number;
+  color: string;
+};
+
+export type Layer = TextLayer | ImageLayer | ShapeLayer | LogoLayer | WatermarkLayer;
+
+export const LAYER_KIND_OPTIONS: { value: LayerKind; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "image", label: "Image" },
+  { value: "shape", label: "Shape" },
+  { value: "logo", label: "Logo" },
+  { value: "watermark", label: "Watermark" },
+];
+
+export const MIN_LAYER_SIZE = 0.02;
+
+const createFrame = (name: string, data: Partial<LayerFrame> = {}): LayerFrame => ({
+  id: generateId(),
+  name,
+  x: 0.3,
+  y: 0.35,
+  width: 0.4,
+  height: 0.3,
+  rotation: 0,
+  opacity: 1,
+  start: null,
+  end: null,
+  ...data,
+});
+
+export const createTextLayer = (data: Partial<TextLayer> = {}): TextLayer => ({
+  ...createFrame("Text", { x: 0.0625, y: 0.4, width: 0.875, height: 0.2 }),
+  kind: "text",
+  role: null,
+  text: "New text",
+  fontSize: 48,
+  fontWeight: 600,
+  fontFamily: null,
+  color: null,
+  align: null,
+  lineHeight: 1.15,
+  letterSpacing: 0,
+  outline: null,
+  shadow: null,
+  highlight: null,
+  maxLines: null,
+  autoShrink: true,
+  animation: {
+    enter: createTextAnimationPhase({ effect: "fade", duration: 0.6 }),
+    exit: createTextAnimationPhase({ easing: "ease-in" }),
+  },
+  ...data,
+});
+
+export const createImageLayer = (data: Partial<ImageLayer> = {}): ImageLayer => ({
+  ...createFrame("Image"),
+  kind: "image",
+  src: "",
+  fit: "cover",
+  ...data,
+});
+
+export const createShapeLayer = (data: Partial<ShapeLayer> = {}): ShapeLayer => ({
+  ...createFrame("Shape"),
+  kind: "shape",
+  shape: "rectangle",
+  fill: "#0ea5e9",
+  cornerRadius: 24,
+  ...data,
+});
+
+export const createLogoLayer = (data: Partial<LogoLayer> = {}): LogoLayer => ({
+  ...createFrame("Logo", { x: 0.04, y: 0.06, width: 0.14, height: 0.12 }),
+  kind: "logo",
+  src: "",
+  ...data,
+});
+
+export const createWatermarkLayer = (data: Partial<WatermarkLayer> = {}): WatermarkLayer => ({
+  ...createFrame("Watermark", { x: 0.7, y: 0.06, width: 0.26, height: 0.06, opacity: 0.45 }),
+  kind: "watermark",
+  text: "STORYFORGE",
+  fontSize: 22,
+  color: "#f8fafc",
+  ...data,
+});
+
+export const createLayer = (kind: LayerKind): Layer => {
+  switch (kind) {
+    case "image":
+      return createImageLayer();
+    case "shape":
+      return createShapeLayer();
+    case "logo":
+      return createLogoLayer();
+    case "watermark":
+      return createWatermarkLayer();
+    default:
+      return createTextLayer();
+  }
+};
+
+export const duplicateLayer = (layer: Layer): Layer => ({
+  ...layer,
+  id: generateId(),
+  name: `${layer.name} copy`,
+  x: Math.min(1 - layer.width, layer.x + 0.02),
+  y: Math.min(1 - layer.height, layer.y + 0.02),
+});
+
+/** Start and end of a layer inside a scene of `sceneDuration` seconds. */
+export const getLayerWindow = (layer: Layer, sceneDuration: number) => {
+  const start = Math.max(0, Math.min(layer.start ?? 0, sceneDuration));
+  const end = Math.max(start, Math.min(layer.end ?? sceneDuration, sceneDuration));
+  return { start, end };
+};
+
+export const isLayerActive = (layer: Layer, time: number, sceneDuration: number) => {
+  const { start, end } = getLayerWindow(layer, sceneDuration);
+  return time >= start && (time < end || end === sceneDuration);
+};
+
+export const getLayerEntranceEnd = (layer: Layer, sceneDuration: number) => {
+  if (layer.kind !== "text") return 0;
+  return getLayerWindow(layer, sceneDuration).start + getEntranceEnd(layer.animation);
+};
+
+export const getLayerLabel = (layer: Layer) => {
+  if (layer.kind === "text" && toPlainText(layer.text).trim()) {
+    return toPlainText(layer.text).trim();
+  }
+  if (layer.kind === "watermark" && layer.text.trim()) return layer.text.trim();
+  return layer.name;
+};
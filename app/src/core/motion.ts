@@ -0,0 +1,114 @@
+import type { EasingName } from "./easing";
+import { applyEasing, clamp, lerp } from "./easing";
+
+/** Camera position: centre point in normalised image space plus zoom over the cover-fit crop. */
+export type CameraFrame = {
+  x: number;
+  y: number;
+  zoom: number;
+};
+
+export type MotionPreset = "none" | "zoom-in" | "zoom-out" | "pan-left" | "pan-right" | "custom";
+
+export type CameraMotion = {
+  preset: MotionPreset;
+  start: CameraFrame;
+  end: CameraFrame;
+  easing: EasingName;
+};
+
+export type CropRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export const MIN_CAMERA_ZOOM = 1;
+export const MAX_CAMERA_ZOOM = 4;
+
+export const MOTION_PRESET_OPTIONS: { value: MotionPreset; label: string }[] = [
+  { value: "none", label: "Static" },
+  { value: "zoom-in", label: "Zoom In" },
+  { value: "zoom-out", label: "Zoom Out" },
+  { value: "pan-left", label: "Pan Left" },
+  { value: "pan-right", label: "Pan Right" },
+  { value: "custom", label: "Custom" },
+];
+
+const CENTER: CameraFrame = { x: 0.5, y: 0.5, zoom: 1 };
+
+const PRESET_FRAMES: Record<Exclude<MotionPreset, "custom">, [CameraFrame, CameraFrame]> = {
+  none: [CENTER, CENTER],
+  "zoom-in": [CENTER, { x: 0.5, y: 0.5, zoom: 1.35 }],
+  "zoom-out": [{ x: 0.5, y: 0.5, zoom: 1.35 }, CENTER],
+  "pan-left": [
+    { x: 1, y: 0.5, zoom: 1.2 },
+    { x: 0, y: 0.5, zoom: 1.2 },
+  ],
+  "pan-right": [
+    { x: 0, y: 0.5, zoom: 1.2 },
+    { x: 1, y: 0.5, zoom: 1.2 },
+  ],
+};
+
+export const createMotion = (
+  preset: MotionPreset = "none",
+  easing: EasingName = "ease-in-out",
+): CameraMotion => {
+  const [start, end] = preset === "custom" ? PRESET_FRAMES.none : PRESET_FRAMES[preset];
+  return { preset, start: { ...start }, end: { ...end }, easing };
+};
+
+/** Largest crop of the image that covers the output frame, centred on the image. */
+export const getCoverSize = (
+  imageWidth: number,
+  imageHeight: number,
+  outputWidth: number,
+  outputHeight: number,
+) => {
+  const outputRatio = outputWidth / outputHeight;
+  if (imageWidth / imageHeight > outputRatio) {
+    return { width: imageHeight * outputRatio, height: imageHeight };
+  }
+  return { width: imageWidth, height: imageWidth / outputRatio };
+};
+
+/**
+ * Converts a camera frame to a crop rectangle in image pixels, keeping the
+ * crop inside the image bounds.
+ */
+export const resolveCropRect = (
+  frame: CameraFrame,
+  imageWidth: number,
+  imageHeight: number,
+  outputWidth: number,
+  outputHeight: number,
+): CropRect => {
+  const cover = getCoverSize(imageWidth, imageHeight, outputWidth, outputHeight);
+  const zoom = clamp(frame.zoom, MIN_CAMERA_ZOOM, MAX_CAMERA_ZOOM);
+  const width = cover.width / zoom;
+  const height = cover.height / zoom;
+  const centerX = clamp(frame.x * imageWidth, width / 2, imageWidth - width / 2);
+  const centerY = clamp(frame.y * imageHeight, height / 2, imageHeight - height / 2);
+  return { x: centerX - width / 2, y: centerY - height / 2, width, height };
+};
+
+export const getMotionCrop = (
+  motion: CameraMotion,
+  progress: number,
+  imageWidth: number,
+  imageHeight: number,
+  outputWidth: number,
+  outputHeight: number,
+): CropRect => {
+  const start = resolveCropRect(motion.start, imageWidth, imageHeight, outputWidth, outputHeight);
+  const end = resolveCropRect(motion.end, imageWidth, imageHeight, outputWidth, outputHeight);
+  const t = applyEasing(motion.easing, progress);
+  return {
+    x: lerp(start.x, end.x, t),
+    y: lerp(start.y, end.y, t),
+    width: lerp(start.width, end.width, t),
+    height: lerp(start.height, end.height, t),
+  };
+};
@@ -0,0 +1,389 @@
+/**
+ * Minimal in-memory MP4 (ISO BMFF) muxer for WebCodecs output: one H.264
+ * track and an optional AAC or Opus track. Samples are buffered and `moov` is
+ * written ahead of `mdat` on finalize, so files start playing before they
+ * finish downloading.
+ */
+
+export type Mp4AudioCodec = "aac" | "opus";
+
+export type Mp4Options = {
+  width: number;
+  height: number;
+  audio?: { codec: Mp4AudioCodec; sampleRate: number; channels: number } | null;
+};
+
+type Sample = {
+  timestamp: number;
+  duration: number;
+  isKey: boolean;
+  data: Uint8Array<ArrayBuffer>;
+};
+
+type Track = {
+  id: number;
+  kind: "video" | "audio";
+  timescale: number;
+  samples: Sample[];
+  description: Uint8Array | null;
+};
+
+const MOVIE_TIMESCALE = 1000;
+
+/** Divides evenly into every common frame rate (24, 25, 30, 50, 60). */
+const VIDEO_TIMESCALE = 90_000;
+
+const textEncoder = new TextEncoder();
+
+const u8 = (value: number) => Uint8Array.of(value & 0xff);
+
+const u16 = (value: number) => {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setUint16(0, value);
+  return bytes;
+};
+
+const u32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+const u64 = (value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(Math.round(value)));
+  return bytes;
+};
+
+const zeros = (length: number) => new Uint8Array(length);
+
+const ascii = (value: string) => textEncoder.encode(value);
+
+const concat = (parts: Uint8Array[]) => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const box = (type: string, ...payload: Uint8Array[]) => {
+  const body = concat(payload);
+  return concat([u32(body.length + 8), ascii(type), body]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...payload: Uint8Array[]) =>
+  box(type, u8(version), u8(flags >> 16), u16(flags & 0xffff), ...payload);
+
+/** Identity transform, as 16.16 and 2.30 fixed point. */
+const MATRIX = concat([
+  u32(0x00010000),
+  u32(0),
+  u32(0),
+  u32(0),
+  u32(0x00010000),
+  u32(0),
+  u32(0),
+  u32(0),
+  u32(0x40000000),
+]);
+
+/** MPEG-4 descriptors use a tag byte followed by a variable-length size. */
+const descriptor = (tag: number, ...payload: Uint8Array[]) => {
+  const body = concat(payload);
+  const size: number[] = [];
+  for (let rest = body.length; ; rest >>= 7) {
+    size.unshift((rest & 0x7f) | (size.length ? 0x80 : 0));
+    if (rest < 0x80) break;
+  }
+  return concat([u8(tag), Uint8Array.from(size), body]);
+};
+
+const AAC_SAMPLE_RATES = [
+  96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350,
+];
+
+/** AAC-LC AudioSpecificConfig, used when the encoder does not supply one. */
+const createAudioSpecificConfig = (sampleRate: number, channels: number) => {
+  const rateIndex = Math.max(0, AAC_SAMPLE_RATES.indexOf(sampleRate));
+  return Uint8Array.of((2 << 3) | (rateIndex >> 1), ((rateIndex & 1) << 7) | (channels << 3));
+};
+
+const toBytes = (source: AllowSharedBufferSource) =>
+  source instanceof ArrayBuffer || source instanceof SharedArrayBuffer
+    ? new Uint8Array(source)
+    : new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+
+const copyChunk = (chunk: EncodedVideoChunk | EncodedAudioChunk) => {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return data;
+};
+
+export const createMp4Muxer = (options: Mp4Options) => {
+  const video: Track = {
+    id: 1,
+    kind: "video",
+    timescale: VIDEO_TIMESCALE,
+    samples: [],
+    description: null,
+  };
+  const audio: Track | null = options.audio
+    ? {
+        id: 2,
+        kind: "audio",
+        timescale: options.audio.sampleRate,
+        samples: [],
+        description: null,
+      }
+    : null;
+
+  const addSample = (
+    track: Track,
+    chunk: EncodedVideoChunk | EncodedAudioChunk,
+    metadata?: EncodedVideoChunkMetadata | EncodedAudioChunkMetadata,
+  ) => {
+    const description = metadata?.decoderConfig?.description;
+    if (description && !track.description) track.description = toBytes(description).slice();
+    track.samples.push({
+      timestamp: chunk.timestamp,
+      duration: chunk.duration ?? 0,
+      isKey: chunk.type === "key",
+      data: copyChunk(chunk),
+    });
+  };
+
+  const addVideoChunk = (chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata) =>
+    addSample(video, chunk, metadata);
+
+  const addAudioChunk = (chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) => {
+    if (audio) addSample(audio, chunk, metadata);
+  };
+
+  const toTrackTime = (track: Track, microseconds: number) =>
+    Math.round((microseconds * track.timescale) / 1_000_000);
+
+  /** Sample durations in track units; the last sample keeps its own duration. */
+  const getDeltas = (track: Track) =>
+    track.samples.map((sample, index) => {
+      const next = track.samples[index + 1];
+      return next
+        ? toTrackTime(track, next.timestamp) - toTrackTime(track, sample.timestamp)
+        : toTrackTime(track, sample.duration);
+    });
+
+  const buildSampleEntry = (track: Track) => {
+    if (track.kind === "video") {
+      if (!track.description) throw new Error("The H.264 encoder did not describe its stream.");
+      return box(
+        "avc1",
+        zeros(6),
+        u16(1),
+        zeros(16),
+        u16(options.width),
+        u16(options.height),
+        u32(0x00480000),
+        u32(0x00480000),
+        zeros(4),
+        u16(1),
+        zeros(32),
+        u16(0x0018),
+        u16(0xffff),
+        box("avcC", track.description),
+      );
+    }
+    const settings = options.audio!;
+    const audioEntry = (type: string, config: Uint8Array) =>
+      box(
+        type,
+        zeros(6),
+        u16(1),
+        zeros(8),
+        u16(settings.channels),
+        u16(16),
+        zeros(4),
+        u32(settings.sampleRate * 65536),
+        config,
+      );
+    if (settings.codec === "opus") {
+      // dOps is big-endian, unlike the OpusHead the encoder may hand back.
+      const preSkip =
+        track.description && track.description.length >= 12
+          ? new DataView(track.description.buffer, track.description.byteOffset).getUint16(10, true)
+          : 312;
+      return audioEntry(
+        "Opus",
+        box(
+          "dOps",
+          u8(0),
+          u8(settings.channels),
+          u16(preSkip),
+          u32(settings.sampleRate),
+          u16(0),
+          u8(0),
+        ),
+      );
+    }
+    const config =
+      track.description ?? createAudioSpecificConfig(settings.sampleRate, settings.channels);
+    return audioEntry(
+      "mp4a",
+      fullBox(
+        "esds",
+        0,
+        0,
+        descriptor(
+          0x03,
+          u16(track.id),
+          u8(0),
+          descriptor(0x04, u8(0x40), u8(0x15), zeros(3), u32(0), u32(0), descriptor(0x05, config)),
+          descriptor(0x06, u8(0x02)),
+        ),
+      ),
+    );
+  };
+
+  const buildTrack = (track: Track, offsets: number[], duration: number) => {
+    const deltas = getDeltas(track);
+    const timeToSample: Uint8Array[] = [];
+    let runLength = 0;
+    deltas.forEach((delta, index) => {
+      runLength++;
+      if (deltas[index + 1] !== delta) {
+        timeToSample.push(u32(runLength), u32(delta));
+        runLength = 0;
+      }
+    });
+    const syncSamples = track.samples.flatMap((sample, index) =>
+      sample.isKey ? [u32(index + 1)] : [],
+    );
+    const mediaDuration = deltas.reduce((total, delta) => total + delta, 0);
+    const isVideo = track.kind === "video";
+
+    return box(
+      "trak",
+      fullBox(
+        "tkhd",
+        0,
+        3,
+        u32(0),
+        u32(0),
+        u32(track.id),
+        zeros(4),
+        u32(Math.round(duration * MOVIE_TIMESCALE)),
+        zeros(8),
+        u16(0),
+        u16(0),
+        u16(isVideo ? 0 : 0x0100),
+        zeros(2),
+        MATRIX,
+        u32(isVideo ? options.width * 65536 : 0),
+        u32(isVideo ? options.height * 65536 : 0),
+      ),
+      box(
+        "mdia",
+        fullBox(
+          "mdhd",
+          0,
+          0,
+          u32(0),
+          u32(0),
+          u32(track.timescale),
+          u32(mediaDuration),
+          u16(0x55c4),
+          u16(0),
+        ),
+        fullBox(
+          "hdlr",
+          0,
+          0,
+          u32(0),
+          ascii(isVideo ? "vide" : "soun"),
+          zeros(12),
+          ascii(isVideo ? "VideoHandler\0" : "SoundHandler\0"),
+        ),
+        box(
+          "minf",
+          isVideo ? fullBox("vmhd", 0, 1, zeros(8)) : fullBox("smhd", 0, 0, zeros(4)),
+          box("dinf", fullBox("dref", 0, 0, u32(1), fullBox("url ", 0, 1))),
+          box(
+            "stbl",
+            fullBox("stsd", 0, 0, u32(1), buildSampleEntry(track)),
+            fullBox("stts", 0, 0, u32(timeToSample.length / 2), ...timeToSample),
+            ...(isVideo ? [fullBox("stss", 0, 0, u32(syncSamples.length), ...syncSamples)] : []),
+            // Every sample is its own chunk, which keeps the tables trivially simple.
+            fullBox("stsc", 0, 0, u32(1), u32(1), u32(1), u32(1)),
+            fullBox(
+              "stsz",
+              0,
+              0,
+              u32(0),
+              u32(track.samples.length),
+              ...track.samples.map((sample) => u32(sample.data.length)),
+            ),
+            fullBox("co64", 0, 0, u32(offsets.length), ...offsets.map(u64)),
+          ),
+        ),
+      ),
+    );
+  };
+
+  /** Lays out the file. `duration` is in seconds. */
+  const finalize = (duration: number) => {
+    const tracks = audio ? [video, audio] : [video];
+    // Samples are interleaved in time order so players never seek far to stay in sync.
+    const ordered = tracks
+      .flatMap((track) => track.samples.map((sample) => ({ track, sample })))
+      .sort((a, b) => a.sample.timestamp - b.sample.timestamp || a.track.id - b.track.id);
+
+    const ftyp = box("ftyp", ascii("isom"), u32(0x200), ascii("isomiso2avc1mp41"));
+    const buildMoov = (offsets: Map<Sample, number>) =>
+      box(
+        "moov",
+        fullBox(
+          "mvhd",
+          0,
+          0,
+          u32(0),
+          u32(0),
+          u32(MOVIE_TIMESCALE),
+          u32(Math.round(duration * MOVIE_TIMESCALE)),
+          u32(0x00010000),
+          u16(0x0100),
+          zeros(10),
+          MATRIX,
+          zeros(24),
+          u32(tracks.length + 1),
+        ),
+        ...tracks.map((track) =>
+          buildTrack(
+            track,
+            track.samples.map((sample) => offsets.get(sample) ?? 0),
+            duration,
+          ),
+        ),
+      );
+
+    // co64 entries are fixed width, so moov has the same size before and after offsets are known.
+    const moovSize = buildMoov(new Map()).length;
+    const mdatHeaderSize = 16;
+    const mdatSize = ordered.reduce((total, { sample }) => total + sample.data.length, 0);
+    const offsets = new Map<Sample, number>();
+    let position = ftyp.length + moovSize + mdatHeaderSize;
+    for (const { sample } of ordered) {
+      offsets.set(sample, position);
+      position += sample.data.length;
+    }
+    const mdatHeader = concat([u32(1), ascii("mdat"), u64(mdatSize + mdatHeaderSize)]);
+    return new Blob(
+      [ftyp, buildMoov(offsets), mdatHeader, ...ordered.map(({ sample }) => sample.data)],
+      { type: "video/mp4" },
+    );
+  };
+
+  return { addVideoChunk, addAudioChunk, finalize };
+};
+
+export type Mp4Muxer = ReturnType<typeof createMp4Muxer>;
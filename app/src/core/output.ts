@@ -0,0 +1,111 @@
+export type OutputPresetId =
+  "landscape-720p" | "landscape-1080p" | "landscape-4k" | "vertical-1080p" | "square-1080p";
+
+/**
+ * Frame size, frame rate and video bitrate of the rendered file. `preset`
+ * becomes "custom" as soon as any value is changed by hand.
+ */
+export type OutputSettings = {
+  preset: OutputPresetId | "custom";
+  width: number;
+  height: number;
+  fps: number;
+  /** Target video bitrate in bits per second. */
+  bitrate: number;
+};
+
+/** Pixel rectangle inside the frame that text is kept within. */
+export type SafeArea = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+type SafeAreaInsets = { top: number; right: number; bottom: number; left: number };
+
+export const OUTPUT_PRESET_OPTIONS: {
+  value: OutputPresetId;
+  label: string;
+  settings: Omit<OutputSettings, "preset">;
+}[] = [
+  {
+    value: "landscape-720p",
+    label: "Landscape 720p (16:9)",
+    settings: { width: 1280, height: 720, fps: 30, bitrate: 6_000_000 },
+  },
+  {
+    value: "landscape-1080p",
+    label: "Landscape 1080p (16:9)",
+    settings: { width: 1920, height: 1080, fps: 30, bitrate: 10_000_000 },
+  },
+  {
+    value: "landscape-4k",
+    label: "Landscape 4K (16:9)",
+    settings: { width: 3840, height: 2160, fps: 30, bitrate: 35_000_000 },
+  },
+  {
+    value: "vertical-1080p",
+    label: "Vertical 1080p (9:16)",
+    settings: { width: 1080, height: 1920, fps: 30, bitrate: 10_000_000 },
+  },
+  {
+    value: "square-1080p",
+    label: "Square 1080p (1:1)",
+    settings: { width: 1080, height: 1080, fps: 30, bitrate: 8_000_000 },
+  },
+];
+
+export const FPS_OPTIONS = [24, 25, 30, 50, 60];
+
+export const MIN_OUTPUT_SIZE = 240;
+export const MAX_OUTPUT_SIZE = 3840;
+export const MIN_BITRATE = 500_000;
+export const MAX_BITRATE = 80_000_000;
+
+/**
+ * Font sizes, corner radii and other pixel values on layers are authored for
+ * a frame whose short side is this long and scaled for other sizes.
+ */
+export const LAYOUT_REFERENCE_SIZE = 720;
+
+const LANDSCAPE_SAFE_INSETS: SafeAreaInsets = { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 };
+
+/** Vertical video keeps clear of the captions and buttons social apps draw over it. */
+const PORTRAIT_SAFE_INSETS: SafeAreaInsets = { top: 0.1, right: 0.06, bottom: 0.15, left: 0.06 };
+
+export const createOutputSettings = (preset: OutputPresetId = "landscape-720p"): OutputSettings => {
+  const option =
+    OUTPUT_PRESET_OPTIONS.find((item) => item.value === preset) ?? OUTPUT_PRESET_OPTIONS[0];
+  return { preset: option.value, ...option.settings };
+};
+
+/** Encoders need even dimensions, so sizes are rounded down to the nearest even number. */
+export const clampOutputSize = (value: number) =>
+  Math.floor(Math.min(MAX_OUTPUT_SIZE, Math.max(MIN_OUTPUT_SIZE, value || MIN_OUTPUT_SIZE)) / 2) *
+  2;
+
+export const clampBitrate = (value: number) =>
+  Math.round(Math.min(MAX_BITRATE, Math.max(MIN_BITRATE, value || MIN_BITRATE)));
+
+export const getLayoutScale = (width: number, height: number) =>
+  Math.min(width, height) / LAYOUT_REFERENCE_SIZE;
+
+export const getSafeArea = (width: number, height: number): SafeArea => {
+  const insets = height > width ? PORTRAIT_SAFE_INSETS : LANDSCAPE_SAFE_INSETS;
+  return {
+    x: width * insets.left,
+    y: height * insets.top,
+    width: width * (1 - insets.left - insets.right),
+    height: height * (1 - insets.top - insets.bottom),
+  };
+};
+
+const getGreatestCommonDivisor = (a: number, b: number): number =>
+  b ? getGreatestCommonDivisor(b, a % b) : a;
+
+/** "16:9", "9:16", "1:1"… for display next to custom sizes. */
+export const getAspectRatioLabel = (width: number, height: number) => {
+  const divisor = getGreatestCommonDivisor(width, height) || 1;
+  return `${width / divisor}:${height / divisor}`;
+};
@@ -0,0 +1,885 @@
+import type { AudioClip, AudioSettings, MusicTrack, VoiceOver } from "./audio";
+import { MAX_CLIP_VOLUME, createAudioSettings } from "./audio";
+import type {
+  BackgroundGradient,
+  BackgroundType,
+  GradientKind,
+  MediaBackdrop,
+  MediaFit,
+} from "./backgrounds";
+import {
+  BACKGROUND_TYPE_OPTIONS,
+  GRADIENT_KIND_OPTIONS,
+  MEDIA_FIT_OPTIONS,
+  MIN_GRADIENT_STOPS,
+  createMediaBackdrop,
+} from "./backgrounds";
+import type { EasingName } from "./easing";
+import { EASING_OPTIONS } from "./easing";
+import type { CustomFont } from "./fonts";
+import { generateId } from "./ids";
+import type {
+  Layer,
+  LayerFrame,
+  LayerKind,
+  TextAlign,
+  TextLayer,
+  TextOutline,
+  TextRole,
+} from "./layers";
+import {
+  LAYER_KIND_OPTIONS,
+  createImageLayer,
+  createLogoLayer,
+  createShapeLayer,
+  createTextLayer,
+  createWatermarkLayer,
+} from "./layers";
+import type { CameraFrame, CameraMotion, MotionPreset } from "./motion";
+import { MAX_CAMERA_ZOOM, MIN_CAMERA_ZOOM, MOTION_PRESET_OPTIONS, createMotion } from "./motion";
+import type { OutputPresetId, OutputSettings } from "./output";
+import {
+  FPS_OPTIONS,
+  OUTPUT_PRESET_OPTIONS,
+  clampBitrate,
+  clampOutputSize,
+  createOutputSettings,
+} from "./output";
+import type { LegacySlide, Slide } from "./slides";
+import { createDefaultSlides, migrateLegacySlide } from "./slides";
+import type { TextAnimation, TextAnimationPhase, TextEffect } from "./textAnimation";
+import { TEXT_EFFECT_OPTIONS } from "./textAnimation";
+import type { TextShadow, ThemeId, ThemeOverrides } from "./themes";
+import { DEFAULT_THEME_ID, OVERLAY_OPTIONS, POSITION_OPTIONS, THEME_OPTIONS } from "./themes";
+import type { SlideTransition, TransitionDirection, TransitionType } from "./transitions";
+import { DIRECTION_OPTIONS, TRANSITION_OPTIONS, createDefaultTransition } from "./transitions";
+import type { BackgroundVideo, VideoEndBehavior } from "./video";
+import { VIDEO_END_OPTIONS } from "./video";
+
+export const PROJECT_FORMAT = "storyforge-project";
+
+/**
+ * Version history:
+ * 1. Scenes with a fixed title and subtitle, no soundtrack.
+ * 2. Layer stacks, soundtrack settings and embedded assets.
+ * 3. Output size, frame rate and bitrate.
+ * 4. Project theme, per-scene style overrides and title/subtitle roles on text layers.
+ * 5. Video backgrounds.
+ * 6. Gradient backgrounds, and fit and adjustments for image and video backgrounds.
+ * 7. Uploaded fonts, and typography and fitting settings on text layers.
+ * 8. Scene descriptions (alt text).
+ */
+export const PROJECT_VERSION = 8;
+
+export type Project = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  slides: Slide[];
+  audio: AudioSettings;
+  output: OutputSettings;
+  themeId: ThemeId;
+  fonts: CustomFont[];
+};
+
+export type ProjectAsset = {
+  mimeType: string;
+  /** Data URL holding the file contents. */
+  data: string;
+};
+
+/**
+ * Portable representation of a project. Uploaded media is stored once in
+ * `assets` and referenced from scenes as `asset:<id>`; remote URLs are kept as is.
+ */
+export type ProjectFile = Omit<Project, "slides"> & {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  slides: Slide[];
+  assets: Record<string, ProjectAsset>;
+};
+
+/** Raised when a project file cannot be read; `path` points at the offending field. */
+export class ProjectFileError extends Error {
+  readonly path: string | null;
+
+  constructor(message: string, path: string | null = null) {
+    super(path ? `${message} (at ${path})` : message);
+    this.name = "ProjectFileError";
+    this.path = path;
+  }
+}
+
+export const createProject = (data: Partial<Omit<Project, "id">> = {}): Project => {
+  const now = Date.now();
+  return {
+    id: generateId(),
+    name: "Untitled project",
+    createdAt: now,
+    updatedAt: now,
+    slides: createDefaultSlides(),
+    audio: createAudioSettings(),
+    output: createOutputSettings(),
+    themeId: DEFAULT_THEME_ID,
+    fonts: [],
+    ...data,
+  };
+};
+
+const ASSET_PREFIX = "asset:";
+
+/** Cheap content hash so the same upload used twice is embedded once. */
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${value.length.toString(36)}`;
+};
+
+const getDataUrlMimeType = (dataUrl: string) =>
+  /^data:([^;,]+)/.exec(dataUrl)?.[1] ?? "application/octet-stream";
+
+export type ProjectMedia = Pick<Project, "slides" | "audio" | "fonts">;
+
+/** Rewrites every media source in the project (backgrounds, layer images, audio, fonts). */
+export const mapSources = (
+  { slides, audio, fonts }: ProjectMedia,
+  map: (src: string) => string,
+): ProjectMedia => ({
+  slides: slides.map((slide) => ({
+    ...slide,
+    backgroundValue:
+      slide.backgroundType === "color" ? slide.backgroundValue : map(slide.backgroundValue),
+    layers: slide.layers.map((layer) =>
+      "src" in layer ? { ...layer, src: map(layer.src) } : layer,
+    ),
+    voiceOver: slide.voiceOver ? { ...slide.voiceOver, src: map(slide.voiceOver.src) } : null,
+  })),
+  audio: { ...audio, music: audio.music.map((track) => ({ ...track, src: map(track.src) })) },
+  fonts: fonts.map((font) => ({ ...font, src: map(font.src) })),
+});
+
+export const toProjectFile = (project: Project): ProjectFile => {
+  const assets: Record<string, ProjectAsset> = {};
+  const { slides, audio, fonts } = mapSources(project, (src) => {
+    if (!src.startsWith("data:")) return src;
+    const id = hashString(src);
+    assets[id] = { mimeType: getDataUrlMimeType(src), data: src };
+    return `${ASSET_PREFIX}${id}`;
+  });
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    slides,
+    audio,
+    output: project.output,
+    themeId: project.themeId,
+    fonts,
+    assets,
+  };
+};
+
+export const serializeProject = (project: Project) =>
+  JSON.stringify(toProjectFile(project), null, 2);
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const expectObject = (value: unknown, path: string) => {
+  if (!isObject(value)) throw new ProjectFileError("Expected an object", path);
+  return value;
+};
+
+const expectArray = (value: unknown, path: string) => {
+  if (!Array.isArray(value)) throw new ProjectFileError("Expected a list", path);
+  return value as unknown[];
+};
+
+const expectString = (value: unknown, path: string) => {
+  if (typeof value !== "string") throw new ProjectFileError("Expected text", path);
+  return value;
+};
+
+const expectNumber = (value: unknown, path: string) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ProjectFileError("Expected a number", path);
+  }
+  return value;
+};
+
+const expectOneOf = <T extends string>(value: unknown, options: readonly T[], path: string) => {
+  if (!options.includes(value as T)) {
+    throw new ProjectFileError(`Expected one of ${options.join(", ")}`, path);
+  }
+  return value as T;
+};
+
+const expectBoolean = (value: unknown, path: string) => {
+  if (typeof value !== "boolean") throw new ProjectFileError("Expected true or false", path);
+  return value;
+};
+
+/** Reads `value` with `read`, or falls back to `fallback` when it is missing. */
+const readOptional = <T>(value: unknown, fallback: T, read: (value: unknown) => T) =>
+  value == null ? fallback : read(value);
+
+const readNullable = <T>(value: unknown, read: (value: unknown) => T) =>
+  value == null ? null : read(value);
+
+const clampNumber = (value: unknown, path: string, min: number, max = Infinity) =>
+  Math.min(max, Math.max(min, expectNumber(value, path)));
+
+const migrateTextLayerStyle = (layer: unknown) => {
+  if (!isObject(layer) || layer.kind !== "text") return layer;
+  return {
+    ...layer,
+    role: layer.name === "Title" ? "title" : layer.name === "Subtitle" ? "subtitle" : null,
+    fontFamily: null,
+    color: layer.color === "#f8fafc" ? null : layer.color,
+    align: layer.align === "left" ? null : layer.align,
+  };
+};
+
+/** Upgrades a file one version at a time until it matches PROJECT_VERSION. */
+const MIGRATIONS: Record<number, (file: JsonObject) => JsonObject> = {
+  1: (file) => ({
+    ...file,
+    version: 2,
+    slides: expectArray(file.slides, "slides").map((slide) =>
+      isObject(slide) && !Array.isArray(slide.layers)
+        ? migrateLegacySlide(slide as unknown as LegacySlide)
+        : slide,
+    ),
+    audio: file.audio ?? createAudioSettings(),
+    assets: file.assets ?? {},
+  }),
+  // Everything before format 3 was rendered at 1280×720, 30 fps.
+  2: (file) => ({ ...file, version: 3, output: createOutputSettings("landscape-720p") }),
+  // Text that used the old built-in look now follows the Midnight theme, which matches it.
+  3: (file) => ({
+    ...file,
+    version: 4,
+    themeId: DEFAULT_THEME_ID,
+    slides: expectArray(file.slides, "slides").map((slide) =>
+      isObject(slide) && Array.isArray(slide.layers)
+        ? { ...slide, themeOverrides: {}, layers: slide.layers.map(migrateTextLayerStyle) }
+        : slide,
+    ),
+  }),
+  4: (file) => ({
+    ...file,
+    version: 5,
+    slides: expectArray(file.slides, "slides").map((slide) =>
+      isObject(slide) ? { ...slide, backgroundVideo: null } : slide,
+    ),
+  }),
+  // Image backgrounds were always cover-fit and unadjusted, which is the default backdrop.
+  5: (file) => ({
+    ...file,
+    version: 6,
+    slides: expectArray(file.slides, "slides").map((slide) =>
+      isObject(slide)
+        ? { ...slide, backgroundGradient: null, backgroundMedia: createMediaBackdrop() }
+        : slide,
+    ),
+  }),
+  // Text layers pick up the new typography defaults when they are read.
+  6: (file) => ({ ...file, version: 7, fonts: [] }),
+  7: (file) => ({
+    ...file,
+    version: 8,
+    slides: expectArray(file.slides, "slides").map((slide) =>
+      isObject(slide) ? { ...slide, altText: "" } : slide,
+    ),
+  }),
+};
+
+const migrateProjectFile = (file: JsonObject) => {
+  const version = expectNumber(file.version, "version");
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError(
+      `This project was saved by a newer version of Storyforge (format ${version}).`,
+    );
+  }
+  let migrated = file;
+  for (let step = version; step < PROJECT_VERSION; step++) {
+    const migrate = MIGRATIONS[step];
+    if (!migrate) throw new ProjectFileError(`Unsupported project format ${version}.`);
+    migrated = migrate(migrated);
+  }
+  return migrated;
+};
+
+/** Fields shared by voice-overs and music. */
+const readClip = (clip: JsonObject, path: string): AudioClip => {
+  const sourceDuration = clampNumber(clip.sourceDuration, `${path}.sourceDuration`, 0);
+  const trimStart = clampNumber(clip.trimStart, `${path}.trimStart`, 0);
+  return {
+    id: readOptional(clip.id, generateId(), (id) => expectString(id, `${path}.id`)),
+    name: readOptional(clip.name, "Audio", (name) => expectString(name, `${path}.name`)),
+    src: expectString(clip.src, `${path}.src`),
+    sourceDuration,
+    trimStart,
+    trimEnd: Math.min(
+      sourceDuration,
+      Math.max(trimStart, expectNumber(clip.trimEnd, `${path}.trimEnd`)),
+    ),
+    volume: clampNumber(clip.volume, `${path}.volume`, 0, MAX_CLIP_VOLUME),
+    fadeIn: readOptional(clip.fadeIn, 0, (fadeIn) => clampNumber(fadeIn, `${path}.fadeIn`, 0)),
+    fadeOut: readOptional(clip.fadeOut, 0, (fadeOut) => clampNumber(fadeOut, `${path}.fadeOut`, 0)),
+  };
+};
+
+const readVoiceOver = (value: unknown, path: string): VoiceOver => {
+  const clip = expectObject(value, path);
+  return {
+    ...readClip(clip, path),
+    delay: readOptional(clip.delay, 0, (delay) => clampNumber(delay, `${path}.delay`, 0)),
+  };
+};
+
+const readMusicTrack = (value: unknown, path: string): MusicTrack => {
+  const clip = expectObject(value, path);
+  return {
+    ...readClip(clip, path),
+    loop: readOptional(clip.loop, true, (loop) => expectBoolean(loop, `${path}.loop`)),
+  };
+};
+
+const EASINGS = EASING_OPTIONS.map((option) => option.value);
+
+const TRANSITION_TYPES = TRANSITION_OPTIONS.map((option) => option.value);
+
+const DIRECTIONS = DIRECTION_OPTIONS.map((option) => option.value);
+
+const readTransition = (value: unknown, path: string): SlideTransition => {
+  const defaults = createDefaultTransition();
+  if (value == null) return defaults;
+  const transition = expectObject(value, path);
+  return {
+    type: readOptional(transition.type, defaults.type, (type) =>
+      expectOneOf<TransitionType>(type, TRANSITION_TYPES, `${path}.type`),
+    ),
+    duration: readOptional(transition.duration, defaults.duration, (duration) =>
+      clampNumber(duration, `${path}.duration`, 0),
+    ),
+    easing: readOptional(transition.easing, defaults.easing, (easing) =>
+      expectOneOf<EasingName>(easing, EASINGS, `${path}.easing`),
+    ),
+    direction: readOptional(transition.direction, defaults.direction, (direction) =>
+      expectOneOf<TransitionDirection>(direction, DIRECTIONS, `${path}.direction`),
+    ),
+    color: readOptional(transition.color, defaults.color, (color) =>
+      expectString(color, `${path}.color`),
+    ),
+  };
+};
+
+const MOTION_PRESETS = MOTION_PRESET_OPTIONS.map((option) => option.value);
+
+const readCameraFrame = (value: unknown, path: string): CameraFrame => {
+  const frame = expectObject(value, path);
+  return {
+    x: clampNumber(frame.x, `${path}.x`, 0, 1),
+    y: clampNumber(frame.y, `${path}.y`, 0, 1),
+    zoom: clampNumber(frame.zoom, `${path}.zoom`, MIN_CAMERA_ZOOM, MAX_CAMERA_ZOOM),
+  };
+};
+
+const readMotion = (value: unknown, path: string): CameraMotion => {
+  if (value == null) return createMotion();
+  const motion = expectObject(value, path);
+  const preset = expectOneOf<MotionPreset>(motion.preset, MOTION_PRESETS, `${path}.preset`);
+  const defaults = createMotion(preset);
+  return {
+    preset,
+    start: readOptional(motion.start, defaults.start, (start) =>
+      readCameraFrame(start, `${path}.start`),
+    ),
+    end: readOptional(motion.end, defaults.end, (end) => readCameraFrame(end, `${path}.end`)),
+    easing: readOptional(motion.easing, defaults.easing, (easing) =>
+      expectOneOf<EasingName>(easing, EASINGS, `${path}.easing`),
+    ),
+  };
+};
+
+const readTextShadow = (value: unknown, path: string): TextShadow => {
+  const shadow = expectObject(value, path);
+  return {
+    color: expectString(shadow.color, `${path}.color`),
+    blur: expectNumber(shadow.blur, `${path}.blur`),
+    offsetY: expectNumber(shadow.offsetY, `${path}.offsetY`),
+  };
+};
+
+const TEXT_EFFECTS = TEXT_EFFECT_OPTIONS.map((option) => option.value);
+
+const readAnimationPhase = (
+  value: unknown,
+  path: string,
+  defaults: TextAnimationPhase,
+): TextAnimationPhase => {
+  if (value == null) return defaults;
+  const phase = expectObject(value, path);
+  return {
+    effect: readOptional(phase.effect, defaults.effect, (effect) =>
+      expectOneOf<TextEffect>(effect, TEXT_EFFECTS, `${path}.effect`),
+    ),
+    delay: readOptional(phase.delay, defaults.delay, (delay) =>
+      clampNumber(delay, `${path}.delay`, 0),
+    ),
+    duration: readOptional(phase.duration, defaults.duration, (duration) =>
+      clampNumber(duration, `${path}.duration`, 0),
+    ),
+    easing: readOptional(phase.easing, defaults.easing, (easing) =>
+      expectOneOf<EasingName>(easing, EASINGS, `${path}.easing`),
+    ),
+  };
+};
+
+const readTextAnimation = (
+  value: unknown,
+  path: string,
+  defaults: TextAnimation,
+): TextAnimation => {
+  if (value == null) return defaults;
+  const animation = expectObject(value, path);
+  return {
+    enter: readAnimationPhase(animation.enter, `${path}.enter`, defaults.enter),
+    exit: readAnimationPhase(animation.exit, `${path}.exit`, defaults.exit),
+  };
+};
+
+const readFrame = (layer: JsonObject, path: string, defaults: LayerFrame): LayerFrame => ({
+  id: readOptional(layer.id, defaults.id, (id) => expectString(id, `${path}.id`)),
+  name: readOptional(layer.name, defaults.name, (name) => expectString(name, `${path}.name`)),
+  x: expectNumber(layer.x, `${path}.x`),
+  y: expectNumber(layer.y, `${path}.y`),
+  width: clampNumber(layer.width, `${path}.width`, 0),
+  height: clampNumber(layer.height, `${path}.height`, 0),
+  rotation: readOptional(layer.rotation, defaults.rotation, (rotation) =>
+    expectNumber(rotation, `${path}.rotation`),
+  ),
+  opacity: readOptional(layer.opacity, defaults.opacity, (opacity) =>
+    clampNumber(opacity, `${path}.opacity`, 0, 1),
+  ),
+  start: readNullable(layer.start, (start) => clampNumber(start, `${path}.start`, 0)),
+  end: readNullable(layer.end, (end) => clampNumber(end, `${path}.end`, 0)),
+});
+
+const TEXT_ALIGNS: TextAlign[] = ["left", "center", "right"];
+
+const readTextLayer = (layer: JsonObject, path: string): TextLayer => {
+  const defaults = createTextLayer();
+  return {
+    ...readFrame(layer, path, defaults),
+    kind: "text",
+    role: readNullable(layer.role, (role) =>
+      expectOneOf<TextRole>(role, ["title", "subtitle"], `${path}.role`),
+    ),
+    text: expectString(layer.text, `${path}.text`),
+    fontSize: readOptional(layer.fontSize, defaults.fontSize, (size) =>
+      clampNumber(size, `${path}.fontSize`, 1),
+    ),
+    fontWeight: readOptional(layer.fontWeight, defaults.fontWeight, (weight) =>
+      clampNumber(weight, `${path}.fontWeight`, 100, 900),
+    ),
+    fontFamily: readNullable(layer.fontFamily, (family) =>
+      expectString(family, `${path}.fontFamily`),
+    ),
+    color: readNullable(layer.color, (color) => expectString(color, `${path}.color`)),
+    align: readNullable(layer.align, (align) =>
+      expectOneOf<TextAlign>(align, TEXT_ALIGNS, `${path}.align`),
+    ),
+    lineHeight: readOptional(layer.lineHeight, defaults.lineHeight, (lineHeight) =>
+      clampNumber(lineHeight, `${path}.lineHeight`, 0.5),
+    ),
+    letterSpacing: readOptional(layer.letterSpacing, defaults.letterSpacing, (spacing) =>
+      expectNumber(spacing, `${path}.letterSpacing`),
+    ),
+    outline: readNullable(layer.outline, (value): TextOutline => {
+      const outline = expectObject(value, `${path}.outline`);
+      return {
+        color: expectString(outline.color, `${path}.outline.color`),
+        width: clampNumber(outline.width, `${path}.outline.width`, 0),
+      };
+    }),
+    shadow: readNullable(layer.shadow, (shadow) =>
+      shadow === "none" ? "none" : readTextShadow(shadow, `${path}.shadow`),
+    ),
+    highlight: readNullable(layer.highlight, (value) => {
+      const highlight = expectObject(value, `${path}.highlight`);
+      return {
+        color: expectString(highlight.color, `${path}.highlight.color`),
+        opacity: clampNumber(highlight.opacity, `${path}.highlight.opacity`, 0, 1),
+      };
+    }),
+    maxLines: readNullable(layer.maxLines, (lines) =>
+      Math.round(clampNumber(lines, `${path}.maxLines`, 1)),
+    ),
+    autoShrink: readOptional(layer.autoShrink, defaults.autoShrink, (autoShrink) =>
+      expectBoolean(autoShrink, `${path}.autoShrink`),
+    ),
+    animation: readTextAnimation(layer.animation, `${path}.animation`, defaults.animation),
+  };
+};
+
+const LAYER_KINDS = LAYER_KIND_OPTIONS.map((option) => option.value);
+
+/** Validates one layer; keys its kind doesn't have are dropped. */
+const readLayer = (value: unknown, path: string): Layer => {
+  const layer = expectObject(value, path);
+  const kind = expectOneOf<LayerKind>(layer.kind, LAYER_KINDS, `${path}.kind`);
+  switch (kind) {
+    case "text":
+      return readTextLayer(layer, path);
+    case "image": {
+      const defaults = createImageLayer();
+      return {
+        ...readFrame(layer, path, defaults),
+        kind,
+        src: expectString(layer.src, `${path}.src`),
+        fit: readOptional(layer.fit, defaults.fit, (fit) =>
+          expectOneOf(fit, ["cover", "contain"], `${path}.fit`),
+        ),
+      };
+    }
+    case "shape": {
+      const defaults = createShapeLayer();
+      return {
+        ...readFrame(layer, path, defaults),
+        kind,
+        shape: readOptional(layer.shape, defaults.shape, (shape) =>
+          expectOneOf(shape, ["rectangle", "ellipse"], `${path}.shape`),
+        ),
+        fill: readOptional(layer.fill, defaults.fill, (fill) => expectString(fill, `${path}.fill`)),
+        cornerRadius: readOptional(layer.cornerRadius, defaults.cornerRadius, (radius) =>
+          clampNumber(radius, `${path}.cornerRadius`, 0),
+        ),
+      };
+    }
+    case "logo":
+      return {
+        ...readFrame(layer, path, createLogoLayer()),
+        kind,
+        src: expectString(layer.src, `${path}.src`),
+      };
+    case "watermark": {
+      const defaults = createWatermarkLayer();
+      return {
+        ...readFrame(layer, path, defaults),
+        kind,
+        text: expectString(layer.text, `${path}.text`),
+        fontSize: readOptional(layer.fontSize, defaults.fontSize, (size) =>
+          clampNumber(size, `${path}.fontSize`, 1),
+        ),
+        color: readOptional(layer.color, defaults.color, (color) =>
+          expectString(color, `${path}.color`),
+        ),
+      };
+    }
+  }
+};
+
+const OVERLAYS = OVERLAY_OPTIONS.map((option) => option.value);
+
+const POSITIONS = POSITION_OPTIONS.map((option) => option.value);
+
+/** Keys a scene leaves unset follow the project theme. */
+const readThemeOverrides = (value: unknown, path: string): ThemeOverrides => {
+  if (value == null) return {};
+  const overrides = expectObject(value, path);
+  const result: ThemeOverrides = {};
+  if (overrides.fontFamily != null) {
+    result.fontFamily = expectString(overrides.fontFamily, `${path}.fontFamily`);
+  }
+  if (overrides.textColor != null) {
+    result.textColor = expectString(overrides.textColor, `${path}.textColor`);
+  }
+  if (overrides.textShadow === null) {
+    result.textShadow = null;
+  } else if (overrides.textShadow !== undefined) {
+    result.textShadow = readTextShadow(overrides.textShadow, `${path}.textShadow`);
+  }
+  if (overrides.overlay != null) {
+    result.overlay = expectOneOf(overrides.overlay, OVERLAYS, `${path}.overlay`);
+  }
+  if (overrides.overlayColor != null) {
+    result.overlayColor = expectString(overrides.overlayColor, `${path}.overlayColor`);
+  }
+  if (overrides.overlayOpacity != null) {
+    result.overlayOpacity = clampNumber(overrides.overlayOpacity, `${path}.overlayOpacity`, 0, 1);
+  }
+  if (overrides.align != null) {
+    result.align = expectOneOf<TextAlign>(
+      overrides.align,
+      ["left", "center", "right"],
+      `${path}.align`,
+    );
+  }
+  if (overrides.position != null) {
+    result.position = expectOneOf(overrides.position, POSITIONS, `${path}.position`);
+  }
+  return result;
+};
+
+const VIDEO_END_BEHAVIORS = VIDEO_END_OPTIONS.map((option) => option.value);
+
+const readBackgroundVideo = (value: unknown, path: string): BackgroundVideo => {
+  const video = expectObject(value, path);
+  const sourceDuration = expectNumber(video.sourceDuration, `${path}.sourceDuration`);
+  const trimStart = Math.max(0, expectNumber(video.trimStart, `${path}.trimStart`));
+  return {
+    name: typeof video.name === "string" ? video.name : "Video",
+    sourceDuration,
+    trimStart,
+    trimEnd: Math.min(
+      sourceDuration,
+      Math.max(trimStart, expectNumber(video.trimEnd, `${path}.trimEnd`)),
+    ),
+    end: expectOneOf<VideoEndBehavior>(video.end, VIDEO_END_BEHAVIORS, `${path}.end`),
+    muted: video.muted !== false,
+    volume: readOptional(video.volume, 1, (volume) =>
+      clampNumber(volume, `${path}.volume`, 0, MAX_CLIP_VOLUME),
+    ),
+  };
+};
+
+const GRADIENT_KINDS = GRADIENT_KIND_OPTIONS.map((option) => option.value);
+
+const readGradient = (value: unknown, path: string): BackgroundGradient => {
+  const gradient = expectObject(value, path);
+  const stops = expectArray(gradient.stops, `${path}.stops`).map((stop, index) => {
+    const stopPath = `${path}.stops[${index}]`;
+    const { color, position } = expectObject(stop, stopPath);
+    return {
+      color: expectString(color, `${stopPath}.color`),
+      position: Math.min(1, Math.max(0, expectNumber(position, `${stopPath}.position`))),
+    };
+  });
+  if (stops.length < MIN_GRADIENT_STOPS) {
+    throw new ProjectFileError(
+      `Gradients need at least ${MIN_GRADIENT_STOPS} colour stops`,
+      `${path}.stops`,
+    );
+  }
+  return {
+    kind: expectOneOf<GradientKind>(gradient.kind, GRADIENT_KINDS, `${path}.kind`),
+    angle: expectNumber(gradient.angle, `${path}.angle`),
+    stops,
+    shift: gradient.shift == null ? 0 : Math.max(0, expectNumber(gradient.shift, `${path}.shift`)),
+  };
+};
+
+const MEDIA_FITS = MEDIA_FIT_OPTIONS.map((option) => option.value);
+
+const readMediaBackdrop = (value: unknown, path: string): MediaBackdrop => {
+  const defaults = createMediaBackdrop();
+  if (value == null) return defaults;
+  const backdrop = expectObject(value, path);
+  return {
+    fit: expectOneOf<MediaFit>(backdrop.fit, MEDIA_FITS, `${path}.fit`),
+    brightness:
+      backdrop.brightness == null
+        ? defaults.brightness
+        : Math.max(0, expectNumber(backdrop.brightness, `${path}.brightness`)),
+    blur:
+      backdrop.blur == null
+        ? defaults.blur
+        : Math.max(0, expectNumber(backdrop.blur, `${path}.blur`)),
+    tintColor:
+      backdrop.tintColor == null
+        ? defaults.tintColor
+        : expectString(backdrop.tintColor, `${path}.tintColor`),
+    tintOpacity:
+      backdrop.tintOpacity == null
+        ? defaults.tintOpacity
+        : Math.min(1, Math.max(0, expectNumber(backdrop.tintOpacity, `${path}.tintOpacity`))),
+  };
+};
+
+const BACKGROUND_TYPES = BACKGROUND_TYPE_OPTIONS.map((option) => option.value);
+
+/** Validates one scene; brand kit files reuse it for their intro and outro. */
+export const readSlide = (value: unknown, path: string): Slide => {
+  const slide = expectObject(value, path);
+  expectString(slide.id, `${path}.id`);
+  if (expectNumber(slide.duration, `${path}.duration`) <= 0) {
+    throw new ProjectFileError("Scene duration must be greater than zero", `${path}.duration`);
+  }
+  const backgroundType = expectOneOf<BackgroundType>(
+    slide.backgroundType,
+    BACKGROUND_TYPES,
+    `${path}.backgroundType`,
+  );
+  if (backgroundType === "gradient" && slide.backgroundGradient == null) {
+    throw new ProjectFileError(
+      "Gradient backgrounds need colour stops",
+      `${path}.backgroundGradient`,
+    );
+  }
+  if (backgroundType === "video" && slide.backgroundVideo == null) {
+    throw new ProjectFileError(
+      "Video backgrounds need playback settings",
+      `${path}.backgroundVideo`,
+    );
+  }
+  return {
+    id: slide.id as string,
+    duration: slide.duration as number,
+    backgroundType,
+    backgroundValue: expectString(slide.backgroundValue, `${path}.backgroundValue`),
+    backgroundGradient:
+      slide.backgroundGradient == null
+        ? null
+        : readGradient(slide.backgroundGradient, `${path}.backgroundGradient`),
+    backgroundMedia: readMediaBackdrop(slide.backgroundMedia, `${path}.backgroundMedia`),
+    backgroundVideo:
+      slide.backgroundVideo == null
+        ? null
+        : readBackgroundVideo(slide.backgroundVideo, `${path}.backgroundVideo`),
+    transition: readTransition(slide.transition, `${path}.transition`),
+    motion: readMotion(slide.motion, `${path}.motion`),
+    layers: expectArray(slide.layers, `${path}.layers`).map((layer, index) =>
+      readLayer(layer, `${path}.layers[${index}]`),
+    ),
+    voiceOver: readNullable(slide.voiceOver, (voiceOver) =>
+      readVoiceOver(voiceOver, `${path}.voiceOver`),
+    ),
+    themeOverrides: readThemeOverrides(slide.themeOverrides, `${path}.themeOverrides`),
+    altText: expectString(slide.altText, `${path}.altText`),
+  };
+};
+
+export const readFont = (value: unknown, path: string): CustomFont => {
+  const font = expectObject(value, path);
+  return {
+    id: expectString(font.id, `${path}.id`),
+    name: expectString(font.name, `${path}.name`),
+    family: expectString(font.family, `${path}.family`),
+    src: expectString(font.src, `${path}.src`),
+  };
+};
+
+const readAudio = (value: unknown, path: string): AudioSettings => {
+  const defaults = createAudioSettings();
+  if (value == null) return defaults;
+  const audio = expectObject(value, path);
+  return {
+    music: expectArray(audio.music ?? [], `${path}.music`).map((track, index) =>
+      readMusicTrack(track, `${path}.music[${index}]`),
+    ),
+    duckLevel: readOptional(audio.duckLevel, defaults.duckLevel, (level) =>
+      clampNumber(level, `${path}.duckLevel`, 0, 1),
+    ),
+    duckFade: readOptional(audio.duckFade, defaults.duckFade, (fade) =>
+      clampNumber(fade, `${path}.duckFade`, 0),
+    ),
+  };
+};
+
+const OUTPUT_PRESETS = [...OUTPUT_PRESET_OPTIONS.map((option) => option.value), "custom"] as const;
+
+const readOutput = (value: unknown, path: string): OutputSettings => {
+  if (value == null) return createOutputSettings();
+  const output = expectObject(value, path);
+  const fps = expectNumber(output.fps, `${path}.fps`);
+  if (!FPS_OPTIONS.includes(fps)) {
+    throw new ProjectFileError(`Expected one of ${FPS_OPTIONS.join(", ")}`, `${path}.fps`);
+  }
+  return {
+    preset: expectOneOf<OutputPresetId | "custom">(output.preset, OUTPUT_PRESETS, `${path}.preset`),
+    width: clampOutputSize(expectNumber(output.width, `${path}.width`)),
+    height: clampOutputSize(expectNumber(output.height, `${path}.height`)),
+    fps,
+    bitrate: clampBitrate(expectNumber(output.bitrate, `${path}.bitrate`)),
+  };
+};
+
+/** Embedded files by id, in a Map so ids like `constructor` can't match inherited keys. */
+const readAssets = (value: unknown) => {
+  const assets = new Map<string, ProjectAsset>();
+  for (const [id, asset] of Object.entries(expectObject(value ?? {}, "assets"))) {
+    const entry = expectObject(asset, `assets.${id}`);
+    const data = expectString(entry.data, `assets.${id}.data`);
+    if (!data.startsWith("data:")) {
+      throw new ProjectFileError("Embedded assets must be data URLs", `assets.${id}.data`);
+    }
+    assets.set(id, {
+      mimeType: readOptional(entry.mimeType, getDataUrlMimeType(data), (mimeType) =>
+        expectString(mimeType, `assets.${id}.mimeType`),
+      ),
+      data,
+    });
+  }
+  return assets;
+};
+
+/**
+ * Validates, migrates and resolves a decoded project file. Throws
+ * ProjectFileError describing the first problem found.
+ */
+export const readProjectFile = (value: unknown): Project => {
+  const raw = expectObject(value, "project");
+  if (raw.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError("This file is not a Storyforge project.");
+  }
+  const file = migrateProjectFile(raw);
+  const slides = expectArray(file.slides, "slides").map((slide, index) =>
+    readSlide(slide, `slides[${index}]`),
+  );
+  if (!slides.length) throw new ProjectFileError("A project needs at least one scene", "slides");
+  const assets = readAssets(file.assets);
+  const media = {
+    slides,
+    audio: readAudio(file.audio, "audio"),
+    fonts: expectArray(file.fonts, "fonts").map((font, index) => readFont(font, `fonts[${index}]`)),
+  };
+  const resolved = mapSources(media, (src) => {
+    if (!src.startsWith(ASSET_PREFIX)) return src;
+    const asset = assets.get(src.slice(ASSET_PREFIX.length));
+    if (!asset) throw new ProjectFileError(`Missing embedded asset "${src}"`);
+    return asset.data;
+  });
+  const now = Date.now();
+  return {
+    id: typeof file.id === "string" && file.id ? file.id : generateId(),
+    name: typeof file.name === "string" && file.name.trim() ? file.name : "Untitled project",
+    createdAt: typeof file.createdAt === "number" ? file.createdAt : now,
+    updatedAt: typeof file.updatedAt === "number" ? file.updatedAt : now,
+    ...resolved,
+    output: readOutput(file.output, "output"),
+    themeId: expectOneOf(
+      file.themeId,
+      THEME_OPTIONS.map((theme) => theme.id),
+      "themeId",
+    ),
+  };
+};
+
+export const parseProjectFile = (text: string) => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("This file is not valid JSON.");
+  }
+  return readProjectFile(value);
+};
+
+export const getProjectFileName = (project: Project) => {
+  const slug = project.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "storyforge-project"}.storyforge.json`;
+};
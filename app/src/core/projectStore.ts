@@ -0,0 +1,168 @@
+import type { LibraryAsset } from "./assets";
+import type { BrandKit, BrandKitFile } from "./brandKit";
+import { readBrandKitFile, toBrandKitFile } from "./brandKit";
+import type { Project, ProjectFile } from "./project";
+import { readProjectFile, toProjectFile } from "./project";
+import type { ShareOwnership } from "./sharing";
+
+const DB_NAME = "storyforge";
+/** 2 added the asset library, 3 the brand kit, 4 share ownership. */
+const DB_VERSION = 4;
+const PROJECT_STORE = "projects";
+const ASSET_STORE = "assets";
+const BRAND_STORE = "brand";
+/** There is one brand kit per browser, kept under this key. */
+const BRAND_KIT_KEY = "kit";
+/** Owner keys of shared projects, by project id; kept out of projects so exports don't carry them. */
+const SHARE_STORE = "shares";
+
+export type ProjectSummary = {
+  id: string;
+  name: string;
+  updatedAt: number;
+  sceneCount: number;
+};
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "error";
+
+/** Autosaved projects are kept in file form so loading them runs the same migrations as imports. */
+type StoredProject = ProjectSummary & {
+  file: ProjectFile;
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("This browser does not support local project storage."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const database = request.result;
+        if (event.oldVersion < 1) {
+          const store = database.createObjectStore(PROJECT_STORE, { keyPath: "id" });
+          store.createIndex("updatedAt", "updatedAt");
+        }
+        if (event.oldVersion < 2) {
+          // Keyed by project and content hash, so an upload used twice in a project is stored once.
+          const store = database.createObjectStore(ASSET_STORE, { keyPath: ["projectId", "id"] });
+          store.createIndex("projectId", "projectId");
+        }
+        if (event.oldVersion < 3) {
+          database.createObjectStore(BRAND_STORE);
+        }
+        if (event.oldVersion < 4) {
+          database.createObjectStore(SHARE_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = PROJECT_STORE,
+) => {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = createRequest(database.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveProject = async (project: Project) => {
+  const record: StoredProject = {
+    id: project.id,
+    name: project.name,
+    updatedAt: project.updatedAt,
+    sceneCount: project.slides.length,
+    file: toProjectFile(project),
+  };
+  await runRequest("readwrite", (store) => store.put(record));
+};
+
+export const loadProject = async (id: string) => {
+  const record = await runRequest<StoredProject | undefined>("readonly", (store) => store.get(id));
+  return record ? readProjectFile(record.file) : null;
+};
+
+/** Most recently edited first. */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await runRequest<StoredProject[]>("readonly", (store) => store.getAll());
+  return records
+    .map(({ id, name, updatedAt, sceneCount }) => ({ id, name, updatedAt, sceneCount }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/** Removes the project, every asset in its library and the key to its share; the share stays up. */
+export const deleteProject = async (id: string) => {
+  await runRequest("readwrite", (store) => store.delete(id));
+  await runRequest("readwrite", (store) => store.delete(id), SHARE_STORE);
+  const assetIds = await runRequest<IDBValidKey[]>(
+    "readonly",
+    (store) => store.index("projectId").getAllKeys(id),
+    ASSET_STORE,
+  );
+  await Promise.all(
+    assetIds.map((key) => runRequest("readwrite", (store) => store.delete(key), ASSET_STORE)),
+  );
+};
+
+export const saveAsset = async (asset: LibraryAsset) => {
+  await runRequest("readwrite", (store) => store.put(asset), ASSET_STORE);
+};
+
+/** Oldest first, the order they were added in. */
+export const listAssets = async (projectId: string) => {
+  const assets = await runRequest<LibraryAsset[]>(
+    "readonly",
+    (store) => store.index("projectId").getAll(projectId),
+    ASSET_STORE,
+  );
+  return assets.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteAsset = async (projectId: string, id: string) => {
+  await runRequest("readwrite", (store) => store.delete([projectId, id]), ASSET_STORE);
+};
+
+export const saveBrandKit = async (kit: BrandKit) => {
+  await runRequest(
+    "readwrite",
+    (store) => store.put(toBrandKitFile(kit), BRAND_KIT_KEY),
+    BRAND_STORE,
+  );
+};
+
+/** The saved brand kit, or null if none has been set up yet. */
+export const loadBrandKit = async () => {
+  const file = await runRequest<BrandKitFile | undefined>(
+    "readonly",
+    (store) => store.get(BRAND_KIT_KEY),
+    BRAND_STORE,
+  );
+  return file ? readBrandKitFile(file) : null;
+};
+
+export const saveShareOwnership = async (projectId: string, ownership: ShareOwnership) => {
+  await runRequest("readwrite", (store) => store.put(ownership, projectId), SHARE_STORE);
+};
+
+/** The share this browser made of the project, or null if it hasn't shared it. */
+export const loadShareOwnership = async (projectId: string) =>
+  (await runRequest<ShareOwnership | undefined>(
+    "readonly",
+    (store) => store.get(projectId),
+    SHARE_STORE,
+  )) ?? null;
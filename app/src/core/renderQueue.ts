@@ -0,0 +1,198 @@
+import { getAssetUrls } from "./assets";
+import type { AudioSettings } from "./audio";
+import type { ExportFormat, ExportSettings } from "./exportFormats";
+import { getExportFormatOption } from "./exportFormats";
+import type { CustomFont } from "./fonts";
+import { registerFonts } from "./fonts";
+import { generateId } from "./ids";
+import type { OutputSettings } from "./output";
+import { createDrawingContext } from "./renderer";
+import type { RenderWorkerMessage, RenderWorkerRequest } from "./renderWorker";
+import type { TimelineEntry } from "./transitions";
+import type { AudioMix, ExportMethod, VideoExport } from "./videoExport";
+import { exportVideo, renderExportAudio } from "./videoExport";
+
+export type RenderJobStatus = "queued" | "rendering" | "done" | "failed" | "cancelled";
+
+/** "worker" renders off the page; "page" is the fallback for what a worker can't draw. */
+export type RenderRunner = "worker" | "page";
+
+/** The project as it was when the job was queued, so edits made meanwhile don't leak in. */
+export type RenderJobInput = {
+  timeline: TimelineEntry[];
+  audio: AudioSettings;
+  output: OutputSettings;
+  settings: ExportSettings;
+  fonts: CustomFont[];
+};
+
+export type RenderJobResult = {
+  /** Object URL of the file; revoked when the job is removed. */
+  url: string;
+  fileName: string;
+  format: ExportFormat;
+  method: ExportMethod;
+  runner: RenderRunner;
+  size: number;
+};
+
+export type RenderJob = {
+  id: string;
+  label: string;
+  input: RenderJobInput;
+  status: RenderJobStatus;
+  /** Finished fraction, 0–1. */
+  progress: number;
+  /** Timestamps in milliseconds. */
+  queuedAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  result: RenderJobResult | null;
+  error: string | null;
+};
+
+const getRenderJobLabel = ({ output, settings }: RenderJobInput) => {
+  const format = getExportFormatOption(settings.format).label;
+  if (settings.format === "gif")
+    return `${format} · ${settings.gif.width}px · ${settings.gif.fps} fps`;
+  const fps =
+    settings.format === "png-sequence" ? (settings.pngSequence.fps ?? output.fps) : output.fps;
+  return `${format} · ${output.width}×${output.height} · ${fps} fps`;
+};
+
+export const createRenderJob = (input: RenderJobInput): RenderJob => ({
+  id: generateId(),
+  label: getRenderJobLabel(input),
+  input,
+  status: "queued",
+  progress: 0,
+  queuedAt: Date.now(),
+  startedAt: null,
+  finishedAt: null,
+  result: null,
+  error: null,
+});
+
+export const isRenderJobActive = (job: RenderJob) =>
+  job.status === "queued" || job.status === "rendering";
+
+/** Seconds left, extrapolated from the pace so far; null until there is enough to go on. */
+export const getRenderEta = (job: RenderJob, now: number) => {
+  if (job.status !== "rendering" || job.startedAt === null || job.progress < 0.02) return null;
+  const elapsed = (now - job.startedAt) / 1000;
+  return (elapsed * (1 - job.progress)) / job.progress;
+};
+
+/**
+ * Workers can't decode video backgrounds (that needs a video element), so
+ * those projects render on the page.
+ */
+const canRenderInWorker = ({ timeline }: RenderJobInput) =>
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  !timeline.some(({ slide }) => slide.backgroundType === "video" && slide.backgroundVideo);
+
+const createAbortError = () => new DOMException("The render was cancelled.", "AbortError");
+
+/**
+ * Renders in a fresh worker, which is terminated on cancel so even a frame
+ * mid-draw stops at once. Resolves to null when the job needs the page instead.
+ */
+const renderInWorker = (
+  input: RenderJobInput,
+  mix: AudioMix | null,
+  onProgress: (ratio: number) => void,
+  signal: AbortSignal,
+) =>
+  new Promise<VideoExport | null>((resolve, reject) => {
+    signal.throwIfAborted();
+    const worker = new Worker(new URL("./renderWorker.ts", import.meta.url), { type: "module" });
+    const finish = () => {
+      worker.terminate();
+      signal.removeEventListener("abort", handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(createAbortError());
+    };
+    signal.addEventListener("abort", handleAbort);
+    worker.onmessage = (event: MessageEvent<RenderWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress(message.ratio);
+        return;
+      }
+      finish();
+      if (message.type === "done") {
+        const { blob, fileName, format, method } = message;
+        resolve({ blob, fileName, format, method });
+      } else if (message.type === "unsupported") resolve(null);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      // A worker that fails to start (an old browser or a blocked script) leaves the job to the page.
+      resolve(null);
+    };
+    // The mix is copied so the page still has it if the job falls back.
+    const channels = mix
+      ? Array.from({ length: mix.numberOfChannels }, (_, channel) =>
+          mix.getChannelData(channel).slice(),
+        )
+      : [];
+    const request: RenderWorkerRequest = {
+      timeline: input.timeline,
+      mix: mix ? { sampleRate: mix.sampleRate, channels } : null,
+      output: input.output,
+      settings: input.settings,
+      fonts: input.fonts,
+      assetUrls: getAssetUrls(),
+    };
+    worker.postMessage(
+      request,
+      channels.map((channel) => channel.buffer),
+    );
+  });
+
+const renderOnPage = async (
+  input: RenderJobInput,
+  mix: AudioMix | null,
+  onProgress: (ratio: number) => void,
+  signal: AbortSignal,
+) => {
+  registerFonts(input.fonts);
+  // A canvas of its own keeps the editor preview free while the job renders.
+  const ctx = createDrawingContext(input.output.width, input.output.height);
+  if (!ctx) throw new Error("Unable to draw video frames.");
+  return exportVideo({
+    canvas: ctx.canvas,
+    timeline: input.timeline,
+    mix,
+    output: input.output,
+    settings: input.settings,
+    onProgress,
+    signal,
+  });
+};
+
+/**
+ * Runs one job: mixes the audio on the page, which is the only place that
+ * can, then renders in a worker when possible and on the page otherwise.
+ * Rejects with an AbortError once `signal` is aborted.
+ */
+export const runRenderJob = async (
+  input: RenderJobInput,
+  onProgress: (ratio: number) => void,
+  signal: AbortSignal,
+): Promise<VideoExport & { runner: RenderRunner }> => {
+  const mix = await renderExportAudio(input.timeline, input.audio, input.settings);
+  signal.throwIfAborted();
+  if (canRenderInWorker(input)) {
+    const result = await renderInWorker(input, mix, onProgress, signal);
+    if (result) return { ...result, runner: "worker" };
+    onProgress(0);
+  }
+  const result = await renderOnPage(input, mix, onProgress, signal);
+  return { ...result, runner: "page" };
+};
@@ -0,0 +1,91 @@
+import { registerAssetUrls } from "./assets";
+import type { ExportFormat, ExportSettings } from "./exportFormats";
+import type { CustomFont } from "./fonts";
+import { registerFonts } from "./fonts";
+import type { OutputSettings } from "./output";
+import { createDrawingContext } from "./renderer";
+import type { TimelineEntry } from "./transitions";
+import type { AudioMix, ExportMethod } from "./videoExport";
+import { RealtimeExportError, exportVideo } from "./videoExport";
+
+/**
+ * Everything a worker needs to render one job; the mix is raw channel data
+ * and `assetUrls` are the page's object URLs for library assets.
+ */
+export type RenderWorkerRequest = {
+  timeline: TimelineEntry[];
+  mix: { sampleRate: number; channels: Float32Array<ArrayBuffer>[] } | null;
+  output: OutputSettings;
+  settings: ExportSettings;
+  fonts: CustomFont[];
+  assetUrls: Record<string, string>;
+};
+
+export type RenderWorkerMessage =
+  | { type: "progress"; ratio: number }
+  | { type: "done"; blob: Blob; fileName: string; format: ExportFormat; method: ExportMethod }
+  | { type: "error"; message: string }
+  /** The job has to be rendered on the page instead. */
+  | { type: "unsupported" };
+
+type WorkerScope = {
+  fonts?: FontFaceSet;
+  onmessage: ((event: MessageEvent<RenderWorkerRequest>) => void) | null;
+  postMessage: (message: RenderWorkerMessage) => void;
+};
+
+const scope = globalThis as unknown as WorkerScope;
+
+const toAudioMix = ({
+  sampleRate,
+  channels,
+}: NonNullable<RenderWorkerRequest["mix"]>): AudioMix => ({
+  sampleRate,
+  numberOfChannels: channels.length,
+  length: channels[0]?.length ?? 0,
+  getChannelData: (channel) => channels[channel],
+});
+
+const render = async ({
+  timeline,
+  mix,
+  output,
+  settings,
+  fonts,
+  assetUrls,
+}: RenderWorkerRequest) => {
+  // Without a worker font set, uploaded fonts would fall back to the default face.
+  if (fonts.length && !scope.fonts) {
+    scope.postMessage({ type: "unsupported" });
+    return;
+  }
+  registerAssetUrls(assetUrls);
+  registerFonts(fonts);
+  const ctx = createDrawingContext(output.width, output.height);
+  if (!ctx) {
+    scope.postMessage({ type: "unsupported" });
+    return;
+  }
+  try {
+    const result = await exportVideo({
+      canvas: ctx.canvas,
+      timeline,
+      mix: mix ? toAudioMix(mix) : null,
+      output,
+      settings,
+      onProgress: (ratio) => scope.postMessage({ type: "progress", ratio }),
+    });
+    scope.postMessage({ type: "done", ...result });
+  } catch (error) {
+    scope.postMessage(
+      error instanceof RealtimeExportError
+        ? { type: "unsupported" }
+        : {
+            type: "error",
+            message: error instanceof Error ? error.message : "Failed to render video.",
+          },
+    );
+  }
+};
+
+scope.onmessage = (event) => void render(event.data);
@@ -0,0 +1,895 @@
+import { resolveMediaSrc } from "./assets";
+import type { BackgroundGradient, MediaBackdrop } from "./backgrounds";
+import { getGradientStops, getLinearGradientLine, parseHexColor } from "./backgrounds";
+import type { BrandLogo } from "./brandKit";
+import { getLogoBox } from "./brandKit";
+import { clamp } from "./easing";
+import { loadFont } from "./fonts";
+import type { Layer, TextAlign, TextLayer } from "./layers";
+import { getLayerWindow, isLayerActive } from "./layers";
+import type { CameraMotion } from "./motion";
+import { getCoverSize, getMotionCrop } from "./motion";
+import type { SafeArea } from "./output";
+import { getLayoutScale, getSafeArea } from "./output";
+import type { Slide } from "./slides";
+import { getPosterTime } from "./slides";
+import type { TextAnimationState } from "./textAnimation";
+import { getTextAnimationState } from "./textAnimation";
+import type { MeasureText, TextLayout, TextLine, TextPiece } from "./textLayout";
+import { layoutText, parseRichText } from "./textLayout";
+import type { TextShadow, ThemeStyle } from "./themes";
+import type { TimelineEntry } from "./transitions";
+import { drawTransition, getTimelineDuration, resolveFrame } from "./transitions";
+import { drawVideoFrame, getVideoSourceTime } from "./video";
+
+export const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A page canvas, an OffscreenCanvas in a render worker, or a Node canvas on the server. */
+export type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export type DrawingCanvas = DrawingContext["canvas"];
+
+export type LoadedImage = HTMLImageElement | ImageBitmap;
+
+/**
+ * Where canvases and pictures come from. Pages and render workers use the
+ * browser's own; the server installs a Node canvas so it draws every frame
+ * with this same code.
+ */
+export type CanvasHost = {
+  createContext: (
+    width: number,
+    height: number,
+    settings?: CanvasRenderingContext2DSettings,
+  ) => DrawingContext | null;
+  loadImage: (src: string) => Promise<LoadedImage>;
+  toBlob: (canvas: DrawingCanvas, type: string) => Promise<Blob | null>;
+};
+
+const loadImageElement = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+const browserHost: CanvasHost = {
+  // Made off-screen when there is no document (in a worker).
+  createContext: (width, height, settings) => {
+    if (typeof document === "undefined") {
+      return new OffscreenCanvas(width, height).getContext("2d", settings);
+    }
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    return canvas.getContext("2d", settings);
+  },
+  loadImage: async (src) => {
+    // Workers have no `Image`, so they decode straight from the file.
+    if (typeof Image === "undefined") {
+      const response = await fetch(src);
+      return createImageBitmap(await response.blob());
+    }
+    const img = await loadImageElement(src);
+    if (typeof createImageBitmap === "undefined") return img;
+    // Some pictures (SVGs without a size) can't become bitmaps and are drawn from the element.
+    return createImageBitmap(img).catch(() => img);
+  },
+  toBlob: (canvas, type) =>
+    "convertToBlob" in canvas
+      ? canvas.convertToBlob({ type })
+      : new Promise((resolve) => canvas.toBlob(resolve, type)),
+};
+
+let canvasHost = browserHost;
+
+/** Enough for the pictures of the scenes around the playhead, and all of most projects. */
+const MAX_CACHED_IMAGES = 64;
+
+/**
+ * Decoded pictures by URL, least recently drawn first. Scenes draw the same
+ * images every frame, so each is fetched and decoded only once.
+ */
+const imageCache = new Map<string, Promise<LoadedImage>>();
+
+export const setCanvasHost = (host: CanvasHost) => {
+  canvasHost = host;
+  imageCache.clear();
+};
+
+/** A canvas of the given size from the current host. */
+export const createDrawingContext = (
+  width: number,
+  height: number,
+  settings?: CanvasRenderingContext2DSettings,
+) => canvasHost.createContext(width, height, settings);
+
+export const getDrawingContext = (canvas: DrawingCanvas) =>
+  canvas.getContext("2d") as DrawingContext | null;
+
+export const canvasToBlob = (canvas: DrawingCanvas, type: string) =>
+  canvasHost.toBlob(canvas, type);
+
+/** Loads `src` (a URL or library reference) once and reuses the decoded picture. */
+export const ensureImage = (src: string): Promise<LoadedImage> => {
+  const url = resolveMediaSrc(src);
+  let image = imageCache.get(url);
+  if (image) {
+    imageCache.delete(url);
+  } else {
+    image = canvasHost.loadImage(url);
+    image.catch(() => imageCache.delete(url));
+  }
+  imageCache.set(url, image);
+  // Evicted bitmaps aren't closed: a frame being drawn may still hold one.
+  for (const key of imageCache.keys()) {
+    if (imageCache.size <= MAX_CACHED_IMAGES) break;
+    imageCache.delete(key);
+  }
+  return image;
+};
+
+const getImageSize = (img: LoadedImage) =>
+  "naturalWidth" in img
+    ? { width: img.naturalWidth, height: img.naturalHeight }
+    : { width: img.width, height: img.height };
+
+/**
+ * Draws a single scene as it appears `time` seconds after the scene starts,
+ * filling whatever size `ctx.canvas` is. `style` is the scene's resolved theme;
+ * `logo` is burned in over everything else.
+ */
+export const drawSlide = async (
+  ctx: DrawingContext,
+  slide: Slide,
+  style: ThemeStyle,
+  time = 0,
+  logo: BrandLogo | null = null,
+) => {
+  if (!ctx) return;
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  const progress = slide.duration > 0 ? time / slide.duration : 0;
+  const drawBackdrop = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number) =>
+    drawMedia(
+      ctx,
+      source,
+      sourceWidth,
+      sourceHeight,
+      slide.backgroundMedia,
+      slide.motion,
+      progress,
+    );
+  if (slide.backgroundType === "color") {
+    ctx.fillStyle = slide.backgroundValue || "#111827";
+    ctx.fillRect(0, 0, width, height);
+  } else if (slide.backgroundType === "gradient" && slide.backgroundGradient) {
+    drawGradient(ctx, slide.backgroundGradient, progress);
+  } else if (slide.backgroundType === "image" && slide.backgroundValue) {
+    try {
+      const img = await ensureImage(slide.backgroundValue);
+      const size = getImageSize(img);
+      drawBackdrop(img, size.width, size.height);
+    } catch {
+      ctx.fillStyle = "#111827";
+      ctx.fillRect(0, 0, width, height);
+    }
+  } else if (slide.backgroundType === "video" && slide.backgroundValue && slide.backgroundVideo) {
+    try {
+      await drawVideoFrame(
+        slide.backgroundValue,
+        getVideoSourceTime(slide.backgroundVideo, time),
+        (video) => drawBackdrop(video, video.videoWidth, video.videoHeight),
+      );
+    } catch {
+      ctx.fillStyle = "#111827";
+      ctx.fillRect(0, 0, width, height);
+    }
+  } else {
+    ctx.fillStyle = "#111827";
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  drawOverlay(ctx, style);
+
+  for (const layer of slide.layers) {
+    await drawLayer(ctx, layer, time, slide.duration, style);
+  }
+
+  if (logo) await drawBrandLogo(ctx, logo);
+};
+
+/** A logo that fails to load is left out rather than failing the frame. */
+const drawBrandLogo = async (ctx: DrawingContext, logo: BrandLogo) => {
+  let img: LoadedImage;
+  try {
+    img = await ensureImage(logo.src);
+  } catch {
+    return;
+  }
+  const size = getImageSize(img);
+  const box = getLogoBox(logo, ctx.canvas.width, ctx.canvas.height, size.width, size.height);
+  ctx.save();
+  ctx.globalAlpha = logo.opacity;
+  ctx.drawImage(img, box.x, box.y, box.width, box.height);
+  ctx.restore();
+};
+
+/** Draws a scene's poster frame, the still used for thumbnails. */
+export const drawSlideThumbnail = (ctx: DrawingContext, slide: Slide, style: ThemeStyle) =>
+  drawSlide(ctx, slide, style, getPosterTime(slide));
+
+/** Turns a `#rgb` or `#rrggbb` colour into rgba() so gradients can fade it out. */
+const toRgba = (hex: string, alpha: number) => `rgba(${parseHexColor(hex).join(", ")}, ${alpha})`;
+
+const drawGradient = (ctx: DrawingContext, gradient: BackgroundGradient, progress: number) => {
+  const { width, height } = ctx.canvas;
+  let fill: CanvasGradient;
+  if (gradient.kind === "radial") {
+    const centerX = width / 2;
+    const centerY = height / 2;
+    fill = ctx.createRadialGradient(
+      centerX,
+      centerY,
+      0,
+      centerX,
+      centerY,
+      Math.hypot(width, height) / 2,
+    );
+  } else {
+    const line = getLinearGradientLine(gradient.angle, width, height);
+    fill = ctx.createLinearGradient(line.x0, line.y0, line.x1, line.y1);
+  }
+  for (const stop of getGradientStops(gradient, progress)) {
+    fill.addColorStop(clamp(stop.position, 0, 1), stop.color);
+  }
+  ctx.fillStyle = fill;
+  ctx.fillRect(0, 0, width, height);
+};
+
+/** Blur used behind a contained picture, at the 720p reference size. */
+const CONTAIN_FILL_BLUR = 24;
+
+const getMediaFilter = (brightness: number, blur: number) =>
+  brightness === 1 && blur <= 0 ? "none" : `brightness(${brightness}) blur(${blur}px)`;
+
+/**
+ * Draws an image or video frame as the scene background using the backdrop's
+ * fit, brightness, blur and tint. Camera motion applies to cover-fit pictures.
+ */
+const drawMedia = (
+  ctx: DrawingContext,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  backdrop: MediaBackdrop,
+  motion: CameraMotion,
+  progress: number,
+) => {
+  const { width, height } = ctx.canvas;
+  const scale = getLayoutScale(width, height);
+  const blur = backdrop.blur * scale;
+  // Blurring pulls transparent pixels in at the edges, so blurred pictures overhang the frame.
+  const drawOverFrame = (
+    crop: { x: number; y: number; width: number; height: number },
+    bleed: number,
+  ) =>
+    ctx.drawImage(
+      source,
+      crop.x,
+      crop.y,
+      crop.width,
+      crop.height,
+      -bleed,
+      -bleed,
+      width + bleed * 2,
+      height + bleed * 2,
+    );
+
+  ctx.save();
+  ctx.filter = getMediaFilter(backdrop.brightness, blur);
+  switch (backdrop.fit) {
+    case "cover": {
+      drawOverFrame(
+        getMotionCrop(motion, progress, sourceWidth, sourceHeight, width, height),
+        blur * 2,
+      );
+      break;
+    }
+    case "fill": {
+      drawOverFrame({ x: 0, y: 0, width: sourceWidth, height: sourceHeight }, blur * 2);
+      break;
+    }
+    case "contain": {
+      const fillBlur = Math.max(blur, CONTAIN_FILL_BLUR * scale);
+      const cover = getCoverSize(sourceWidth, sourceHeight, width, height);
+      ctx.filter = getMediaFilter(backdrop.brightness * 0.7, fillBlur);
+      drawOverFrame(
+        {
+          x: (sourceWidth - cover.width) / 2,
+          y: (sourceHeight - cover.height) / 2,
+          width: cover.width,
+          height: cover.height,
+        },
+        fillBlur * 2,
+      );
+      const fit = Math.min(width / sourceWidth, height / sourceHeight);
+      ctx.filter = getMediaFilter(backdrop.brightness, blur);
+      ctx.drawImage(
+        source,
+        (width - sourceWidth * fit) / 2,
+        (height - sourceHeight * fit) / 2,
+        sourceWidth * fit,
+        sourceHeight * fit,
+      );
+      break;
+    }
+    case "tile": {
+      const pattern = ctx.createPattern(source, "repeat");
+      if (!pattern) break;
+      // Tiles keep the same size relative to the frame at every output size.
+      pattern.setTransform(new DOMMatrix().scale(scale));
+      ctx.fillStyle = pattern;
+      ctx.fillRect(-blur * 2, -blur * 2, width + blur * 4, height + blur * 4);
+      break;
+    }
+  }
+  ctx.restore();
+
+  if (backdrop.tintOpacity > 0) {
+    ctx.fillStyle = toRgba(backdrop.tintColor, backdrop.tintOpacity);
+    ctx.fillRect(0, 0, width, height);
+  }
+};
+
+/** Darkens or tints the background so text stays readable on top of it. */
+const drawOverlay = (ctx: DrawingContext, style: ThemeStyle) => {
+  const { width, height } = ctx.canvas;
+  const solid = toRgba(style.overlayColor, style.overlayOpacity);
+  const clear = toRgba(style.overlayColor, 0);
+  let fill: string | CanvasGradient;
+  switch (style.overlay) {
+    case "bottom-gradient":
+    case "top-gradient": {
+      fill =
+        style.overlay === "bottom-gradient"
+          ? ctx.createLinearGradient(0, height, 0, height * 0.4)
+          : ctx.createLinearGradient(0, 0, 0, height * 0.6);
+      fill.addColorStop(0, solid);
+      fill.addColorStop(1, clear);
+      break;
+    }
+    case "vignette": {
+      const centerX = width / 2;
+      const centerY = height / 2;
+      fill = ctx.createRadialGradient(
+        centerX,
+        centerY,
+        Math.min(width, height) * 0.3,
+        centerX,
+        centerY,
+        Math.hypot(width, height) / 2,
+      );
+      fill.addColorStop(0, clear);
+      fill.addColorStop(1, solid);
+      break;
+    }
+    case "dim":
+      fill = solid;
+      break;
+    default:
+      return;
+  }
+  ctx.fillStyle = fill;
+  ctx.fillRect(0, 0, width, height);
+};
+
+type Box = { x: number; y: number; width: number; height: number };
+
+/**
+ * Moves a text box so the `contentHeight` pixels drawn from its top stay
+ * inside the safe area, narrowing it first if it is wider than the safe area.
+ */
+const fitToSafeArea = (box: Box, contentHeight: number, safeArea: SafeArea): Box => {
+  const width = Math.min(box.width, safeArea.width);
+  return {
+    x: Math.min(Math.max(box.x, safeArea.x), safeArea.x + safeArea.width - width),
+    y: Math.max(safeArea.y, Math.min(box.y, safeArea.y + safeArea.height - contentHeight)),
+    width,
+    height: box.height,
+  };
+};
+
+const drawImageInBox = (
+  ctx: DrawingContext,
+  img: LoadedImage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  fit: "cover" | "contain",
+) => {
+  const size = getImageSize(img);
+  const scale =
+    fit === "cover"
+      ? Math.max(width / size.width, height / size.height)
+      : Math.min(width / size.width, height / size.height);
+  const drawWidth = size.width * scale;
+  const drawHeight = size.height * scale;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, width, height);
+  ctx.clip();
+  ctx.drawImage(
+    img,
+    x + (width - drawWidth) / 2,
+    y + (height - drawHeight) / 2,
+    drawWidth,
+    drawHeight,
+  );
+  ctx.restore();
+};
+
+/** Canvas font for a text layer's regular or bold runs at `fontSize` pixels. */
+const getTextFont = (layer: TextLayer, family: string, bold: boolean, fontSize: number) => {
+  const weight = bold ? Math.min(900, Math.max(700, layer.fontWeight + 300)) : layer.fontWeight;
+  return `${weight} ${fontSize}px ${family}`;
+};
+
+/** Layouts keyed by layer, reused while the layer, frame size and font stay the same. */
+const textLayouts = new WeakMap<TextLayer, { key: string; layout: TextLayout }>();
+
+/**
+ * Wraps and fits a text layer into `box`. Expects `ctx.letterSpacing` to be
+ * set already, since it changes how wide the text measures.
+ */
+const getTextLayout = async (
+  ctx: DrawingContext,
+  layer: TextLayer,
+  family: string,
+  box: Box,
+  safeArea: SafeArea,
+  scale: number,
+) => {
+  const runs = parseRichText(layer.text);
+  const hasBold = runs.some((run) => run.bold);
+  await Promise.all([
+    loadFont(getTextFont(layer, family, false, layer.fontSize)),
+    hasBold ? loadFont(getTextFont(layer, family, true, layer.fontSize)) : null,
+  ]);
+  const maxWidth = Math.min(box.width, safeArea.width);
+  const maxHeight = Math.min(box.height, safeArea.height);
+  const key = [maxWidth, maxHeight, scale, family, ctx.letterSpacing].join("|");
+  const cached = textLayouts.get(layer);
+  if (cached?.key === key) return cached.layout;
+
+  const widths = new Map<string, number>();
+  const measure: MeasureText = (text, bold, fontSize) => {
+    const font = getTextFont(layer, family, bold, fontSize);
+    const id = `${font}|${text}`;
+    let width = widths.get(id);
+    if (width === undefined) {
+      ctx.font = font;
+      width = ctx.measureText(text).width;
+      widths.set(id, width);
+    }
+    return width;
+  };
+  const layout = layoutText(runs, measure, {
+    fontSize: layer.fontSize * scale,
+    lineHeight: layer.lineHeight,
+    maxWidth,
+    maxHeight,
+    maxLines: layer.maxLines,
+    autoShrink: layer.autoShrink,
+  });
+  textLayouts.set(layer, { key, layout });
+  return layout;
+};
+
+const getLayerBox = (layer: Layer, frameWidth: number, frameHeight: number): Box => ({
+  x: layer.x * frameWidth,
+  y: layer.y * frameHeight,
+  width: layer.width * frameWidth,
+  height: layer.height * frameHeight,
+});
+
+/**
+ * How a text layer fits when drawn at the size of `ctx.canvas`, for checking
+ * scenes before export: its layout, and whether its box had to be moved or
+ * narrowed to stay inside the safe area.
+ */
+export const measureTextLayer = async (
+  ctx: DrawingContext,
+  layer: TextLayer,
+  style: ThemeStyle,
+) => {
+  const frameWidth = ctx.canvas.width;
+  const frameHeight = ctx.canvas.height;
+  const scale = getLayoutScale(frameWidth, frameHeight);
+  const box = getLayerBox(layer, frameWidth, frameHeight);
+  const safeArea = getSafeArea(frameWidth, frameHeight);
+  ctx.save();
+  try {
+    ctx.letterSpacing = `${layer.letterSpacing * scale}px`;
+    const layout = await getTextLayout(
+      ctx,
+      layer,
+      layer.fontFamily ?? style.fontFamily,
+      box,
+      safeArea,
+      scale,
+    );
+    const fitted = fitToSafeArea(
+      box,
+      layout.lines.length * layout.fontSize * layer.lineHeight,
+      safeArea,
+    );
+    return {
+      layout,
+      isMovedIntoSafeArea: fitted.x !== box.x || fitted.y !== box.y || fitted.width !== box.width,
+    };
+  } finally {
+    ctx.restore();
+  }
+};
+
+const drawLayer = async (
+  ctx: DrawingContext,
+  layer: Layer,
+  time: number,
+  sceneDuration: number,
+  style: ThemeStyle,
+) => {
+  if (layer.opacity <= 0 || !isLayerActive(layer, time, sceneDuration)) return;
+
+  let img: LoadedImage | null = null;
+  if (layer.kind === "image" || layer.kind === "logo") {
+    if (!layer.src) return;
+    try {
+      img = await ensureImage(layer.src);
+    } catch {
+      return;
+    }
+  }
+
+  const frameWidth = ctx.canvas.width;
+  const frameHeight = ctx.canvas.height;
+  const scale = getLayoutScale(frameWidth, frameHeight);
+  let box = getLayerBox(layer, frameWidth, frameHeight);
+  ctx.save();
+  const family = layer.kind === "text" ? (layer.fontFamily ?? style.fontFamily) : style.fontFamily;
+  let textLayout: TextLayout | null = null;
+  if (layer.kind === "text") {
+    const safeArea = getSafeArea(frameWidth, frameHeight);
+    ctx.letterSpacing = `${layer.letterSpacing * scale}px`;
+    textLayout = await getTextLayout(ctx, layer, family, box, safeArea, scale);
+    box = fitToSafeArea(
+      box,
+      textLayout.lines.length * textLayout.fontSize * layer.lineHeight,
+      safeArea,
+    );
+  } else if (layer.kind === "watermark") {
+    box = fitToSafeArea(box, box.height, getSafeArea(frameWidth, frameHeight));
+  }
+  const { width, height } = box;
+  const left = -width / 2;
+  const top = -height / 2;
+
+  ctx.translate(box.x + width / 2, box.y + height / 2);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  ctx.globalAlpha *= layer.opacity;
+
+  switch (layer.kind) {
+    case "text": {
+      const window = getLayerWindow(layer, sceneDuration);
+      const state = getTextAnimationState(
+        layer.animation,
+        time - window.start,
+        window.end - window.start,
+      );
+      if (!textLayout) break;
+      const fontSize = textLayout.fontSize;
+      const shadow = layer.shadow === "none" ? null : (layer.shadow ?? style.textShadow);
+      drawAnimatedText(
+        ctx,
+        textLayout.lines,
+        { x: left, y: top, width },
+        fontSize * layer.lineHeight,
+        layer.align ?? style.align,
+        { ...state, offsetY: state.offsetY * scale },
+        {
+          fontSize,
+          regularFont: getTextFont(layer, family, false, fontSize),
+          boldFont: getTextFont(layer, family, true, fontSize),
+          color: layer.color ?? style.textColor,
+          outline: layer.outline
+            ? { color: layer.outline.color, width: layer.outline.width * scale }
+            : null,
+          shadow: shadow
+            ? { color: shadow.color, blur: shadow.blur * scale, offsetY: shadow.offsetY * scale }
+            : null,
+          highlight: layer.highlight
+            ? toRgba(layer.highlight.color, layer.highlight.opacity)
+            : null,
+        },
+      );
+      break;
+    }
+    case "watermark": {
+      ctx.font = `600 ${layer.fontSize * scale}px ${family}`;
+      ctx.fillStyle = layer.color;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(layer.text, 0, 0, width);
+      break;
+    }
+    case "shape": {
+      ctx.fillStyle = layer.fill;
+      ctx.beginPath();
+      if (layer.shape === "ellipse") {
+        ctx.ellipse(0, 0, width / 2, height / 2, 0, 0, Math.PI * 2);
+      } else {
+        ctx.roundRect(
+          left,
+          top,
+          width,
+          height,
+          Math.min(layer.cornerRadius * scale, width / 2, height / 2),
+        );
+      }
+      ctx.fill();
+      break;
+    }
+    case "image": {
+      if (img) drawImageInBox(ctx, img, left, top, width, height, layer.fit);
+      break;
+    }
+    case "logo": {
+      if (img) drawImageInBox(ctx, img, left, top, width, height, "contain");
+      break;
+    }
+  }
+
+  ctx.restore();
+};
+
+/** Kept per target so a render running beside the preview never shares its buffers. */
+const scratchContexts = new WeakMap<DrawingContext, DrawingContext[]>();
+
+/** Off-screen buffers for transitions, resized to match the frame being drawn. */
+const getScratchContext = (
+  target: DrawingContext,
+  index: number,
+  width: number,
+  height: number,
+) => {
+  let buffers = scratchContexts.get(target);
+  if (!buffers) {
+    buffers = [];
+    scratchContexts.set(target, buffers);
+  }
+  if (!buffers[index]) {
+    const buffer = createDrawingContext(width, height);
+    if (!buffer) throw new Error("Unable to create a transition buffer.");
+    buffers[index] = buffer;
+  }
+  const ctx = buffers[index];
+  if (ctx.canvas.width !== width || ctx.canvas.height !== height) {
+    ctx.canvas.width = width;
+    ctx.canvas.height = height;
+  }
+  return ctx;
+};
+
+/**
+ * Draws the frame at `time` seconds into the timeline, blending the outgoing
+ * and incoming scenes when the time falls inside a transition.
+ */
+export const renderFrame = async (ctx: DrawingContext, timeline: TimelineEntry[], time: number) => {
+  const { width, height } = ctx.canvas;
+  const frame = resolveFrame(timeline, time);
+  if (!frame) {
+    ctx.fillStyle = "#111827";
+    ctx.fillRect(0, 0, width, height);
+    return;
+  }
+  if (frame.kind === "scene") {
+    await drawSlide(
+      ctx,
+      frame.entry.slide,
+      frame.entry.style,
+      time - frame.entry.start,
+      frame.entry.logo,
+    );
+    return;
+  }
+  const outgoingCtx = getScratchContext(ctx, 0, width, height);
+  const incomingCtx = getScratchContext(ctx, 1, width, height);
+  await Promise.all([
+    drawSlide(outgoingCtx, frame.outgoing.slide, frame.outgoing.style, time - frame.outgoing.start),
+    drawSlide(incomingCtx, frame.incoming.slide, frame.incoming.style, time - frame.incoming.start),
+  ]);
+  drawTransition(
+    ctx,
+    frame.transition,
+    frame.progress,
+    outgoingCtx.canvas,
+    incomingCtx.canvas,
+    width,
+    height,
+  );
+  // Drawn once over the blend so the logo holds still through the transition.
+  const logo = frame.incoming.logo ?? frame.outgoing.logo;
+  if (logo) await drawBrandLogo(ctx, logo);
+};
+
+/**
+ * Plays the timeline against the wall clock, skipping frames when drawing
+ * falls behind so the picture stays in step with audio playing alongside it.
+ * Playback starts `startTime` seconds in. Resolves to false if `shouldContinue` stopped playback early.
+ */
+export const playTimeline = async (
+  ctx: DrawingContext,
+  timeline: TimelineEntry[],
+  fps: number,
+  onFrame: (time: number) => void,
+  shouldContinue: () => boolean = () => true,
+  startTime = 0,
+) => {
+  const frameCount = Math.max(1, Math.round(getTimelineDuration(timeline) * fps));
+  const firstFrame = Math.min(frameCount - 1, Math.max(0, Math.round(startTime * fps)));
+  const startedAt = performance.now() - (firstFrame * 1000) / fps;
+  let frame = firstFrame;
+  while (frame < frameCount) {
+    if (!shouldContinue()) return false;
+    const time = frame / fps;
+    await renderFrame(ctx, timeline, time);
+    onFrame(time);
+    const elapsedFrames = Math.floor(((performance.now() - startedAt) / 1000) * fps);
+    frame = Math.max(frame + 1, elapsedFrames);
+    await delay(Math.max(0, startedAt + (frame * 1000) / fps - performance.now()));
+  }
+  return true;
+};
+
+/**
+ * Runs async canvas draws one at a time. A draw requested while another is in
+ * flight replaces any draw still waiting, so scrubbing only paints the latest frame.
+ */
+export const createDrawQueue = () => {
+  let isRunning = false;
+  let next: (() => Promise<void>) | null = null;
+  const run = async () => {
+    isRunning = true;
+    while (next) {
+      const draw = next;
+      next = null;
+      try {
+        await draw();
+      } catch {
+        // A failed frame is replaced by the next request.
+      }
+    }
+    isRunning = false;
+  };
+  return (draw: () => Promise<void>) => {
+    next = draw;
+    if (!isRunning) void run();
+  };
+};
+
+/** How a text layer's lines are painted, with sizes already scaled to the frame. */
+type TextPaint = {
+  fontSize: number;
+  regularFont: string;
+  boldFont: string;
+  color: string;
+  outline: { color: string; width: number } | null;
+  shadow: TextShadow | null;
+  /** Fill of the box behind each line, or null for none. */
+  highlight: string | null;
+};
+
+/**
+ * Draws laid-out lines from the top of `box`, applying the alpha, offset,
+ * scale and character/word reveal of a text animation state.
+ */
+export function drawAnimatedText(
+  ctx: DrawingContext,
+  lines: TextLine[],
+  box: { x: number; y: number; width: number },
+  lineHeight: number,
+  align: TextAlign,
+  state: TextAnimationState,
+  paint: TextPaint,
+) {
+  if (state.alpha <= 0 || state.charReveal <= 0 || state.wordReveal <= 0) return;
+  const getLineX = (line: TextLine) => {
+    if (align === "center") return box.x + (box.width - line.width) / 2;
+    if (align === "right") return box.x + box.width - line.width;
+    return box.x;
+  };
+
+  ctx.save();
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+  ctx.globalAlpha *= state.alpha;
+  ctx.translate(0, state.offsetY);
+  if (state.scale !== 1) {
+    const pivotX = box.x + box.width / 2;
+    const pivotY = box.y + (lines.length * lineHeight) / 2;
+    ctx.translate(pivotX, pivotY);
+    ctx.scale(state.scale, state.scale);
+    ctx.translate(-pivotX, -pivotY);
+  }
+
+  // Work out which characters and words the reveal has reached.
+  const pieces = lines.flatMap((line) => line.pieces);
+  const totalChars = pieces.reduce((sum, piece) => sum + Array.from(piece.text).length, 0);
+  const totalWords = pieces.filter((piece) => !piece.isSpace).length;
+  let remainingChars = state.charReveal >= 1 ? Infinity : Math.floor(totalChars * state.charReveal);
+  let wordIndex = 0;
+  const visible: { piece: TextPiece; text: string; alpha: number; x: number; y: number }[] = [];
+  const visibleLines = new Set<number>();
+  lines.forEach((line, lineIndex) => {
+    const lineX = getLineX(line);
+    for (const piece of line.pieces) {
+      const chars = Array.from(piece.text);
+      const text = chars.slice(0, Math.max(0, remainingChars)).join("");
+      remainingChars -= chars.length;
+      if (piece.isSpace) continue;
+      const alpha = Math.min(1, Math.max(0, state.wordReveal * totalWords - wordIndex));
+      wordIndex += 1;
+      if (!text || alpha <= 0) continue;
+      visible.push({ piece, text, alpha, x: lineX + piece.x, y: box.y + lineIndex * lineHeight });
+      visibleLines.add(lineIndex);
+    }
+  });
+
+  if (paint.highlight) {
+    const padding = paint.fontSize * 0.25;
+    ctx.fillStyle = paint.highlight;
+    for (const lineIndex of visibleLines) {
+      const line = lines[lineIndex];
+      ctx.beginPath();
+      ctx.roundRect(
+        getLineX(line) - padding,
+        box.y + lineIndex * lineHeight - padding / 2,
+        line.width + padding * 2,
+        paint.fontSize * 1.2 + padding,
+        padding / 2,
+      );
+      ctx.fill();
+    }
+  }
+
+  const baseAlpha = ctx.globalAlpha;
+  if (paint.shadow) {
+    ctx.shadowColor = paint.shadow.color;
+    ctx.shadowBlur = paint.shadow.blur;
+    ctx.shadowOffsetY = paint.shadow.offsetY;
+  }
+  if (paint.outline) {
+    ctx.strokeStyle = paint.outline.color;
+    // Strokes are centred on the glyph edge, so double the width to get it all outside.
+    ctx.lineWidth = paint.outline.width * 2;
+    ctx.lineJoin = "round";
+    for (const { piece, text, alpha, x, y } of visible) {
+      ctx.globalAlpha = baseAlpha * alpha;
+      ctx.font = piece.bold ? paint.boldFont : paint.regularFont;
+      ctx.strokeText(text, x, y);
+    }
+    // The outline already casts the shadow.
+    ctx.shadowColor = "transparent";
+  }
+  for (const { piece, text, alpha, x, y } of visible) {
+    ctx.globalAlpha = baseAlpha * alpha;
+    ctx.font = piece.bold ? paint.boldFont : paint.regularFont;
+    ctx.fillStyle = piece.color ?? paint.color;
+    ctx.fillText(text, x, y);
+  }
+  ctx.restore();
+}
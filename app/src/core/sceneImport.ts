@@ -0,0 +1,332 @@
+import { readFileAsDataUrl } from "./files";
+import type { Slide } from "./slides";
+import { MIN_SLIDE_DURATION, createSlide, createSubtitleLayer, createTitleLayer } from "./slides";
+
+/** Scene settings an imported column can fill. */
+export type SceneField = "title" | "subtitle" | "duration" | "background";
+
+export const SCENE_FIELD_OPTIONS: { value: SceneField; label: string }[] = [
+  { value: "title", label: "Title" },
+  { value: "subtitle", label: "Subtitle" },
+  { value: "duration", label: "Duration (seconds)" },
+  { value: "background", label: "Background (colour or image URL)" },
+];
+
+/** Which column feeds each scene field; `null` leaves the field at its default. */
+export type ColumnMapping = Record<SceneField, string | null>;
+
+export type ImportRow = Record<string, string>;
+
+export type ImportSourceKind = "table" | "outline" | "images";
+
+/** Rows read from a file or folder, before they are mapped onto scenes. */
+export type ImportSource = {
+  kind: ImportSourceKind;
+  /** File or folder name, shown in the import dialog. */
+  name: string;
+  columns: string[];
+  rows: ImportRow[];
+};
+
+export type ImportedBackground = { type: "color" | "image"; value: string };
+
+/** One scene as it will be created, with anything about its row that was ignored. */
+export type ImportedScene = {
+  title: string;
+  subtitle: string;
+  duration: number;
+  background: ImportedBackground | null;
+  warnings: string[];
+};
+
+export const SCENE_FILE_TYPES = ".csv,.tsv,.json,.md,.markdown,.txt";
+
+export const DEFAULT_IMPORT_DURATION = 4;
+
+/** Lower-case column names recognised for each field when a file is first read. */
+const FIELD_ALIASES: Record<SceneField, string[]> = {
+  title: ["title", "heading", "headline", "name"],
+  subtitle: ["subtitle", "text", "body", "caption", "description"],
+  duration: ["duration", "seconds", "length", "time"],
+  background: ["background", "backgroundvalue", "color", "colour", "image", "bg"],
+};
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const IMAGE_URL = /^(?:data:image\/|https?:\/\/|blob:)/i;
+
+/** Picks the delimiter that splits the header row into the most columns. */
+const detectDelimiter = (text: string) => {
+  const header = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  const counts = [",", ";", "\t"].map((delimiter) => ({
+    delimiter,
+    count: header.split(delimiter).length,
+  }));
+  return counts.reduce((best, entry) => (entry.count > best.count ? entry : best)).delimiter;
+};
+
+/** Splits CSV or TSV text into cells, honouring quoted cells with commas, quotes and newlines. */
+export const parseCsv = (source: string, delimiter = detectDelimiter(source)) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char !== '"') cell += char;
+      else if (source[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else quoted = false;
+    } else if (char === '"' && !cell) quoted = true;
+    else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += char;
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+};
+
+const readTable = (text: string, name: string): ImportSource => {
+  const [header = [], ...body] = parseCsv(text);
+  // Blank or repeated headings still need a distinct column to map.
+  const columns = header.map((column, index) => {
+    const label = column.trim() || `Column ${index + 1}`;
+    return header.slice(0, index).some((other) => other.trim() === label)
+      ? `${label} (${index + 1})`
+      : label;
+  });
+  if (!columns.length || !body.length) {
+    throw new Error(`${name} needs a header row and at least one row of scenes.`);
+  }
+  const rows = body.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? ""])),
+  );
+  return { kind: "table", name, columns, rows };
+};
+
+const toCell = (value: unknown) =>
+  value === null || value === undefined
+    ? ""
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value).trim();
+
+/** Reads a list of objects, or an object holding one under `scenes`, `slides` or `rows`. */
+const readJsonRows = (text: string, name: string): ImportSource => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error(`${name} is not valid JSON.`);
+  }
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    value = record.scenes ?? record.slides ?? record.rows;
+  }
+  if (!Array.isArray(value) || !value.length) {
+    throw new Error(`${name} should contain a list of scenes.`);
+  }
+  const items = value.map((item): Record<string, unknown> =>
+    item && typeof item === "object" ? (item as Record<string, unknown>) : { text: item },
+  );
+  const columns = [...new Set(items.flatMap((item) => Object.keys(item)))];
+  const rows = items.map((item) =>
+    Object.fromEntries(columns.map((column) => [column, toCell(item[column])])),
+  );
+  return { kind: "table", name, columns, rows };
+};
+
+/** Drops Markdown inline syntax, keeping bold as the text layers' own bold markup. */
+const cleanMarkdown = (text: string) =>
+  text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/__(.+?)__/g, "**$1**")
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*(?!\*)/g, "$1$2")
+    .replace(/(^|\W)_([^_\s][^_]*)_(?=\W|$)/g, "$1$2")
+    .replace(/`([^`]*)`/g, "$1")
+    .trim();
+
+/**
+ * Reads a Markdown outline: every heading starts a scene titled with it, and
+ * the paragraphs and list items beneath it become the subtitle.
+ */
+const readMarkdownOutline = (text: string, name: string): ImportSource => {
+  const rows: ImportRow[] = [];
+  let current: { title: string; lines: string[] } | null = null;
+  const flush = () => {
+    if (!current) return;
+    const subtitle = current.lines
+      .join("\n")
+      .replace(/\n{2,}/g, "\n")
+      .trim();
+    if (current.title || subtitle) rows.push({ title: current.title, subtitle });
+  };
+  let inCode = false;
+  for (const rawLine of text.split("\n")) {
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) continue;
+    const line = rawLine.replace(/^\s*>\s?/, "");
+    const heading = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flush();
+      current = { title: cleanMarkdown(heading[1]), lines: [] };
+      continue;
+    }
+    // Rules and tables have no place in a subtitle.
+    if (/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/.test(line) || /^\s*\|/.test(line)) continue;
+    current ??= { title: "", lines: [] };
+    // Paragraph lines wrap, so only blank lines and list items start new subtitle lines.
+    const item = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    if (item) current.lines.push(cleanMarkdown(item[1]));
+    else if (!line.trim()) current.lines.push("");
+    else if (current.lines.length && current.lines[current.lines.length - 1]) {
+      current.lines[current.lines.length - 1] += ` ${cleanMarkdown(line)}`;
+    } else current.lines.push(cleanMarkdown(line));
+  }
+  flush();
+  if (!rows.length) throw new Error(`${name} has no headings or paragraphs to turn into scenes.`);
+  return { kind: "outline", name, columns: ["title", "subtitle"], rows };
+};
+
+/** Reads a CSV, TSV, JSON or Markdown file into rows to map. */
+export const readSceneFile = async (file: File): Promise<ImportSource> => {
+  const text = (await file.text()).replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  if (extension === "json") return readJsonRows(text, file.name);
+  if (extension === "md" || extension === "markdown") return readMarkdownOutline(text, file.name);
+  if (extension === "txt" && !/[,;\t]/.test(text.split("\n")[0] ?? "")) {
+    return readMarkdownOutline(text, file.name);
+  }
+  return readTable(text, file.name);
+};
+
+const compareFileNames = (a: File, b: File) =>
+  (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name, undefined, {
+    numeric: true,
+    sensitivity: "base",
+  });
+
+/** Reads image files as one row each, sorted by name so `2.jpg` comes before `10.jpg`. */
+export const readImageFiles = async (files: File[], name: string): Promise<ImportSource> => {
+  const images = files.filter((file) => file.type.startsWith("image/")).sort(compareFileNames);
+  if (!images.length) throw new Error(`${name} has no image files.`);
+  const rows = await Promise.all(
+    images.map(async (file) => ({
+      name: file.name.replace(/\.[^.]+$/, ""),
+      image: await readFileAsDataUrl(file),
+    })),
+  );
+  return { kind: "images", name, columns: ["name", "image"], rows };
+};
+
+/** Maps columns onto fields by name; image folders only fill the background. */
+export const guessColumnMapping = (source: ImportSource): ColumnMapping => {
+  if (source.kind === "images") {
+    return { title: null, subtitle: null, duration: null, background: "image" };
+  }
+  const used = new Set<string>();
+  const find = (field: SceneField) => {
+    const column = source.columns.find(
+      (name) =>
+        !used.has(name) && FIELD_ALIASES[field].includes(name.toLowerCase().replace(/[\s_-]/g, "")),
+    );
+    if (column) used.add(column);
+    return column ?? null;
+  };
+  const mapping: ColumnMapping = {
+    title: find("title"),
+    subtitle: find("subtitle"),
+    duration: find("duration"),
+    background: find("background"),
+  };
+  // Files without recognisable headings still get their first columns as text.
+  if (!mapping.title && !mapping.subtitle) {
+    const [first = null, second = null] = source.columns.filter((name) => !used.has(name));
+    mapping.title = first;
+    mapping.subtitle = second;
+  }
+  return mapping;
+};
+
+/** Reads `4`, `4.5`, `4s` or `0:04` as seconds. */
+const parseDuration = (value: string) => {
+  const clock = /^(\d+):(\d{1,2}(?:\.\d+)?)$/.exec(value);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+  const seconds = /^(\d+(?:\.\d+)?)\s*s?$/i.exec(value);
+  return seconds ? Number(seconds[1]) : null;
+};
+
+const parseBackground = (value: string): ImportedBackground | null => {
+  if (HEX_COLOR.test(value)) return { type: "color", value };
+  if (IMAGE_URL.test(value)) return { type: "image", value };
+  return null;
+};
+
+/** Applies the mapping to every row, skipping rows whose mapped cells are all empty. */
+export const mapImportRows = (
+  source: ImportSource,
+  mapping: ColumnMapping,
+  defaultDuration = DEFAULT_IMPORT_DURATION,
+): ImportedScene[] =>
+  source.rows.flatMap((row) => {
+    const cell = (field: SceneField) => {
+      const column = mapping[field];
+      return column ? (row[column] ?? "").trim() : "";
+    };
+    const title = cell("title");
+    const subtitle = cell("subtitle");
+    const durationCell = cell("duration");
+    const backgroundCell = cell("background");
+    if (!title && !subtitle && !durationCell && !backgroundCell) return [];
+    const warnings: string[] = [];
+    let duration = defaultDuration;
+    if (durationCell) {
+      const parsed = parseDuration(durationCell);
+      if (parsed === null) warnings.push(`Duration "${durationCell}" is not a number of seconds.`);
+      else duration = parsed;
+    }
+    const background = backgroundCell ? parseBackground(backgroundCell) : null;
+    if (backgroundCell && !background) {
+      warnings.push(`Background "${backgroundCell}" is not a hex colour or image URL.`);
+    }
+    return [
+      {
+        title,
+        subtitle,
+        duration: Math.max(MIN_SLIDE_DURATION, duration),
+        background,
+        warnings,
+      },
+    ];
+  });
+
+/** Builds the scenes; `createScene` lets the editor apply the project theme. */
+export const createSlidesFromImport = (
+  scenes: ImportedScene[],
+  createScene: (index: number, data: Partial<Omit<Slide, "id">>) => Slide = (_, data) =>
+    createSlide(data),
+  startIndex = 0,
+): Slide[] =>
+  scenes.map((scene, index) => {
+    const layers = [
+      ...(scene.title ? [createTitleLayer(scene.title)] : []),
+      ...(scene.subtitle ? [createSubtitleLayer(scene.subtitle)] : []),
+    ];
+    const data: Partial<Omit<Slide, "id">> = { duration: scene.duration, layers };
+    if (scene.background) {
+      data.backgroundType = scene.background.type;
+      data.backgroundValue = scene.background.value;
+    }
+    return createScene(startIndex + index, data);
+  });
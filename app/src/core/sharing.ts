@@ -0,0 +1,93 @@
+import type { OutputSettings } from "./output";
+import type { Project } from "./project";
+import { serializeProject } from "./project";
+
+/** Where a shared project can be watched; the API responds with these paths. */
+export type SharedProjectLinks = {
+  id: string;
+  playerUrl: string;
+  embedUrl: string;
+};
+
+/** What sharing a project for the first time responds with. */
+export type SharedProject = SharedProjectLinks & {
+  /** Secret needed to update the share later; the server only keeps its hash. */
+  ownerKey: string;
+};
+
+/** A share the editor may update, kept in this browser beside the project. */
+export type ShareOwnership = {
+  shareId: string;
+  ownerKey: string;
+};
+
+/** Shared ids become file names on the server, so they are kept to a safe alphabet. */
+export const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export const getPlayerPath = (shareId: string, { embed = false } = {}) =>
+  `/play/${encodeURIComponent(shareId)}${embed ? "?embed=1" : ""}`;
+
+export const getShareLinks = (shareId: string): SharedProjectLinks => ({
+  id: shareId,
+  playerUrl: getPlayerPath(shareId),
+  embedUrl: getPlayerPath(shareId, { embed: true }),
+});
+
+/** An iframe snippet sized to the video's aspect ratio, for pasting into another page. */
+export const getEmbedCode = (embedUrl: string, output: OutputSettings, title: string) => {
+  const width = 640;
+  const height = Math.round((width * output.height) / output.width);
+  const escapedTitle = title.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+  return `<iframe src="${embedUrl}" width="${width}" height="${height}" title="${escapedTitle}" allow="autoplay; fullscreen" style="border:0"></iframe>`;
+};
+
+const readError = async (response: Response) => {
+  try {
+    const body = (await response.json()) as { error?: unknown };
+    if (typeof body.error === "string") return body.error;
+  } catch {
+    // Fall through to the status text.
+  }
+  return `The server responded with ${response.status} ${response.statusText}.`;
+};
+
+/**
+ * Uploads a self-contained project (library files inlined) so it can be
+ * played at its player link. With `ownership` the existing share is updated;
+ * without it, or if that share is gone, a new one is made. Resolves to the
+ * links and the ownership to keep for the next update.
+ */
+export const publishProject = async (
+  project: Project,
+  ownership: ShareOwnership | null,
+): Promise<{ links: SharedProjectLinks; ownership: ShareOwnership }> => {
+  const body = serializeProject(project);
+  if (ownership) {
+    const response = await fetch(`/api/projects/${encodeURIComponent(ownership.shareId)}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${ownership.ownerKey}`,
+      },
+      body,
+    });
+    if (response.ok) return { links: (await response.json()) as SharedProjectLinks, ownership };
+    if (response.status !== 404) throw new Error(await readError(response));
+  }
+  const response = await fetch("/api/projects", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+  });
+  if (!response.ok) throw new Error(await readError(response));
+  const { ownerKey, ...links } = (await response.json()) as SharedProject;
+  return { links, ownership: { shareId: links.id, ownerKey } };
+};
+
+/** Fetches a shared project file; resolves to null when there is no project with that id. */
+export const fetchSharedProject = async (shareId: string): Promise<unknown> => {
+  const response = await fetch(`/api/projects/${encodeURIComponent(shareId)}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(await readError(response));
+  return response.json();
+};
@@ -0,0 +1,197 @@
+import type { VoiceOver } from "./audio";
+import type { BackgroundGradient, BackgroundType, MediaBackdrop } from "./backgrounds";
+import { createMediaBackdrop } from "./backgrounds";
+import { generateId } from "./ids";
+import type { Layer, TextLayer } from "./layers";
+import { createTextLayer, getLayerEntranceEnd, getLayerLabel } from "./layers";
+import type { CameraMotion } from "./motion";
+import { createMotion } from "./motion";
+import type { TextAnimation } from "./textAnimation";
+import type { ThemeOverrides } from "./themes";
+import type { BackgroundVideo } from "./video";
+import { createSubtitleAnimation, createTitleAnimation } from "./textAnimation";
+import type { SlideTransition } from "./transitions";
+import { createDefaultTransition } from "./transitions";
+
+export type Slide = {
+  id: string;
+  duration: number;
+  backgroundType: BackgroundType;
+  /** Colour, or the image or video file, depending on `backgroundType`. */
+  backgroundValue: string;
+  /** Kept while the scene has a gradient background. */
+  backgroundGradient: BackgroundGradient | null;
+  /** Fit and adjustments for image and video backgrounds. */
+  backgroundMedia: MediaBackdrop;
+  /** Trim and playback settings, kept while the scene has a video background. */
+  backgroundVideo: BackgroundVideo | null;
+  transition: SlideTransition;
+  motion: CameraMotion;
+  /** Drawn bottom to top: the last layer is the front-most. */
+  layers: Layer[];
+  voiceOver: VoiceOver | null;
+  /** Style values this scene sets instead of the project theme. */
+  themeOverrides: ThemeOverrides;
+  /** What the scene shows, for viewers who can't see it; added to captions on request. */
+  altText: string;
+};
+
+export const MIN_SLIDE_DURATION = 0.5;
+
+/** Scene shape from before layers existed, with a fixed title and subtitle. */
+export type LegacySlide = Omit<
+  Slide,
+  | "layers"
+  | "transition"
+  | "motion"
+  | "voiceOver"
+  | "themeOverrides"
+  | "backgroundVideo"
+  | "backgroundGradient"
+  | "backgroundMedia"
+  | "altText"
+> & {
+  title: string;
+  subtitle: string;
+  transition?: SlideTransition;
+  motion?: CameraMotion;
+  voiceOver?: VoiceOver | null;
+  titleAnimation?: TextAnimation;
+  subtitleAnimation?: TextAnimation;
+};
+
+export const createTitleLayer = (text: string, animation = createTitleAnimation()): TextLayer =>
+  createTextLayer({
+    name: "Title",
+    role: "title",
+    text,
+    x: 0.0625,
+    y: 0.6,
+    width: 0.875,
+    height: 0.22,
+    fontSize: 64,
+    fontWeight: 700,
+    lineHeight: 1.125,
+    animation,
+  });
+
+export const createSubtitleLayer = (
+  text: string,
+  animation = createSubtitleAnimation(),
+): TextLayer =>
+  createTextLayer({
+    name: "Subtitle",
+    role: "subtitle",
+    text,
+    x: 0.0625,
+    y: 0.845,
+    width: 0.875,
+    height: 0.13,
+    fontSize: 32,
+    fontWeight: 400,
+    lineHeight: 1.375,
+    opacity: 0.85,
+    animation,
+  });
+
+export const createSlide = (data: Partial<Omit<Slide, "id">> = {}): Slide => ({
+  id: generateId(),
+  duration: 3,
+  backgroundType: "color",
+  backgroundValue: "#0f172a",
+  backgroundGradient: null,
+  backgroundMedia: createMediaBackdrop(),
+  backgroundVideo: null,
+  transition: createDefaultTransition(),
+  motion: createMotion(),
+  layers: [
+    createTitleLayer("New Scene"),
+    createSubtitleLayer("Describe your moment here and fine-tune the pacing."),
+  ],
+  voiceOver: null,
+  themeOverrides: {},
+  altText: "",
+  ...data,
+});
+
+export const createDefaultSlides = (): Slide[] => [
+  createSlide({
+    backgroundValue: "#111827",
+    layers: [
+      createTitleLayer("Welcome to Your Story"),
+      createSubtitleLayer("Craft a narrative with visuals and motion in seconds."),
+    ],
+  }),
+  createSlide({
+    backgroundValue: "#1f2937",
+    layers: [
+      createTitleLayer("Add Your Highlights"),
+      createSubtitleLayer("Combine images, captions, and pacing to match your voice."),
+    ],
+  }),
+  createSlide({
+    backgroundValue: "#312e81",
+    layers: [
+      createTitleLayer("Download and Share"),
+      createSubtitleLayer("Export your cinematic summary as a shareable video."),
+    ],
+  }),
+];
+
+/** Copies a scene with fresh ids for it and everything it owns. */
+export const duplicateSlide = (slide: Slide): Slide => ({
+  ...slide,
+  id: generateId(),
+  layers: slide.layers.map((layer) => ({ ...layer, id: generateId() })),
+  voiceOver: slide.voiceOver ? { ...slide.voiceOver, id: generateId() } : null,
+});
+
+/**
+ * Moves the scenes in `slideIds`, keeping their relative order, so they sit
+ * right before `beforeId` (or at the end when it is null).
+ */
+export const moveSlides = (slides: Slide[], slideIds: string[], beforeId: string | null) => {
+  if (beforeId && slideIds.includes(beforeId)) return slides;
+  const moving = slides.filter((slide) => slideIds.includes(slide.id));
+  const rest = slides.filter((slide) => !slideIds.includes(slide.id));
+  const index = beforeId ? rest.findIndex((slide) => slide.id === beforeId) : rest.length;
+  if (!moving.length || index < 0) return slides;
+  return [...rest.slice(0, index), ...moving, ...rest.slice(index)];
+};
+
+/** Converts a title/subtitle scene into the layer model. */
+export const migrateLegacySlide = (slide: LegacySlide): Slide => {
+  const { title, subtitle, titleAnimation, subtitleAnimation, ...rest } = slide;
+  return {
+    ...rest,
+    transition: slide.transition ?? createDefaultTransition(),
+    motion: slide.motion ?? createMotion(),
+    voiceOver: slide.voiceOver ?? null,
+    themeOverrides: {},
+    backgroundGradient: null,
+    backgroundMedia: createMediaBackdrop(),
+    backgroundVideo: null,
+    altText: "",
+    layers: [
+      createTitleLayer(title ?? "", titleAnimation),
+      createSubtitleLayer(subtitle ?? "", subtitleAnimation),
+    ],
+  };
+};
+
+export const normalizeSlide = (slide: Slide | LegacySlide): Slide =>
+  "layers" in slide && Array.isArray(slide.layers)
+    ? slide
+    : migrateLegacySlide(slide as LegacySlide);
+
+export const getSlideLabel = (slide: Slide) => {
+  const textLayer = slide.layers.find((layer) => layer.kind === "text" && layer.text.trim());
+  return textLayer ? getLayerLabel(textLayer) : "Untitled scene";
+};
+
+/** Moment inside a scene where its text has finished entering, used for still previews. */
+export const getPosterTime = (slide: Slide) =>
+  Math.min(
+    slide.duration,
+    Math.max(0, ...slide.layers.map((layer) => getLayerEntranceEnd(layer, slide.duration))),
+  );
@@ -0,0 +1,173 @@
+import type { Layer } from "./layers";
+import { createShapeLayer } from "./layers";
+import type { OutputPresetId } from "./output";
+import { createOutputSettings } from "./output";
+import { createProject } from "./project";
+import type { Slide } from "./slides";
+import { createDefaultSlides, createSlide, createSubtitleLayer, createTitleLayer } from "./slides";
+import type { Theme, ThemeId } from "./themes";
+import { applyThemeLayout, getTheme } from "./themes";
+import type { TransitionType } from "./transitions";
+import { createDefaultTransition } from "./transitions";
+
+export type TemplateId = "starter" | "product-launch" | "recap" | "quote-reel";
+
+export type ProjectTemplate = {
+  id: TemplateId;
+  name: string;
+  description: string;
+  themeId: ThemeId;
+  outputPreset: OutputPresetId;
+  createSlides: (theme: Theme) => Slide[];
+};
+
+type TemplateScene = {
+  title: string;
+  subtitle: string;
+  duration?: number;
+  transition?: TransitionType;
+  /** Drawn behind the title and subtitle. */
+  layers?: Layer[];
+};
+
+/** Builds themed scenes that cycle through the theme's background palette. */
+const createScenes = (theme: Theme, scenes: TemplateScene[]) =>
+  scenes.map((scene, index) =>
+    applyThemeLayout(
+      createSlide({
+        duration: scene.duration ?? 3,
+        backgroundValue: theme.palette[index % theme.palette.length],
+        transition: { ...createDefaultTransition(), type: scene.transition ?? "crossfade" },
+        layers: [
+          ...(scene.layers ?? []),
+          createTitleLayer(scene.title),
+          createSubtitleLayer(scene.subtitle),
+        ],
+      }),
+      theme,
+    ),
+  );
+
+const createAccentBar = (theme: Theme) =>
+  createShapeLayer({
+    name: "Accent",
+    x: 0.44,
+    y: 0.24,
+    width: 0.12,
+    height: 0.012,
+    fill: theme.accentColor,
+    cornerRadius: 4,
+  });
+
+export const TEMPLATE_OPTIONS: ProjectTemplate[] = [
+  {
+    id: "starter",
+    name: "Starter",
+    description: "Three simple scenes to build on.",
+    themeId: "midnight",
+    outputPreset: "landscape-720p",
+    createSlides: () => createDefaultSlides(),
+  },
+  {
+    id: "product-launch",
+    name: "Product launch",
+    description: "Announce a product with a punchy reveal, three features and a call to action.",
+    themeId: "bold-pop",
+    outputPreset: "landscape-1080p",
+    createSlides: (theme) =>
+      createScenes(theme, [
+        {
+          title: "Introducing Nova",
+          subtitle: "The planner that plans with you.",
+          duration: 3.5,
+          transition: "zoom",
+          layers: [createAccentBar(theme)],
+        },
+        {
+          title: "Plan in seconds",
+          subtitle: "Drop in your tasks and Nova builds the week around them.",
+          transition: "push",
+        },
+        {
+          title: "Stay in focus",
+          subtitle: "Smart reminders that know when to stay quiet.",
+          transition: "push",
+        },
+        {
+          title: "Works everywhere",
+          subtitle: "Phone, tablet and desktop, always in sync.",
+          transition: "dip",
+        },
+        {
+          title: "Available today",
+          subtitle: "Start free at nova.example.com",
+          duration: 4,
+          layers: [createAccentBar(theme)],
+        },
+      ]),
+  },
+  {
+    id: "recap",
+    name: "Year in review",
+    description: "Walk through the highlights of a year, a season or an event.",
+    themeId: "editorial",
+    outputPreset: "landscape-720p",
+    createSlides: (theme) =>
+      createScenes(theme, [
+        {
+          title: "Our Year in Review",
+          subtitle: "A look back at the moments that mattered.",
+          duration: 3.5,
+        },
+        {
+          title: "12 launches",
+          subtitle: "New features shipped every month.",
+          transition: "slide",
+        },
+        { title: "3 new cities", subtitle: "Welcoming teams in Lisbon, Austin and Seoul." },
+        { title: "1 million stories", subtitle: "Created and shared by our community." },
+        {
+          title: "Thank you",
+          subtitle: "Here's to an even bigger year ahead.",
+          duration: 4,
+          transition: "none",
+        },
+      ]),
+  },
+  {
+    id: "quote-reel",
+    name: "Quote reel",
+    description: "Vertical quote cards for stories and reels.",
+    themeId: "minimal-light",
+    outputPreset: "vertical-1080p",
+    createSlides: (theme) =>
+      createScenes(theme, [
+        {
+          title: "“Simplicity is the ultimate sophistication.”",
+          subtitle: "Leonardo da Vinci",
+          duration: 4,
+        },
+        { title: "“Less, but better.”", subtitle: "Dieter Rams", duration: 4 },
+        {
+          title: "“Your favourite quote goes here.”",
+          subtitle: "Author name",
+          duration: 4,
+          transition: "dip",
+        },
+      ]),
+  },
+];
+
+export const getTemplate = (id: TemplateId) =>
+  TEMPLATE_OPTIONS.find((template) => template.id === id) ?? TEMPLATE_OPTIONS[0];
+
+/** Starts a fresh project from a template, with its theme and output size. */
+export const createTemplateProject = (id: TemplateId) => {
+  const template = getTemplate(id);
+  return createProject({
+    name: template.id === "starter" ? "Untitled project" : template.name,
+    slides: template.createSlides(getTheme(template.themeId)),
+    output: createOutputSettings(template.outputPreset),
+    themeId: template.themeId,
+  });
+};
@@ -0,0 +1,125 @@
+import type { EasingName } from "./easing";
+import { applyEasing, clamp, lerp } from "./easing";
+
+export type TextEffect = "none" | "fade" | "rise" | "typewriter" | "words" | "pop";
+
+/**
+ * One half of a text animation. `delay` counts from the start of the scene for
+ * entrances and back from the end of the scene for exits.
+ */
+export type TextAnimationPhase = {
+  effect: TextEffect;
+  delay: number;
+  duration: number;
+  easing: EasingName;
+};
+
+export type TextAnimation = {
+  enter: TextAnimationPhase;
+  exit: TextAnimationPhase;
+};
+
+/** How much of a text layer is visible at a given moment; 1 means fully shown. */
+export type TextAnimationState = {
+  alpha: number;
+  offsetY: number;
+  scale: number;
+  charReveal: number;
+  wordReveal: number;
+};
+
+export const TEXT_EFFECT_OPTIONS: { value: TextEffect; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "fade", label: "Fade" },
+  { value: "rise", label: "Rise" },
+  { value: "typewriter", label: "Typewriter" },
+  { value: "words", label: "Word by Word" },
+  { value: "pop", label: "Scale Pop" },
+];
+
+const RISE_DISTANCE = 40;
+const POP_START_SCALE = 0.6;
+
+export const createTextAnimationPhase = (
+  data: Partial<TextAnimationPhase> = {},
+): TextAnimationPhase => ({
+  effect: "none",
+  delay: 0,
+  duration: 0.6,
+  easing: "ease-out",
+  ...data,
+});
+
+export const createTitleAnimation = (): TextAnimation => ({
+  enter: createTextAnimationPhase({ effect: "rise", delay: 0.2, duration: 0.8 }),
+  exit: createTextAnimationPhase({ easing: "ease-in" }),
+});
+
+export const createSubtitleAnimation = (): TextAnimation => ({
+  enter: createTextAnimationPhase({ effect: "fade", delay: 0.6, duration: 0.8 }),
+  exit: createTextAnimationPhase({ easing: "ease-in" }),
+});
+
+const popScale = (t: number) => {
+  const overshoot = 1.70158;
+  const shifted = t - 1;
+  return 1 + (overshoot + 1) * shifted * shifted * shifted + overshoot * shifted * shifted;
+};
+
+const applyPhase = (state: TextAnimationState, phase: TextAnimationPhase, amount: number) => {
+  const eased = applyEasing(phase.easing, amount);
+  switch (phase.effect) {
+    case "fade":
+      state.alpha *= eased;
+      break;
+    case "rise":
+      state.alpha *= eased;
+      state.offsetY += (1 - eased) * RISE_DISTANCE;
+      break;
+    case "typewriter":
+      state.charReveal = Math.min(state.charReveal, eased);
+      break;
+    case "words":
+      state.wordReveal = Math.min(state.wordReveal, eased);
+      break;
+    case "pop":
+      state.alpha *= clamp(amount * 2, 0, 1);
+      state.scale *= lerp(POP_START_SCALE, 1, popScale(clamp(amount, 0, 1)));
+      break;
+    default:
+      break;
+  }
+};
+
+const getPhaseAmount = (phase: TextAnimationPhase, elapsed: number) => {
+  if (phase.effect === "none") return 1;
+  if (phase.duration <= 0) return elapsed >= 0 ? 1 : 0;
+  return clamp(elapsed / phase.duration, 0, 1);
+};
+
+/**
+ * Resolves the animation at `time` seconds into a scene lasting
+ * `sceneDuration` seconds. Driven purely by scene time so preview and export
+ * produce the same frames.
+ */
+export const getTextAnimationState = (
+  animation: TextAnimation,
+  time: number,
+  sceneDuration: number,
+): TextAnimationState => {
+  const state: TextAnimationState = {
+    alpha: 1,
+    offsetY: 0,
+    scale: 1,
+    charReveal: 1,
+    wordReveal: 1,
+  };
+  const { enter, exit } = animation;
+  applyPhase(state, enter, getPhaseAmount(enter, time - enter.delay));
+  const exitStart = sceneDuration - exit.delay - exit.duration;
+  applyPhase(state, exit, 1 - getPhaseAmount(exit, time - exitStart));
+  return state;
+};
+
+export const getEntranceEnd = (animation: TextAnimation) =>
+  animation.enter.effect === "none" ? 0 : animation.enter.delay + animation.enter.duration;
@@ -0,0 +1,325 @@
+/** A stretch of text drawn in one style. */
+export type TextRun = {
+  text: string;
+  bold: boolean;
+  color: string | null;
+};
+
+/** Part of a laid-out line: a word, a space or a single CJK character. */
+export type TextPiece = TextRun & {
+  /** Offset from the start of the line, in pixels. */
+  x: number;
+  width: number;
+  isSpace: boolean;
+};
+
+export type TextLine = {
+  pieces: TextPiece[];
+  width: number;
+};
+
+export type TextLayout = {
+  lines: TextLine[];
+  /** Font size the text was laid out at, after any shrinking. */
+  fontSize: number;
+  /** True when text that did not fit was cut off with an ellipsis. */
+  isTruncated: boolean;
+};
+
+export type TextFitOptions = {
+  fontSize: number;
+  /** Line height as a multiple of the font size. */
+  lineHeight: number;
+  maxWidth: number;
+  maxHeight: number;
+  maxLines: number | null;
+  autoShrink: boolean;
+};
+
+/** Width of `text` at `fontSize`, in the regular or bold weight. */
+export type MeasureText = (text: string, bold: boolean, fontSize: number) => number;
+
+/** Auto-shrink never goes below this fraction of the layer's font size. */
+export const MIN_SHRINK_SCALE = 0.5;
+const SHRINK_STEP = 0.05;
+const ELLIPSIS = "…";
+
+const COLOR_OPEN = /\{(#[0-9a-fA-F]{6}|#[0-9a-fA-F]{3}):/y;
+
+/**
+ * Splits `**bold**` and `{#hex:coloured}` markup into styled runs. Markers
+ * can nest; a `}` with no colour open is kept as text.
+ */
+export const parseRichText = (source: string): TextRun[] => {
+  const runs: TextRun[] = [];
+  const colors: string[] = [];
+  let bold = false;
+  let text = "";
+  const flush = () => {
+    if (text) runs.push({ text, bold, color: colors[colors.length - 1] ?? null });
+    text = "";
+  };
+  let index = 0;
+  while (index < source.length) {
+    if (source.startsWith("**", index)) {
+      flush();
+      bold = !bold;
+      index += 2;
+      continue;
+    }
+    COLOR_OPEN.lastIndex = index;
+    const open = COLOR_OPEN.exec(source);
+    if (open) {
+      flush();
+      colors.push(open[1]);
+      index += open[0].length;
+      continue;
+    }
+    if (source[index] === "}" && colors.length) {
+      flush();
+      colors.pop();
+      index += 1;
+      continue;
+    }
+    text += source[index];
+    index += 1;
+  }
+  flush();
+  return runs;
+};
+
+/** The text with styling markup removed, for labels and captions. */
+export const toPlainText = (source: string) =>
+  parseRichText(source)
+    .map((run) => run.text)
+    .join("");
+
+const segmenter =
+  typeof Intl !== "undefined" && "Segmenter" in Intl
+    ? new Intl.Segmenter(undefined, { granularity: "grapheme" })
+    : null;
+
+/** User-perceived characters, so emoji and combining marks are never split. */
+const splitGraphemes = (text: string) =>
+  segmenter ? Array.from(segmenter.segment(text), (part) => part.segment) : Array.from(text);
+
+/** Han, kana, Hangul and CJK punctuation: lines may break between any two of these. */
+const CJK =
+  /[\u1100-\u11FF\u2E80-\u2FFF\u3000-\u30FF\u3100-\u31FF\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF]/;
+
+/** Punctuation that must not start a line, so it stays with the character before it. */
+const NO_BREAK_BEFORE = new Set([
+  ..."、。，．・：；！？）〕］｝〉》」』】〙〗ー…‥ぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ,.:;!?)]}%",
+]);
+
+/** Opening brackets that must not end a line. */
+const NO_BREAK_AFTER = new Set([..."（〔［｛〈《「『【〘〖([{"]);
+
+type Atom = TextRun & { isSpace: boolean; isCjk: boolean };
+
+/** Breaks a paragraph into words, spaces and CJK characters, keeping each run's style. */
+const toAtoms = (runs: TextRun[]) => {
+  const atoms: Atom[] = [];
+  for (const run of runs) {
+    let word = "";
+    const pushWord = () => {
+      if (word) atoms.push({ ...run, text: word, isSpace: false, isCjk: false });
+      word = "";
+    };
+    for (const grapheme of splitGraphemes(run.text)) {
+      if (/^\s+$/.test(grapheme)) {
+        pushWord();
+        atoms.push({ ...run, text: grapheme, isSpace: true, isCjk: false });
+      } else if (CJK.test(grapheme)) {
+        pushWord();
+        atoms.push({ ...run, text: grapheme, isSpace: false, isCjk: true });
+      } else {
+        word += grapheme;
+        if (grapheme === "-" || grapheme === "/") pushWord();
+      }
+    }
+    pushWord();
+  }
+  return atoms;
+};
+
+const canBreakBetween = (before: Atom, after: Atom) => {
+  if (before.isSpace || after.isSpace) return true;
+  if (NO_BREAK_BEFORE.has(after.text[0]) || NO_BREAK_AFTER.has(before.text.slice(-1))) {
+    return false;
+  }
+  return before.isCjk || after.isCjk || /[-/]$/.test(before.text);
+};
+
+/** Groups atoms into clusters that have to stay on the same line. */
+const toClusters = (atoms: Atom[]) => {
+  const clusters: Atom[][] = [];
+  atoms.forEach((atom, index) => {
+    if (index > 0 && !canBreakBetween(atoms[index - 1], atom)) {
+      clusters[clusters.length - 1].push(atom);
+    } else {
+      clusters.push([atom]);
+    }
+  });
+  return clusters;
+};
+
+/** Splits text into paragraphs at explicit newlines, keeping styles across the break. */
+const splitParagraphs = (runs: TextRun[]) => {
+  const paragraphs: TextRun[][] = [[]];
+  for (const run of runs) {
+    run.text.split(/\r?\n/).forEach((text, index) => {
+      if (index > 0) paragraphs.push([]);
+      if (text) paragraphs[paragraphs.length - 1].push({ ...run, text });
+    });
+  }
+  return paragraphs;
+};
+
+const finishLine = (pieces: TextPiece[]): TextLine => {
+  let end = pieces.length;
+  while (end > 0 && pieces[end - 1].isSpace) end -= 1;
+  const kept = pieces.slice(0, end);
+  let x = 0;
+  for (const piece of kept) {
+    piece.x = x;
+    x += piece.width;
+  }
+  return { pieces: kept, width: x };
+};
+
+/**
+ * Breaks styled text into lines no wider than `maxWidth`. Lines break at
+ * spaces, after hyphens and between CJK characters; words too long for a
+ * line are split between characters.
+ */
+export const wrapRichText = (
+  runs: TextRun[],
+  measure: MeasureText,
+  fontSize: number,
+  maxWidth: number,
+): TextLine[] => {
+  const lines: TextLine[] = [];
+  const toPiece = (atom: Atom): TextPiece => ({
+    text: atom.text,
+    bold: atom.bold,
+    color: atom.color,
+    isSpace: atom.isSpace,
+    x: 0,
+    width: measure(atom.text, atom.bold, fontSize),
+  });
+
+  for (const paragraph of splitParagraphs(runs)) {
+    let current: TextPiece[] = [];
+    let width = 0;
+    const breakLine = () => {
+      lines.push(finishLine(current));
+      current = [];
+      width = 0;
+    };
+    for (const cluster of toClusters(toAtoms(paragraph))) {
+      const pieces = cluster.map(toPiece);
+      const clusterWidth = pieces.reduce((sum, piece) => sum + piece.width, 0);
+      if (pieces[0].isSpace) {
+        // Spaces at the start of a wrapped line are dropped.
+        if (current.length) {
+          current.push(...pieces);
+          width += clusterWidth;
+        }
+        continue;
+      }
+      if (current.length && width + clusterWidth > maxWidth) breakLine();
+      if (clusterWidth <= maxWidth - width) {
+        current.push(...pieces);
+        width += clusterWidth;
+        continue;
+      }
+      // Too long for a line of its own: fill lines character by character.
+      for (const piece of pieces) {
+        let chunk: TextPiece | null = null;
+        for (const grapheme of splitGraphemes(piece.text)) {
+          const graphemeWidth = measure(grapheme, piece.bold, fontSize);
+          if (current.length && width + graphemeWidth > maxWidth) {
+            breakLine();
+            chunk = null;
+          }
+          if (chunk) {
+            const chunkWidth = measure(chunk.text + grapheme, chunk.bold, fontSize);
+            width += chunkWidth - chunk.width;
+            chunk.text += grapheme;
+            chunk.width = chunkWidth;
+          } else {
+            chunk = { ...piece, text: grapheme, width: graphemeWidth };
+            current.push(chunk);
+            width += graphemeWidth;
+          }
+        }
+      }
+    }
+    breakLine();
+  }
+  return lines;
+};
+
+/** Cuts `line` back until it fits `maxWidth` with an ellipsis after it. */
+const addEllipsis = (
+  line: TextLine,
+  measure: MeasureText,
+  fontSize: number,
+  maxWidth: number,
+): TextLine => {
+  const pieces = line.pieces.map((piece) => ({ ...piece }));
+  const last = pieces[pieces.length - 1];
+  const style = { bold: last?.bold ?? false, color: last?.color ?? null };
+  const ellipsisWidth = measure(ELLIPSIS, style.bold, fontSize);
+  const getWidth = () => pieces.reduce((sum, piece) => sum + piece.width, 0);
+  while (pieces.length && getWidth() + ellipsisWidth > maxWidth) {
+    const piece = pieces[pieces.length - 1];
+    const graphemes = splitGraphemes(piece.text);
+    if (graphemes.length <= 1) {
+      pieces.pop();
+    } else {
+      piece.text = graphemes.slice(0, -1).join("");
+      piece.width = measure(piece.text, piece.bold, fontSize);
+    }
+  }
+  while (pieces.length && pieces[pieces.length - 1].isSpace) pieces.pop();
+  pieces.push({ text: ELLIPSIS, ...style, isSpace: false, x: 0, width: ellipsisWidth });
+  return finishLine(pieces);
+};
+
+/**
+ * Lays text out to fit a box: shrinks the font, if allowed, until every line
+ * fits within `maxLines` and `maxHeight`, then ends the last line with an
+ * ellipsis if the text still runs over.
+ */
+export const layoutText = (
+  runs: TextRun[],
+  measure: MeasureText,
+  options: TextFitOptions,
+): TextLayout => {
+  const { lineHeight, maxWidth, maxHeight, maxLines, autoShrink } = options;
+  const getLineLimit = (fontSize: number) =>
+    Math.max(1, Math.min(maxLines ?? Infinity, Math.floor(maxHeight / (fontSize * lineHeight))));
+
+  let fontSize = options.fontSize;
+  let lines = wrapRichText(runs, measure, fontSize, maxWidth);
+  const minSize = options.fontSize * MIN_SHRINK_SCALE;
+  while (autoShrink && lines.length > getLineLimit(fontSize)) {
+    const next = fontSize - options.fontSize * SHRINK_STEP;
+    if (next < minSize) break;
+    fontSize = next;
+    lines = wrapRichText(runs, measure, fontSize, maxWidth);
+  }
+
+  const limit = getLineLimit(fontSize);
+  if (lines.length <= limit) return { lines, fontSize, isTruncated: false };
+  return {
+    lines: [
+      ...lines.slice(0, limit - 1),
+      addEllipsis(lines[limit - 1], measure, fontSize, maxWidth),
+    ],
+    fontSize,
+    isTruncated: true,
+  };
+};
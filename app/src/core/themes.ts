@@ -0,0 +1,200 @@
+import type { Layer, TextAlign } from "./layers";
+import type { Slide } from "./slides";
+
+export type ThemeId = "midnight" | "bold-pop" | "editorial" | "minimal-light" | "neon";
+
+export type OverlayStyle = "bottom-gradient" | "top-gradient" | "dim" | "vignette" | "none";
+
+/** Where title and subtitle layers sit when a theme lays out a scene. */
+export type TextPosition = "top" | "center" | "bottom";
+
+export type TextShadow = {
+  color: string;
+  /** Blur radius and vertical offset in pixels at the 720p reference size. */
+  blur: number;
+  offsetY: number;
+};
+
+/**
+ * The part of a theme a scene can override. Text layers whose font, colour
+ * or alignment is unset follow these values.
+ */
+export type ThemeStyle = {
+  fontFamily: string;
+  textColor: string;
+  textShadow: TextShadow | null;
+  overlay: OverlayStyle;
+  overlayColor: string;
+  overlayOpacity: number;
+  align: TextAlign;
+  position: TextPosition;
+};
+
+export type ThemeOverrides = Partial<ThemeStyle>;
+
+export type Theme = ThemeStyle & {
+  id: ThemeId;
+  name: string;
+  /** Background colours new scenes cycle through. */
+  palette: string[];
+  accentColor: string;
+  titleSize: number;
+  titleWeight: number;
+  subtitleSize: number;
+};
+
+export const FONT_OPTIONS: { value: string; label: string }[] = [
+  { value: "'Inter', 'Segoe UI', sans-serif", label: "Inter" },
+  { value: "'Helvetica Neue', Helvetica, Arial, sans-serif", label: "Helvetica" },
+  { value: "Georgia, 'Times New Roman', serif", label: "Georgia" },
+  { value: "Impact, 'Arial Narrow Bold', sans-serif", label: "Impact" },
+  { value: "'Courier New', Courier, monospace", label: "Courier" },
+];
+
+export const OVERLAY_OPTIONS: { value: OverlayStyle; label: string }[] = [
+  { value: "bottom-gradient", label: "Bottom gradient" },
+  { value: "top-gradient", label: "Top gradient" },
+  { value: "dim", label: "Dim" },
+  { value: "vignette", label: "Vignette" },
+  { value: "none", label: "None" },
+];
+
+export const POSITION_OPTIONS: { value: TextPosition; label: string }[] = [
+  { value: "top", label: "Top" },
+  { value: "center", label: "Center" },
+  { value: "bottom", label: "Bottom" },
+];
+
+export const THEME_OPTIONS: Theme[] = [
+  {
+    id: "midnight",
+    name: "Midnight",
+    fontFamily: FONT_OPTIONS[0].value,
+    textColor: "#f8fafc",
+    textShadow: null,
+    overlay: "bottom-gradient",
+    overlayColor: "#000000",
+    overlayOpacity: 0.7,
+    align: "left",
+    position: "bottom",
+    palette: ["#111827", "#1f2937", "#312e81"],
+    accentColor: "#38bdf8",
+    titleSize: 64,
+    titleWeight: 700,
+    subtitleSize: 32,
+  },
+  {
+    id: "bold-pop",
+    name: "Bold Pop",
+    fontFamily: FONT_OPTIONS[3].value,
+    textColor: "#ffffff",
+    textShadow: { color: "rgba(0,0,0,0.45)", blur: 12, offsetY: 4 },
+    overlay: "dim",
+    overlayColor: "#000000",
+    overlayOpacity: 0.2,
+    align: "center",
+    position: "center",
+    palette: ["#e11d48", "#ea580c", "#7c3aed", "#0284c7"],
+    accentColor: "#facc15",
+    titleSize: 80,
+    titleWeight: 800,
+    subtitleSize: 34,
+  },
+  {
+    id: "editorial",
+    name: "Editorial",
+    fontFamily: FONT_OPTIONS[2].value,
+    textColor: "#fdf6e3",
+    textShadow: null,
+    overlay: "bottom-gradient",
+    overlayColor: "#1c1917",
+    overlayOpacity: 0.8,
+    align: "left",
+    position: "bottom",
+    palette: ["#292524", "#44403c", "#7c2d12"],
+    accentColor: "#f59e0b",
+    titleSize: 60,
+    titleWeight: 600,
+    subtitleSize: 30,
+  },
+  {
+    id: "minimal-light",
+    name: "Minimal Light",
+    fontFamily: FONT_OPTIONS[1].value,
+    textColor: "#0f172a",
+    textShadow: null,
+    overlay: "none",
+    overlayColor: "#ffffff",
+    overlayOpacity: 0.6,
+    align: "center",
+    position: "center",
+    palette: ["#f8fafc", "#e2e8f0", "#fef3c7"],
+    accentColor: "#0f172a",
+    titleSize: 60,
+    titleWeight: 600,
+    subtitleSize: 28,
+  },
+  {
+    id: "neon",
+    name: "Neon",
+    fontFamily: FONT_OPTIONS[4].value,
+    textColor: "#a5f3fc",
+    textShadow: { color: "#22d3ee", blur: 18, offsetY: 0 },
+    overlay: "vignette",
+    overlayColor: "#000000",
+    overlayOpacity: 0.65,
+    align: "left",
+    position: "center",
+    palette: ["#020617", "#1e1b4b", "#0c0a09"],
+    accentColor: "#e879f9",
+    titleSize: 60,
+    titleWeight: 700,
+    subtitleSize: 30,
+  },
+];
+
+export const DEFAULT_THEME_ID: ThemeId = "midnight";
+
+export const getTheme = (id: ThemeId) =>
+  THEME_OPTIONS.find((theme) => theme.id === id) ?? THEME_OPTIONS[0];
+
+/** A scene's effective style: the project theme with the scene's overrides on top. */
+export const resolveSlideStyle = (theme: Theme, overrides: ThemeOverrides): ThemeStyle => ({
+  fontFamily: overrides.fontFamily ?? theme.fontFamily,
+  textColor: overrides.textColor ?? theme.textColor,
+  textShadow: overrides.textShadow === undefined ? theme.textShadow : overrides.textShadow,
+  overlay: overrides.overlay ?? theme.overlay,
+  overlayColor: overrides.overlayColor ?? theme.overlayColor,
+  overlayOpacity: overrides.overlayOpacity ?? theme.overlayOpacity,
+  align: overrides.align ?? theme.align,
+  position: overrides.position ?? theme.position,
+});
+
+/** Vertical placement of title and subtitle boxes, as fractions of the frame height. */
+const TEXT_POSITIONS: Record<TextPosition, { title: number; subtitle: number }> = {
+  top: { title: 0.08, subtitle: 0.32 },
+  center: { title: 0.3, subtitle: 0.55 },
+  bottom: { title: 0.6, subtitle: 0.845 },
+};
+
+/** Moves title and subtitle layers to `position`; other layers keep their place. */
+export const positionTextLayers = (layers: Layer[], position: TextPosition): Layer[] =>
+  layers.map((layer) =>
+    layer.kind === "text" && layer.role
+      ? { ...layer, y: TEXT_POSITIONS[position][layer.role] }
+      : layer,
+  );
+
+/** Re-lays a scene's title and subtitle with the theme's sizes and its resolved position. */
+export const applyThemeLayout = (slide: Slide, theme: Theme): Slide => {
+  const sized = slide.layers.map((layer): Layer => {
+    if (layer.kind !== "text" || !layer.role) return layer;
+    return layer.role === "title"
+      ? { ...layer, fontSize: theme.titleSize, fontWeight: theme.titleWeight }
+      : { ...layer, fontSize: theme.subtitleSize };
+  });
+  return {
+    ...slide,
+    layers: positionTextLayers(sized, resolveSlideStyle(theme, slide.themeOverrides).position),
+  };
+};
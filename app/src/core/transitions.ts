@@ -0,0 +1,240 @@
+import type { BrandLogo } from "./brandKit";
+import type { EasingName } from "./easing";
+import { applyEasing, lerp } from "./easing";
+import type { Slide } from "./slides";
+import type { Theme, ThemeStyle } from "./themes";
+import { resolveSlideStyle } from "./themes";
+
+export type TransitionType = "none" | "crossfade" | "slide" | "push" | "wipe" | "zoom" | "dip";
+
+export type TransitionDirection = "left" | "right" | "up" | "down";
+
+export type SlideTransition = {
+  type: TransitionType;
+  duration: number;
+  easing: EasingName;
+  direction: TransitionDirection;
+  color: string;
+};
+
+export type TimelineEntry = {
+  slide: Slide;
+  index: number;
+  start: number;
+  end: number;
+  /** Seconds this scene overlaps the next one while its transition plays. */
+  overlap: number;
+  /** The project theme resolved against the scene's overrides. */
+  style: ThemeStyle;
+  /** The brand logo burned into the scene, if any. */
+  logo: BrandLogo | null;
+};
+
+export type FrameState =
+  | { kind: "scene"; entry: TimelineEntry }
+  | {
+      kind: "transition";
+      outgoing: TimelineEntry;
+      incoming: TimelineEntry;
+      transition: SlideTransition;
+      progress: number;
+    };
+
+export const TRANSITION_OPTIONS: { value: TransitionType; label: string }[] = [
+  { value: "none", label: "Hard Cut" },
+  { value: "crossfade", label: "Crossfade" },
+  { value: "slide", label: "Slide" },
+  { value: "push", label: "Push" },
+  { value: "wipe", label: "Wipe" },
+  { value: "zoom", label: "Zoom Through" },
+  { value: "dip", label: "Dip to Color" },
+];
+
+export const DIRECTION_OPTIONS: { value: TransitionDirection; label: string }[] = [
+  { value: "left", label: "Left" },
+  { value: "right", label: "Right" },
+  { value: "up", label: "Up" },
+  { value: "down", label: "Down" },
+];
+
+export const MIN_TRANSITION_DURATION = 0.1;
+
+export const createDefaultTransition = (): SlideTransition => ({
+  type: "crossfade",
+  duration: 0.6,
+  easing: "ease-in-out",
+  direction: "left",
+  color: "#000000",
+});
+
+export const transitionUsesDirection = (type: TransitionType) =>
+  type === "slide" || type === "push" || type === "wipe";
+
+/**
+ * A transition may use at most half of each neighbouring scene so that two
+ * transitions never overlap the same moment of a scene.
+ */
+export const getMaxTransitionDuration = (outgoing: Slide, incoming: Slide) =>
+  Math.min(outgoing.duration, incoming.duration) / 2;
+
+export const getTransitionOverlap = (outgoing: Slide, incoming: Slide | undefined) => {
+  if (!incoming || outgoing.transition.type === "none") return 0;
+  return Math.max(
+    0,
+    Math.min(outgoing.transition.duration, getMaxTransitionDuration(outgoing, incoming)),
+  );
+};
+
+export const buildTimeline = (
+  slides: Slide[],
+  theme: Theme,
+  logo: BrandLogo | null = null,
+): TimelineEntry[] => {
+  const timeline: TimelineEntry[] = [];
+  let start = 0;
+  slides.forEach((slide, index) => {
+    const overlap = getTransitionOverlap(slide, slides[index + 1]);
+    const end = start + slide.duration;
+    const style = resolveSlideStyle(theme, slide.themeOverrides);
+    timeline.push({ slide, index, start, end, overlap, style, logo });
+    start = end - overlap;
+  });
+  return timeline;
+};
+
+export const getTimelineDuration = (timeline: TimelineEntry[]) =>
+  timeline.length ? timeline[timeline.length - 1].end : 0;
+
+export const resolveFrame = (timeline: TimelineEntry[], time: number): FrameState | null => {
+  if (!timeline.length) return null;
+  const clamped = Math.max(0, Math.min(time, getTimelineDuration(timeline)));
+  for (let index = 0; index < timeline.length; index++) {
+    const entry = timeline[index];
+    const next = timeline[index + 1];
+    if (next && entry.overlap > 0 && clamped >= next.start && clamped < entry.end) {
+      return {
+        kind: "transition",
+        outgoing: entry,
+        incoming: next,
+        transition: entry.slide.transition,
+        progress: (clamped - next.start) / entry.overlap,
+      };
+    }
+    if (clamped < entry.end || !next) {
+      return { kind: "scene", entry };
+    }
+  }
+  return null;
+};
+
+type TransitionContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const drawScaled = (
+  ctx: TransitionContext,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  scale: number,
+) => {
+  const drawWidth = width * scale;
+  const drawHeight = height * scale;
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+const getDirectionVector = (direction: TransitionDirection) => {
+  switch (direction) {
+    case "right":
+      return { x: 1, y: 0 };
+    case "up":
+      return { x: 0, y: -1 };
+    case "down":
+      return { x: 0, y: 1 };
+    default:
+      return { x: -1, y: 0 };
+  }
+};
+
+/**
+ * Composites the outgoing and incoming scene buffers for a transition at the
+ * given linear progress (0-1). Easing is applied here.
+ */
+export const drawTransition = (
+  ctx: TransitionContext,
+  transition: SlideTransition,
+  progress: number,
+  outgoing: CanvasImageSource,
+  incoming: CanvasImageSource,
+  width: number,
+  height: number,
+) => {
+  const eased = applyEasing(transition.easing, progress);
+  const vector = getDirectionVector(transition.direction);
+
+  ctx.save();
+  ctx.clearRect(0, 0, width, height);
+
+  switch (transition.type) {
+    case "crossfade": {
+      ctx.drawImage(outgoing, 0, 0, width, height);
+      ctx.globalAlpha = eased;
+      ctx.drawImage(incoming, 0, 0, width, height);
+      break;
+    }
+    case "slide": {
+      ctx.drawImage(outgoing, 0, 0, width, height);
+      const offsetX = -vector.x * width * (1 - eased);
+      const offsetY = -vector.y * height * (1 - eased);
+      ctx.drawImage(incoming, offsetX, offsetY, width, height);
+      break;
+    }
+    case "push": {
+      const offsetX = vector.x * width * eased;
+      const offsetY = vector.y * height * eased;
+      ctx.drawImage(outgoing, offsetX, offsetY, width, height);
+      ctx.drawImage(
+        incoming,
+        offsetX - vector.x * width,
+        offsetY - vector.y * height,
+        width,
+        height,
+      );
+      break;
+    }
+    case "wipe": {
+      ctx.drawImage(outgoing, 0, 0, width, height);
+      ctx.beginPath();
+      if (vector.x !== 0) {
+        const revealWidth = width * eased;
+        ctx.rect(vector.x < 0 ? width - revealWidth : 0, 0, revealWidth, height);
+      } else {
+        const revealHeight = height * eased;
+        ctx.rect(0, vector.y < 0 ? height - revealHeight : 0, width, revealHeight);
+      }
+      ctx.clip();
+      ctx.drawImage(incoming, 0, 0, width, height);
+      break;
+    }
+    case "zoom": {
+      ctx.fillStyle = "#000000";
+      ctx.fillRect(0, 0, width, height);
+      ctx.globalAlpha = 1 - eased;
+      drawScaled(ctx, outgoing, width, height, lerp(1, 1.8, eased));
+      ctx.globalAlpha = eased;
+      drawScaled(ctx, incoming, width, height, lerp(0.6, 1, eased));
+      break;
+    }
+    case "dip": {
+      const fadingOut = eased < 0.5;
+      ctx.drawImage(fadingOut ? outgoing : incoming, 0, 0, width, height);
+      ctx.globalAlpha = fadingOut ? eased * 2 : (1 - eased) * 2;
+      ctx.fillStyle = transition.color || "#000000";
+      ctx.fillRect(0, 0, width, height);
+      break;
+    }
+    default: {
+      ctx.drawImage(progress < 1 ? outgoing : incoming, 0, 0, width, height);
+    }
+  }
+
+  ctx.restore();
+};
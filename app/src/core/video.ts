@@ -0,0 +1,131 @@
+import { resolveMediaSrc } from "./assets";
+
+/** What a background clip does once its trimmed range is shorter than the scene. */
+export type VideoEndBehavior = "loop" | "hold";
+
+/**
+ * Playback settings for a scene's video background; the file itself is the
+ * scene's `backgroundValue`. Trim points are in seconds of the source file.
+ */
+export type BackgroundVideo = {
+  name: string;
+  sourceDuration: number;
+  trimStart: number;
+  trimEnd: number;
+  end: VideoEndBehavior;
+  muted: boolean;
+  volume: number;
+};
+
+export const VIDEO_END_OPTIONS: { value: VideoEndBehavior; label: string }[] = [
+  { value: "loop", label: "Loop" },
+  { value: "hold", label: "Hold last frame" },
+];
+
+/** Seeking exactly to the end of a file shows nothing in some browsers. */
+const END_MARGIN = 0.001;
+
+export const createBackgroundVideo = (name: string, sourceDuration: number): BackgroundVideo => ({
+  name,
+  sourceDuration,
+  trimStart: 0,
+  trimEnd: sourceDuration,
+  end: "loop",
+  muted: true,
+  volume: 1,
+});
+
+export const getVideoClipLength = (video: BackgroundVideo) =>
+  Math.max(0, video.trimEnd - video.trimStart);
+
+/** Time in the source file shown `sceneTime` seconds into the scene. */
+export const getVideoSourceTime = (video: BackgroundVideo, sceneTime: number) => {
+  const length = getVideoClipLength(video);
+  const last = Math.max(video.trimStart, video.trimEnd - END_MARGIN);
+  if (length <= 0) return video.trimStart;
+  const offset =
+    sceneTime < length
+      ? Math.max(0, sceneTime)
+      : video.end === "loop"
+        ? sceneTime % length
+        : length;
+  return Math.min(last, video.trimStart + offset);
+};
+
+export const readVideoDuration = (src: string) =>
+  new Promise<number>((resolve, reject) => {
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.onloadedmetadata = () => resolve(Number.isFinite(video.duration) ? video.duration : 0);
+    video.onerror = () => reject(new Error("Unable to read this video file."));
+    video.src = src;
+  });
+
+type VideoSource = {
+  element: Promise<HTMLVideoElement>;
+  /** Seeks on one element run one after another so each draw sees its own frame. */
+  queue: Promise<void>;
+};
+
+const videoSources = new Map<string, VideoSource>();
+
+const loadVideo = (src: string) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement("video");
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("Unable to load the background video."));
+    video.src = src;
+  });
+
+const seekVideo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const target = Math.min(time, Math.max(0, video.duration - END_MARGIN));
+    if (Math.abs(video.currentTime - target) < END_MARGIN && !video.seeking) {
+      resolve();
+      return;
+    }
+    const handleSeeked = () => {
+      video.removeEventListener("error", handleError);
+      resolve();
+    };
+    const handleError = () => {
+      video.removeEventListener("seeked", handleSeeked);
+      reject(new Error("Unable to read a frame from the background video."));
+    };
+    video.addEventListener("seeked", handleSeeked, { once: true });
+    video.addEventListener("error", handleError, { once: true });
+    video.currentTime = target;
+  });
+
+/**
+ * Seeks the clip at `src` (a URL or library reference) to `time` seconds and
+ * hands the decoded frame to `draw`. Waiting for the seek, rather than
+ * sampling a playing element, makes exports frame-accurate however slowly
+ * frames are rendered.
+ */
+export const drawVideoFrame = (
+  src: string,
+  time: number,
+  draw: (video: HTMLVideoElement) => void,
+) => {
+  const url = resolveMediaSrc(src);
+  let source = videoSources.get(url);
+  if (!source) {
+    const element = loadVideo(url);
+    element.catch(() => videoSources.delete(url));
+    source = { element, queue: Promise.resolve() };
+    videoSources.set(url, source);
+  }
+  const { element } = source;
+  const result = source.queue.then(async () => {
+    const video = await element;
+    await seekVideo(video, time);
+    draw(video);
+  });
+  source.queue = result.catch(() => undefined);
+  return result;
+};
@@ -0,0 +1,515 @@
+import type { AudioSettings } from "./audio";
+import { MIX_SAMPLE_RATE, playAudioMix, renderAudioMix } from "./audioMix";
+import type { ExportFormat, ExportSettings, H264Profile, WebmCodec } from "./exportFormats";
+import { getExportFileName } from "./exportFormats";
+import { exportGif, exportPngSequence } from "./imageExport";
+import type { Mp4AudioCodec } from "./mp4";
+import { createMp4Muxer } from "./mp4";
+import type { OutputSettings } from "./output";
+import type { DrawingCanvas } from "./renderer";
+import { delay, getDrawingContext, playTimeline, renderFrame } from "./renderer";
+import type { TimelineEntry } from "./transitions";
+import { getTimelineDuration } from "./transitions";
+import type { WebmVideoCodec } from "./webm";
+import { createWebmMuxer } from "./webm";
+
+/**
+ * "offline" renders every frame as fast as the browser allows and encodes it
+ * (WebCodecs for video, in-page encoders for GIF and PNG); "realtime" plays
+ * the timeline into MediaRecorder.
+ */
+export type ExportMethod = "offline" | "realtime";
+
+export type VideoExport = {
+  blob: Blob;
+  fileName: string;
+  format: ExportFormat;
+  method: ExportMethod;
+};
+
+/**
+ * Mixed soundtrack samples. An AudioBuffer on the page; a render worker gets
+ * the channel data copied over, since audio can only be mixed on the page.
+ */
+export type AudioMix = Pick<
+  AudioBuffer,
+  "sampleRate" | "numberOfChannels" | "length" | "getChannelData"
+>;
+
+export type VideoExportOptions = {
+  /** Already sized to the output's width and height. */
+  canvas: DrawingCanvas;
+  timeline: TimelineEntry[];
+  /** From renderExportAudio; null for a silent export. */
+  mix: AudioMix | null;
+  output: OutputSettings;
+  settings: ExportSettings;
+  /** Called with the finished fraction, 0–1. */
+  onProgress: (ratio: number) => void;
+  /** Stops the export between frames; it then rejects with the signal's reason. */
+  signal?: AbortSignal;
+};
+
+/**
+ * Raised off the page when the browser cannot encode the format with
+ * WebCodecs, since real-time recording needs a page canvas and an AudioContext.
+ */
+export class RealtimeExportError extends Error {
+  constructor() {
+    super("This format can only be recorded in real time on the page.");
+    this.name = "RealtimeExportError";
+  }
+}
+
+const AUDIO_BITRATE = 128_000;
+const KEYFRAME_INTERVAL = 2;
+/** Frames allowed to wait in the encoder before rendering pauses. */
+const MAX_ENCODE_QUEUE = 4;
+/** Samples per AudioData handed to the encoder (100 ms at 48 kHz). */
+const AUDIO_BLOCK_SIZE = 4800;
+
+/** Anything that can take encoded chunks and lay them out as a file. */
+type Muxer = {
+  addVideoChunk: (chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) => void;
+  finalize: (duration: number) => Blob;
+};
+
+const WEBM_CODECS: Record<WebmCodec, { codec: string; container: WebmVideoCodec }> = {
+  vp9: { codec: "vp09.00.10.08", container: "V_VP9" },
+  vp8: { codec: "vp8", container: "V_VP8" },
+};
+
+const H264_PROFILE_IDS: Record<H264Profile, string> = {
+  baseline: "42E0",
+  main: "4D40",
+  high: "6400",
+};
+
+/** H.264 levels with their frame size and throughput limits, in macroblocks. */
+const H264_LEVELS = [
+  { id: 0x1f, frameSize: 3600, rate: 108_000 },
+  { id: 0x20, frameSize: 5120, rate: 216_000 },
+  { id: 0x28, frameSize: 8192, rate: 245_760 },
+  { id: 0x2a, frameSize: 8704, rate: 522_240 },
+  { id: 0x32, frameSize: 22_080, rate: 589_824 },
+  { id: 0x33, frameSize: 36_864, rate: 983_040 },
+  { id: 0x34, frameSize: 36_864, rate: 2_073_600 },
+];
+
+const getH264Codec = (profile: H264Profile, output: OutputSettings) => {
+  const frameSize = Math.ceil(output.width / 16) * Math.ceil(output.height / 16);
+  const level =
+    H264_LEVELS.find(
+      (item) => frameSize <= item.frameSize && frameSize * output.fps <= item.rate,
+    ) ?? H264_LEVELS[H264_LEVELS.length - 1];
+  return `avc1.${H264_PROFILE_IDS[profile]}${level.id.toString(16).padStart(2, "0")}`;
+};
+
+const isVideoConfigSupported = async (config: VideoEncoderConfig) => {
+  if (typeof VideoEncoder === "undefined" || typeof VideoFrame === "undefined") return false;
+  try {
+    return Boolean((await VideoEncoder.isConfigSupported(config)).supported);
+  } catch {
+    return false;
+  }
+};
+
+/** Tries the chosen codec first, then the other one. */
+const findWebmConfig = async (output: OutputSettings, preferred: WebmCodec) => {
+  const order: WebmCodec[] = preferred === "vp9" ? ["vp9", "vp8"] : ["vp8", "vp9"];
+  for (const codec of order) {
+    const config: VideoEncoderConfig = {
+      codec: WEBM_CODECS[codec].codec,
+      width: output.width,
+      height: output.height,
+      bitrate: output.bitrate,
+      framerate: output.fps,
+    };
+    if (await isVideoConfigSupported(config)) {
+      return { config, container: WEBM_CODECS[codec].container };
+    }
+  }
+  return null;
+};
+
+/** Tries the chosen profile first and falls back to Baseline, which every encoder supports. */
+const findH264Config = async (output: OutputSettings, preferred: H264Profile) => {
+  for (const profile of new Set<H264Profile>([preferred, "main", "baseline"])) {
+    const config: VideoEncoderConfig = {
+      codec: getH264Codec(profile, output),
+      width: output.width,
+      height: output.height,
+      bitrate: output.bitrate,
+      framerate: output.fps,
+      avc: { format: "avc" },
+    };
+    if (await isVideoConfigSupported(config)) return config;
+  }
+  return null;
+};
+
+/** AudioEncoder codec strings. */
+const AUDIO_CODECS: Record<"opus" | Mp4AudioCodec, string> = {
+  aac: "mp4a.40.2",
+  opus: "opus",
+};
+
+const findAudioConfig = async <T extends keyof typeof AUDIO_CODECS>(
+  buffer: Pick<AudioMix, "sampleRate" | "numberOfChannels">,
+  codecs: T[],
+) => {
+  if (typeof AudioEncoder === "undefined" || typeof AudioData === "undefined") return null;
+  for (const codec of codecs) {
+    const config: AudioEncoderConfig = {
+      codec: AUDIO_CODECS[codec],
+      sampleRate: buffer.sampleRate,
+      numberOfChannels: buffer.numberOfChannels,
+      bitrate: AUDIO_BITRATE,
+    };
+    try {
+      if ((await AudioEncoder.isConfigSupported(config)).supported) return { codec, config };
+    } catch {
+      // Try the next codec.
+    }
+  }
+  return null;
+};
+
+/** Encoders hold on to codec resources until closed, and a failed one may already be. */
+const closeEncoder = (encoder: VideoEncoder | AudioEncoder) => {
+  if (encoder.state !== "closed") encoder.close();
+};
+
+const encodeAudio = async (
+  buffer: AudioMix,
+  config: AudioEncoderConfig,
+  onChunk: (chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) => void,
+) => {
+  const state: { error: DOMException | null } = { error: null };
+  const encoder = new AudioEncoder({
+    output: onChunk,
+    error: (error) => {
+      state.error = error;
+    },
+  });
+  try {
+    encoder.configure(config);
+    const channels = buffer.numberOfChannels;
+    for (let offset = 0; offset < buffer.length; offset += AUDIO_BLOCK_SIZE) {
+      const length = Math.min(AUDIO_BLOCK_SIZE, buffer.length - offset);
+      const samples = new Float32Array(length * channels);
+      for (let channel = 0; channel < channels; channel++) {
+        samples.set(
+          buffer.getChannelData(channel).subarray(offset, offset + length),
+          channel * length,
+        );
+      }
+      const data = new AudioData({
+        format: "f32-planar",
+        sampleRate: buffer.sampleRate,
+        numberOfFrames: length,
+        numberOfChannels: channels,
+        timestamp: Math.round((offset / buffer.sampleRate) * 1_000_000),
+        data: samples,
+      });
+      try {
+        encoder.encode(data);
+      } finally {
+        data.close();
+      }
+    }
+    await encoder.flush();
+  } finally {
+    closeEncoder(encoder);
+  }
+  if (state.error) throw state.error;
+};
+
+/** Frame-accurate export: every frame gets an exact timestamp regardless of render speed. */
+const encodeOffline = async (
+  canvas: DrawingCanvas,
+  timeline: TimelineEntry[],
+  fps: number,
+  videoConfig: VideoEncoderConfig,
+  muxer: Muxer,
+  mix: { buffer: AudioMix; config: AudioEncoderConfig } | null,
+  onProgress: (ratio: number) => void,
+  signal?: AbortSignal,
+) => {
+  const ctx = getDrawingContext(canvas);
+  if (!ctx) throw new Error("Unable to draw video frames.");
+  const duration = getTimelineDuration(timeline);
+
+  const state: { error: DOMException | null } = { error: null };
+  const encoder = new VideoEncoder({
+    output: muxer.addVideoChunk,
+    error: (error) => {
+      state.error = error;
+    },
+  });
+  // Closed however encoding ends: finished, aborted, or failed in here or in the encoder.
+  try {
+    encoder.configure(videoConfig);
+
+    const frameCount = Math.max(1, Math.round(duration * fps));
+    const frameDuration = 1_000_000 / fps;
+    for (let index = 0; index < frameCount; index++) {
+      signal?.throwIfAborted();
+      await renderFrame(ctx, timeline, index / fps);
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(index * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      try {
+        encoder.encode(frame, { keyFrame: index % Math.round(KEYFRAME_INTERVAL * fps) === 0 });
+      } finally {
+        frame.close();
+      }
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE && !state.error) await delay(1);
+      if (state.error) throw state.error;
+      onProgress(((index + 1) / frameCount) * (mix ? 0.9 : 1));
+    }
+    await encoder.flush();
+  } finally {
+    closeEncoder(encoder);
+  }
+  if (state.error) throw state.error;
+
+  if (mix) {
+    signal?.throwIfAborted();
+    await encodeAudio(mix.buffer, mix.config, muxer.addAudioChunk);
+    onProgress(1);
+  }
+  return muxer.finalize(duration);
+};
+
+const RECORDER_TYPES: Record<"webm" | "mp4", { audio: string[]; silent: string[] }> = {
+  webm: {
+    audio: ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"],
+    silent: ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"],
+  },
+  mp4: {
+    audio: ["video/mp4;codecs=avc1,mp4a.40.2", "video/mp4"],
+    silent: ["video/mp4;codecs=avc1", "video/mp4"],
+  },
+};
+
+const getRecorderMimeType = (container: "webm" | "mp4", withAudio: boolean) => {
+  if (typeof MediaRecorder === "undefined") {
+    return null;
+  }
+  const types = RECORDER_TYPES[container][withAudio ? "audio" : "silent"];
+  return types.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+/** Fallback for browsers without WebCodecs: records the canvas while the timeline plays. */
+const recordRealtime = async (
+  canvas: DrawingCanvas,
+  timeline: TimelineEntry[],
+  output: OutputSettings,
+  container: "webm" | "mp4",
+  mix: AudioMix | null,
+  onProgress: (ratio: number) => void,
+  signal?: AbortSignal,
+) => {
+  if (!("captureStream" in canvas) || (mix && !(mix instanceof AudioBuffer))) {
+    throw new RealtimeExportError();
+  }
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Unable to draw video frames.");
+  const duration = getTimelineDuration(timeline);
+  const stream = canvas.captureStream(output.fps);
+  if (!stream) throw new Error("Unable to capture canvas stream");
+  const audioContext = new AudioContext();
+  let activeRecorder: MediaRecorder | null = null;
+  try {
+    const audioDestination = mix ? audioContext.createMediaStreamDestination() : null;
+    audioDestination?.stream.getAudioTracks().forEach((track) => stream.addTrack(track));
+
+    const mimeType = getRecorderMimeType(container, Boolean(mix));
+    if (!mimeType) {
+      throw new Error(
+        `This browser cannot record ${container === "mp4" ? "MP4" : "WebM"} video. Try another format.`,
+      );
+    }
+
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: output.bitrate,
+      audioBitsPerSecond: AUDIO_BITRATE,
+    });
+    activeRecorder = recorder;
+    const chunks: BlobPart[] = [];
+
+    recorder.ondataavailable = (event) => {
+      if (event.data && event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+
+    const recorderStopped = new Promise<void>((resolve, reject) => {
+      recorder.onstop = () => resolve();
+      recorder.onerror = (event) => reject(event.error);
+    });
+
+    await audioContext.resume();
+    recorder.start();
+    if (mix && audioDestination) playAudioMix(audioContext, mix, audioDestination);
+
+    await playTimeline(
+      ctx,
+      timeline,
+      output.fps,
+      (time) => onProgress(Math.min(1, (time + 1 / output.fps) / duration)),
+      () => !signal?.aborted,
+    );
+
+    recorder.stop();
+    await recorderStopped;
+    signal?.throwIfAborted();
+    return new Blob(chunks, { type: mimeType });
+  } finally {
+    // Also reached on errors and cancellation, so nothing keeps capturing after the export.
+    if (activeRecorder && activeRecorder.state !== "inactive") activeRecorder.stop();
+    stream.getTracks().forEach((track) => track.stop());
+    void audioContext.close();
+  }
+};
+
+const exportWebm = async ({
+  canvas,
+  timeline,
+  mix,
+  output,
+  settings,
+  onProgress,
+  signal,
+}: VideoExportOptions): Promise<Omit<VideoExport, "fileName" | "format">> => {
+  const video = await findWebmConfig(output, settings.webm.codec);
+  const audioConfig = mix ? await findAudioConfig(mix, ["opus"]) : null;
+  if (video && (!mix || audioConfig)) {
+    const muxer = createWebmMuxer({
+      width: output.width,
+      height: output.height,
+      videoCodec: video.container,
+      audio: mix ? { sampleRate: mix.sampleRate, channels: mix.numberOfChannels } : null,
+    });
+    const blob = await encodeOffline(
+      canvas,
+      timeline,
+      output.fps,
+      video.config,
+      muxer,
+      mix && audioConfig ? { buffer: mix, config: audioConfig.config } : null,
+      onProgress,
+      signal,
+    );
+    return { blob, method: "offline" };
+  }
+  const blob = await recordRealtime(canvas, timeline, output, "webm", mix, onProgress, signal);
+  return { blob, method: "realtime" };
+};
+
+const exportMp4 = async ({
+  canvas,
+  timeline,
+  mix,
+  output,
+  settings,
+  onProgress,
+  signal,
+}: VideoExportOptions): Promise<Omit<VideoExport, "fileName" | "format">> => {
+  const videoConfig = await findH264Config(output, settings.mp4.profile);
+  // AAC plays everywhere; Opus in MP4 covers browsers that ship without an AAC encoder.
+  const audio = mix ? await findAudioConfig(mix, ["aac", "opus"]) : null;
+  if (videoConfig && (!mix || audio)) {
+    const muxer = createMp4Muxer({
+      width: output.width,
+      height: output.height,
+      audio:
+        mix && audio
+          ? { codec: audio.codec, sampleRate: mix.sampleRate, channels: mix.numberOfChannels }
+          : null,
+    });
+    const blob = await encodeOffline(
+      canvas,
+      timeline,
+      output.fps,
+      videoConfig,
+      muxer,
+      mix && audio ? { buffer: mix, config: audio.config } : null,
+      onProgress,
+      signal,
+    );
+    return { blob, method: "offline" };
+  }
+  const blob = await recordRealtime(canvas, timeline, output, "mp4", mix, onProgress, signal);
+  return { blob, method: "realtime" };
+};
+
+/** The mix format support is checked against before the soundtrack has been mixed. */
+const PROBE_MIX = { sampleRate: MIX_SAMPLE_RATE, numberOfChannels: 2 };
+
+/**
+ * How this browser would encode `settings`, checked before rendering starts:
+ * frame by frame, recorded in real time, or null when it can't at all.
+ */
+export const probeExportMethod = async (
+  output: OutputSettings,
+  settings: ExportSettings,
+  withAudio: boolean,
+): Promise<ExportMethod | null> => {
+  const format = settings.format;
+  if (format === "gif" || format === "png-sequence") return "offline";
+  const hasVideo =
+    format === "mp4"
+      ? Boolean(await findH264Config(output, settings.mp4.profile))
+      : Boolean(await findWebmConfig(output, settings.webm.codec));
+  const hasAudio =
+    !withAudio ||
+    Boolean(await findAudioConfig(PROBE_MIX, format === "mp4" ? ["aac", "opus"] : ["opus"]));
+  if (hasVideo && hasAudio) return "offline";
+  return getRecorderMimeType(format, withAudio) ? "realtime" : null;
+};
+
+/** Mixes the soundtrack for `settings`, or returns null when the format is silent. */
+export const renderExportAudio = async (
+  timeline: TimelineEntry[],
+  audio: AudioSettings,
+  settings: ExportSettings,
+) => {
+  const includeAudio =
+    settings.format === "mp4"
+      ? settings.mp4.includeAudio
+      : settings.format === "webm"
+        ? settings.webm.includeAudio
+        : false;
+  return includeAudio ? renderAudioMix(timeline, audio) : null;
+};
+
+/**
+ * Renders the timeline in the chosen format. Video formats use WebCodecs
+ * when the browser can encode both picture and sound and fall back to
+ * real-time recording otherwise; GIF and PNG frames are always rendered offline.
+ */
+export const exportVideo = async (options: VideoExportOptions): Promise<VideoExport> => {
+  const { canvas, timeline, output, settings, onProgress, signal } = options;
+  const format = settings.format;
+  if (format === "gif") {
+    const blob = await exportGif(timeline, settings.gif, output, onProgress, signal);
+    return { blob, fileName: getExportFileName(format), format, method: "offline" };
+  }
+  if (format === "png-sequence") {
+    const fps = settings.pngSequence.fps ?? output.fps;
+    const blob = await exportPngSequence(canvas, timeline, fps, onProgress, signal);
+    return {
+      blob,
+      fileName: getExportFileName(format, "storyforge-frames"),
+      format,
+      method: "offline",
+    };
+  }
+  const result = format === "mp4" ? await exportMp4(options) : await exportWebm(options);
+  return { ...result, fileName: getExportFileName(format), format };
+};
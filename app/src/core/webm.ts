@@ -0,0 +1,335 @@
+/**
+ * Minimal in-memory WebM (Matroska) muxer for WebCodecs output: one video
+ * track (VP8/VP9) and an optional Opus track. Chunks are buffered and the file
+ * is laid out on finalize, so sizes, duration and cues are always exact.
+ */
+
+type EbmlValue = number | string | Uint8Array | EbmlFloat | EbmlElement[];
+
+type EbmlFloat = { float: number };
+
+type EbmlElement = { id: number; value: EbmlValue; size?: number };
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagLacing: 0x9c,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  CodecDelay: 0x56aa,
+  SeekPreRoll: 0x56bb,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+} as const;
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+
+/** Clusters are capped so SimpleBlock's signed 16-bit relative timecode never overflows. */
+const MAX_CLUSTER_MS = 5000;
+
+const encodeId = (id: number) => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xff);
+  return Uint8Array.from(bytes);
+};
+
+const encodeUint = (value: number, length?: number) => {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) bytes.unshift(rest & 0xff);
+  while (bytes.length < (length ?? 1)) bytes.unshift(0);
+  return Uint8Array.from(bytes);
+};
+
+const encodeSize = (size: number, length?: number) => {
+  let width = length ?? 1;
+  while (!length && size >= 2 ** (7 * width) - 1) width++;
+  const bytes = encodeUint(size, width);
+  bytes[0] |= 1 << (8 - width);
+  return bytes;
+};
+
+const textEncoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]) => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const encodeElement = (element: EbmlElement): Uint8Array<ArrayBuffer> => {
+  const { value } = element;
+  let body: Uint8Array;
+  if (Array.isArray(value)) body = concat(value.map(encodeElement));
+  else if (value instanceof Uint8Array) body = value;
+  else if (typeof value === "string") body = textEncoder.encode(value);
+  else if (typeof value === "number") body = encodeUint(value, element.size);
+  else {
+    body = new Uint8Array(8);
+    new DataView(body.buffer).setFloat64(0, value.float);
+  }
+  return concat([encodeId(element.id), encodeSize(body.length), body]);
+};
+
+export type WebmVideoCodec = "V_VP8" | "V_VP9";
+
+export type WebmOptions = {
+  width: number;
+  height: number;
+  videoCodec: WebmVideoCodec;
+  audio?: { sampleRate: number; channels: number } | null;
+};
+
+type BufferedChunk = {
+  track: number;
+  timestamp: number;
+  isKey: boolean;
+  data: Uint8Array;
+};
+
+const copyChunk = (chunk: EncodedVideoChunk | EncodedAudioChunk) => {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return data;
+};
+
+const toBytes = (source: AllowSharedBufferSource) =>
+  source instanceof ArrayBuffer || source instanceof SharedArrayBuffer
+    ? new Uint8Array(source)
+    : new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+
+/** Opus identification header, used when the encoder does not supply one. */
+const createOpusHead = (channels: number, sampleRate: number) => {
+  const head = new Uint8Array(19);
+  head.set(textEncoder.encode("OpusHead"));
+  const view = new DataView(head.buffer);
+  view.setUint8(8, 1);
+  view.setUint8(9, channels);
+  view.setUint16(10, 312, true);
+  view.setUint32(12, sampleRate, true);
+  return head;
+};
+
+export const createWebmMuxer = (options: WebmOptions) => {
+  const chunks: BufferedChunk[] = [];
+  let opusHead: Uint8Array | null = null;
+
+  const addVideoChunk = (chunk: EncodedVideoChunk) => {
+    chunks.push({
+      track: VIDEO_TRACK,
+      timestamp: chunk.timestamp,
+      isKey: chunk.type === "key",
+      data: copyChunk(chunk),
+    });
+  };
+
+  const addAudioChunk = (chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) => {
+    const description = metadata?.decoderConfig?.description;
+    if (description && !opusHead) opusHead = toBytes(description).slice();
+    chunks.push({
+      track: AUDIO_TRACK,
+      timestamp: chunk.timestamp,
+      isKey: true,
+      data: copyChunk(chunk),
+    });
+  };
+
+  const buildTracks = (): EbmlElement => {
+    const entries: EbmlElement[] = [
+      {
+        id: ID.TrackEntry,
+        value: [
+          { id: ID.TrackNumber, value: VIDEO_TRACK },
+          { id: ID.TrackUID, value: VIDEO_TRACK },
+          { id: ID.TrackType, value: 1 },
+          { id: ID.FlagLacing, value: 0 },
+          { id: ID.CodecID, value: options.videoCodec },
+          {
+            id: ID.Video,
+            value: [
+              { id: ID.PixelWidth, value: options.width },
+              { id: ID.PixelHeight, value: options.height },
+            ],
+          },
+        ],
+      },
+    ];
+    if (options.audio) {
+      entries.push({
+        id: ID.TrackEntry,
+        value: [
+          { id: ID.TrackNumber, value: AUDIO_TRACK },
+          { id: ID.TrackUID, value: AUDIO_TRACK },
+          { id: ID.TrackType, value: 2 },
+          { id: ID.FlagLacing, value: 0 },
+          { id: ID.CodecID, value: "A_OPUS" },
+          {
+            id: ID.CodecPrivate,
+            value: opusHead ?? createOpusHead(options.audio.channels, options.audio.sampleRate),
+          },
+          { id: ID.CodecDelay, value: 6_500_000 },
+          { id: ID.SeekPreRoll, value: 80_000_000 },
+          {
+            id: ID.Audio,
+            value: [
+              { id: ID.SamplingFrequency, value: { float: options.audio.sampleRate } },
+              { id: ID.Channels, value: options.audio.channels },
+            ],
+          },
+        ],
+      });
+    }
+    return { id: ID.Tracks, value: entries };
+  };
+
+  /** Groups chunks into clusters that start on video keyframes. */
+  const buildClusters = (sorted: BufferedChunk[]) => {
+    const clusters: { timecode: number; blocks: Uint8Array[] }[] = [];
+    let current: (typeof clusters)[number] | null = null;
+    for (const chunk of sorted) {
+      const timecode = Math.round(chunk.timestamp / 1000);
+      if (
+        !current ||
+        (chunk.track === VIDEO_TRACK && chunk.isKey) ||
+        timecode - current.timecode >= MAX_CLUSTER_MS
+      ) {
+        current = { timecode, blocks: [] };
+        clusters.push(current);
+      }
+      const header = new Uint8Array(4);
+      const view = new DataView(header.buffer);
+      header[0] = 0x80 | chunk.track;
+      view.setInt16(1, timecode - current.timecode);
+      header[3] = chunk.isKey ? 0x80 : 0;
+      current.blocks.push(
+        encodeElement({ id: ID.SimpleBlock, value: concat([header, chunk.data]) }),
+      );
+    }
+    return clusters.map((cluster) => {
+      const body = concat([
+        encodeElement({ id: ID.Timecode, value: cluster.timecode }),
+        ...cluster.blocks,
+      ]);
+      return {
+        timecode: cluster.timecode,
+        bytes: concat([encodeId(ID.Cluster), encodeSize(body.length), body]),
+      };
+    });
+  };
+
+  /** Lays out the file. `duration` is in seconds. */
+  const finalize = (duration: number) => {
+    const sorted = [...chunks].sort((a, b) => a.timestamp - b.timestamp || a.track - b.track);
+    const info = encodeElement({
+      id: ID.Info,
+      value: [
+        { id: ID.TimecodeScale, value: 1_000_000 },
+        { id: ID.Duration, value: { float: duration * 1000 } },
+        { id: ID.MuxingApp, value: "Storyforge" },
+        { id: ID.WritingApp, value: "Storyforge" },
+      ],
+    });
+    const tracks = encodeElement(buildTracks());
+    const clusters = buildClusters(sorted);
+
+    // SeekHead positions use fixed 8-byte fields so its own size is known up front.
+    const buildSeekHead = (positions: number[]) =>
+      encodeElement({
+        id: ID.SeekHead,
+        value: [ID.Info, ID.Tracks, ID.Cues].map((id, index) => ({
+          id: ID.Seek,
+          value: [
+            { id: ID.SeekID, value: encodeId(id) },
+            { id: ID.SeekPosition, value: positions[index], size: 8 },
+          ],
+        })),
+      });
+    const seekHeadSize = buildSeekHead([0, 0, 0]).length;
+    const infoPosition = seekHeadSize;
+    const tracksPosition = infoPosition + info.length;
+    let clusterPosition = tracksPosition + tracks.length;
+    const cuePoints: EbmlElement[] = [];
+    for (const cluster of clusters) {
+      cuePoints.push({
+        id: ID.CuePoint,
+        value: [
+          { id: ID.CueTime, value: cluster.timecode },
+          {
+            id: ID.CueTrackPositions,
+            value: [
+              { id: ID.CueTrack, value: VIDEO_TRACK },
+              { id: ID.CueClusterPosition, value: clusterPosition },
+            ],
+          },
+        ],
+      });
+      clusterPosition += cluster.bytes.length;
+    }
+    const cues = encodeElement({ id: ID.Cues, value: cuePoints });
+    const segmentParts = [
+      buildSeekHead([infoPosition, tracksPosition, clusterPosition]),
+      info,
+      tracks,
+      ...clusters.map((cluster) => cluster.bytes),
+      cues,
+    ];
+    const segmentSize = segmentParts.reduce((total, part) => total + part.length, 0);
+    const header = encodeElement({
+      id: ID.EBML,
+      value: [
+        { id: ID.EBMLVersion, value: 1 },
+        { id: ID.EBMLReadVersion, value: 1 },
+        { id: ID.EBMLMaxIDLength, value: 4 },
+        { id: ID.EBMLMaxSizeLength, value: 8 },
+        { id: ID.DocType, value: "webm" },
+        { id: ID.DocTypeVersion, value: 4 },
+        { id: ID.DocTypeReadVersion, value: 2 },
+      ],
+    });
+    return new Blob([header, encodeId(ID.Segment), encodeSize(segmentSize, 8), ...segmentParts], {
+      type: "video/webm",
+    });
+  };
+
+  return { addVideoChunk, addAudioChunk, finalize };
+};
+
+export type WebmMuxer = ReturnType<typeof createWebmMuxer>;
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { LibraryAsset } from "../core/assets";
+import {
+  createLibraryAsset,
+  getAssetRef,
+  inlineLibraryMedia,
+  registerAssets,
+  releaseAsset,
+  storeInlineMedia,
+} from "../core/assets";
+import type { Project, ProjectMedia } from "../core/project";
+import { deleteAsset, listAssets, saveAsset } from "../core/projectStore";
+
+const addAssets = (prev: LibraryAsset[], added: LibraryAsset[]) => {
+  const known = new Set(prev.map((asset) => asset.id));
+  return [...prev, ...added.filter((asset) => !known.has(asset.id))];
+};
+
+/**
+ * The open project's uploaded files, stored once in IndexedDB and referenced
+ * from scenes by id. Assets are registered before a project is shown, so its
+ * references resolve on the first draw.
+ */
+export const useAssetLibrary = (initialProjectId: string) => {
+  const [assets, setAssets] = useState<LibraryAsset[]>([]);
+  const projectIdRef = useRef(initialProjectId);
+  const assetsRef = useRef(assets);
+
+  useEffect(() => {
+    assetsRef.current = assets;
+  }, [assets]);
+
+  /** Loads `project`'s library and moves any inline media into it; resolves to the project to show. */
+  const open = useCallback(async (project: Project): Promise<Project> => {
+    const saved = await listAssets(project.id);
+    const { media, assets: stored } = await storeInlineMedia(project.id, project, saveAsset);
+    const library = addAssets(saved, stored);
+    registerAssets(library);
+    projectIdRef.current = project.id;
+    setAssets(library);
+    return { ...project, ...media };
+  }, []);
+
+  /** Adds an uploaded file and resolves to the reference scenes store for it. */
+  const storeFile = useCallback(async (file: File) => {
+    const asset = await createLibraryAsset(projectIdRef.current, file, file.name);
+    const existing = assetsRef.current.find((item) => item.id === asset.id);
+    if (!existing) {
+      await saveAsset(asset);
+      registerAssets([asset]);
+      setAssets((prev) => addAssets(prev, [asset]));
+    }
+    return getAssetRef(asset.id);
+  }, []);
+
+  /** Moves inline media (such as imported scenes) into the open project's library. */
+  const storeInline = useCallback(async <T extends ProjectMedia>(media: T): Promise<T> => {
+    const { media: stored, assets: added } = await storeInlineMedia(
+      projectIdRef.current,
+      media,
+      saveAsset,
+    );
+    registerAssets(added);
+    setAssets((prev) => addAssets(prev, added));
+    return { ...media, ...stored };
+  }, []);
+
+  const remove = useCallback(async (assetIds: string[]) => {
+    await Promise.all(assetIds.map((assetId) => deleteAsset(projectIdRef.current, assetId)));
+    assetIds.forEach(releaseAsset);
+    setAssets((prev) => prev.filter((asset) => !assetIds.includes(asset.id)));
+  }, []);
+
+  /** `media` with library files embedded, for writing a self-contained project file. */
+  const inline = useCallback(
+    <T extends ProjectMedia>(media: T) =>
+      inlineLibraryMedia(media, assetsRef.current).then((inlined) => ({ ...media, ...inlined })),
+    [],
+  );
+
+  return { assets, open, storeFile, storeInline, remove, inline };
+};
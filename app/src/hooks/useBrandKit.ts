@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from "react";
+import type { BrandKit } from "../core/brandKit";
+import { createBrandKit } from "../core/brandKit";
+import { loadBrandKit, saveBrandKit } from "../core/projectStore";
+
+/**
+ * The brand kit kept in this browser, saved whenever it changes. Edits to a
+ * locked kit, and replacing it, are ignored until it is unlocked.
+ */
+export const useBrandKit = () => {
+  const [kit, setKit] = useState<BrandKit>(createBrandKit);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    loadBrandKit()
+      .then((saved) => {
+        if (isCurrent && saved) setKit(saved);
+      })
+      .catch(() => {
+        // Without local storage the kit only lasts for this visit.
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoaded(true);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    // Waits for the saved kit so the empty one never overwrites it.
+    if (!isLoaded) return;
+    saveBrandKit(kit)
+      .then(() => setSaveError(null))
+      .catch(() => setSaveError("The brand kit couldn't be saved in this browser."));
+  }, [isLoaded, kit]);
+
+  const update = useCallback((changes: Partial<BrandKit>) => {
+    setKit((prev) => (prev.isLocked ? prev : { ...prev, ...changes }));
+  }, []);
+
+  const replace = useCallback((next: BrandKit) => {
+    setKit((prev) => (prev.isLocked ? prev : next));
+  }, []);
+
+  const unlock = useCallback(() => {
+    setKit((prev) => ({ ...prev, isLocked: false }));
+  }, []);
+
+  return { kit, isLoaded, saveError, update, replace, unlock };
+};
@@ -0,0 +1,32 @@
+import type { SetStateAction } from "react";
+import { useCallback, useState } from "react";
+import { createHistory, pushHistory, redoHistory, undoHistory } from "../core/history";
+
+/** useState with undo/redo; `set` takes an optional coalescing group (see pushHistory). */
+export const useHistory = <T>(initial: T) => {
+  const [history, setHistory] = useState(() => createHistory(initial));
+
+  const set = useCallback((action: SetStateAction<T>, group: string | null = null) => {
+    setHistory((current) =>
+      pushHistory(
+        current,
+        typeof action === "function" ? (action as (prev: T) => T)(current.present) : action,
+        group,
+      ),
+    );
+  }, []);
+
+  const undo = useCallback(() => setHistory(undoHistory), []);
+  const redo = useCallback(() => setHistory(redoHistory), []);
+  const reset = useCallback((present: T) => setHistory(createHistory(present)), []);
+
+  return {
+    present: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RenderJob, RenderJobInput } from "../core/renderQueue";
+import { createRenderJob, runRenderJob } from "../core/renderQueue";
+
+/** Progress is shown to a few tenths of a second, so finer updates only cost re-renders. */
+const PROGRESS_INTERVAL = 250;
+
+/**
+ * Export jobs rendered one after another; the list doubles as the history of
+ * finished renders, whose files stay downloadable until removed.
+ */
+export const useRenderQueue = () => {
+  const [jobs, setJobs] = useState<RenderJob[]>([]);
+  const pendingRef = useRef<RenderJob[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const isDrainingRef = useRef(false);
+  const jobsRef = useRef(jobs);
+
+  useEffect(() => {
+    jobsRef.current = jobs;
+  }, [jobs]);
+
+  const updateJob = useCallback((jobId: string, data: Partial<RenderJob>) => {
+    setJobs((prev) => prev.map((job) => (job.id === jobId ? { ...job, ...data } : job)));
+  }, []);
+
+  const runJob = useCallback(
+    async (job: RenderJob) => {
+      const controller = new AbortController();
+      controllersRef.current.set(job.id, controller);
+      updateJob(job.id, { status: "rendering", startedAt: Date.now() });
+      let lastUpdate = 0;
+      try {
+        const result = await runRenderJob(
+          job.input,
+          (ratio) => {
+            const now = performance.now();
+            if (now - lastUpdate < PROGRESS_INTERVAL) return;
+            lastUpdate = now;
+            updateJob(job.id, { progress: Math.min(1, ratio) });
+          },
+          controller.signal,
+        );
+        updateJob(job.id, {
+          status: "done",
+          progress: 1,
+          finishedAt: Date.now(),
+          result: {
+            url: URL.createObjectURL(result.blob),
+            fileName: result.fileName,
+            format: result.format,
+            method: result.method,
+            runner: result.runner,
+            size: result.blob.size,
+          },
+        });
+      } catch (error) {
+        updateJob(
+          job.id,
+          controller.signal.aborted
+            ? { status: "cancelled", finishedAt: Date.now() }
+            : {
+                status: "failed",
+                finishedAt: Date.now(),
+                error: error instanceof Error ? error.message : "Failed to render video.",
+              },
+        );
+      } finally {
+        controllersRef.current.delete(job.id);
+      }
+    },
+    [updateJob],
+  );
+
+  const drain = useCallback(async () => {
+    if (isDrainingRef.current) return;
+    isDrainingRef.current = true;
+    for (let job = pendingRef.current.shift(); job; job = pendingRef.current.shift()) {
+      await runJob(job);
+    }
+    isDrainingRef.current = false;
+  }, [runJob]);
+
+  const enqueue = useCallback(
+    (input: RenderJobInput) => {
+      const job = createRenderJob(input);
+      pendingRef.current.push(job);
+      setJobs((prev) => [...prev, job]);
+      void drain();
+    },
+    [drain],
+  );
+
+  const cancel = useCallback(
+    (jobId: string) => {
+      const isPending = pendingRef.current.some((job) => job.id === jobId);
+      pendingRef.current = pendingRef.current.filter((job) => job.id !== jobId);
+      if (isPending) updateJob(jobId, { status: "cancelled", finishedAt: Date.now() });
+      controllersRef.current.get(jobId)?.abort();
+    },
+    [updateJob],
+  );
+
+  /** Drops finished, failed and cancelled jobs (or just `jobId`) and frees their files. */
+  const clear = useCallback((jobId?: string) => {
+    const removed = jobsRef.current.filter(
+      (job) =>
+        (jobId === undefined || job.id === jobId) &&
+        job.status !== "queued" &&
+        job.status !== "rendering",
+    );
+    removed.forEach((job) => {
+      if (job.result) URL.revokeObjectURL(job.result.url);
+    });
+    const removedIds = new Set(removed.map((job) => job.id));
+    setJobs((prev) => prev.filter((job) => !removedIds.has(job.id)));
+  }, []);
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      pendingRef.current = [];
+      controllers.forEach((controller) => controller.abort());
+      jobsRef.current.forEach((job) => {
+        if (job.result) URL.revokeObjectURL(job.result.url);
+      });
+    };
+  }, []);
+
+  return { jobs, enqueue, cancel, clear };
+};
@@ -0,0 +1,129 @@
+import { spawn } from "node:child_process";
+import { once } from "node:events";
+import { rm, writeFile } from "node:fs/promises";
+import type { ExportSettings } from "../core/exportFormats";
+import type { OutputSettings } from "../core/output";
+import type { DrawingContext } from "../core/renderer";
+import { renderFrame } from "../core/renderer";
+import type { TimelineEntry } from "../core/transitions";
+import { getTimelineDuration } from "../core/transitions";
+import type { AudioMix } from "../core/videoExport";
+
+/** The ffmpeg binary to run; set FFMPEG_PATH when it isn't on the PATH. */
+const FFMPEG = process.env.FFMPEG_PATH || "ffmpeg";
+
+const AUDIO_BITRATE = "128k";
+const KEYFRAME_INTERVAL = 2;
+
+export type FfmpegEncodeOptions = {
+  ctx: DrawingContext;
+  timeline: TimelineEntry[];
+  mix: AudioMix | null;
+  output: OutputSettings;
+  settings: ExportSettings;
+  /** The file to write; its audio, if any, is staged beside it. */
+  filePath: string;
+  onProgress: (ratio: number) => void;
+};
+
+/** Interleaves the mix into the raw 32-bit float samples ffmpeg reads. */
+const writeMixFile = async (mix: AudioMix, filePath: string) => {
+  const channels = Array.from({ length: mix.numberOfChannels }, (_, channel) =>
+    mix.getChannelData(channel),
+  );
+  const samples = new Float32Array(mix.length * channels.length);
+  for (let index = 0; index < mix.length; index++) {
+    channels.forEach((data, channel) => {
+      samples[index * channels.length + channel] = data[index];
+    });
+  }
+  await writeFile(filePath, new Uint8Array(samples.buffer));
+};
+
+const getCodecArgs = ({ format, mp4, webm }: ExportSettings, output: OutputSettings) => {
+  const bitrate = String(output.bitrate);
+  const keyframes = String(output.fps * KEYFRAME_INTERVAL);
+  if (format === "mp4") {
+    return {
+      video: ["-c:v", "libx264", "-profile:v", mp4.profile, "-pix_fmt", "yuv420p"],
+      audio: ["-c:a", "aac", "-b:a", AUDIO_BITRATE],
+      common: ["-b:v", bitrate, "-g", keyframes, "-movflags", "+faststart"],
+    };
+  }
+  return {
+    video: ["-c:v", webm.codec === "vp9" ? "libvpx-vp9" : "libvpx", "-pix_fmt", "yuv420p"],
+    audio: ["-c:a", "libopus", "-b:a", AUDIO_BITRATE],
+    common: ["-b:v", bitrate, "-g", keyframes],
+  };
+};
+
+/**
+ * Renders every frame with the shared renderer and pipes the raw pixels to
+ * ffmpeg, which encodes MP4 (H.264/AAC) or WebM (VP9 or VP8/Opus).
+ */
+export const encodeWithFfmpeg = async ({
+  ctx,
+  timeline,
+  mix,
+  output,
+  settings,
+  filePath,
+  onProgress,
+}: FfmpegEncodeOptions) => {
+  const { width, height } = ctx.canvas;
+  const codecs = getCodecArgs(settings, output);
+  const mixPath = `${filePath}.f32`;
+  if (mix) await writeMixFile(mix, mixPath);
+  const args = [
+    "-y",
+    "-loglevel",
+    "error",
+    ...["-f", "rawvideo", "-pix_fmt", "rgba", "-s", `${width}x${height}`],
+    ...["-r", String(output.fps), "-i", "pipe:0"],
+    ...(mix
+      ? ["-f", "f32le", "-ar", String(mix.sampleRate), "-ac", String(mix.numberOfChannels)]
+      : []),
+    ...(mix ? ["-i", mixPath] : []),
+    ...codecs.video,
+    ...(mix ? codecs.audio : ["-an"]),
+    ...codecs.common,
+    "-shortest",
+    filePath,
+  ];
+  const ffmpeg = spawn(FFMPEG, args, { stdio: ["pipe", "ignore", "pipe"] });
+  let log = "";
+  ffmpeg.stderr.on("data", (chunk: Buffer) => {
+    log += chunk.toString();
+  });
+  const exited = new Promise<number | null>((resolve, reject) => {
+    ffmpeg.on("error", (error) =>
+      reject(new Error(`Unable to start ffmpeg (${error.message}). Is it installed?`)),
+    );
+    ffmpeg.on("close", resolve);
+  });
+  // Awaited below; this only keeps an early failure from being reported as unhandled.
+  exited.catch(() => undefined);
+  // A pipe that breaks because ffmpeg quit is reported through its exit code instead.
+  ffmpeg.stdin.on("error", () => undefined);
+
+  const frameCount = Math.max(1, Math.round(getTimelineDuration(timeline) * output.fps));
+  try {
+    for (let index = 0; index < frameCount; index++) {
+      // ffmpeg quit early; its exit code says why.
+      if (ffmpeg.exitCode !== null) break;
+      await renderFrame(ctx, timeline, index / output.fps);
+      const pixels = ctx.getImageData(0, 0, width, height).data;
+      // Waiting for the pipe to drain keeps at most a frame or two in memory.
+      if (!ffmpeg.stdin.write(Buffer.from(pixels.buffer, pixels.byteOffset, pixels.byteLength))) {
+        await Promise.race([once(ffmpeg.stdin, "drain"), exited]);
+      }
+      onProgress((index + 1) / frameCount);
+    }
+    ffmpeg.stdin.end();
+    const code = await exited;
+    if (code !== 0) throw new Error(log.trim() || `ffmpeg exited with code ${code}.`);
+  } finally {
+    ffmpeg.stdin.destroy();
+    if (mix) await rm(mixPath, { force: true });
+  }
+};
@@ -0,0 +1,110 @@
+import { createHash } from "node:crypto";
+import { DOMMatrix, GlobalFonts, createCanvas, loadImage } from "@napi-rs/canvas";
+import type { Canvas, FontKey } from "@napi-rs/canvas";
+import { OfflineAudioContext } from "node-web-audio-api";
+import type { CustomFont } from "../core/fonts";
+import { getFontStack } from "../core/fonts";
+import type { CanvasHost, DrawingContext, LoadedImage } from "../core/renderer";
+import { setCanvasHost } from "../core/renderer";
+
+/**
+ * Only files embedded in the project are read: any other URL would let a
+ * posted project make the server read local files or fetch from its network.
+ */
+export const isEmbeddedSource = (src: string) => src.startsWith("data:");
+
+const assertEmbedded = (src: string) => {
+  if (!isEmbeddedSource(src)) throw new Error("Only files embedded as data URLs can be rendered.");
+};
+
+/** The Skia canvases this host made, by the canvas the renderer sees. */
+const hostCanvases = new WeakMap<object, Canvas>();
+
+const encodeCanvas = (canvas: Canvas, type: string) => {
+  switch (type) {
+    case "image/png":
+      return canvas.encode("png");
+    case "image/jpeg":
+      return canvas.encode("jpeg");
+    case "image/webp":
+      return canvas.encode("webp");
+    default:
+      return null;
+  }
+};
+
+/**
+ * Skia canvases for the shared renderer. Their 2D context implements the
+ * same drawing API as the browser's, so the casts only bridge the typings.
+ */
+const nodeCanvasHost: CanvasHost = {
+  createContext: (width, height) => {
+    const canvas = createCanvas(width, height);
+    hostCanvases.set(canvas, canvas);
+    return canvas.getContext("2d") as unknown as DrawingContext;
+  },
+  loadImage: async (src) => {
+    assertEmbedded(src);
+    return (await loadImage(src)) as unknown as LoadedImage;
+  },
+  toBlob: async (canvas, type) => {
+    const hostCanvas = hostCanvases.get(canvas);
+    const data = hostCanvas ? await encodeCanvas(hostCanvas, type) : null;
+    return data ? new Blob([new Uint8Array(data)], { type }) : null;
+  },
+};
+
+let isInstalled = false;
+
+/** Points the shared renderer and audio mixer at Node implementations; safe to call repeatedly. */
+export const installNodeHost = () => {
+  if (isInstalled) return;
+  isInstalled = true;
+  setCanvasHost(nodeCanvasHost);
+  // The mixer and tiled backdrops look for these globals, as they would in a browser.
+  const scope = globalThis as { OfflineAudioContext?: unknown; DOMMatrix?: unknown };
+  scope.OfflineAudioContext ??= OfflineAudioContext;
+  scope.DOMMatrix ??= DOMMatrix;
+};
+
+/** Fonts registered with Skia, by a hash of their file, least recently used first. */
+const registeredFonts = new Map<string, { family: string; key: FontKey }>();
+
+/** Skia keeps fonts until they are removed, so files no recent render used are dropped. */
+const MAX_REGISTERED_FONTS = 100;
+
+/**
+ * The server has no FontFaceSet, so uploaded fonts are registered with Skia
+ * instead. Projects name their fonts freely, so each file gets a family of its
+ * own, made from its contents; the returned map gives the stack text should
+ * use in place of each uploaded font's.
+ */
+export const registerServerFonts = async (fonts: CustomFont[]) => {
+  const stacks = new Map<string, string>();
+  const used = new Set<string>();
+  for (const font of fonts) {
+    assertEmbedded(font.src);
+    const response = await fetch(font.src);
+    if (!response.ok) throw new Error(`Unable to load the font "${font.name}".`);
+    const data = Buffer.from(await response.arrayBuffer());
+    const hash = createHash("sha256").update(data).digest("hex");
+    let registered = registeredFonts.get(hash);
+    if (!registered) {
+      const family = `storyforge-${hash}`;
+      const key = GlobalFonts.register(data, family);
+      if (!key) throw new Error(`"${font.name}" is not a font file the server can read.`);
+      registered = { family, key };
+    }
+    registeredFonts.delete(hash);
+    registeredFonts.set(hash, registered);
+    used.add(hash);
+    stacks.set(getFontStack(font), getFontStack({ ...font, family: registered.family }));
+  }
+  for (const [hash, { key }] of registeredFonts) {
+    if (registeredFonts.size <= MAX_REGISTERED_FONTS) break;
+    if (used.has(hash)) continue;
+    GlobalFonts.remove(key);
+    registeredFonts.delete(hash);
+  }
+  return stacks;
+};
@@ -0,0 +1,278 @@
+import { mkdir, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { countAssetUsage } from "../core/assets";
+import type { ExportFormat, ExportSettings } from "../core/exportFormats";
+import { getExportFileName } from "../core/exportFormats";
+import { generateId } from "../core/ids";
+import type { Project } from "../core/project";
+import { getProjectFileName } from "../core/project";
+import { createDrawingContext } from "../core/renderer";
+import type { RenderJobStatus } from "../core/renderQueue";
+import type { Slide } from "../core/slides";
+import { getTheme } from "../core/themes";
+import { buildTimeline, getTimelineDuration } from "../core/transitions";
+import { exportVideo, renderExportAudio } from "../core/videoExport";
+import { encodeWithFfmpeg } from "./ffmpeg";
+import { installNodeHost, isEmbeddedSource, registerServerFonts } from "./nodeHost";
+
+export type ServerRenderJob = {
+  id: string;
+  projectName: string;
+  format: ExportFormat;
+  status: Exclude<RenderJobStatus, "cancelled">;
+  /** Finished fraction, 0–1. */
+  progress: number;
+  /** Timestamps in milliseconds. */
+  queuedAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  error: string | null;
+  fileName: string;
+  /** Set once the job is done. */
+  filePath: string | null;
+  size: number | null;
+};
+
+/** Raised for renders the server won't take; carries the status the route answers with. */
+export class ServerRenderError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 422) {
+    super(message);
+    this.name = "ServerRenderError";
+    this.status = status;
+  }
+}
+
+const OUTPUT_DIR = path.join(tmpdir(), "storyforge-renders");
+
+/** Finished files are kept this long for download, then deleted with their job. */
+const JOB_TTL = 60 * 60 * 1000;
+
+/** Project files embed their media, so they are allowed to be large, but not unbounded. */
+export const MAX_RENDER_REQUEST_SIZE = 100 * 1024 * 1024;
+
+/** Each render keeps a core busy for about as long as the video, so the server takes only so much. */
+const MAX_RENDER_DURATION = 10 * 60;
+const MAX_RENDER_PIXELS = 3840 * 2160;
+const MAX_RENDER_FRAMES = MAX_RENDER_DURATION * 30;
+
+/** Jobs one client may have queued or rendering at once. */
+const MAX_JOBS_PER_CLIENT = 2;
+
+export const MIME_TYPES: Record<ExportFormat, string> = {
+  mp4: "video/mp4",
+  webm: "video/webm",
+  gif: "image/gif",
+  "png-sequence": "application/zip",
+};
+
+type JobState = {
+  jobs: Map<string, ServerRenderJob>;
+  pending: {
+    job: ServerRenderJob;
+    project: Project;
+    settings: ExportSettings;
+    clientKey: string;
+  }[];
+  /** How many jobs each client has queued or rendering. */
+  activeByClient: Map<string, number>;
+  isDraining: boolean;
+};
+
+// Kept on globalThis so every route, and dev-server reloads, share one queue.
+const scope = globalThis as { storyforgeRenderJobs?: JobState };
+const state: JobState = (scope.storyforgeRenderJobs ??= {
+  jobs: new Map(),
+  pending: [],
+  activeByClient: new Map(),
+  isDraining: false,
+});
+
+const updateJob = (job: ServerRenderJob, data: Partial<ServerRenderJob>) => {
+  Object.assign(job, data);
+};
+
+const expireJob = (job: ServerRenderJob) => {
+  const timeout = setTimeout(() => {
+    state.jobs.delete(job.id);
+    if (job.filePath) void rm(job.filePath, { force: true });
+  }, JOB_TTL);
+  timeout.unref();
+};
+
+/** Every file the server would read to render `project`. */
+const getRenderedSources = ({ slides, audio, fonts }: Project) => [
+  ...slides.flatMap((slide) => [
+    ...(slide.backgroundType === "image" && slide.backgroundValue ? [slide.backgroundValue] : []),
+    ...slide.layers.flatMap((layer) => ("src" in layer && layer.src ? [layer.src] : [])),
+    ...(slide.voiceOver ? [slide.voiceOver.src] : []),
+  ]),
+  ...audio.music.map((track) => track.src),
+  ...fonts.map((font) => font.src),
+];
+
+/**
+ * Video backgrounds need a video element to decode them, library
+ * references only resolve in the editor that stored the files, and any
+ * other URL would have the server read its own files or network.
+ */
+const assertRenderable = (project: Project) => {
+  if (project.slides.some((slide) => slide.backgroundType === "video")) {
+    throw new ServerRenderError(
+      "Projects with video backgrounds can only be rendered in the editor.",
+    );
+  }
+  if (countAssetUsage(project).size) {
+    throw new ServerRenderError(
+      "The project uses files from an editor's asset library. Export it from the editor so the files are embedded.",
+    );
+  }
+  if (!getRenderedSources(project).every(isEmbeddedSource)) {
+    throw new ServerRenderError(
+      "The server only renders files embedded in the project as data URLs. Export it from the editor so the files are embedded.",
+    );
+  }
+  const { width, height, fps } = project.output;
+  if (width * height > MAX_RENDER_PIXELS) {
+    throw new ServerRenderError(
+      `The server renders at most ${MAX_RENDER_PIXELS.toLocaleString("en")} pixels a frame (3840×2160); this project is ${width}×${height}.`,
+    );
+  }
+  const duration = getTimelineDuration(buildTimeline(project.slides, getTheme(project.themeId)));
+  if (duration > MAX_RENDER_DURATION) {
+    throw new ServerRenderError(
+      `The server renders videos of up to ${MAX_RENDER_DURATION / 60} minutes; this one runs ${duration.toFixed(1)}s.`,
+    );
+  }
+  if (duration * fps > MAX_RENDER_FRAMES) {
+    throw new ServerRenderError(
+      `The server renders up to ${MAX_RENDER_FRAMES.toLocaleString("en")} frames; this video has ${Math.ceil(duration * fps).toLocaleString("en")} at ${fps} fps. Lower the frame rate or shorten it.`,
+    );
+  }
+};
+
+/** `slides` with each uploaded font's stack swapped for the one the server registered it as. */
+const withServerFonts = (slides: Slide[], stacks: Map<string, string>) => {
+  const getStack = (stack: string) => stacks.get(stack) ?? stack;
+  return slides.map((slide) => ({
+    ...slide,
+    themeOverrides: slide.themeOverrides.fontFamily
+      ? { ...slide.themeOverrides, fontFamily: getStack(slide.themeOverrides.fontFamily) }
+      : slide.themeOverrides,
+    layers: slide.layers.map((layer) =>
+      layer.kind === "text" && layer.fontFamily
+        ? { ...layer, fontFamily: getStack(layer.fontFamily) }
+        : layer,
+    ),
+  }));
+};
+
+const renderJob = async (
+  job: ServerRenderJob,
+  project: Project,
+  settings: ExportSettings,
+  filePath: string,
+) => {
+  installNodeHost();
+  const fontStacks = await registerServerFonts(project.fonts);
+  const slides = withServerFonts(project.slides, fontStacks);
+  const timeline = buildTimeline(slides, getTheme(project.themeId));
+  const { output } = project;
+  const onProgress = (ratio: number) => updateJob(job, { progress: Math.min(1, ratio) });
+  await mkdir(OUTPUT_DIR, { recursive: true });
+  const ctx = createDrawingContext(output.width, output.height);
+  if (!ctx) throw new Error("Unable to draw video frames.");
+  const mix = await renderExportAudio(timeline, project.audio, settings);
+  if (settings.format === "mp4" || settings.format === "webm") {
+    await encodeWithFfmpeg({ ctx, timeline, mix, output, settings, filePath, onProgress });
+  } else {
+    // GIFs and PNG sequences are encoded by the same code as in the editor.
+    const { blob } = await exportVideo({
+      canvas: ctx.canvas,
+      timeline,
+      mix,
+      output,
+      settings,
+      onProgress,
+    });
+    await writeFile(filePath, new Uint8Array(await blob.arrayBuffer()));
+  }
+};
+
+const drain = async () => {
+  if (state.isDraining) return;
+  state.isDraining = true;
+  for (let next = state.pending.shift(); next; next = state.pending.shift()) {
+    const { job, project, settings, clientKey } = next;
+    updateJob(job, { status: "rendering", startedAt: Date.now() });
+    const filePath = path.join(OUTPUT_DIR, `${job.id}-${job.fileName}`);
+    try {
+      await renderJob(job, project, settings, filePath);
+      const { size } = await stat(filePath);
+      updateJob(job, { status: "done", progress: 1, finishedAt: Date.now(), filePath, size });
+    } catch (error) {
+      updateJob(job, {
+        status: "failed",
+        finishedAt: Date.now(),
+        error: error instanceof Error ? error.message : "Failed to render video.",
+      });
+      await rm(filePath, { force: true });
+    }
+    const active = (state.activeByClient.get(clientKey) ?? 1) - 1;
+    if (active) state.activeByClient.set(clientKey, active);
+    else state.activeByClient.delete(clientKey);
+    expireJob(job);
+  }
+  state.isDraining = false;
+};
+
+/**
+ * Queues a render of `project` for `clientKey`. Jobs run one at a time, since
+ * each keeps a CPU core busy; throws ServerRenderError for projects the
+ * server can't draw and for clients that already have enough jobs waiting.
+ */
+export const enqueueServerRender = (
+  project: Project,
+  settings: ExportSettings,
+  clientKey: string,
+) => {
+  assertRenderable(project);
+  const active = state.activeByClient.get(clientKey) ?? 0;
+  if (active >= MAX_JOBS_PER_CLIENT) {
+    throw new ServerRenderError(
+      `Only ${MAX_JOBS_PER_CLIENT} renders can be waiting at once. Try again when one has finished.`,
+      429,
+    );
+  }
+  const baseName = getProjectFileName(project).replace(/\.storyforge\.json$/, "");
+  const job: ServerRenderJob = {
+    id: generateId(),
+    projectName: project.name,
+    format: settings.format,
+    status: "queued",
+    progress: 0,
+    queuedAt: Date.now(),
+    startedAt: null,
+    finishedAt: null,
+    error: null,
+    fileName: getExportFileName(settings.format, baseName),
+    filePath: null,
+    size: null,
+  };
+  state.jobs.set(job.id, job);
+  state.activeByClient.set(clientKey, active + 1);
+  state.pending.push({ job, project, settings, clientKey });
+  void drain();
+  return job;
+};
+
+export const getServerRenderJob = (jobId: string) => state.jobs.get(jobId) ?? null;
+
+/** What the API reports for a job: everything but the server's file path, plus where to poll and download. */
+export const toJobResponse = ({ filePath, ...job }: ServerRenderJob) => ({
+  ...job,
+  statusUrl: `/api/render/${job.id}`,
+  downloadUrl: filePath ? `/api/render/${job.id}/download` : null,
+});
@@ -0,0 +1,60 @@
+import { formatFileSize } from "../core/files";
+
+/** Raised for request bodies the API won't read; carries the status to answer with. */
+export class RequestBodyError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "RequestBodyError";
+    this.status = status;
+  }
+}
+
+const tooLarge = (maxBytes: number) =>
+  new RequestBodyError(`The request body is larger than ${formatFileSize(maxBytes)}.`, 413);
+
+const notJson = () => new RequestBodyError("The request body is not valid JSON.", 400);
+
+/**
+ * Reads and parses a JSON body, stopping as soon as it passes `maxBytes`
+ * so an oversized upload is never held in memory whole.
+ */
+export const readJsonBody = async (request: Request, maxBytes: number): Promise<unknown> => {
+  if (Number(request.headers.get("content-length")) > maxBytes) throw tooLarge(maxBytes);
+  if (!request.body) throw notJson();
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge(maxBytes);
+    }
+    chunks.push(chunk.value);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw notJson();
+  }
+};
+
+/**
+ * Whether a proxy in front of the app sets the forwarding headers. Without
+ * one, callers could put any address there, so set STORYFORGE_TRUST_PROXY=1
+ * only when every request comes through such a proxy.
+ */
+const TRUST_PROXY = process.env.STORYFORGE_TRUST_PROXY === "1";
+
+/**
+ * Who sent the request, for per-client limits. Behind a trusted proxy that is
+ * the address the proxy appended last; otherwise the app can't tell callers
+ * apart, so they all share one key and the limits apply to the whole server.
+ */
+export const getClientKey = (request: Request) => {
+  if (!TRUST_PROXY) return "direct";
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",").at(-1)?.trim();
+  return forwarded || request.headers.get("x-real-ip") || "direct";
+};
@@ -0,0 +1,125 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { countAssetUsage } from "../core/assets";
+import { generateId } from "../core/ids";
+import type { Project } from "../core/project";
+import { ProjectFileError, serializeProject } from "../core/project";
+import type { SharedProject } from "../core/sharing";
+import { SHARE_ID_PATTERN, getShareLinks } from "../core/sharing";
+
+/**
+ * Where shared projects are kept. Each is stored as its serialized project
+ * file, with a hash of the key that may update it beside it, so any backend
+ * that can save and load text under a key will do.
+ */
+export type SharedProjectStorage = {
+  /** Resolves to the stored file, or null if there is none. */
+  read: (shareId: string) => Promise<string | null>;
+  write: (shareId: string, contents: string) => Promise<void>;
+  /** Resolves to the owner key's hash, or null if there is none. */
+  readOwner: (shareId: string) => Promise<string | null>;
+  writeOwner: (shareId: string, keyHash: string) => Promise<void>;
+};
+
+/** Raised for shares the caller may not change; carries the status the route answers with. */
+export class SharedProjectError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "SharedProjectError";
+    this.status = status;
+  }
+}
+
+/** Keeps each project as `<id>.storyforge.json` in `directory`, and its owner key's hash as `<id>.owner`. */
+export const createFileSystemStorage = (directory: string): SharedProjectStorage => {
+  const readText = async (filePath: string) => {
+    try {
+      return await readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  };
+  const writeText = async (filePath: string, contents: string) => {
+    await mkdir(directory, { recursive: true });
+    // Written beside the file and renamed, so a reader never sees half a file.
+    const partPath = `${filePath}.${generateId()}.part`;
+    await writeFile(partPath, contents, "utf8");
+    await rename(partPath, filePath);
+  };
+  const getFilePath = (shareId: string) => path.join(directory, `${shareId}.storyforge.json`);
+  const getOwnerPath = (shareId: string) => path.join(directory, `${shareId}.owner`);
+  return {
+    read: (shareId) => readText(getFilePath(shareId)),
+    write: (shareId, contents) => writeText(getFilePath(shareId), contents),
+    readOwner: (shareId) => readText(getOwnerPath(shareId)),
+    writeOwner: (shareId, keyHash) => writeText(getOwnerPath(shareId), keyHash),
+  };
+};
+
+/** Shared projects embed their media and are kept indefinitely, so each is limited to this size. */
+export const MAX_SHARED_PROJECT_SIZE = 50 * 1024 * 1024;
+
+/** The directory for shared projects; set STORYFORGE_SHARE_DIR to keep them elsewhere. */
+const SHARE_DIR =
+  process.env.STORYFORGE_SHARE_DIR || path.join(process.cwd(), ".storyforge", "shared");
+
+// Kept on globalThis so every route, and dev-server reloads, use the same backend.
+const scope = globalThis as { storyforgeSharedStorage?: SharedProjectStorage };
+
+/** Replaces the storage backend, e.g. with a database or object store. */
+export const setSharedProjectStorage = (storage: SharedProjectStorage) => {
+  scope.storyforgeSharedStorage = storage;
+};
+
+const getStorage = () => (scope.storyforgeSharedStorage ??= createFileSystemStorage(SHARE_DIR));
+
+const hashKey = (ownerKey: string) => createHash("sha256").update(ownerKey).digest("hex");
+
+/** Library references only resolve in the editor that stored the files, so they are rejected. */
+const assertShareable = (project: Project) => {
+  if (countAssetUsage(project).size) {
+    throw new ProjectFileError(
+      "The project uses files from an editor's asset library. Export it from the editor so the files are embedded.",
+    );
+  }
+};
+
+/**
+ * Stores `project` under a new player link. The id is made here rather than
+ * taken from the project, whose id anyone holding the file knows; the owner
+ * key returned with it is needed to update the share and isn't kept.
+ */
+export const shareProject = async (project: Project): Promise<SharedProject> => {
+  assertShareable(project);
+  const shareId = generateId();
+  const ownerKey = randomBytes(32).toString("base64url");
+  const storage = getStorage();
+  await storage.writeOwner(shareId, hashKey(ownerKey));
+  await storage.write(shareId, serializeProject(project));
+  return { ...getShareLinks(shareId), ownerKey };
+};
+
+/** Replaces the project shared as `shareId`, if `ownerKey` is the key it was shared with. */
+export const updateSharedProject = async (shareId: string, ownerKey: string, project: Project) => {
+  const storage = getStorage();
+  const keyHash = SHARE_ID_PATTERN.test(shareId) ? await storage.readOwner(shareId) : null;
+  if (keyHash === null) throw new SharedProjectError("No shared project with that id.", 404);
+  const expected = Buffer.from(keyHash, "hex");
+  const given = Buffer.from(hashKey(ownerKey), "hex");
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    throw new SharedProjectError("That key can't update this shared project.", 403);
+  }
+  assertShareable(project);
+  await storage.write(shareId, serializeProject(project));
+  return getShareLinks(shareId);
+};
+
+/** The stored project file for `shareId`, or null if nothing was shared under it. */
+export const readSharedProject = async (shareId: string) => {
+  if (!SHARE_ID_PATTERN.test(shareId)) return null;
+  return getStorage().read(shareId);
+};